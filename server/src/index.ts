@@ -10,6 +10,7 @@ import { PrismaClient } from '@prisma/client';
 import authRoutes from './routes/auth';
 import organizationRoutes from './routes/organizations';
 import controlRoutes from './routes/controls';
+import branchingRuleRoutes from './routes/branchingRules';
 import assessmentRoutes from './routes/assessments';
 import remediationRoutes from './routes/remediation';
 import evidenceRoutes from './routes/evidence';
@@ -17,6 +18,9 @@ import trainingRoutes from './routes/training';
 import dashboardRoutes from './routes/dashboard';
 import auditLogRoutes from './routes/auditLog';
 import aiRoutes from './routes/ai';
+import notificationRoutes from './routes/notifications';
+import crosswalkRoutes from './routes/crosswalk';
+import { startAssessmentScheduler } from './services/assessmentSchedules';
 
 export const prisma = new PrismaClient();
 
@@ -45,6 +49,7 @@ app.get('/api/v1/health', (_req, res) => {
 app.use('/api/v1/auth', authRoutes);
 app.use('/api/v1/organizations', organizationRoutes);
 app.use('/api/v1/controls', controlRoutes);
+app.use('/api/v1/branching-rules', branchingRuleRoutes);
 app.use('/api/v1/assessments', assessmentRoutes);
 app.use('/api/v1/remediation', remediationRoutes);
 app.use('/api/v1/evidence', evidenceRoutes);
@@ -52,6 +57,8 @@ app.use('/api/v1/training', trainingRoutes);
 app.use('/api/v1/dashboard', dashboardRoutes);
 app.use('/api/v1/audit-log', auditLogRoutes);
 app.use('/api/v1/ai', aiRoutes);
+app.use('/api/v1/notifications', notificationRoutes);
+app.use('/api/v1/crosswalk', crosswalkRoutes);
 
 // Serve frontend static files in production
 if (process.env.NODE_ENV === 'production') {
@@ -79,6 +86,7 @@ async function main() {
     app.listen(PORT, () => {
       console.log(`Server running on port ${PORT}`);
     });
+    startAssessmentScheduler();
   } catch (error) {
     console.error('Failed to start server:', error);
     process.exit(1);
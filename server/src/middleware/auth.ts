@@ -25,7 +25,12 @@ export function authenticate(req: Request, res: Response, next: NextFunction): v
 
   const token = authHeader.split(' ')[1];
   try {
-    const decoded = jwt.verify(token, process.env.JWT_SECRET!) as JwtPayload;
+    const decoded = jwt.verify(token, process.env.JWT_SECRET!) as JwtPayload & { purpose?: string; aud?: unknown };
+    // Purpose-bound tokens (step-up) are not access tokens
+    if (decoded.purpose !== undefined || decoded.aud !== undefined) {
+      res.status(401).json({ error: 'Invalid or expired token', code: 'INVALID_TOKEN' });
+      return;
+    }
     req.user = decoded;
     next();
   } catch (err) {
@@ -33,6 +38,25 @@ export function authenticate(req: Request, res: Response, next: NextFunction): v
   }
 }
 
+export const STEP_UP_HEADER = 'x-step-up-token';
+/** Audience of step-up tokens, which `authenticate` never accepts as access tokens. */
+export const STEP_UP_AUDIENCE = 'step-up';
+
+/**
+ * Checks the short-lived token issued by POST /auth/step-up after the user
+ * re-entered their password. The token must belong to the authenticated user.
+ */
+export function hasValidStepUp(req: Request): boolean {
+  const token = req.headers[STEP_UP_HEADER];
+  if (!req.user || typeof token !== 'string') return false;
+  try {
+    const decoded = jwt.verify(token, process.env.JWT_SECRET!, { audience: STEP_UP_AUDIENCE }) as JwtPayload & { purpose?: string };
+    return decoded.purpose === 'step_up' && decoded.userId === req.user.userId;
+  } catch {
+    return false;
+  }
+}
+
 export function authorize(...allowedRoles: string[]) {
   return (req: Request, res: Response, next: NextFunction): void => {
     if (!req.user) {
@@ -1,6 +1,7 @@
 import { Router, Request, Response } from 'express';
 import { prisma } from '../index';
 import { authenticate } from '../middleware/auth';
+import { findVisibleControl } from '../services/customControls';
 import { generateRemediationGuidance, analyzeDocument, trainingChatbot, generatePolicyTemplate, generateGapNarrative } from '../services/aiService';
 
 const router = Router();
@@ -78,7 +79,7 @@ router.post('/analyze-document', authenticate, async (req: Request, res: Respons
       return;
     }
 
-    const control = await prisma.control.findUnique({ where: { id: controlId } });
+    const control = await findVisibleControl(controlId, req.user!.orgId);
     if (!control) {
       res.status(404).json({ error: 'Control not found', code: 'NOT_FOUND' });
       return;
@@ -154,7 +155,7 @@ router.post('/policy-template', authenticate, async (req: Request, res: Response
   try {
     const { controlId } = req.body;
 
-    const control = await prisma.control.findUnique({ where: { id: controlId } });
+    const control = await findVisibleControl(controlId, req.user!.orgId);
     if (!control) {
       res.status(404).json({ error: 'Control not found', code: 'NOT_FOUND' });
       return;
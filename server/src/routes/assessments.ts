@@ -1,17 +1,63 @@
 import { Router, Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
 import { prisma } from '../index';
-import { authenticate, authorize, ROLES } from '../middleware/auth';
-import { evaluateBranchingRules, isControlApplicable, isHealthOrg } from '../services/branchingRules';
-import { calculateScores, getPointsForAnswer, getDefaultDeadlineDays } from '../services/scoring';
+import { authenticate, authorize, hasValidStepUp, ROLES, DPO_AND_ABOVE } from '../middleware/auth';
+import { evaluateOrgBranching, getApplicableControls } from '../services/branchingRules';
+import { validateForFinalization } from '../services/finalizationValidation';
+import { calculateScores, toControlScores } from '../services/scoring';
+import { getOrCreateReport, regenerateReports, ReportFormat } from '../services/reportGenerator';
+import { getSigningPublicKeyPem } from '../services/auditPackage';
+import { compareAssessments } from '../services/assessmentComparison';
+import { openAssessmentVersion, ASSESSMENT_MODES } from '../services/assessmentVersions';
+import { getResponseHistory } from '../services/responseHistory';
+import { addReviewComment, getOpenChangeRequests, COMMENT_KINDS, CommentKind } from '../services/reviewComments';
+import { notifyUsers } from '../services/notifications';
+import { assigneeLabel, assignmentFor, getAssignmentProgress, getMyQuestions, loadAssignments } from '../services/assignments';
+import { submitResponse } from '../services/responseSubmission';
+import { previewScores, changesForClosingTasks, AnswerChange } from '../services/scorePreview';
+import { explainScore } from '../services/scoreExplanation';
+import { getMaturityGaps } from '../services/maturityGaps';
+import { deriveFrameworkCompliance } from '../services/crosswalk';
+import { FRAMEWORKS, isFramework } from '../services/crosswalkReferences';
+import { resolveScope, sameScope } from '../services/assessmentScope';
+import { buildControlSnapshot, frozenControl, withControlSnapshot } from '../services/controlSnapshot';
+import { amendedControlIds, applyAmendment, findOpenAmendment, parseProposedChanges, MIN_AMENDMENT_REASON_LENGTH } from '../services/amendments';
+import { pendingReleases } from '../services/controlLibrary';
+import { isOnPinnedRelease, loadLibraryPin, pinnedControl, withLibraryPin } from '../services/libraryPin';
+import { findVisibleControl, visibleControlsWhere } from '../services/customControls';
+import { exportAssessmentResults } from '../services/oscal';
+import { buildResponseSheet, parseResponseSheet, SheetFormat } from '../services/responseSpreadsheet';
 import { logAudit, getClientIp } from '../utils/auditLogger';
-import { addDays } from 'date-fns';
+import multer from 'multer';
+import path from 'path';
 
 const router = Router();
 
+const IMPORT_EXTENSIONS: Record<string, SheetFormat> = { '.xlsx': 'xlsx', '.csv': 'csv' };
+
+const sheetUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 5 * 1024 * 1024 },
+  fileFilter: (_req, file, cb) => {
+    const ext = path.extname(file.originalname).toLowerCase();
+    if (IMPORT_EXTENSIONS[ext]) {
+      cb(null, true);
+    } else {
+      cb(new Error(`File type ${ext} not allowed. Allowed: .xlsx, .csv`));
+    }
+  },
+});
+
 // POST /assessments — Create new assessment
 router.post('/', authenticate, authorize(ROLES.ORG_ADMIN, ROLES.DPO, ROLES.COMPLIANCE_OFFICER), async (req: Request, res: Response) => {
   try {
     const orgId = req.user!.orgId;
+    const carryForward = req.body?.carryForward === true;
+    const mode = req.body?.mode || 'STANDARD';
+    if (!ASSESSMENT_MODES.includes(mode)) {
+      res.status(400).json({ error: `Invalid mode. Must be one of: ${ASSESSMENT_MODES.join(', ')}`, code: 'VALIDATION_ERROR' });
+      return;
+    }
 
     const org = await prisma.organization.findUnique({ where: { id: orgId } });
     if (!org || !org.onboardingCompleted) {
@@ -19,30 +65,20 @@ router.post('/', authenticate, authorize(ROLES.ORG_ADMIN, ROLES.DPO, ROLES.COMPL
       return;
     }
 
-    // Get latest version
-    const latestAssessment = await prisma.assessment.findFirst({
-      where: { orgId, isDeleted: false },
-      orderBy: { assessmentVersion: 'desc' },
-    });
-
-    const newVersion = latestAssessment ? latestAssessment.assessmentVersion + 1 : 1;
-
-    // Archive previous if exists
-    if (latestAssessment && latestAssessment.status !== 'ARCHIVED') {
-      await prisma.assessment.update({
-        where: { id: latestAssessment.id },
-        data: { status: 'ARCHIVED' },
-      });
+    // Scoped assessments (region, facility, department) run in parallel with each other and the org-wide one
+    const scope = await resolveScope(org, req.body || {});
+    if ('error' in scope) {
+      res.status(400).json({ error: scope.error, code: 'VALIDATION_ERROR' });
+      return;
     }
 
-    const assessment = await prisma.assessment.create({
-      data: {
-        orgId,
-        assessmentVersion: newVersion,
-        status: 'DRAFT',
-        createdBy: req.user!.userId,
-      },
-    });
+    // New version within the scope; carry-forward reads the scope's last finalized assessment
+    const opened = await openAssessmentVersion({ orgId, scope, mode, userId: req.user!.userId, carryForward });
+    if ('error' in opened) {
+      res.status(opened.code === 'NO_FINALIZED_ASSESSMENT' ? 400 : 409).json({ error: opened.error, code: opened.code });
+      return;
+    }
+    const { assessment, carriedForward } = opened;
 
     await logAudit({
       orgId,
@@ -50,12 +86,12 @@ router.post('/', authenticate, authorize(ROLES.ORG_ADMIN, ROLES.DPO, ROLES.COMPL
       action: 'ASSESSMENT_CREATED',
       entityType: 'assessment',
       entityId: assessment.id,
-      newValue: { version: newVersion },
+      newValue: { version: assessment.assessmentVersion, mode, ...scope, carriedForward },
       ipAddress: getClientIp(req),
       userAgent: req.headers['user-agent'],
     });
 
-    res.status(201).json(assessment);
+    res.status(201).json({ ...assessment, carriedForward });
   } catch (error) {
     console.error('Create assessment error:', error);
     res.status(500).json({ error: 'Failed to create assessment', code: 'INTERNAL_ERROR' });
@@ -65,9 +101,11 @@ router.post('/', authenticate, authorize(ROLES.ORG_ADMIN, ROLES.DPO, ROLES.COMPL
 // GET /assessments — List org assessments
 router.get('/', authenticate, async (req: Request, res: Response) => {
   try {
-    const { status } = req.query;
+    const { status, scopeType, facilityId } = req.query;
     const where: any = { orgId: req.user!.orgId, isDeleted: false };
     if (status) where.status = status;
+    if (scopeType) where.scopeType = scopeType;
+    if (facilityId) where.facilityId = facilityId;
 
     const assessments = await prisma.assessment.findMany({
       where,
@@ -75,6 +113,7 @@ router.get('/', authenticate, async (req: Request, res: Response) => {
       include: {
         createdByUser: { select: { firstName: true, lastName: true, email: true } },
         finalizedByUser: { select: { firstName: true, lastName: true, email: true } },
+        facility: { select: { id: true, name: true, region: true } },
         _count: { select: { responses: true } },
       },
     });
@@ -85,6 +124,73 @@ router.get('/', authenticate, async (req: Request, res: Response) => {
   }
 });
 
+// GET /assessments/audit-signing-key — Public key for verifying audit package signatures
+router.get('/audit-signing-key', authenticate, async (_req: Request, res: Response) => {
+  try {
+    res.json({ algorithm: 'Ed25519', publicKeyPem: getSigningPublicKeyPem() });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to get signing key', code: 'INTERNAL_ERROR' });
+  }
+});
+
+// GET /assessments/compare?base=&target= — Diff two assessment versions
+router.get('/compare', authenticate, async (req: Request, res: Response) => {
+  try {
+    const orgId = req.user!.orgId;
+    const targetId = req.query.target ? String(req.query.target) : null;
+    if (!targetId) {
+      res.status(400).json({ error: 'target assessment ID is required', code: 'VALIDATION_ERROR' });
+      return;
+    }
+
+    let baseId = req.query.base ? String(req.query.base) : null;
+    if (!baseId) {
+      // Default to the version immediately preceding the target in the same scope
+      const target = await prisma.assessment.findFirst({ where: { id: targetId, orgId, isDeleted: false } });
+      if (!target) {
+        res.status(404).json({ error: 'Assessment not found', code: 'NOT_FOUND' });
+        return;
+      }
+      const previous = await prisma.assessment.findFirst({
+        where: { orgId, isDeleted: false, assessmentVersion: { lt: target.assessmentVersion }, ...sameScope(target) },
+        orderBy: { assessmentVersion: 'desc' },
+      });
+      if (!previous) {
+        res.status(400).json({ error: 'No earlier assessment to compare against', code: 'NO_BASELINE' });
+        return;
+      }
+      baseId = previous.id;
+    }
+
+    if (baseId === targetId) {
+      res.status(400).json({ error: 'Choose two different assessments to compare', code: 'VALIDATION_ERROR' });
+      return;
+    }
+
+    const comparison = await compareAssessments(baseId, targetId, orgId);
+    if (!comparison) {
+      res.status(404).json({ error: 'Assessment not found', code: 'NOT_FOUND' });
+      return;
+    }
+
+    res.json(comparison);
+  } catch (error) {
+    console.error('Compare assessments error:', error);
+    res.status(500).json({ error: 'Failed to compare assessments', code: 'INTERNAL_ERROR' });
+  }
+});
+
+// GET /assessments/my-questions — Controls delegated to the current user on open assessments
+router.get('/my-questions', authenticate, async (req: Request, res: Response) => {
+  try {
+    const questions = await getMyQuestions({ userId: req.user!.userId, role: req.user!.role }, req.user!.orgId);
+    res.json({ data: questions, total: questions.length, unanswered: questions.filter(q => !q.answer).length });
+  } catch (error) {
+    console.error('My questions error:', error);
+    res.status(500).json({ error: 'Failed to get assigned questions', code: 'INTERNAL_ERROR' });
+  }
+});
+
 // GET /assessments/:id — Assessment detail
 router.get('/:id', authenticate, async (req: Request, res: Response) => {
   try {
@@ -94,6 +200,7 @@ router.get('/:id', authenticate, async (req: Request, res: Response) => {
         responses: { include: { control: true } },
         createdByUser: { select: { firstName: true, lastName: true, email: true } },
         finalizedByUser: { select: { firstName: true, lastName: true, email: true } },
+        facility: { select: { id: true, name: true, region: true } },
       },
     });
 
@@ -104,31 +211,25 @@ router.get('/:id', authenticate, async (req: Request, res: Response) => {
 
     // Get org for branching
     const org = await prisma.organization.findUnique({ where: { id: req.user!.orgId } });
-    const profile = {
-      orgType: org!.orgType,
-      processesMinors: org!.processesMinors,
-      crossBorderTransfers: org!.crossBorderTransfers,
-      usesCloud: org!.usesCloud,
-      conductsResearch: org!.conductsResearch,
-      usesAiOrAutomatedDecisions: org!.usesAiOrAutomatedDecisions,
-      continuousMonitoring: org!.continuousMonitoring,
-    };
-    const branchingResult = evaluateBranchingRules(profile);
+    const { branchingResult, controls: applicableControls, pin } = await getApplicableControls(org!);
 
     // Calculate progress
-    const allControls = await prisma.control.findMany();
-    const applicableControls = allControls.filter(c =>
-      isControlApplicable(c.id, c.conditionalOn, profile, branchingResult)
-    );
-    const answeredCount = (assessment as any).responses.length;
+    const answeredCount = assessment.responses.length;
+    const reconfirmationPending = assessment.responses.filter(r => r.needsReconfirmation).length;
+    const openReviewItems = await prisma.reviewComment.count({
+      where: { assessmentId: assessment.id, kind: 'CHANGE_REQUEST', status: 'OPEN' },
+    });
     const totalApplicable = applicableControls.length;
     const progress = totalApplicable > 0 ? Math.round((answeredCount / totalApplicable) * 100) : 0;
 
     res.json({
       ...assessment,
+      responses: withControlSnapshot(withLibraryPin(assessment.responses, pin), assessment.controlSnapshot),
       progress,
       totalApplicable,
       answeredCount,
+      reconfirmationPending,
+      openReviewItems,
       branchingResult,
     });
   } catch (error) {
@@ -136,17 +237,33 @@ router.get('/:id', authenticate, async (req: Request, res: Response) => {
   }
 });
 
+// GET /assessments/:id/cascades — Active cross-control cascade flags
+router.get('/:id/cascades', authenticate, async (req: Request, res: Response) => {
+  try {
+    const assessment = await prisma.assessment.findFirst({
+      where: { id: String(req.params.id), orgId: req.user!.orgId, isDeleted: false },
+    });
+    if (!assessment) {
+      res.status(404).json({ error: 'Assessment not found', code: 'NOT_FOUND' });
+      return;
+    }
+
+    const flags = await prisma.cascadeFlag.findMany({
+      where: { assessmentId: assessment.id, resolvedAt: null },
+      orderBy: { createdAt: 'asc' },
+    });
+    res.json({ data: flags, total: flags.length });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to get cascade flags', code: 'INTERNAL_ERROR' });
+  }
+});
+
 // PUT /assessments/:id/responses/:controlId — Submit or update control response
 router.put('/:id/responses/:controlId', authenticate, async (req: Request, res: Response) => {
   try {
     const assessmentId = String(req.params.id);
     const controlId = String(req.params.controlId);
-    const { answer, naJustification, notes } = req.body;
-
-    if (!['YES', 'PARTIAL', 'NO', 'NA'].includes(answer)) {
-      res.status(400).json({ error: 'Invalid answer. Must be YES, PARTIAL, NO, or NA', code: 'VALIDATION_ERROR' });
-      return;
-    }
+    const { answer, maturityLevel, naJustification, notes } = req.body;
 
     // Verify assessment is DRAFT
     const assessment = await prisma.assessment.findFirst({
@@ -156,229 +273,1171 @@ router.put('/:id/responses/:controlId', authenticate, async (req: Request, res:
       res.status(404).json({ error: 'Assessment not found', code: 'NOT_FOUND' });
       return;
     }
-    if (assessment.status !== 'DRAFT' && assessment.status !== 'IN_REVIEW') {
+    // An approved amendment only reopens the controls it proposed to change
+    const amendment = assessment.status === 'AMENDING' ? await findOpenAmendment(assessment.id) : null;
+    if (assessment.status === 'AMENDING') {
+      if (!amendment || amendment.status !== 'APPROVED' || !amendedControlIds(amendment).includes(controlId)) {
+        res.status(400).json({ error: 'This control is not part of the approved amendment', code: 'ASSESSMENT_LOCKED' });
+        return;
+      }
+    } else if (assessment.status !== 'DRAFT' && assessment.status !== 'IN_REVIEW') {
       res.status(400).json({ error: 'Assessment is not editable', code: 'ASSESSMENT_LOCKED' });
       return;
     }
 
-    // Get control
-    const control = await prisma.control.findUnique({ where: { id: String(controlId) } });
-    if (!control) {
+    // Get org profile for validation, and the library release it is on
+    const org = await prisma.organization.findUnique({ where: { id: req.user!.orgId } });
+    const pin = await loadLibraryPin(org!);
+
+    // Get control (as defined by the org's release, or as frozen at finalization when amending)
+    const liveControl = await findVisibleControl(String(controlId), req.user!.orgId);
+    if (!liveControl) {
       res.status(404).json({ error: 'Control not found', code: 'NOT_FOUND' });
       return;
     }
+    if (assessment.status !== 'AMENDING' && !isOnPinnedRelease(liveControl, pin)) {
+      res.status(400).json({ error: `Control ${liveControl.id} is not in library ${pin!.version}; the DPO must accept the newer release first`, code: 'LIBRARY_UPGRADE_PENDING' });
+      return;
+    }
+    const releasedControl = pinnedControl(liveControl, liveControl.id, pin);
+    if (releasedControl.retiredAt && assessment.status !== 'AMENDING') {
+      const retiredBy = releasedControl.orgId ? 'by your organization' : `in library ${releasedControl.libraryVersion}`;
+      res.status(400).json({ error: `Control ${releasedControl.id} was retired ${retiredBy}`, code: 'CONTROL_RETIRED' });
+      return;
+    }
+    const control = frozenControl(releasedControl, releasedControl.id, assessment.controlSnapshot);
 
-    // Get org profile for validation
-    const org = await prisma.organization.findUnique({ where: { id: req.user!.orgId } });
+    const result = await submitResponse({
+      orgId: req.user!.orgId,
+      userId: req.user!.userId,
+      role: req.user!.role,
+      assessmentId,
+      assessmentMode: assessment.mode,
+      branchingResult: await evaluateOrgBranching(org!, pin),
+      pin,
+      controlSnapshot: assessment.controlSnapshot,
+      amendedControlIds: amendment ? amendedControlIds(amendment) : null,
+      changeSource: assessment.status === 'AMENDING' ? 'AMENDMENT' : 'MANUAL',
+    }, control, { answer, maturityLevel, naJustification, notes });
+    if (!result.ok) {
+      res.status(result.rejection.status).json({ error: result.rejection.error, code: result.rejection.code });
+      return;
+    }
+    const { response, previous, pointsEarned, cascade } = result;
 
-    // Rule 4: No N/A for mandatory health org controls
-    const mandatoryControls = ['PDPL-C.1', 'PDPL-G.1', 'HS-PDPL-001', 'HS-PDPL-002', 'HS-PDPL-003'];
-    if (answer === 'NA' && mandatoryControls.includes(String(controlId)) && isHealthOrg(org!.orgType)) {
-      res.status(400).json({
-        error: 'This control is mandatory for healthcare organizations and cannot be marked as N/A',
-        code: 'MANDATORY_CONTROL',
+    await logAudit({
+      orgId: req.user!.orgId,
+      userId: req.user!.userId,
+      action: 'RESPONSE_SUBMITTED',
+      entityType: 'response',
+      entityId: response.id,
+      oldValue: previous ? { answer: previous.answer } : null,
+      newValue: { controlId: String(controlId), answer: response.answer, maturityLevel: response.maturityLevel, pointsEarned },
+      ipAddress: getClientIp(req),
+      userAgent: req.headers['user-agent'],
+    });
+
+    if (cascade.triggered.length > 0 || cascade.resolved.length > 0 || cascade.skipped.length > 0) {
+      await logAudit({
+        orgId: req.user!.orgId,
+        userId: req.user!.userId,
+        action: 'CASCADE_APPLIED',
+        entityType: 'assessment',
+        entityId: assessmentId,
+        newValue: { parentControlId: controlId, answer: response.answer, ...cascade },
+        ipAddress: getClientIp(req),
+        userAgent: req.headers['user-agent'],
       });
+    }
+
+    res.json({ ...response, cascade });
+  } catch (error) {
+    console.error('Submit response error:', error);
+    res.status(500).json({ error: 'Failed to submit response', code: 'INTERNAL_ERROR' });
+  }
+});
+
+// GET /assessments/:id/responses/:controlId/history — Answer timeline for a control
+router.get('/:id/responses/:controlId/history', authenticate, async (req: Request, res: Response) => {
+  try {
+    const assessment = await prisma.assessment.findFirst({
+      where: { id: String(req.params.id), orgId: req.user!.orgId, isDeleted: false },
+      select: { id: true },
+    });
+    if (!assessment) {
+      res.status(404).json({ error: 'Assessment not found', code: 'NOT_FOUND' });
       return;
     }
+    const revisions = await getResponseHistory(assessment.id, String(req.params.controlId));
+    res.json({ data: revisions, total: revisions.length });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to get response history', code: 'INTERNAL_ERROR' });
+  }
+});
 
-    // N/A requires justification
-    if (answer === 'NA' && (!naJustification || naJustification.length < 20)) {
-      res.status(400).json({
-        error: 'N/A justification required (minimum 20 characters)',
-        code: 'JUSTIFICATION_REQUIRED',
-      });
+// GET /assessments/:id/responses/export?format=xlsx|csv — Offline answer sheet of applicable controls
+router.get('/:id/responses/export', authenticate, async (req: Request, res: Response) => {
+  try {
+    const format = String(req.query.format || 'xlsx') as SheetFormat;
+    if (!['xlsx', 'csv'].includes(format)) {
+      res.status(400).json({ error: 'Invalid format. Must be xlsx or csv', code: 'VALIDATION_ERROR' });
       return;
     }
 
-    const pointsEarned = getPointsForAnswer(answer, control.pointsYes, control.pointsPartial);
+    const assessment = await prisma.assessment.findFirst({
+      where: { id: String(req.params.id), orgId: req.user!.orgId, isDeleted: false },
+      include: { responses: true },
+    });
+    if (!assessment) {
+      res.status(404).json({ error: 'Assessment not found', code: 'NOT_FOUND' });
+      return;
+    }
+
+    const org = await prisma.organization.findUnique({ where: { id: req.user!.orgId } });
+    const { branchingResult, controls } = await getApplicableControls(org!);
+    const buffer = await buildResponseSheet(controls, assessment.responses, branchingResult.mandatoryControls, format, assessment.mode);
 
-    const existingResponse = await prisma.response.findUnique({
-      where: { assessmentId_controlId: { assessmentId: String(assessmentId), controlId: String(controlId) } },
+    await logAudit({
+      orgId: req.user!.orgId,
+      userId: req.user!.userId,
+      action: 'RESPONSES_EXPORTED',
+      entityType: 'assessment',
+      entityId: assessment.id,
+      newValue: { format, controls: controls.length },
+      ipAddress: getClientIp(req),
+      userAgent: req.headers['user-agent'],
     });
 
-    let response;
-    if (existingResponse) {
-      response = await prisma.response.update({
-        where: { id: existingResponse.id },
-        data: {
-          answer,
-          naJustification: answer === 'NA' ? naJustification : null,
-          pointsEarned,
-          notes,
-          lastModifiedBy: req.user!.userId,
-          lastModifiedAt: new Date(),
-        },
-      });
-    } else {
-      response = await prisma.response.create({
-        data: {
-          assessmentId: String(assessmentId),
-          controlId: String(controlId),
-          answer,
-          naJustification: answer === 'NA' ? naJustification : null,
-          pointsEarned,
-          notes,
-          answeredBy: req.user!.userId,
-        },
-      });
+    res.setHeader('Content-Type', format === 'csv'
+      ? 'text/csv'
+      : 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    res.setHeader('Content-Disposition', `attachment; filename="assessment-v${assessment.assessmentVersion}-responses.${format}"`);
+    res.send(buffer);
+  } catch (error) {
+    console.error('Export responses error:', error);
+    res.status(500).json({ error: 'Failed to export responses', code: 'INTERNAL_ERROR' });
+  }
+});
+
+// POST /assessments/:id/responses/import — Apply answers from an xlsx/csv sheet, reporting per-row errors
+router.post('/:id/responses/import', authenticate, sheetUpload.single('file'), async (req: Request, res: Response) => {
+  try {
+    if (!req.file) {
+      res.status(400).json({ error: 'No file provided', code: 'VALIDATION_ERROR' });
+      return;
+    }
+
+    const assessmentId = String(req.params.id);
+    const assessment = await prisma.assessment.findFirst({
+      where: { id: assessmentId, orgId: req.user!.orgId, isDeleted: false },
+    });
+    if (!assessment) {
+      res.status(404).json({ error: 'Assessment not found', code: 'NOT_FOUND' });
+      return;
+    }
+    if (assessment.status !== 'DRAFT' && assessment.status !== 'IN_REVIEW') {
+      res.status(400).json({ error: 'Assessment is not editable', code: 'ASSESSMENT_LOCKED' });
+      return;
     }
 
-    // Rule 7: G.3 answered NO → cascade gaps
-    if (controlId === 'PDPL-G.3' && answer === 'NO') {
-      // Auto-flag G.12 and D.5
-      console.log('DPIA not conducted — G.12 and D.5 cascade gaps flagged');
+    let rows;
+    try {
+      rows = await parseResponseSheet(req.file.buffer, IMPORT_EXTENSIONS[path.extname(req.file.originalname).toLowerCase()]);
+    } catch (err: any) {
+      res.status(400).json({ error: err.message || 'Unreadable spreadsheet', code: 'INVALID_FILE' });
+      return;
     }
 
-    // Auto-create remediation task for NO or PARTIAL
-    if (answer === 'NO' || answer === 'PARTIAL') {
-      const existingTask = await prisma.remediationTask.findFirst({
-        where: { assessmentId: String(assessmentId), controlId: String(controlId), orgId: req.user!.orgId, isDeleted: false },
-      });
+    const org = await prisma.organization.findUnique({ where: { id: req.user!.orgId } });
+    const { branchingResult, controls, pin } = await getApplicableControls(org!);
+    const controlMap = new Map(controls.map(c => [c.id, c]));
+    const ctx = {
+      orgId: req.user!.orgId,
+      userId: req.user!.userId,
+      role: req.user!.role,
+      assessmentId,
+      assessmentMode: assessment.mode,
+      branchingResult,
+      pin,
+      controlSnapshot: assessment.controlSnapshot,
+      amendedControlIds: null,
+      changeSource: 'IMPORT' as const,
+    };
 
-      if (!existingTask) {
-        const deadlineDays = getDefaultDeadlineDays(control.riskLevel);
-        await prisma.remediationTask.create({
-          data: {
-            orgId: req.user!.orgId,
-            assessmentId: String(assessmentId),
-            controlId: String(controlId),
-            gapType: answer === 'NO' ? 'GAP' : 'PARTIAL',
-            riskLevel: control.riskLevel,
-            title: `Implement: ${control.objectiveEn.substring(0, 200)}`,
-            status: 'OPEN',
-            legalBasis: [control.regArticles, control.transferRegArticles, control.ncaRef, control.mohPolicyRef].filter(Boolean).join(' | '),
-            evidenceRequired: control.evidenceGuidanceEn ? [control.evidenceGuidanceEn] : [],
-            responsibleRole: control.responsibleRoles?.[0] || null,
-            deadline: addDays(new Date(), deadlineDays),
-            evidenceRequiredForClosure: control.riskLevel === 'CRITICAL' || control.riskLevel === 'HIGH',
-          },
-        });
+    // Rows are applied in file order so cascades from earlier rows cap later ones
+    const errors: { row: number; controlId: string; code: string; error: string }[] = [];
+    const seen = new Set<string>();
+    let applied = 0;
+    let unchanged = 0;
+    for (const row of rows) {
+      const control = controlMap.get(row.controlId);
+      if (!control) {
+        errors.push({ row: row.row, controlId: row.controlId, code: 'NOT_APPLICABLE', error: 'Control does not exist or is not applicable to this organization' });
+        continue;
       }
-    }
+      if (seen.has(control.id)) {
+        errors.push({ row: row.row, controlId: control.id, code: 'DUPLICATE_ROW', error: 'Control appears more than once in the file' });
+        continue;
+      }
+      seen.add(control.id);
 
-    // T.8 auto-alert: if T.8 sub-question answered YES
-    if (String(controlId).startsWith('PDPL-T.8') && answer === 'YES') {
-      await prisma.remediationTask.create({
-        data: {
-          orgId: req.user!.orgId,
-          assessmentId: String(assessmentId),
-          controlId: String(controlId),
-          gapType: 'GAP',
-          riskLevel: 'CRITICAL',
-          title: `URGENT: Transfer suspension required — ${controlId}`,
-          status: 'OPEN',
-          legalBasis: 'Transfer Reg. Art. 7',
-          deadline: new Date(),
-          evidenceRequiredForClosure: true,
-        },
+      const result = await submitResponse(ctx, control, {
+        answer: row.answer,
+        maturityLevel: row.maturityLevel,
+        naJustification: row.naJustification || null,
+        notes: row.notes || null,
       });
+      if (!result.ok) {
+        errors.push({ row: row.row, controlId: control.id, code: result.rejection.code, error: result.rejection.error });
+        continue;
+      }
+      if (result.previous && result.previous.answer === result.response.answer && result.previous.maturityLevel === result.response.maturityLevel) unchanged++;
+      else applied++;
     }
 
     await logAudit({
       orgId: req.user!.orgId,
       userId: req.user!.userId,
-      action: 'RESPONSE_SUBMITTED',
-      entityType: 'response',
-      entityId: response.id,
-      oldValue: existingResponse ? { answer: existingResponse.answer } : null,
-      newValue: { controlId: String(controlId), answer, pointsEarned },
+      action: 'RESPONSES_IMPORTED',
+      entityType: 'assessment',
+      entityId: assessmentId,
+      newValue: { fileName: req.file.originalname, rows: rows.length, applied, unchanged, failed: errors.length },
       ipAddress: getClientIp(req),
       userAgent: req.headers['user-agent'],
     });
 
-    res.json(response);
+    res.json({ rows: rows.length, applied, unchanged, failed: errors.length, errors });
   } catch (error) {
-    console.error('Submit response error:', error);
-    res.status(500).json({ error: 'Failed to submit response', code: 'INTERNAL_ERROR' });
+    console.error('Import responses error:', error);
+    res.status(500).json({ error: 'Failed to import responses', code: 'INTERNAL_ERROR' });
   }
 });
 
-// POST /assessments/:id/finalize — Finalize assessment (DPO only)
-router.post('/:id/finalize', authenticate, authorize(ROLES.DPO, ROLES.ORG_ADMIN), async (req: Request, res: Response) => {
+// GET /assessments/:id/assignments — Delegations with progress per assignee and domain
+router.get('/:id/assignments', authenticate, async (req: Request, res: Response) => {
   try {
     const assessment = await prisma.assessment.findFirst({
       where: { id: String(req.params.id), orgId: req.user!.orgId, isDeleted: false },
-      include: { responses: { include: { control: true } } },
+      select: { id: true },
     });
-
     if (!assessment) {
       res.status(404).json({ error: 'Assessment not found', code: 'NOT_FOUND' });
       return;
     }
+    const [assignments, progress] = await Promise.all([
+      loadAssignments(assessment.id),
+      getAssignmentProgress(assessment.id, req.user!.orgId),
+    ]);
+    res.json({
+      data: assignments.map(a => ({ ...a, assigneeLabel: assigneeLabel(a) })),
+      total: assignments.length,
+      progress,
+    });
+  } catch (error) {
+    console.error('Get assignments error:', error);
+    res.status(500).json({ error: 'Failed to get assignments', code: 'INTERNAL_ERROR' });
+  }
+});
+
+// POST /assessments/:id/assignments — Assign a domain or control to a user or role
+router.post('/:id/assignments', authenticate, authorize(...DPO_AND_ABOVE), async (req: Request, res: Response) => {
+  try {
+    const { scope, domainNumber, controlId, assigneeUserId, assigneeRole, dueDate } = req.body;
+
+    if (scope !== 'DOMAIN' && scope !== 'CONTROL') {
+      res.status(400).json({ error: 'scope must be DOMAIN or CONTROL', code: 'VALIDATION_ERROR' });
+      return;
+    }
+    if (!assigneeUserId === !assigneeRole) {
+      res.status(400).json({ error: 'Provide exactly one of assigneeUserId or assigneeRole', code: 'VALIDATION_ERROR' });
+      return;
+    }
+    if (dueDate && isNaN(new Date(dueDate).getTime())) {
+      res.status(400).json({ error: 'Invalid dueDate', code: 'VALIDATION_ERROR' });
+      return;
+    }
 
+    const assessment = await prisma.assessment.findFirst({
+      where: { id: String(req.params.id), orgId: req.user!.orgId, isDeleted: false },
+    });
+    if (!assessment) {
+      res.status(404).json({ error: 'Assessment not found', code: 'NOT_FOUND' });
+      return;
+    }
     if (assessment.status !== 'DRAFT' && assessment.status !== 'IN_REVIEW') {
-      res.status(400).json({ error: 'Assessment cannot be finalized from current status', code: 'INVALID_STATUS' });
+      res.status(400).json({ error: 'Assessment is not editable', code: 'ASSESSMENT_LOCKED' });
       return;
     }
 
-    // Calculate scores
-    const controlScores = (assessment as any).responses.map((r: any) => ({
-      controlId: r.controlId,
-      domainNumber: r.control.domainNumber,
-      riskLevel: r.control.riskLevel,
-      answer: r.answer,
-      pointsYes: r.control.pointsYes,
-      pointsPartial: r.control.pointsPartial,
-      pointsEarned: r.pointsEarned,
-      weightMultiplier: Number(r.control.weightMultiplier),
-    }));
+    let target: { domainNumber: number | null; controlId: string | null; label: string };
+    if (scope === 'DOMAIN') {
+      const inDomain = await prisma.control.findFirst({ where: { domainNumber: Number(domainNumber), ...visibleControlsWhere(req.user!.orgId) } });
+      if (!inDomain) {
+        res.status(404).json({ error: 'Domain not found', code: 'NOT_FOUND' });
+        return;
+      }
+      target = { domainNumber: inDomain.domainNumber, controlId: null, label: `Domain ${inDomain.domainNumber}: ${inDomain.domainName}` };
+    } else {
+      const control = await findVisibleControl(String(controlId), req.user!.orgId);
+      if (!control) {
+        res.status(404).json({ error: 'Control not found', code: 'NOT_FOUND' });
+        return;
+      }
+      target = { domainNumber: null, controlId: control.id, label: control.id };
+    }
 
-    const scores = calculateScores(controlScores);
+    let recipients: string[];
+    if (assigneeUserId) {
+      const assignee = await prisma.user.findFirst({
+        where: { id: String(assigneeUserId), orgId: req.user!.orgId, isActive: true, isDeleted: false },
+      });
+      if (!assignee) {
+        res.status(404).json({ error: 'Assignee not found', code: 'NOT_FOUND' });
+        return;
+      }
+      recipients = [assignee.id];
+    } else {
+      if (!(Object.values(ROLES) as string[]).includes(assigneeRole)) {
+        res.status(400).json({ error: 'Unknown role', code: 'VALIDATION_ERROR' });
+        return;
+      }
+      const roleUsers = await prisma.user.findMany({
+        where: { orgId: req.user!.orgId, role: assigneeRole, isActive: true, isDeleted: false },
+        select: { id: true },
+      });
+      recipients = roleUsers.map(u => u.id);
+    }
 
-    const updated = await prisma.assessment.update({
-      where: { id: assessment.id },
-      data: {
-        status: 'FINALIZED',
-        overallScore: scores.overallScore,
-        totalControlsAssessed: scores.totalControlsAssessed,
-        criticalGaps: scores.criticalGaps,
-        highGaps: scores.highGaps,
-        mediumGaps: scores.mediumGaps,
-        lowGaps: scores.lowGaps,
-        domainScores: scores.domainScores as any,
-        finalizedBy: req.user!.userId,
-        finalizedAt: new Date(),
-      },
+    // One assignment per target: re-assigning replaces the previous delegation
+    const previous = await prisma.assessmentAssignment.findFirst({
+      where: { assessmentId: assessment.id, scope, domainNumber: target.domainNumber, controlId: target.controlId },
     });
+    const data = {
+      assigneeUserId: assigneeUserId || null,
+      assigneeRole: assigneeUserId ? null : assigneeRole,
+      dueDate: dueDate ? new Date(dueDate) : null,
+      assignedBy: req.user!.userId,
+    };
+    const assignment = previous
+      ? await prisma.assessmentAssignment.update({ where: { id: previous.id }, data })
+      : await prisma.assessmentAssignment.create({
+        data: { ...data, assessmentId: assessment.id, scope, domainNumber: target.domainNumber, controlId: target.controlId },
+      });
+
+    await notifyUsers(req.user!.orgId, recipients, {
+      type: 'ASSIGNMENT',
+      title: `You were assigned ${target.label} on Assessment v${assessment.assessmentVersion}`,
+      body: data.dueDate ? `Due ${data.dueDate.toISOString().slice(0, 10)}` : undefined,
+      link: '/my-questions',
+    }, req.user!.userId);
 
     await logAudit({
       orgId: req.user!.orgId,
       userId: req.user!.userId,
-      action: 'ASSESSMENT_FINALIZED',
+      action: 'ASSIGNMENT_SET',
       entityType: 'assessment',
       entityId: assessment.id,
-      newValue: { overallScore: scores.overallScore, version: assessment.assessmentVersion },
+      oldValue: previous,
+      newValue: assignment,
       ipAddress: getClientIp(req),
       userAgent: req.headers['user-agent'],
     });
 
-    res.json({ ...updated, domainScores: scores.domainScores });
+    res.status(previous ? 200 : 201).json(assignment);
   } catch (error) {
-    console.error('Finalize assessment error:', error);
-    res.status(500).json({ error: 'Failed to finalize assessment', code: 'INTERNAL_ERROR' });
+    console.error('Create assignment error:', error);
+    res.status(500).json({ error: 'Failed to save assignment', code: 'INTERNAL_ERROR' });
   }
 });
 
-// PUT /assessments/:id/submit-review — Submit for DPO review
-router.put('/:id/submit-review', authenticate, async (req: Request, res: Response) => {
+// POST /assessments/:id/assignments/auto — Delegate unassigned controls to their first responsible role
+router.post('/:id/assignments/auto', authenticate, authorize(...DPO_AND_ABOVE), async (req: Request, res: Response) => {
   try {
     const assessment = await prisma.assessment.findFirst({
       where: { id: String(req.params.id), orgId: req.user!.orgId, isDeleted: false },
     });
-
-    if (!assessment || assessment.status !== 'DRAFT') {
-      res.status(400).json({ error: 'Assessment must be in DRAFT status', code: 'INVALID_STATUS' });
+    if (!assessment) {
+      res.status(404).json({ error: 'Assessment not found', code: 'NOT_FOUND' });
+      return;
+    }
+    if (assessment.status !== 'DRAFT' && assessment.status !== 'IN_REVIEW') {
+      res.status(400).json({ error: 'Assessment is not editable', code: 'ASSESSMENT_LOCKED' });
       return;
     }
 
-    const updated = await prisma.assessment.update({
-      where: { id: assessment.id },
-      data: { status: 'IN_REVIEW' },
+    const org = await prisma.organization.findUnique({ where: { id: req.user!.orgId } });
+    const [{ controls }, assignments] = await Promise.all([getApplicableControls(org!), loadAssignments(assessment.id)]);
+    const roles = Object.values(ROLES) as string[];
+    const dueDate = req.body?.dueDate ? new Date(req.body.dueDate) : null;
+
+    const created = controls
+      .filter(c => !assignmentFor(assignments, c) && roles.includes(c.responsibleRoles[0]))
+      .map(c => ({
+        assessmentId: assessment.id,
+        scope: 'CONTROL',
+        controlId: c.id,
+        assigneeRole: c.responsibleRoles[0],
+        dueDate: dueDate && !isNaN(dueDate.getTime()) ? dueDate : null,
+        assignedBy: req.user!.userId,
+      }));
+    await prisma.assessmentAssignment.createMany({ data: created });
+
+    await logAudit({
+      orgId: req.user!.orgId,
+      userId: req.user!.userId,
+      action: 'ASSIGNMENTS_AUTO_CREATED',
+      entityType: 'assessment',
+      entityId: assessment.id,
+      newValue: { count: created.length },
+      ipAddress: getClientIp(req),
+      userAgent: req.headers['user-agent'],
     });
 
-    res.json(updated);
+    res.status(201).json({ created: created.length });
   } catch (error) {
-    res.status(500).json({ error: 'Failed to submit for review', code: 'INTERNAL_ERROR' });
+    console.error('Auto-assign error:', error);
+    res.status(500).json({ error: 'Failed to auto-assign controls', code: 'INTERNAL_ERROR' });
+  }
+});
+
+// DELETE /assessments/:id/assignments/:assignmentId
+router.delete('/:id/assignments/:assignmentId', authenticate, authorize(...DPO_AND_ABOVE), async (req: Request, res: Response) => {
+  try {
+    const assignment = await prisma.assessmentAssignment.findFirst({
+      where: {
+        id: String(req.params.assignmentId),
+        assessment: { id: String(req.params.id), orgId: req.user!.orgId, isDeleted: false },
+      },
+    });
+    if (!assignment) {
+      res.status(404).json({ error: 'Assignment not found', code: 'NOT_FOUND' });
+      return;
+    }
+    await prisma.assessmentAssignment.delete({ where: { id: assignment.id } });
+
+    await logAudit({
+      orgId: req.user!.orgId,
+      userId: req.user!.userId,
+      action: 'ASSIGNMENT_REMOVED',
+      entityType: 'assessment',
+      entityId: assignment.assessmentId,
+      oldValue: assignment,
+      ipAddress: getClientIp(req),
+      userAgent: req.headers['user-agent'],
+    });
+
+    res.json({ message: 'Assignment removed' });
+  } catch (error) {
+    console.error('Delete assignment error:', error);
+    res.status(500).json({ error: 'Failed to remove assignment', code: 'INTERNAL_ERROR' });
+  }
+});
+
+// GET /assessments/:id/comments — Review threads (?controlId= to filter)
+router.get('/:id/comments', authenticate, async (req: Request, res: Response) => {
+  try {
+    const assessment = await prisma.assessment.findFirst({
+      where: { id: String(req.params.id), orgId: req.user!.orgId, isDeleted: false },
+      select: { id: true },
+    });
+    if (!assessment) {
+      res.status(404).json({ error: 'Assessment not found', code: 'NOT_FOUND' });
+      return;
+    }
+    const comments = await prisma.reviewComment.findMany({
+      where: { assessmentId: assessment.id, ...(req.query.controlId ? { controlId: String(req.query.controlId) } : {}) },
+      include: { author: { select: { firstName: true, lastName: true, email: true } } },
+      orderBy: { createdAt: 'asc' },
+    });
+    res.json({ data: comments, total: comments.length });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to get comments', code: 'INTERNAL_ERROR' });
+  }
+});
+
+// GET /assessments/:id/review-items — Open change requests
+router.get('/:id/review-items', authenticate, async (req: Request, res: Response) => {
+  try {
+    const assessment = await prisma.assessment.findFirst({
+      where: { id: String(req.params.id), orgId: req.user!.orgId, isDeleted: false },
+      select: { id: true },
+    });
+    if (!assessment) {
+      res.status(404).json({ error: 'Assessment not found', code: 'NOT_FOUND' });
+      return;
+    }
+    const items = await getOpenChangeRequests(assessment.id);
+    res.json({ data: items, total: items.length });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to get review items', code: 'INTERNAL_ERROR' });
+  }
+});
+
+// POST /assessments/:id/responses/:controlId/comments — Comment, request change or accept
+router.post('/:id/responses/:controlId/comments', authenticate, async (req: Request, res: Response) => {
+  try {
+    const controlId = String(req.params.controlId);
+    const { body, parentId } = req.body;
+    const kind: CommentKind = req.body.kind || 'COMMENT';
+
+    if (!COMMENT_KINDS.includes(kind)) {
+      res.status(400).json({ error: `kind must be one of ${COMMENT_KINDS.join(', ')}`, code: 'VALIDATION_ERROR' });
+      return;
+    }
+    if ((!body || !String(body).trim()) && kind !== 'ACCEPT') {
+      res.status(400).json({ error: 'Comment body is required', code: 'VALIDATION_ERROR' });
+      return;
+    }
+
+    const assessment = await prisma.assessment.findFirst({
+      where: { id: String(req.params.id), orgId: req.user!.orgId, isDeleted: false },
+    });
+    if (!assessment) {
+      res.status(404).json({ error: 'Assessment not found', code: 'NOT_FOUND' });
+      return;
+    }
+    if (assessment.status !== 'DRAFT' && assessment.status !== 'IN_REVIEW') {
+      res.status(400).json({ error: 'Assessment is not open for review', code: 'ASSESSMENT_LOCKED' });
+      return;
+    }
+    if (kind !== 'COMMENT') {
+      if (assessment.status !== 'IN_REVIEW') {
+        res.status(400).json({ error: 'Change requests and acceptance require the assessment to be IN_REVIEW', code: 'INVALID_STATUS' });
+        return;
+      }
+      if (!(DPO_AND_ABOVE as string[]).includes(req.user!.role)) {
+        res.status(403).json({ error: 'Only reviewers can request changes or accept responses', code: 'FORBIDDEN' });
+        return;
+      }
+    }
+
+    const response = await prisma.response.findUnique({
+      where: { assessmentId_controlId: { assessmentId: assessment.id, controlId } },
+      select: { id: true },
+    });
+    if (!response && kind !== 'COMMENT') {
+      res.status(400).json({ error: 'Control has not been answered yet', code: 'NO_RESPONSE' });
+      return;
+    }
+    if (parentId) {
+      const parent = await prisma.reviewComment.findFirst({ where: { id: String(parentId), assessmentId: assessment.id, controlId } });
+      if (!parent) {
+        res.status(404).json({ error: 'Parent comment not found', code: 'NOT_FOUND' });
+        return;
+      }
+    }
+
+    const { comment, resolvedCount } = await addReviewComment({
+      orgId: req.user!.orgId,
+      assessmentId: assessment.id,
+      assessmentVersion: assessment.assessmentVersion,
+      controlId,
+      authorId: req.user!.userId,
+      kind,
+      body: String(body || 'Accepted'),
+      parentId,
+    });
+
+    if (kind !== 'COMMENT') {
+      await logAudit({
+        orgId: req.user!.orgId,
+        userId: req.user!.userId,
+        action: kind === 'ACCEPT' ? 'RESPONSE_ACCEPTED' : 'CHANGE_REQUESTED',
+        entityType: 'response',
+        entityId: response!.id,
+        newValue: { controlId, comment: comment.body, resolvedCount },
+        ipAddress: getClientIp(req),
+        userAgent: req.headers['user-agent'],
+      });
+    }
+
+    res.status(201).json({ ...comment, resolvedCount });
+  } catch (error) {
+    console.error('Add review comment error:', error);
+    res.status(500).json({ error: 'Failed to add comment', code: 'INTERNAL_ERROR' });
+  }
+});
+
+// GET /assessments/:id/finalization-check — Pre-finalize validation report
+router.get('/:id/finalization-check', authenticate, async (req: Request, res: Response) => {
+  try {
+    const assessment = await prisma.assessment.findFirst({
+      where: { id: String(req.params.id), orgId: req.user!.orgId, isDeleted: false },
+      select: { id: true },
+    });
+    if (!assessment) {
+      res.status(404).json({ error: 'Assessment not found', code: 'NOT_FOUND' });
+      return;
+    }
+    res.json(await validateForFinalization(assessment.id, req.user!.orgId));
+  } catch (error) {
+    console.error('Finalization check error:', error);
+    res.status(500).json({ error: 'Failed to validate assessment', code: 'INTERNAL_ERROR' });
+  }
+});
+
+// GET /assessments/:id/score-preview — Score the responses as they stand, without finalizing
+router.get('/:id/score-preview', authenticate, async (req: Request, res: Response) => {
+  try {
+    const assessment = await prisma.assessment.findFirst({
+      where: { id: String(req.params.id), orgId: req.user!.orgId, isDeleted: false },
+      select: { id: true },
+    });
+    if (!assessment) {
+      res.status(404).json({ error: 'Assessment not found', code: 'NOT_FOUND' });
+      return;
+    }
+    res.json(await previewScores(assessment.id, req.user!.orgId));
+  } catch (error) {
+    console.error('Score preview error:', error);
+    res.status(500).json({ error: 'Failed to preview score', code: 'INTERNAL_ERROR' });
+  }
+});
+
+// GET /assessments/:id/score-explanation — Controls ranked by points lost, with the gain from fixing each
+router.get('/:id/score-explanation', authenticate, async (req: Request, res: Response) => {
+  try {
+    const assessment = await prisma.assessment.findFirst({
+      where: { id: String(req.params.id), orgId: req.user!.orgId, isDeleted: false },
+      select: { id: true },
+    });
+    if (!assessment) {
+      res.status(404).json({ error: 'Assessment not found', code: 'NOT_FOUND' });
+      return;
+    }
+    res.json(await explainScore(assessment.id, req.user!.orgId));
+  } catch (error) {
+    console.error('Score explanation error:', error);
+    res.status(500).json({ error: 'Failed to explain score', code: 'INTERNAL_ERROR' });
+  }
+});
+
+// GET /assessments/:id/maturity-gaps — Maturity level vs target per control (maturity mode only)
+router.get('/:id/maturity-gaps', authenticate, async (req: Request, res: Response) => {
+  try {
+    const assessment = await prisma.assessment.findFirst({
+      where: { id: String(req.params.id), orgId: req.user!.orgId, isDeleted: false },
+      select: { id: true, mode: true },
+    });
+    if (!assessment) {
+      res.status(404).json({ error: 'Assessment not found', code: 'NOT_FOUND' });
+      return;
+    }
+    if (assessment.mode !== 'MATURITY') {
+      res.status(400).json({ error: 'Gap-to-target reporting is only available for maturity-mode assessments', code: 'NOT_MATURITY_MODE' });
+      return;
+    }
+    res.json(await getMaturityGaps(assessment.id, req.user!.orgId));
+  } catch (error) {
+    console.error('Maturity gaps error:', error);
+    res.status(500).json({ error: 'Failed to get maturity gaps', code: 'INTERNAL_ERROR' });
+  }
+});
+
+// GET /assessments/:id/framework-compliance?framework=ISO_27001 — Compliance with an external framework derived through the crosswalk
+router.get('/:id/framework-compliance', authenticate, async (req: Request, res: Response) => {
+  try {
+    const framework = String(req.query.framework || '');
+    if (!isFramework(framework)) {
+      res.status(400).json({ error: `framework must be one of: ${Object.keys(FRAMEWORKS).join(', ')}`, code: 'VALIDATION_ERROR' });
+      return;
+    }
+    const assessment = await prisma.assessment.findFirst({
+      where: { id: String(req.params.id), orgId: req.user!.orgId, isDeleted: false },
+      select: { id: true },
+    });
+    if (!assessment) {
+      res.status(404).json({ error: 'Assessment not found', code: 'NOT_FOUND' });
+      return;
+    }
+    res.json(await deriveFrameworkCompliance(assessment.id, req.user!.orgId, framework));
+  } catch (error) {
+    console.error('Framework compliance error:', error);
+    res.status(500).json({ error: 'Failed to derive framework compliance', code: 'INTERNAL_ERROR' });
+  }
+});
+
+// POST /assessments/:id/what-if — Projected scores for hypothetical answer changes (nothing is saved)
+router.post('/:id/what-if', authenticate, async (req: Request, res: Response) => {
+  try {
+    const { changes = [], closeTaskIds, closeAllOpenTasks } = req.body || {};
+    if (!Array.isArray(changes) || changes.some((c: { controlId?: unknown; answer?: unknown; maturityLevel?: unknown } | null) =>
+      typeof c?.controlId !== 'string' || (typeof c?.answer !== 'string' && typeof c?.maturityLevel !== 'number'))) {
+      res.status(400).json({ error: 'changes must be a list of { controlId, answer } or { controlId, maturityLevel }', code: 'VALIDATION_ERROR' });
+      return;
+    }
+    if (closeTaskIds !== undefined && (!Array.isArray(closeTaskIds) || closeTaskIds.some((t: unknown) => typeof t !== 'string'))) {
+      res.status(400).json({ error: 'closeTaskIds must be a list of task IDs', code: 'VALIDATION_ERROR' });
+      return;
+    }
+
+    const assessment = await prisma.assessment.findFirst({
+      where: { id: String(req.params.id), orgId: req.user!.orgId, isDeleted: false },
+      select: { id: true },
+    });
+    if (!assessment) {
+      res.status(404).json({ error: 'Assessment not found', code: 'NOT_FOUND' });
+      return;
+    }
+
+    // Closing a task counts as its control becoming fully implemented
+    const taskChanges = closeAllOpenTasks === true || closeTaskIds
+      ? await changesForClosingTasks(assessment.id, req.user!.orgId, closeAllOpenTasks === true ? undefined : closeTaskIds)
+      : [];
+    const explicit = new Set(changes.map((c: AnswerChange) => c.controlId));
+    const allChanges: AnswerChange[] = [
+      ...taskChanges.filter(c => !explicit.has(c.controlId)),
+      ...changes.map((c: AnswerChange) => ({ controlId: c.controlId, answer: (c.answer || '').toUpperCase(), maturityLevel: c.maturityLevel })),
+    ];
+
+    res.json(await previewScores(assessment.id, req.user!.orgId, allChanges));
+  } catch (error) {
+    console.error('What-if error:', error);
+    res.status(500).json({ error: 'Failed to simulate score', code: 'INTERNAL_ERROR' });
+  }
+});
+
+// POST /assessments/:id/finalize — Finalize assessment (DPO only)
+router.post('/:id/finalize', authenticate, authorize(ROLES.DPO, ROLES.ORG_ADMIN), async (req: Request, res: Response) => {
+  try {
+    const assessment = await prisma.assessment.findFirst({
+      where: { id: String(req.params.id), orgId: req.user!.orgId, isDeleted: false },
+      include: { responses: { include: { control: true } } },
+    });
+
+    if (!assessment) {
+      res.status(404).json({ error: 'Assessment not found', code: 'NOT_FOUND' });
+      return;
+    }
+
+    if (assessment.status !== 'DRAFT' && assessment.status !== 'IN_REVIEW' && assessment.status !== 'AMENDING') {
+      res.status(400).json({ error: 'Assessment cannot be finalized from current status', code: 'INVALID_STATUS' });
+      return;
+    }
+    const amendment = assessment.status === 'AMENDING' ? await findOpenAmendment(assessment.id) : null;
+
+    // A new version is scored against the live library, so a published upgrade must be accepted first
+    if (!amendment) {
+      const org = await prisma.organization.findUnique({ where: { id: req.user!.orgId } });
+      const [pendingRelease] = await pendingReleases(org!);
+      if (pendingRelease) {
+        res.status(409).json({ error: `The DPO must accept control library ${pendingRelease.version} before finalizing`, code: 'LIBRARY_UPGRADE_PENDING' });
+        return;
+      }
+    }
+
+    // Completeness gate — only a DPO may finalize over open issues, with a recorded reason
+    const report = await validateForFinalization(assessment.id, req.user!.orgId);
+    if (report.counts.OPEN_CHANGE_REQUEST > 0) {
+      res.status(400).json({
+        error: `${report.counts.OPEN_CHANGE_REQUEST} reviewer change request(s) are still open`,
+        code: 'OPEN_CHANGE_REQUESTS',
+        report,
+      });
+      return;
+    }
+    const overrideReason = typeof req.body?.overrideReason === 'string' ? req.body.overrideReason.trim() : '';
+    if (!report.canFinalize) {
+      if (!overrideReason) {
+        res.status(400).json({
+          error: `Assessment has ${report.issues.length} open finalization issue(s)`,
+          code: 'FINALIZATION_BLOCKED',
+          report,
+        });
+        return;
+      }
+      if (req.user!.role !== ROLES.DPO) {
+        res.status(403).json({ error: 'Only the DPO can override the finalization gate', code: 'FORBIDDEN' });
+        return;
+      }
+      if (overrideReason.length < 20) {
+        res.status(400).json({ error: 'Override reason required (minimum 20 characters)', code: 'JUSTIFICATION_REQUIRED' });
+        return;
+      }
+    }
+    const overridden = !report.canFinalize;
+
+    // Calculate scores; re-finalizing an amendment keeps the control definitions frozen at first finalization
+    // (answers on controls retired from the library no longer count towards a new version)
+    const responses = withControlSnapshot(
+      amendment ? assessment.responses : assessment.responses.filter(r => !r.control.retiredAt),
+      assessment.controlSnapshot,
+    );
+    const scores = calculateScores(toControlScores(responses));
+
+    const updated = await prisma.assessment.update({
+      where: { id: assessment.id },
+      data: {
+        status: 'FINALIZED',
+        overallScore: scores.overallScore,
+        totalControlsAssessed: scores.totalControlsAssessed,
+        criticalGaps: scores.criticalGaps,
+        highGaps: scores.highGaps,
+        mediumGaps: scores.mediumGaps,
+        lowGaps: scores.lowGaps,
+        domainScores: scores.domainScores as any,
+        sourceScores: scores.sourceScores as unknown as Prisma.InputJsonValue,
+        // Freeze the definitions scored against so later library updates cannot change this result
+        controlSnapshot: buildControlSnapshot(responses.map(r => r.control)) as unknown as Prisma.InputJsonValue,
+        // An amended assessment keeps its original sign-off; the amendment records who re-finalized it
+        finalizedBy: amendment ? assessment.finalizedBy : req.user!.userId,
+        finalizedAt: amendment ? assessment.finalizedAt : new Date(),
+        overrideReason: overridden ? overrideReason : null,
+        overrideBy: overridden ? req.user!.userId : null,
+        overrideIssues: overridden ? (report.issues as unknown as Prisma.InputJsonValue) : Prisma.DbNull,
+      },
+    });
+
+    if (overridden) {
+      await logAudit({
+        orgId: req.user!.orgId,
+        userId: req.user!.userId,
+        action: 'FINALIZATION_GATE_OVERRIDDEN',
+        entityType: 'assessment',
+        entityId: assessment.id,
+        newValue: { reason: overrideReason, counts: report.counts },
+        ipAddress: getClientIp(req),
+        userAgent: req.headers['user-agent'],
+      });
+    }
+
+    await logAudit({
+      orgId: req.user!.orgId,
+      userId: req.user!.userId,
+      action: 'ASSESSMENT_FINALIZED',
+      entityType: 'assessment',
+      entityId: assessment.id,
+      newValue: {
+        overallScore: scores.overallScore,
+        sourceScores: Object.fromEntries(scores.sourceScores.map(f => [f.source, f.percentage])),
+        version: assessment.assessmentVersion,
+        overridden,
+        amendmentId: amendment?.id,
+      },
+      ipAddress: getClientIp(req),
+      userAgent: req.headers['user-agent'],
+    });
+
+    let reportsRegenerated: ReportFormat[] = [];
+    if (amendment) {
+      await prisma.amendmentRequest.update({
+        where: { id: amendment.id },
+        data: { status: 'APPLIED', amendedScore: scores.overallScore, appliedBy: req.user!.userId, appliedAt: new Date() },
+      });
+      reportsRegenerated = await regenerateReports(assessment.id);
+
+      await logAudit({
+        orgId: req.user!.orgId,
+        userId: req.user!.userId,
+        action: 'AMENDMENT_APPLIED',
+        entityType: 'amendment',
+        entityId: amendment.id,
+        oldValue: { overallScore: amendment.originalScore != null ? Number(amendment.originalScore) : null },
+        newValue: { assessmentId: assessment.id, overallScore: scores.overallScore, reportsRegenerated },
+        ipAddress: getClientIp(req),
+        userAgent: req.headers['user-agent'],
+      });
+      await notifyUsers(req.user!.orgId, [amendment.requestedBy], {
+        type: 'AMENDMENT_APPLIED',
+        title: `Amendment to Assessment v${assessment.assessmentVersion} applied`,
+        body: `Score ${Number(amendment.originalScore ?? 0)}% → ${scores.overallScore}%`,
+        link: `/assessments/${assessment.id}`,
+      }, req.user!.userId);
+    }
+
+    res.json({ ...updated, domainScores: scores.domainScores, sourceScores: scores.sourceScores, reportsRegenerated });
+  } catch (error) {
+    console.error('Finalize assessment error:', error);
+    res.status(500).json({ error: 'Failed to finalize assessment', code: 'INTERNAL_ERROR' });
+  }
+});
+
+// GET /assessments/:id/amendments — Amendment requests with original and amended scores
+router.get('/:id/amendments', authenticate, async (req: Request, res: Response) => {
+  try {
+    const assessment = await prisma.assessment.findFirst({
+      where: { id: String(req.params.id), orgId: req.user!.orgId, isDeleted: false },
+      select: { id: true },
+    });
+    if (!assessment) {
+      res.status(404).json({ error: 'Assessment not found', code: 'NOT_FOUND' });
+      return;
+    }
+    const amendments = await prisma.amendmentRequest.findMany({
+      where: { assessmentId: assessment.id },
+      orderBy: { createdAt: 'desc' },
+      include: {
+        requester: { select: { firstName: true, lastName: true, email: true } },
+        decider: { select: { firstName: true, lastName: true, email: true } },
+      },
+    });
+    res.json({ data: amendments, total: amendments.length });
+  } catch (error) {
+    console.error('List amendments error:', error);
+    res.status(500).json({ error: 'Failed to get amendments', code: 'INTERNAL_ERROR' });
+  }
+});
+
+// POST /assessments/:id/amendments — Propose changes to a finalized assessment
+router.post('/:id/amendments', authenticate, authorize(ROLES.ORG_ADMIN, ROLES.DPO, ROLES.COMPLIANCE_OFFICER), async (req: Request, res: Response) => {
+  try {
+    const assessment = await prisma.assessment.findFirst({
+      where: { id: String(req.params.id), orgId: req.user!.orgId, isDeleted: false },
+    });
+    if (!assessment) {
+      res.status(404).json({ error: 'Assessment not found', code: 'NOT_FOUND' });
+      return;
+    }
+    if (assessment.status !== 'FINALIZED') {
+      res.status(400).json({ error: 'Only finalized assessments can be amended', code: 'INVALID_STATUS' });
+      return;
+    }
+    const reason = typeof req.body?.reason === 'string' ? req.body.reason.trim() : '';
+    if (reason.length < MIN_AMENDMENT_REASON_LENGTH) {
+      res.status(400).json({ error: `Amendment reason required (minimum ${MIN_AMENDMENT_REASON_LENGTH} characters)`, code: 'JUSTIFICATION_REQUIRED' });
+      return;
+    }
+    const changes = parseProposedChanges(req.body?.changes);
+    if ('error' in changes) {
+      res.status(400).json({ error: changes.error, code: 'VALIDATION_ERROR' });
+      return;
+    }
+    if (await findOpenAmendment(assessment.id)) {
+      res.status(409).json({ error: 'This assessment already has an open amendment request', code: 'AMENDMENT_OPEN' });
+      return;
+    }
+
+    const amendment = await prisma.amendmentRequest.create({
+      data: {
+        assessmentId: assessment.id,
+        requestedBy: req.user!.userId,
+        reason,
+        proposedChanges: changes as unknown as Prisma.InputJsonValue,
+      },
+    });
+
+    const dpos = await prisma.user.findMany({
+      where: { orgId: req.user!.orgId, role: ROLES.DPO, isActive: true, isDeleted: false },
+      select: { id: true },
+    });
+    await notifyUsers(req.user!.orgId, dpos.map(u => u.id), {
+      type: 'AMENDMENT_REQUESTED',
+      title: `Amendment requested on Assessment v${assessment.assessmentVersion} (${changes.length} control(s))`,
+      body: reason,
+      link: `/assessments/${assessment.id}`,
+    }, req.user!.userId);
+
+    await logAudit({
+      orgId: req.user!.orgId,
+      userId: req.user!.userId,
+      action: 'AMENDMENT_REQUESTED',
+      entityType: 'amendment',
+      entityId: amendment.id,
+      newValue: { assessmentId: assessment.id, reason, changes },
+      ipAddress: getClientIp(req),
+      userAgent: req.headers['user-agent'],
+    });
+
+    res.status(201).json(amendment);
+  } catch (error) {
+    console.error('Request amendment error:', error);
+    res.status(500).json({ error: 'Failed to request amendment', code: 'INTERNAL_ERROR' });
+  }
+});
+
+// POST /assessments/:id/amendments/:amendmentId/decision — DPO approves (assessment enters AMENDING) or rejects
+router.post('/:id/amendments/:amendmentId/decision', authenticate, authorize(ROLES.DPO), async (req: Request, res: Response) => {
+  try {
+    const approve = req.body?.approve === true;
+    const note = typeof req.body?.note === 'string' ? req.body.note.trim() : '';
+    if (req.body?.approve !== true && req.body?.approve !== false) {
+      res.status(400).json({ error: 'approve must be true or false', code: 'VALIDATION_ERROR' });
+      return;
+    }
+    if (!approve && !note) {
+      res.status(400).json({ error: 'A note is required when rejecting an amendment', code: 'VALIDATION_ERROR' });
+      return;
+    }
+
+    const assessment = await prisma.assessment.findFirst({
+      where: { id: String(req.params.id), orgId: req.user!.orgId, isDeleted: false },
+    });
+    const amendment = assessment
+      ? await prisma.amendmentRequest.findFirst({ where: { id: String(req.params.amendmentId), assessmentId: assessment.id } })
+      : null;
+    if (!assessment || !amendment) {
+      res.status(404).json({ error: 'Amendment not found', code: 'NOT_FOUND' });
+      return;
+    }
+    if (amendment.status !== 'PENDING' || assessment.status !== 'FINALIZED') {
+      res.status(400).json({ error: 'Amendment is not awaiting a decision', code: 'INVALID_STATUS' });
+      return;
+    }
+
+    const decided = await prisma.amendmentRequest.update({
+      where: { id: amendment.id },
+      data: {
+        status: approve ? 'APPROVED' : 'REJECTED',
+        decidedBy: req.user!.userId,
+        decidedAt: new Date(),
+        decisionNote: note || null,
+        originalScore: approve ? assessment.overallScore : null,
+      },
+    });
+
+    let outcome: Awaited<ReturnType<typeof applyAmendment>> | null = null;
+    if (approve) {
+      await prisma.assessment.update({ where: { id: assessment.id }, data: { status: 'AMENDING' } });
+      outcome = await applyAmendment(decided, assessment, { userId: req.user!.userId, role: req.user!.role });
+    }
+
+    await logAudit({
+      orgId: req.user!.orgId,
+      userId: req.user!.userId,
+      action: approve ? 'AMENDMENT_APPROVED' : 'AMENDMENT_REJECTED',
+      entityType: 'amendment',
+      entityId: amendment.id,
+      oldValue: { status: amendment.status },
+      newValue: { status: decided.status, note, originalScore: approve ? Number(assessment.overallScore) : null, ...outcome },
+      ipAddress: getClientIp(req),
+      userAgent: req.headers['user-agent'],
+    });
+    await notifyUsers(req.user!.orgId, [amendment.requestedBy], {
+      type: approve ? 'AMENDMENT_APPROVED' : 'AMENDMENT_REJECTED',
+      title: `Amendment to Assessment v${assessment.assessmentVersion} ${approve ? 'approved' : 'rejected'}`,
+      body: note || undefined,
+      link: `/assessments/${assessment.id}`,
+    }, req.user!.userId);
+
+    res.json({ ...decided, applied: outcome?.applied ?? [], failed: outcome?.failed ?? [] });
+  } catch (error) {
+    console.error('Amendment decision error:', error);
+    res.status(500).json({ error: 'Failed to record amendment decision', code: 'INTERNAL_ERROR' });
+  }
+});
+
+// PUT /assessments/:id/submit-review — Submit for DPO review
+router.put('/:id/submit-review', authenticate, async (req: Request, res: Response) => {
+  try {
+    const assessment = await prisma.assessment.findFirst({
+      where: { id: String(req.params.id), orgId: req.user!.orgId, isDeleted: false },
+    });
+
+    if (!assessment || assessment.status !== 'DRAFT') {
+      res.status(400).json({ error: 'Assessment must be in DRAFT status', code: 'INVALID_STATUS' });
+      return;
+    }
+
+    const updated = await prisma.assessment.update({
+      where: { id: assessment.id },
+      data: { status: 'IN_REVIEW' },
+    });
+
+    const reviewers = await prisma.user.findMany({
+      where: { orgId: req.user!.orgId, role: ROLES.DPO, isActive: true, isDeleted: false },
+      select: { id: true },
+    });
+    await notifyUsers(req.user!.orgId, reviewers.map(u => u.id), {
+      type: 'REVIEW_REQUESTED',
+      title: `Assessment v${assessment.assessmentVersion} was submitted for review`,
+      link: `/assessments/${assessment.id}`,
+    }, req.user!.userId);
+
+    res.json(updated);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to submit for review', code: 'INTERNAL_ERROR' });
+  }
+});
+
+// GET /assessments/:id/report — Download generated compliance report
+router.get('/:id/report', authenticate, async (req: Request, res: Response) => {
+  try {
+    const format = String(req.query.format || 'pdf') as ReportFormat;
+    if (!['pdf', 'xlsx', 'audit'].includes(format)) {
+      res.status(400).json({ error: 'Invalid format. Must be pdf, xlsx, or audit', code: 'VALIDATION_ERROR' });
+      return;
+    }
+
+    // Audit package requires step-up re-authentication and an audit-capable role
+    if (format === 'audit') {
+      if (!([ROLES.SUPER_ADMIN, ROLES.ORG_ADMIN, ROLES.DPO, ROLES.AUDITOR] as string[]).includes(req.user!.role)) {
+        res.status(403).json({ error: 'Insufficient permissions', code: 'FORBIDDEN' });
+        return;
+      }
+      if (!hasValidStepUp(req)) {
+        res.status(403).json({ error: 'Re-authentication required for the audit package', code: 'STEP_UP_REQUIRED' });
+        return;
+      }
+    }
+
+    const assessment = await prisma.assessment.findFirst({
+      where: { id: String(req.params.id), orgId: req.user!.orgId, isDeleted: false },
+    });
+    if (!assessment) {
+      res.status(404).json({ error: 'Assessment not found', code: 'NOT_FOUND' });
+      return;
+    }
+
+    // Reports are only issued for assessments that went through finalization
+    if (!assessment.finalizedAt || (assessment.status !== 'FINALIZED' && assessment.status !== 'ARCHIVED')) {
+      res.status(400).json({ error: 'Reports are only available for finalized assessments', code: 'NOT_FINALIZED' });
+      return;
+    }
+
+    const { filePath, filename } = await getOrCreateReport(assessment.id, format);
+
+    await logAudit({
+      orgId: req.user!.orgId,
+      userId: req.user!.userId,
+      action: 'REPORT_DOWNLOADED',
+      entityType: 'assessment',
+      entityId: assessment.id,
+      newValue: { format, version: assessment.assessmentVersion },
+      ipAddress: getClientIp(req),
+      userAgent: req.headers['user-agent'],
+    });
+
+    res.download(filePath, filename);
+  } catch (error) {
+    console.error('Report generation error:', error);
+    res.status(500).json({ error: 'Failed to generate report', code: 'INTERNAL_ERROR' });
+  }
+});
+
+// GET /assessments/:id/oscal-results — Finalized assessment as OSCAL assessment-results (JSON)
+router.get('/:id/oscal-results', authenticate, async (req: Request, res: Response) => {
+  try {
+    const assessment = await prisma.assessment.findFirst({
+      where: { id: String(req.params.id), orgId: req.user!.orgId, isDeleted: false },
+      select: { id: true, assessmentVersion: true, status: true, finalizedAt: true },
+    });
+    if (!assessment) {
+      res.status(404).json({ error: 'Assessment not found', code: 'NOT_FOUND' });
+      return;
+    }
+    if (!assessment.finalizedAt || (assessment.status !== 'FINALIZED' && assessment.status !== 'ARCHIVED')) {
+      res.status(400).json({ error: 'OSCAL results are only available for finalized assessments', code: 'NOT_FINALIZED' });
+      return;
+    }
+
+    const results = await exportAssessmentResults(assessment.id);
+
+    await logAudit({
+      orgId: req.user!.orgId,
+      userId: req.user!.userId,
+      action: 'REPORT_DOWNLOADED',
+      entityType: 'assessment',
+      entityId: assessment.id,
+      newValue: { format: 'oscal', version: assessment.assessmentVersion },
+      ipAddress: getClientIp(req),
+      userAgent: req.headers['user-agent'],
+    });
+
+    res.setHeader('Content-Disposition', `attachment; filename="assessment-v${assessment.assessmentVersion}-results.oscal.json"`);
+    res.json(results);
+  } catch (error) {
+    console.error('OSCAL results export error:', error);
+    res.status(500).json({ error: 'Failed to export OSCAL results', code: 'INTERNAL_ERROR' });
   }
 });
 
@@ -2,7 +2,7 @@ import { Router, Request, Response } from 'express';
 import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
 import { prisma } from '../index';
-import { authenticate, JwtPayload } from '../middleware/auth';
+import { authenticate, JwtPayload, STEP_UP_AUDIENCE } from '../middleware/auth';
 import { logAudit, getClientIp } from '../utils/auditLogger';
 
 const router = Router();
@@ -194,6 +194,60 @@ router.post('/refresh', async (req: Request, res: Response) => {
   }
 });
 
+// POST /auth/step-up — Re-verify password for sensitive actions (audit package export)
+router.post('/step-up', authenticate, async (req: Request, res: Response) => {
+  try {
+    const { password } = req.body;
+    if (!password) {
+      res.status(400).json({ error: 'Password required', code: 'VALIDATION_ERROR' });
+      return;
+    }
+
+    const user = await prisma.user.findUnique({ where: { id: req.user!.userId } });
+    if (!user || user.isDeleted || !user.isActive) {
+      res.status(404).json({ error: 'User not found', code: 'NOT_FOUND' });
+      return;
+    }
+
+    const isValid = await bcrypt.compare(password, user.passwordHash);
+    if (!isValid) {
+      await logAudit({
+        orgId: user.orgId,
+        userId: user.id,
+        action: 'STEP_UP_FAILED',
+        entityType: 'user',
+        entityId: user.id,
+        ipAddress: getClientIp(req),
+        userAgent: req.headers['user-agent'],
+      });
+      // 403 rather than 401 so the client does not treat it as an expired session
+      res.status(403).json({ error: 'Invalid credentials', code: 'INVALID_CREDENTIALS' });
+      return;
+    }
+
+    const stepUpToken = jwt.sign(
+      { userId: user.id, orgId: user.orgId, role: user.role, email: user.email, purpose: 'step_up' },
+      process.env.JWT_SECRET!,
+      { expiresIn: '5m', audience: STEP_UP_AUDIENCE },
+    );
+
+    await logAudit({
+      orgId: user.orgId,
+      userId: user.id,
+      action: 'STEP_UP_VERIFIED',
+      entityType: 'user',
+      entityId: user.id,
+      ipAddress: getClientIp(req),
+      userAgent: req.headers['user-agent'],
+    });
+
+    res.json({ stepUpToken, expiresIn: 300 });
+  } catch (error) {
+    console.error('Step-up error:', error);
+    res.status(500).json({ error: 'Re-authentication failed', code: 'INTERNAL_ERROR' });
+  }
+});
+
 // GET /auth/me
 router.get('/me', authenticate, async (req: Request, res: Response) => {
   try {
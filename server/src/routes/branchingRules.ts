@@ -0,0 +1,283 @@
+import { Router, Request, Response } from 'express';
+import { BranchingRule, Prisma } from '@prisma/client';
+import { prisma } from '../index';
+import { authenticate, authorize, ROLES, DPO_AND_ABOVE } from '../middleware/auth';
+import {
+  evaluateBranchingRules, isControlApplicable, loadActiveBranchingRules,
+  validateRuleDefinition, RuleAction, PROFILE_FIELDS,
+} from '../services/branchingRules';
+import { getTypeMandatoryControls } from '../services/mandatoryControls';
+import { LIBRARY_CONTROLS_WHERE } from '../services/customControls';
+import { logAudit, getClientIp } from '../utils/auditLogger';
+
+const router = Router();
+
+async function findUnknownControls(actions: RuleAction[]): Promise<string[]> {
+  const ids = Array.from(new Set(actions.flatMap(a => a.controlIds)));
+  // Rules are shared by every tenant, so they can only target library controls
+  const found = await prisma.control.findMany({ where: { id: { in: ids }, orgId: null }, select: { id: true } });
+  const known = new Set(found.map(c => c.id));
+  return ids.filter(id => !known.has(id));
+}
+
+async function validateRuleBody(body: Record<string, unknown>): Promise<string | null> {
+  const definitionError = validateRuleDefinition(body.conditions, body.actions);
+  if (definitionError) return definitionError;
+  const unknown = await findUnknownControls(body.actions as RuleAction[]);
+  if (unknown.length > 0) return `Unknown control IDs: ${unknown.join(', ')}`;
+  if (body.priority !== undefined && !Number.isInteger(body.priority)) return 'priority must be an integer';
+  return null;
+}
+
+// GET /branching-rules — active rules (?includeInactive=true for every version)
+router.get('/', authenticate, async (req: Request, res: Response) => {
+  try {
+    const rules = await prisma.branchingRule.findMany({
+      where: req.query.includeInactive === 'true' ? {} : { isActive: true },
+      orderBy: [{ priority: 'asc' }, { ruleKey: 'asc' }, { version: 'desc' }],
+    });
+    res.json({ data: rules, total: rules.length, profileFields: PROFILE_FIELDS });
+  } catch (error) {
+    console.error('List branching rules error:', error);
+    res.status(500).json({ error: 'Failed to get branching rules', code: 'INTERNAL_ERROR' });
+  }
+});
+
+// GET /branching-rules/:ruleKey/versions — full version history of a rule
+router.get('/:ruleKey/versions', authenticate, async (req: Request, res: Response) => {
+  try {
+    const versions = await prisma.branchingRule.findMany({
+      where: { ruleKey: String(req.params.ruleKey) },
+      orderBy: { version: 'desc' },
+    });
+    if (versions.length === 0) {
+      res.status(404).json({ error: 'Rule not found', code: 'NOT_FOUND' });
+      return;
+    }
+    res.json({ data: versions, total: versions.length });
+  } catch (error) {
+    console.error('Get rule versions error:', error);
+    res.status(500).json({ error: 'Failed to get rule versions', code: 'INTERNAL_ERROR' });
+  }
+});
+
+// POST /branching-rules — create a rule (version 1)
+router.post('/', authenticate, authorize(ROLES.SUPER_ADMIN), async (req: Request, res: Response) => {
+  try {
+    const { ruleKey, name, description, conditions, actions, priority } = req.body;
+    if (!ruleKey || !name) {
+      res.status(400).json({ error: 'ruleKey and name are required', code: 'VALIDATION_ERROR' });
+      return;
+    }
+    const validationError = await validateRuleBody(req.body);
+    if (validationError) {
+      res.status(400).json({ error: validationError, code: 'VALIDATION_ERROR' });
+      return;
+    }
+    const existing = await prisma.branchingRule.findFirst({ where: { ruleKey: String(ruleKey) } });
+    if (existing) {
+      res.status(409).json({ error: 'A rule with this key already exists', code: 'DUPLICATE_RULE' });
+      return;
+    }
+
+    const rule = await prisma.branchingRule.create({
+      data: {
+        ruleKey: String(ruleKey),
+        name,
+        description: description || null,
+        conditions,
+        actions,
+        priority: priority ?? 100,
+        createdBy: req.user!.userId,
+      },
+    });
+
+    await logAudit({
+      orgId: req.user!.orgId,
+      userId: req.user!.userId,
+      action: 'BRANCHING_RULE_CREATED',
+      entityType: 'branching_rule',
+      entityId: rule.id,
+      newValue: rule,
+      ipAddress: getClientIp(req),
+      userAgent: req.headers['user-agent'],
+    });
+
+    res.status(201).json(rule);
+  } catch (error) {
+    console.error('Create branching rule error:', error);
+    res.status(500).json({ error: 'Failed to create branching rule', code: 'INTERNAL_ERROR' });
+  }
+});
+
+// PUT /branching-rules/:ruleKey — publish a new version and deactivate the previous one
+router.put('/:ruleKey', authenticate, authorize(ROLES.SUPER_ADMIN), async (req: Request, res: Response) => {
+  try {
+    const ruleKey = String(req.params.ruleKey);
+    const latest = await prisma.branchingRule.findFirst({
+      where: { ruleKey },
+      orderBy: { version: 'desc' },
+    });
+    if (!latest) {
+      res.status(404).json({ error: 'Rule not found', code: 'NOT_FOUND' });
+      return;
+    }
+
+    const merged = {
+      name: req.body.name ?? latest.name,
+      description: req.body.description !== undefined ? req.body.description : latest.description,
+      conditions: req.body.conditions ?? latest.conditions,
+      actions: req.body.actions ?? latest.actions,
+      priority: req.body.priority ?? latest.priority,
+    };
+    const validationError = await validateRuleBody(merged);
+    if (validationError) {
+      res.status(400).json({ error: validationError, code: 'VALIDATION_ERROR' });
+      return;
+    }
+
+    const [, rule] = await prisma.$transaction([
+      prisma.branchingRule.updateMany({ where: { ruleKey, isActive: true }, data: { isActive: false } }),
+      prisma.branchingRule.create({
+        data: {
+          ...merged,
+          conditions: merged.conditions as Prisma.InputJsonValue,
+          actions: merged.actions as Prisma.InputJsonValue,
+          ruleKey,
+          version: latest.version + 1,
+          createdBy: req.user!.userId,
+        },
+      }),
+    ]);
+
+    await logAudit({
+      orgId: req.user!.orgId,
+      userId: req.user!.userId,
+      action: 'BRANCHING_RULE_UPDATED',
+      entityType: 'branching_rule',
+      entityId: rule.id,
+      oldValue: latest,
+      newValue: rule,
+      ipAddress: getClientIp(req),
+      userAgent: req.headers['user-agent'],
+    });
+
+    res.json(rule);
+  } catch (error) {
+    console.error('Update branching rule error:', error);
+    res.status(500).json({ error: 'Failed to update branching rule', code: 'INTERNAL_ERROR' });
+  }
+});
+
+// DELETE /branching-rules/:ruleKey — retire a rule (versions are kept for history)
+router.delete('/:ruleKey', authenticate, authorize(ROLES.SUPER_ADMIN), async (req: Request, res: Response) => {
+  try {
+    const ruleKey = String(req.params.ruleKey);
+    const { count } = await prisma.branchingRule.updateMany({
+      where: { ruleKey, isActive: true },
+      data: { isActive: false },
+    });
+    if (count === 0) {
+      res.status(404).json({ error: 'No active rule with this key', code: 'NOT_FOUND' });
+      return;
+    }
+
+    await logAudit({
+      orgId: req.user!.orgId,
+      userId: req.user!.userId,
+      action: 'BRANCHING_RULE_RETIRED',
+      entityType: 'branching_rule',
+      entityId: ruleKey,
+      ipAddress: getClientIp(req),
+      userAgent: req.headers['user-agent'],
+    });
+
+    res.json({ message: 'Rule retired' });
+  } catch (error) {
+    console.error('Retire branching rule error:', error);
+    res.status(500).json({ error: 'Failed to retire branching rule', code: 'INTERNAL_ERROR' });
+  }
+});
+
+// POST /branching-rules/dry-run — preview applicability for a proposed profile
+// Body: { profile: { ...fields to override }, rules?: [draft rules replacing active ones by ruleKey] }
+router.post('/dry-run', authenticate, authorize(...DPO_AND_ABOVE), async (req: Request, res: Response) => {
+  try {
+    const org = await prisma.organization.findUnique({ where: { id: req.user!.orgId } });
+    if (!org) {
+      res.status(404).json({ error: 'Organization not found', code: 'NOT_FOUND' });
+      return;
+    }
+
+    const overrides: Record<string, unknown> = req.body.profile || {};
+    const unknownFields = Object.keys(overrides).filter(f => !PROFILE_FIELDS.includes(f));
+    if (unknownFields.length > 0) {
+      res.status(400).json({ error: `Unknown profile fields: ${unknownFields.join(', ')}`, code: 'VALIDATION_ERROR' });
+      return;
+    }
+
+    const activeRules = await loadActiveBranchingRules();
+    let proposedRules: BranchingRule[] = activeRules;
+    if (Array.isArray(req.body.rules) && req.body.rules.length > 0) {
+      if (req.user!.role !== ROLES.SUPER_ADMIN) {
+        res.status(403).json({ error: 'Only super admins can dry-run draft rules', code: 'FORBIDDEN' });
+        return;
+      }
+      const drafts: BranchingRule[] = [];
+      for (const draft of req.body.rules) {
+        const validationError = validateRuleDefinition(draft.conditions, draft.actions);
+        if (validationError || !draft.ruleKey) {
+          res.status(400).json({ error: `Draft ${draft.ruleKey || '(no ruleKey)'}: ${validationError || 'ruleKey is required'}`, code: 'VALIDATION_ERROR' });
+          return;
+        }
+        drafts.push({
+          id: 'draft',
+          ruleKey: draft.ruleKey,
+          version: 0,
+          name: draft.name || draft.ruleKey,
+          description: draft.description || null,
+          conditions: draft.conditions,
+          actions: draft.actions,
+          priority: draft.priority ?? 100,
+          isActive: true,
+          createdBy: req.user!.userId,
+          createdAt: new Date(),
+        });
+      }
+      const draftKeys = new Set(drafts.map(d => d.ruleKey));
+      proposedRules = [...activeRules.filter(r => !draftKeys.has(r.ruleKey)), ...drafts]
+        .sort((a, b) => a.priority - b.priority);
+    }
+
+    const proposedProfile = { ...org, ...overrides };
+    const current = evaluateBranchingRules(org, activeRules, await getTypeMandatoryControls(org.orgType));
+    const proposed = evaluateBranchingRules(proposedProfile, proposedRules, await getTypeMandatoryControls(String(proposedProfile.orgType)));
+
+    const controls = await prisma.control.findMany({ where: LIBRARY_CONTROLS_WHERE, orderBy: [{ domainNumber: 'asc' }, { id: 'asc' }] });
+    const currentApplicable = new Set(controls
+      .filter(c => isControlApplicable(c.id, c.conditionalOn, org, current))
+      .map(c => c.id));
+    const proposedApplicable = controls
+      .filter(c => isControlApplicable(c.id, c.conditionalOn, proposedProfile, proposed))
+      .map(c => c.id);
+    const proposedSet = new Set(proposedApplicable);
+
+    res.json({
+      branchingResult: proposed,
+      applicableControls: proposedApplicable,
+      totalApplicable: proposedApplicable.length,
+      changes: {
+        newlyApplicable: proposedApplicable.filter(id => !currentApplicable.has(id)),
+        noLongerApplicable: Array.from(currentApplicable).filter(id => !proposedSet.has(id)),
+        newlyMandatory: proposed.mandatoryControls.filter(id => !current.mandatoryControls.includes(id)),
+        rulesNowApplied: proposed.appliedRules.filter(k => !current.appliedRules.includes(k)),
+        rulesNoLongerApplied: current.appliedRules.filter(k => !proposed.appliedRules.includes(k)),
+      },
+    });
+  } catch (error) {
+    console.error('Branching dry run error:', error);
+    res.status(500).json({ error: 'Dry run failed', code: 'INTERNAL_ERROR' });
+  }
+});
+
+export default router;
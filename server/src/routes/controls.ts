@@ -1,15 +1,34 @@
 import { Router, Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
 import { prisma } from '../index';
-import { authenticate } from '../middleware/auth';
-import { evaluateBranchingRules, isControlApplicable } from '../services/branchingRules';
+import { authenticate, authorize, ROLES, DPO_AND_ABOVE } from '../middleware/auth';
+import { evaluateOrgBranching, getApplicableControls } from '../services/branchingRules';
+import { isMandatoryControl } from '../services/mandatoryControls';
+import {
+  acceptRelease, analyzeReleaseImpact, buildChangelog, currentLibraryVersion, pendingReleases, publishRelease,
+} from '../services/controlLibrary';
+import { parseContentPack } from '../services/contentPack';
+import { parseReleaseControls, CUSTOM_SOURCE } from '../services/controlDefinitions';
+import {
+  customControlData, findLiveCustomControlByRef, libraryDomainNames, newCustomControlId, validateCustomControlInput,
+} from '../services/customControls';
+import { loadLibraryPin, pinnedControl, pinnedControlsWhere } from '../services/libraryPin';
+import { notifyUsers } from '../services/notifications';
+import { exportLibraryCatalog, oscalCatalogRelease } from '../services/oscal';
+import { logAudit, getClientIp } from '../utils/auditLogger';
 
 const router = Router();
 
 // GET /controls
 router.get('/', authenticate, async (req: Request, res: Response) => {
   try {
-    const { source, domain_number, risk_level } = req.query;
-    const where: any = {};
+    const { source, domain_number, risk_level, include_retired } = req.query;
+    const org = await prisma.organization.findUnique({ where: { id: req.user!.orgId } });
+    // Library controls read as defined by the release the org is on until its DPO accepts a newer one
+    const pin = await loadLibraryPin(org!);
+    const where: any = include_retired === 'true'
+      ? { OR: [{ orgId: null }, { orgId: req.user!.orgId }] }
+      : pinnedControlsWhere(req.user!.orgId, pin);
     if (source) where.source = source;
     if (domain_number) where.domainNumber = parseInt(domain_number as string);
     if (risk_level) where.riskLevel = risk_level;
@@ -18,7 +37,9 @@ router.get('/', authenticate, async (req: Request, res: Response) => {
       where,
       orderBy: [{ domainNumber: 'asc' }, { id: 'asc' }],
     });
-    res.json({ data: controls, total: controls.length });
+    const branchingResult = await evaluateOrgBranching(org!, pin);
+    const data = controls.map(c => ({ ...pinnedControl(c, c.id, pin), isMandatory: isMandatoryControl(c.id, branchingResult) }));
+    res.json({ data, total: data.length });
   } catch (error) {
     res.status(500).json({ error: 'Failed to get controls', code: 'INTERNAL_ERROR' });
   }
@@ -35,24 +56,8 @@ router.get('/applicable', authenticate, async (req: Request, res: Response) => {
       return;
     }
 
-    const profile = {
-      orgType: org.orgType,
-      processesMinors: org.processesMinors,
-      crossBorderTransfers: org.crossBorderTransfers,
-      usesCloud: org.usesCloud,
-      conductsResearch: org.conductsResearch,
-      usesAiOrAutomatedDecisions: org.usesAiOrAutomatedDecisions,
-      continuousMonitoring: org.continuousMonitoring,
-    };
-
-    const branchingResult = evaluateBranchingRules(profile);
-    const allControls = await prisma.control.findMany({
-      orderBy: [{ domainNumber: 'asc' }, { id: 'asc' }],
-    });
-
-    const applicableControls = allControls.filter(control =>
-      isControlApplicable(control.id, control.conditionalOn, profile, branchingResult)
-    );
+    const { branchingResult, controls } = await getApplicableControls(org);
+    const applicableControls = controls.map(control => ({ ...control, isMandatory: isMandatoryControl(control.id, branchingResult) }));
 
     // Group by domain
     const domains: Record<number, any> = {};
@@ -78,17 +83,458 @@ router.get('/applicable', authenticate, async (req: Request, res: Response) => {
   }
 });
 
+const RELEASE_SUMMARY = {
+  id: true, version: true, title: true, notes: true, status: true, changelog: true,
+  createdAt: true, publishedAt: true,
+} as const;
+
+// GET /controls/releases — Library releases, with the version this org is on and the upgrades awaiting acceptance
+router.get('/releases', authenticate, async (req: Request, res: Response) => {
+  try {
+    const org = await prisma.organization.findUnique({ where: { id: req.user!.orgId } });
+    const releases = await prisma.controlLibraryRelease.findMany({
+      where: req.user!.role === ROLES.SUPER_ADMIN ? {} : { status: 'PUBLISHED' },
+      select: RELEASE_SUMMARY,
+      orderBy: { createdAt: 'desc' },
+    });
+    const pending = await pendingReleases(org!);
+    res.json({
+      data: releases,
+      total: releases.length,
+      currentVersion: await currentLibraryVersion(org!),
+      pendingReleaseIds: pending.map(r => r.id),
+    });
+  } catch (error) {
+    console.error('List library releases error:', error);
+    res.status(500).json({ error: 'Failed to get library releases', code: 'INTERNAL_ERROR' });
+  }
+});
+
+// POST /controls/releases — Stage a new library release (full set of control definitions)
+router.post('/releases', authenticate, authorize(ROLES.SUPER_ADMIN), async (req: Request, res: Response) => {
+  try {
+    const version = typeof req.body?.version === 'string' ? req.body.version.trim() : '';
+    const title = typeof req.body?.title === 'string' ? req.body.title.trim() : '';
+    if (!version || !title) {
+      res.status(400).json({ error: 'version and title are required', code: 'VALIDATION_ERROR' });
+      return;
+    }
+    const controls = parseReleaseControls(req.body.controls);
+    if ('error' in controls) {
+      res.status(400).json({ error: controls.error, code: 'VALIDATION_ERROR' });
+      return;
+    }
+    if (await prisma.controlLibraryRelease.findUnique({ where: { version } })) {
+      res.status(409).json({ error: `Release ${version} already exists`, code: 'DUPLICATE_RELEASE' });
+      return;
+    }
+
+    const changelog = await buildChangelog(controls);
+    const release = await prisma.controlLibraryRelease.create({
+      data: {
+        version,
+        title,
+        notes: typeof req.body.notes === 'string' ? req.body.notes : null,
+        controls: controls as unknown as Prisma.InputJsonValue,
+        changelog: changelog as unknown as Prisma.InputJsonValue,
+        createdBy: req.user!.userId,
+      },
+      select: RELEASE_SUMMARY,
+    });
+
+    await logAudit({
+      orgId: req.user!.orgId,
+      userId: req.user!.userId,
+      action: 'LIBRARY_RELEASE_CREATED',
+      entityType: 'library_release',
+      entityId: release.id,
+      newValue: { version, title, added: changelog.added.length, modified: changelog.modified.length, retired: changelog.retired.length },
+      ipAddress: getClientIp(req),
+      userAgent: req.headers['user-agent'],
+    });
+
+    res.status(201).json(release);
+  } catch (error) {
+    console.error('Create library release error:', error);
+    res.status(500).json({ error: 'Failed to create library release', code: 'INTERNAL_ERROR' });
+  }
+});
+
+// POST /controls/releases/oscal — Stage a release that installs an OSCAL catalog as a framework pack (one source)
+router.post('/releases/oscal', authenticate, authorize(ROLES.SUPER_ADMIN), async (req: Request, res: Response) => {
+  try {
+    const version = typeof req.body?.version === 'string' ? req.body.version.trim() : '';
+    const title = typeof req.body?.title === 'string' ? req.body.title.trim() : '';
+    const source = typeof req.body?.source === 'string' ? req.body.source.trim().toUpperCase() : '';
+    if (!version || !title || !source) {
+      res.status(400).json({ error: 'version, title and source are required', code: 'VALIDATION_ERROR' });
+      return;
+    }
+    const controls = await oscalCatalogRelease(req.body.catalog, source);
+    if ('error' in controls) {
+      res.status(400).json({ error: controls.error, code: 'VALIDATION_ERROR' });
+      return;
+    }
+    if (await prisma.controlLibraryRelease.findUnique({ where: { version } })) {
+      res.status(409).json({ error: `Release ${version} already exists`, code: 'DUPLICATE_RELEASE' });
+      return;
+    }
+
+    const changelog = await buildChangelog(controls);
+    const release = await prisma.controlLibraryRelease.create({
+      data: {
+        version,
+        title,
+        notes: typeof req.body.notes === 'string' ? req.body.notes : `Imported from an OSCAL catalog as source ${source}`,
+        controls: controls as unknown as Prisma.InputJsonValue,
+        changelog: changelog as unknown as Prisma.InputJsonValue,
+        createdBy: req.user!.userId,
+      },
+      select: RELEASE_SUMMARY,
+    });
+
+    await logAudit({
+      orgId: req.user!.orgId,
+      userId: req.user!.userId,
+      action: 'OSCAL_CATALOG_IMPORTED',
+      entityType: 'library_release',
+      entityId: release.id,
+      newValue: { version, title, source, added: changelog.added.length, modified: changelog.modified.length, retired: changelog.retired.length },
+      ipAddress: getClientIp(req),
+      userAgent: req.headers['user-agent'],
+    });
+
+    res.status(201).json(release);
+  } catch (error) {
+    console.error('Import OSCAL catalog error:', error);
+    res.status(500).json({ error: 'Failed to import OSCAL catalog', code: 'INTERNAL_ERROR' });
+  }
+});
+
+// POST /controls/releases/pack — Stage a release from a content pack (controls plus training, dependencies, rules, mappings)
+router.post('/releases/pack', authenticate, authorize(ROLES.SUPER_ADMIN), async (req: Request, res: Response) => {
+  try {
+    const parsed = parseContentPack(req.body);
+    if ('errors' in parsed) {
+      res.status(400).json({ error: parsed.errors[0], code: 'VALIDATION_ERROR', errors: parsed.errors });
+      return;
+    }
+    const { pack } = parsed;
+    if (await prisma.controlLibraryRelease.findUnique({ where: { version: pack.version } })) {
+      res.status(409).json({ error: `Release ${pack.version} already exists`, code: 'DUPLICATE_RELEASE' });
+      return;
+    }
+
+    const changelog = await buildChangelog(pack.controls);
+    const release = await prisma.controlLibraryRelease.create({
+      data: {
+        version: pack.version,
+        title: pack.title,
+        notes: pack.notes,
+        controls: pack.controls as unknown as Prisma.InputJsonValue,
+        content: pack.content as unknown as Prisma.InputJsonValue,
+        changelog: changelog as unknown as Prisma.InputJsonValue,
+        createdBy: req.user!.userId,
+      },
+      select: RELEASE_SUMMARY,
+    });
+
+    await logAudit({
+      orgId: req.user!.orgId,
+      userId: req.user!.userId,
+      action: 'CONTENT_PACK_STAGED',
+      entityType: 'library_release',
+      entityId: release.id,
+      newValue: {
+        version: pack.version,
+        title: pack.title,
+        added: changelog.added.length,
+        modified: changelog.modified.length,
+        retired: changelog.retired.length,
+        trainingModules: pack.content.trainingModules.length,
+        dependencies: pack.content.dependencies.length,
+        branchingRules: pack.content.branchingRules.length,
+        mappings: pack.content.mappings.length,
+      },
+      ipAddress: getClientIp(req),
+      userAgent: req.headers['user-agent'],
+    });
+
+    res.status(201).json(release);
+  } catch (error) {
+    console.error('Stage content pack error:', error);
+    res.status(500).json({ error: 'Failed to stage content pack', code: 'INTERNAL_ERROR' });
+  }
+});
+
+// GET /controls/oscal/catalog — The live library as an OSCAL catalog (JSON)
+router.get('/oscal/catalog', authenticate, async (_req: Request, res: Response) => {
+  try {
+    const catalog = await exportLibraryCatalog();
+    res.setHeader('Content-Disposition', `attachment; filename="control-library-${catalog.catalog.metadata.version}.oscal.json"`);
+    res.json(catalog);
+  } catch (error) {
+    console.error('Export OSCAL catalog error:', error);
+    res.status(500).json({ error: 'Failed to export OSCAL catalog', code: 'INTERNAL_ERROR' });
+  }
+});
+
+// GET /controls/releases/:releaseId — Release changelog
+router.get('/releases/:releaseId', authenticate, async (req: Request, res: Response) => {
+  try {
+    const release = await prisma.controlLibraryRelease.findUnique({ where: { id: String(req.params.releaseId) }, select: RELEASE_SUMMARY });
+    if (!release || (release.status !== 'PUBLISHED' && req.user!.role !== ROLES.SUPER_ADMIN)) {
+      res.status(404).json({ error: 'Release not found', code: 'NOT_FOUND' });
+      return;
+    }
+    res.json(release);
+  } catch (error) {
+    console.error('Get library release error:', error);
+    res.status(500).json({ error: 'Failed to get library release', code: 'INTERNAL_ERROR' });
+  }
+});
+
+// GET /controls/releases/:releaseId/impact — Draft answers, open tasks and evidence in this org affected by the release
+router.get('/releases/:releaseId/impact', authenticate, async (req: Request, res: Response) => {
+  try {
+    const release = await prisma.controlLibraryRelease.findUnique({ where: { id: String(req.params.releaseId) } });
+    if (!release || (release.status !== 'PUBLISHED' && req.user!.role !== ROLES.SUPER_ADMIN)) {
+      res.status(404).json({ error: 'Release not found', code: 'NOT_FOUND' });
+      return;
+    }
+    const org = await prisma.organization.findUnique({ where: { id: req.user!.orgId } });
+    res.json(await analyzeReleaseImpact(release, org!));
+  } catch (error) {
+    console.error('Library release impact error:', error);
+    res.status(500).json({ error: 'Failed to analyze release impact', code: 'INTERNAL_ERROR' });
+  }
+});
+
+// POST /controls/releases/:releaseId/publish — Apply the release to the live library; each org moves to it when its DPO accepts
+router.post('/releases/:releaseId/publish', authenticate, authorize(ROLES.SUPER_ADMIN), async (req: Request, res: Response) => {
+  try {
+    const release = await prisma.controlLibraryRelease.findUnique({ where: { id: String(req.params.releaseId) } });
+    if (!release) {
+      res.status(404).json({ error: 'Release not found', code: 'NOT_FOUND' });
+      return;
+    }
+    if (release.status !== 'DRAFT') {
+      res.status(400).json({ error: 'Release is already published', code: 'INVALID_STATUS' });
+      return;
+    }
+
+    const published = await publishRelease(release, req.user!.userId);
+    const changelog = published.changelog as { added: string[]; modified: unknown[]; retired: string[] };
+
+    const dpos = await prisma.user.findMany({
+      where: { role: ROLES.DPO, isActive: true, isDeleted: false, organization: { isDeleted: false } },
+      select: { id: true, orgId: true },
+    });
+    for (const orgId of new Set(dpos.map(u => u.orgId))) {
+      await notifyUsers(orgId, dpos.filter(u => u.orgId === orgId).map(u => u.id), {
+        type: 'LIBRARY_RELEASE_PUBLISHED',
+        title: `Control library ${release.version} published — review and accept`,
+        body: `${changelog.added.length} added, ${changelog.modified.length} modified, ${changelog.retired.length} retired. New assessments and finalization wait for your acceptance.`,
+        link: '/controls',
+      }, req.user!.userId);
+    }
+
+    await logAudit({
+      orgId: req.user!.orgId,
+      userId: req.user!.userId,
+      action: 'LIBRARY_RELEASE_PUBLISHED',
+      entityType: 'library_release',
+      entityId: release.id,
+      newValue: { version: release.version, changelog },
+      ipAddress: getClientIp(req),
+      userAgent: req.headers['user-agent'],
+    });
+
+    res.json({ id: published.id, version: published.version, status: published.status, publishedAt: published.publishedAt, changelog });
+  } catch (error) {
+    console.error('Publish library release error:', error);
+    res.status(500).json({ error: 'Failed to publish library release', code: 'INTERNAL_ERROR' });
+  }
+});
+
+// POST /controls/releases/:releaseId/accept — DPO accepts a published release for the org (oldest pending first)
+router.post('/releases/:releaseId/accept', authenticate, authorize(ROLES.DPO), async (req: Request, res: Response) => {
+  try {
+    const org = await prisma.organization.findUnique({ where: { id: req.user!.orgId } });
+    const pending = await pendingReleases(org!);
+    const release = pending.find(r => r.id === String(req.params.releaseId));
+    if (!release) {
+      res.status(404).json({ error: 'No pending release with this ID', code: 'NOT_FOUND' });
+      return;
+    }
+    if (release.id !== pending[0].id) {
+      res.status(400).json({ error: `Accept release ${pending[0].version} first`, code: 'OUT_OF_ORDER' });
+      return;
+    }
+
+    const { acceptance, impact, responsesFlagged } = await acceptRelease(release, org!, req.user!.userId);
+
+    await logAudit({
+      orgId: req.user!.orgId,
+      userId: req.user!.userId,
+      action: 'LIBRARY_UPGRADE_ACCEPTED',
+      entityType: 'library_release',
+      entityId: release.id,
+      newValue: { version: release.version, impact: impact.summary, responsesFlagged },
+      ipAddress: getClientIp(req),
+      userAgent: req.headers['user-agent'],
+    });
+
+    res.json({ ...acceptance, version: release.version, responsesFlagged });
+  } catch (error) {
+    console.error('Accept library release error:', error);
+    res.status(500).json({ error: 'Failed to accept library release', code: 'INTERNAL_ERROR' });
+  }
+});
+
+// GET /controls/custom — This organization's custom controls, retired ones included
+router.get('/custom', authenticate, async (req: Request, res: Response) => {
+  try {
+    const controls = await prisma.control.findMany({
+      where: { orgId: req.user!.orgId },
+      orderBy: [{ retiredAt: { sort: 'desc', nulls: 'first' } }, { domainNumber: 'asc' }, { id: 'asc' }],
+    });
+    res.json({ data: controls, total: controls.length });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to get custom controls', code: 'INTERNAL_ERROR' });
+  }
+});
+
+// POST /controls/custom — Add an internal control (e.g. hospital policy or CBAHI item) visible only to this organization
+router.post('/custom', authenticate, authorize(...DPO_AND_ABOVE), async (req: Request, res: Response) => {
+  try {
+    const orgId = req.user!.orgId;
+    const body = req.body || {};
+    const domains = await libraryDomainNames();
+    const validationError = validateCustomControlInput(body, domains, null);
+    if (validationError) {
+      res.status(400).json({ error: validationError, code: 'VALIDATION_ERROR' });
+      return;
+    }
+    if (await findLiveCustomControlByRef(orgId, body.ref)) {
+      res.status(409).json({ error: `A custom control with ref ${body.ref} already exists`, code: 'DUPLICATE_CONTROL' });
+      return;
+    }
+
+    const control = await prisma.control.create({
+      data: {
+        // Custom controls stay out of the regulatory score unless the organization opts in
+        includeInScore: false,
+        ...customControlData(body, domains, null),
+        id: newCustomControlId(),
+        orgId,
+        source: CUSTOM_SOURCE,
+        ref: body.ref,
+      } as Prisma.ControlUncheckedCreateInput,
+    });
+
+    await logAudit({
+      orgId,
+      userId: req.user!.userId,
+      action: 'CUSTOM_CONTROL_CREATED',
+      entityType: 'control',
+      entityId: control.id,
+      newValue: control,
+      ipAddress: getClientIp(req),
+      userAgent: req.headers['user-agent'],
+    });
+
+    res.status(201).json(control);
+  } catch (error) {
+    console.error('Create custom control error:', error);
+    res.status(500).json({ error: 'Failed to create custom control', code: 'INTERNAL_ERROR' });
+  }
+});
+
+// PUT /controls/custom/:id — Finalized assessments keep scoring against the definition they were finalized with
+router.put('/custom/:id', authenticate, authorize(...DPO_AND_ABOVE), async (req: Request, res: Response) => {
+  try {
+    const orgId = req.user!.orgId;
+    const existing = await prisma.control.findFirst({ where: { id: String(req.params.id), orgId, retiredAt: null } });
+    if (!existing) {
+      res.status(404).json({ error: 'Custom control not found', code: 'NOT_FOUND' });
+      return;
+    }
+    const domains = await libraryDomainNames();
+    const validationError = validateCustomControlInput(req.body || {}, domains, existing);
+    if (validationError) {
+      res.status(400).json({ error: validationError, code: 'VALIDATION_ERROR' });
+      return;
+    }
+
+    const control = await prisma.control.update({
+      where: { id: existing.id },
+      data: customControlData(req.body, domains, existing),
+    });
+
+    await logAudit({
+      orgId,
+      userId: req.user!.userId,
+      action: 'CUSTOM_CONTROL_UPDATED',
+      entityType: 'control',
+      entityId: control.id,
+      oldValue: existing,
+      newValue: control,
+      ipAddress: getClientIp(req),
+      userAgent: req.headers['user-agent'],
+    });
+
+    res.json(control);
+  } catch (error) {
+    console.error('Update custom control error:', error);
+    res.status(500).json({ error: 'Failed to update custom control', code: 'INTERNAL_ERROR' });
+  }
+});
+
+// DELETE /controls/custom/:id — Retire; answers, tasks and evidence already recorded against it are kept
+router.delete('/custom/:id', authenticate, authorize(...DPO_AND_ABOVE), async (req: Request, res: Response) => {
+  try {
+    const orgId = req.user!.orgId;
+    const existing = await prisma.control.findFirst({ where: { id: String(req.params.id), orgId, retiredAt: null } });
+    if (!existing) {
+      res.status(404).json({ error: 'Custom control not found', code: 'NOT_FOUND' });
+      return;
+    }
+    await prisma.control.update({ where: { id: existing.id }, data: { retiredAt: new Date() } });
+
+    await logAudit({
+      orgId,
+      userId: req.user!.userId,
+      action: 'CUSTOM_CONTROL_RETIRED',
+      entityType: 'control',
+      entityId: existing.id,
+      oldValue: existing,
+      ipAddress: getClientIp(req),
+      userAgent: req.headers['user-agent'],
+    });
+
+    res.json({ message: 'Custom control retired' });
+  } catch (error) {
+    console.error('Retire custom control error:', error);
+    res.status(500).json({ error: 'Failed to retire custom control', code: 'INTERNAL_ERROR' });
+  }
+});
+
 // GET /controls/:id
 router.get('/:id', authenticate, async (req: Request, res: Response) => {
   try {
-    const control = await prisma.control.findUnique({
-      where: { id: String(req.params.id) },
+    const control = await prisma.control.findFirst({
+      where: { id: String(req.params.id), OR: [{ orgId: null }, { orgId: req.user!.orgId }] },
+      include: { dependents: true, dependsOn: true, mappings: { orderBy: [{ framework: 'asc' }, { requirementId: 'asc' }] } },
     });
     if (!control) {
       res.status(404).json({ error: 'Control not found', code: 'NOT_FOUND' });
       return;
     }
-    res.json(control);
+    const org = await prisma.organization.findUnique({ where: { id: req.user!.orgId } });
+    const pin = await loadLibraryPin(org!);
+    const branchingResult = await evaluateOrgBranching(org!, pin);
+    res.json({ ...pinnedControl(control, control.id, pin), isMandatory: isMandatoryControl(control.id, branchingResult) });
   } catch (error) {
     res.status(500).json({ error: 'Failed to get control', code: 'INTERNAL_ERROR' });
   }
@@ -0,0 +1,132 @@
+import { Router, Request, Response } from 'express';
+import { prisma } from '../index';
+import { authenticate, authorize, ROLES, DPO_AND_ABOVE } from '../middleware/auth';
+import { frameworkCoverage, frameworkSummaries, validateMappingInput } from '../services/crosswalk';
+import { FRAMEWORKS, isFramework, normalizeRequirementId } from '../services/crosswalkReferences';
+import { findVisibleControl } from '../services/customControls';
+import { logAudit, getClientIp } from '../utils/auditLogger';
+
+const router = Router();
+
+// Library controls are shared by every tenant; an organization only maps its own custom controls
+function canEditMappings(control: { orgId: string | null }, role: string): boolean {
+  return control.orgId ? true : role === ROLES.SUPER_ADMIN;
+}
+
+// GET /crosswalk/frameworks — External frameworks with the number of requirements and controls mapped
+router.get('/frameworks', authenticate, async (req: Request, res: Response) => {
+  try {
+    const data = await frameworkSummaries(req.user!.orgId);
+    res.json({ data, total: data.length });
+  } catch (error) {
+    console.error('Crosswalk frameworks error:', error);
+    res.status(500).json({ error: 'Failed to get frameworks', code: 'INTERNAL_ERROR' });
+  }
+});
+
+// GET /crosswalk/coverage?framework=NCA_ECC&requirement=2-2-1 — Controls satisfying each requirement
+router.get('/coverage', authenticate, async (req: Request, res: Response) => {
+  try {
+    const framework = String(req.query.framework || '');
+    if (!isFramework(framework)) {
+      res.status(400).json({ error: `framework must be one of: ${Object.keys(FRAMEWORKS).join(', ')}`, code: 'VALIDATION_ERROR' });
+      return;
+    }
+    const org = await prisma.organization.findUnique({ where: { id: req.user!.orgId } });
+    const requirement = typeof req.query.requirement === 'string' && req.query.requirement.trim() ? req.query.requirement : undefined;
+    res.json(await frameworkCoverage(org!, framework, requirement));
+  } catch (error) {
+    console.error('Crosswalk coverage error:', error);
+    res.status(500).json({ error: 'Failed to get framework coverage', code: 'INTERNAL_ERROR' });
+  }
+});
+
+// POST /crosswalk/mappings — Map a control to an external requirement
+router.post('/mappings', authenticate, authorize(...DPO_AND_ABOVE), async (req: Request, res: Response) => {
+  try {
+    const body = req.body || {};
+    const validationError = validateMappingInput(body);
+    if (validationError) {
+      res.status(400).json({ error: validationError, code: 'VALIDATION_ERROR' });
+      return;
+    }
+    const control = await findVisibleControl(body.controlId, req.user!.orgId);
+    if (!control) {
+      res.status(404).json({ error: 'Control not found', code: 'NOT_FOUND' });
+      return;
+    }
+    if (!canEditMappings(control, req.user!.role)) {
+      res.status(403).json({ error: 'Only a super admin can map library controls', code: 'FORBIDDEN' });
+      return;
+    }
+    const requirementId = normalizeRequirementId(body.framework, body.requirementId);
+    const duplicate = await prisma.controlMapping.findUnique({
+      where: { controlId_framework_requirementId: { controlId: control.id, framework: body.framework, requirementId } },
+    });
+    if (duplicate) {
+      res.status(409).json({ error: `${control.id} is already mapped to ${FRAMEWORKS[body.framework]} ${requirementId}`, code: 'DUPLICATE_MAPPING' });
+      return;
+    }
+
+    const mapping = await prisma.controlMapping.create({
+      data: {
+        controlId: control.id,
+        framework: body.framework,
+        requirementId,
+        requirementTitle: body.requirementTitle?.trim() || null,
+        coverage: body.coverage || 'FULL',
+        createdBy: req.user!.userId,
+      },
+    });
+
+    await logAudit({
+      orgId: req.user!.orgId,
+      userId: req.user!.userId,
+      action: 'CONTROL_MAPPING_CREATED',
+      entityType: 'control_mapping',
+      entityId: mapping.id,
+      newValue: mapping,
+      ipAddress: getClientIp(req),
+      userAgent: req.headers['user-agent'],
+    });
+
+    res.status(201).json(mapping);
+  } catch (error) {
+    console.error('Create control mapping error:', error);
+    res.status(500).json({ error: 'Failed to create control mapping', code: 'INTERNAL_ERROR' });
+  }
+});
+
+// DELETE /crosswalk/mappings/:id
+router.delete('/mappings/:id', authenticate, authorize(...DPO_AND_ABOVE), async (req: Request, res: Response) => {
+  try {
+    const mapping = await prisma.controlMapping.findUnique({ where: { id: String(req.params.id) }, include: { control: true } });
+    if (!mapping || (mapping.control.orgId && mapping.control.orgId !== req.user!.orgId)) {
+      res.status(404).json({ error: 'Mapping not found', code: 'NOT_FOUND' });
+      return;
+    }
+    if (!canEditMappings(mapping.control, req.user!.role)) {
+      res.status(403).json({ error: 'Only a super admin can map library controls', code: 'FORBIDDEN' });
+      return;
+    }
+    await prisma.controlMapping.delete({ where: { id: mapping.id } });
+
+    await logAudit({
+      orgId: req.user!.orgId,
+      userId: req.user!.userId,
+      action: 'CONTROL_MAPPING_DELETED',
+      entityType: 'control_mapping',
+      entityId: mapping.id,
+      oldValue: { controlId: mapping.controlId, framework: mapping.framework, requirementId: mapping.requirementId, coverage: mapping.coverage, origin: mapping.origin },
+      ipAddress: getClientIp(req),
+      userAgent: req.headers['user-agent'],
+    });
+
+    res.json({ message: 'Mapping deleted' });
+  } catch (error) {
+    console.error('Delete control mapping error:', error);
+    res.status(500).json({ error: 'Failed to delete control mapping', code: 'INTERNAL_ERROR' });
+  }
+});
+
+export default router;
@@ -1,6 +1,9 @@
 import { Router, Request, Response } from 'express';
 import { prisma } from '../index';
 import { authenticate, authorize, ROLES } from '../middleware/auth';
+import { previewScores, changesForClosingTasks } from '../services/scorePreview';
+import { rollUpFacilityScores, ROLLUP_WEIGHTS, RollupWeight } from '../services/facilityRollup';
+import { getAssessmentCadence, listOverdueOrganizations } from '../services/assessmentSchedules';
 
 const router = Router();
 
@@ -9,15 +12,15 @@ router.get('/compliance-score', authenticate, async (req: Request, res: Response
   try {
     const orgId = req.user!.orgId;
 
-    // Get latest finalized assessment
+    // Get latest finalized org-wide assessment (scoped assessments roll up via /dashboard/facility-rollup)
     const latestAssessment = await prisma.assessment.findFirst({
-      where: { orgId, status: 'FINALIZED', isDeleted: false },
+      where: { orgId, status: { in: ['FINALIZED', 'AMENDING'] }, isDeleted: false, scopeType: 'ORG' },
       orderBy: { finalizedAt: 'desc' },
     });
 
     // Get historical assessments for trend
     const historicalAssessments = await prisma.assessment.findMany({
-      where: { orgId, status: { in: ['FINALIZED', 'ARCHIVED'] }, isDeleted: false },
+      where: { orgId, status: { in: ['FINALIZED', 'ARCHIVED'] }, isDeleted: false, scopeType: 'ORG' },
       orderBy: { finalizedAt: 'asc' },
       take: 6,
       select: {
@@ -35,11 +38,17 @@ router.get('/compliance-score', authenticate, async (req: Request, res: Response
 
     // Get current draft assessment progress
     const draftAssessment = await prisma.assessment.findFirst({
-      where: { orgId, status: 'DRAFT', isDeleted: false },
+      where: { orgId, status: 'DRAFT', isDeleted: false, scopeType: 'ORG' },
       orderBy: { createdAt: 'desc' },
       include: { _count: { select: { responses: true } } },
     });
 
+    // Live draft score and the projection if every open task on the latest assessment closes
+    const draftPreview = draftAssessment ? await previewScores(draftAssessment.id, orgId) : null;
+    const projection = latestAssessment
+      ? await previewScores(latestAssessment.id, orgId, await changesForClosingTasks(latestAssessment.id, orgId))
+      : null;
+
     // Task stats
     const taskStats = await prisma.remediationTask.groupBy({
       by: ['status'],
@@ -61,8 +70,10 @@ router.get('/compliance-score', authenticate, async (req: Request, res: Response
     });
 
     res.json({
+      latestAssessmentId: latestAssessment?.id || null,
       currentScore: latestAssessment ? Number(latestAssessment.overallScore) : null,
       domainScores: latestAssessment?.domainScores || null,
+      sourceScores: latestAssessment?.sourceScores || projection?.current.sourceScores || null,
       criticalGaps: latestAssessment?.criticalGaps || 0,
       highGaps: latestAssessment?.highGaps || 0,
       mediumGaps: latestAssessment?.mediumGaps || 0,
@@ -72,9 +83,14 @@ router.get('/compliance-score', authenticate, async (req: Request, res: Response
         score: Number(a.overallScore),
         date: a.finalizedAt,
       })),
+      // With no open tasks left the projection is the score as it stands
+      projectedScore: projection ? (projection.projected ?? projection.current).overallScore : null,
+      projectedTasksClosed: projection?.appliedChanges.length || 0,
       draftProgress: draftAssessment ? {
         id: draftAssessment.id,
         responsesCount: draftAssessment._count.responses,
+        totalApplicable: draftPreview!.totalApplicable,
+        score: draftPreview!.current.overallScore,
       } : null,
       tasks: {
         ...tasksByStatus,
@@ -87,6 +103,42 @@ router.get('/compliance-score', authenticate, async (req: Request, res: Response
   }
 });
 
+// GET /dashboard/facility-rollup?weightBy=beds|headcount — Org-level view aggregated from facility assessments
+router.get('/facility-rollup', authenticate, async (req: Request, res: Response) => {
+  try {
+    const weightBy = (req.query.weightBy ? String(req.query.weightBy) : 'beds') as RollupWeight;
+    if (!ROLLUP_WEIGHTS.includes(weightBy)) {
+      res.status(400).json({ error: `Invalid weightBy. Must be one of: ${ROLLUP_WEIGHTS.join(', ')}`, code: 'VALIDATION_ERROR' });
+      return;
+    }
+    res.json(await rollUpFacilityScores(req.user!.orgId, weightBy));
+  } catch (error) {
+    console.error('Facility rollup error:', error);
+    res.status(500).json({ error: 'Failed to get facility roll-up', code: 'INTERNAL_ERROR' });
+  }
+});
+
+// GET /dashboard/assessment-cadence — Next scheduled assessment and whether the reassessment policy is breached
+router.get('/assessment-cadence', authenticate, async (req: Request, res: Response) => {
+  try {
+    res.json(await getAssessmentCadence(req.user!.orgId));
+  } catch (error) {
+    console.error('Assessment cadence error:', error);
+    res.status(500).json({ error: 'Failed to get assessment cadence', code: 'INTERNAL_ERROR' });
+  }
+});
+
+// GET /dashboard/overdue-organizations — Platform view of orgs past their reassessment policy
+router.get('/overdue-organizations', authenticate, authorize(ROLES.SUPER_ADMIN), async (_req: Request, res: Response) => {
+  try {
+    const organizations = await listOverdueOrganizations();
+    res.json({ data: organizations, total: organizations.length });
+  } catch (error) {
+    console.error('Overdue organizations error:', error);
+    res.status(500).json({ error: 'Failed to get overdue organizations', code: 'INTERNAL_ERROR' });
+  }
+});
+
 // GET /dashboard/kpis
 router.get('/kpis', authenticate, async (req: Request, res: Response) => {
   try {
@@ -1,6 +1,7 @@
 import { Router, Request, Response } from 'express';
 import { prisma } from '../index';
 import { authenticate } from '../middleware/auth';
+import { findVisibleControl } from '../services/customControls';
 import { logAudit, getClientIp } from '../utils/auditLogger';
 import multer from 'multer';
 import crypto from 'crypto';
@@ -58,7 +59,7 @@ router.post('/upload', authenticate, upload.single('file'), async (req: Request,
     }
 
     // Validate control exists
-    const control = await prisma.control.findUnique({ where: { id: controlId } });
+    const control = await findVisibleControl(controlId, req.user!.orgId);
     if (!control) {
       // Clean up uploaded file
       if (req.file?.path) fs.unlinkSync(req.file.path);
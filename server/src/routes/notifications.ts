@@ -0,0 +1,58 @@
+import { Router, Request, Response } from 'express';
+import { prisma } from '../index';
+import { authenticate } from '../middleware/auth';
+
+const router = Router();
+
+// GET /notifications — current user's notifications (?unread=true)
+router.get('/', authenticate, async (req: Request, res: Response) => {
+  try {
+    const where = {
+      userId: req.user!.userId,
+      orgId: req.user!.orgId,
+      ...(req.query.unread === 'true' ? { readAt: null } : {}),
+    };
+    const [notifications, unreadCount] = await Promise.all([
+      prisma.notification.findMany({ where, orderBy: { createdAt: 'desc' }, take: 50 }),
+      prisma.notification.count({ where: { userId: req.user!.userId, orgId: req.user!.orgId, readAt: null } }),
+    ]);
+    res.json({ data: notifications, total: notifications.length, unreadCount });
+  } catch (error) {
+    console.error('Get notifications error:', error);
+    res.status(500).json({ error: 'Failed to get notifications', code: 'INTERNAL_ERROR' });
+  }
+});
+
+// PUT /notifications/read-all
+router.put('/read-all', authenticate, async (req: Request, res: Response) => {
+  try {
+    const { count } = await prisma.notification.updateMany({
+      where: { userId: req.user!.userId, orgId: req.user!.orgId, readAt: null },
+      data: { readAt: new Date() },
+    });
+    res.json({ updated: count });
+  } catch (error) {
+    console.error('Mark notifications read error:', error);
+    res.status(500).json({ error: 'Failed to update notifications', code: 'INTERNAL_ERROR' });
+  }
+});
+
+// PUT /notifications/:id/read
+router.put('/:id/read', authenticate, async (req: Request, res: Response) => {
+  try {
+    const { count } = await prisma.notification.updateMany({
+      where: { id: String(req.params.id), userId: req.user!.userId, orgId: req.user!.orgId },
+      data: { readAt: new Date() },
+    });
+    if (count === 0) {
+      res.status(404).json({ error: 'Notification not found', code: 'NOT_FOUND' });
+      return;
+    }
+    res.json({ message: 'Notification marked as read' });
+  } catch (error) {
+    console.error('Mark notification read error:', error);
+    res.status(500).json({ error: 'Failed to update notification', code: 'INTERNAL_ERROR' });
+  }
+});
+
+export default router;
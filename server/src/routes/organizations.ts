@@ -1,8 +1,10 @@
 import { Router, Request, Response } from 'express';
 import { prisma } from '../index';
 import { authenticate, authorize, ROLES, DPO_AND_ABOVE } from '../middleware/auth';
-import { evaluateBranchingRules } from '../services/branchingRules';
+import { evaluateOrgBranching } from '../services/branchingRules';
 import { logAudit, getClientIp } from '../utils/auditLogger';
+import { visibleControlsWhere } from '../services/customControls';
+import { validateScheduleInput, firstDueDate, SCHEDULE_FIELDS, MAX_INTERVAL_MONTHS } from '../services/assessmentSchedules';
 
 const router = Router();
 
@@ -16,15 +18,7 @@ router.get('/profile', authenticate, async (req: Request, res: Response) => {
       res.status(404).json({ error: 'Organization not found', code: 'NOT_FOUND' });
       return;
     }
-    const branchingResult = evaluateBranchingRules({
-      orgType: org.orgType,
-      processesMinors: org.processesMinors,
-      crossBorderTransfers: org.crossBorderTransfers,
-      usesCloud: org.usesCloud,
-      conductsResearch: org.conductsResearch,
-      usesAiOrAutomatedDecisions: org.usesAiOrAutomatedDecisions,
-      continuousMonitoring: org.continuousMonitoring,
-    });
+    const branchingResult = await evaluateOrgBranching(org);
     res.json({ ...org, branchingResult });
   } catch (error) {
     res.status(500).json({ error: 'Failed to get organization profile', code: 'INTERNAL_ERROR' });
@@ -43,8 +37,15 @@ router.put('/profile', authenticate, authorize(ROLES.ORG_ADMIN, ROLES.DPO, ROLES
       'processesMinors', 'crossBorderTransfers', 'usesCloud', 'conductsResearch',
       'usesAiOrAutomatedDecisions', 'continuousMonitoring', 'dpoAppointed',
       'dpoName', 'dpoEmail', 'applicableRegulatoryBodies', 'onboardingCompleted',
+      'reassessmentPolicyMonths',
     ];
 
+    const policy = req.body.reassessmentPolicyMonths;
+    if (policy != null && (!Number.isInteger(policy) || policy < 1 || policy > MAX_INTERVAL_MONTHS)) {
+      res.status(400).json({ error: `reassessmentPolicyMonths must be a whole number from 1 to ${MAX_INTERVAL_MONTHS}`, code: 'VALIDATION_ERROR' });
+      return;
+    }
+
     for (const field of allowedFields) {
       if (req.body[field] !== undefined) {
         updateData[field] = req.body[field];
@@ -56,15 +57,7 @@ router.put('/profile', authenticate, authorize(ROLES.ORG_ADMIN, ROLES.DPO, ROLES
       data: updateData,
     });
 
-    const branchingResult = evaluateBranchingRules({
-      orgType: org.orgType,
-      processesMinors: org.processesMinors,
-      crossBorderTransfers: org.crossBorderTransfers,
-      usesCloud: org.usesCloud,
-      conductsResearch: org.conductsResearch,
-      usesAiOrAutomatedDecisions: org.usesAiOrAutomatedDecisions,
-      continuousMonitoring: org.continuousMonitoring,
-    });
+    const branchingResult = await evaluateOrgBranching(org);
 
     await logAudit({
       orgId,
@@ -150,4 +143,271 @@ router.post('/users', authenticate, authorize(ROLES.ORG_ADMIN, ROLES.DPO), async
   }
 });
 
+const FACILITY_FIELDS = ['name', 'region', 'bedCount', 'headcount'] as const;
+
+// Shared by create and update; returns an error message for invalid input
+function validateFacilityInput(body: Record<string, unknown>, regions: string[], requireName: boolean): string | null {
+  if (requireName && (typeof body.name !== 'string' || !body.name.trim())) return 'Facility name is required';
+  if (body.name !== undefined && (typeof body.name !== 'string' || !body.name.trim())) return 'Facility name cannot be empty';
+  if (body.region != null && !regions.includes(body.region as string)) {
+    return `Region must be one of the organization's regions of operation: ${regions.join(', ') || 'none configured'}`;
+  }
+  for (const field of ['bedCount', 'headcount']) {
+    const value = body[field];
+    if (value != null && (!Number.isInteger(value) || (value as number) < 0)) return `${field} must be a non-negative whole number`;
+  }
+  return null;
+}
+
+// GET /organizations/facilities
+router.get('/facilities', authenticate, async (req: Request, res: Response) => {
+  try {
+    const facilities = await prisma.facility.findMany({
+      where: { orgId: req.user!.orgId, isDeleted: false },
+      orderBy: { name: 'asc' },
+    });
+    res.json({ data: facilities, total: facilities.length });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to get facilities', code: 'INTERNAL_ERROR' });
+  }
+});
+
+// POST /organizations/facilities
+router.post('/facilities', authenticate, authorize(ROLES.ORG_ADMIN, ROLES.DPO, ROLES.SUPER_ADMIN), async (req: Request, res: Response) => {
+  try {
+    const orgId = req.user!.orgId;
+    const org = await prisma.organization.findUnique({ where: { id: orgId } });
+    const validationError = validateFacilityInput(req.body || {}, org?.regionsOfOperation || [], true);
+    if (validationError) {
+      res.status(400).json({ error: validationError, code: 'VALIDATION_ERROR' });
+      return;
+    }
+
+    const { name, region, bedCount, headcount } = req.body;
+    const facility = await prisma.facility.create({
+      data: { orgId, name: name.trim(), region: region ?? null, bedCount: bedCount ?? null, headcount: headcount ?? null },
+    });
+
+    await logAudit({
+      orgId,
+      userId: req.user!.userId,
+      action: 'FACILITY_CREATED',
+      entityType: 'facility',
+      entityId: facility.id,
+      newValue: facility,
+      ipAddress: getClientIp(req),
+      userAgent: req.headers['user-agent'],
+    });
+
+    res.status(201).json(facility);
+  } catch (error) {
+    console.error('Create facility error:', error);
+    res.status(500).json({ error: 'Failed to create facility', code: 'INTERNAL_ERROR' });
+  }
+});
+
+// PUT /organizations/facilities/:id
+router.put('/facilities/:id', authenticate, authorize(ROLES.ORG_ADMIN, ROLES.DPO, ROLES.SUPER_ADMIN), async (req: Request, res: Response) => {
+  try {
+    const orgId = req.user!.orgId;
+    const [existing, org] = await Promise.all([
+      prisma.facility.findFirst({ where: { id: String(req.params.id), orgId, isDeleted: false } }),
+      prisma.organization.findUnique({ where: { id: orgId } }),
+    ]);
+    if (!existing) {
+      res.status(404).json({ error: 'Facility not found', code: 'NOT_FOUND' });
+      return;
+    }
+    const validationError = validateFacilityInput(req.body || {}, org?.regionsOfOperation || [], false);
+    if (validationError) {
+      res.status(400).json({ error: validationError, code: 'VALIDATION_ERROR' });
+      return;
+    }
+
+    const updateData: any = {};
+    for (const field of FACILITY_FIELDS) {
+      if (req.body[field] !== undefined) {
+        updateData[field] = field === 'name' ? req.body.name.trim() : req.body[field];
+      }
+    }
+    const facility = await prisma.facility.update({ where: { id: existing.id }, data: updateData });
+
+    await logAudit({
+      orgId,
+      userId: req.user!.userId,
+      action: 'FACILITY_UPDATED',
+      entityType: 'facility',
+      entityId: facility.id,
+      oldValue: existing,
+      newValue: facility,
+      ipAddress: getClientIp(req),
+      userAgent: req.headers['user-agent'],
+    });
+
+    res.json(facility);
+  } catch (error) {
+    console.error('Update facility error:', error);
+    res.status(500).json({ error: 'Failed to update facility', code: 'INTERNAL_ERROR' });
+  }
+});
+
+// DELETE /organizations/facilities/:id — Soft delete; finalized facility assessments are kept
+router.delete('/facilities/:id', authenticate, authorize(ROLES.ORG_ADMIN, ROLES.DPO, ROLES.SUPER_ADMIN), async (req: Request, res: Response) => {
+  try {
+    const orgId = req.user!.orgId;
+    const existing = await prisma.facility.findFirst({ where: { id: String(req.params.id), orgId, isDeleted: false } });
+    if (!existing) {
+      res.status(404).json({ error: 'Facility not found', code: 'NOT_FOUND' });
+      return;
+    }
+    await prisma.facility.update({ where: { id: existing.id }, data: { isDeleted: true } });
+
+    await logAudit({
+      orgId,
+      userId: req.user!.userId,
+      action: 'FACILITY_DELETED',
+      entityType: 'facility',
+      entityId: existing.id,
+      oldValue: existing,
+      ipAddress: getClientIp(req),
+      userAgent: req.headers['user-agent'],
+    });
+
+    res.json({ message: 'Facility deleted' });
+  } catch (error) {
+    console.error('Delete facility error:', error);
+    res.status(500).json({ error: 'Failed to delete facility', code: 'INTERNAL_ERROR' });
+  }
+});
+
+async function libraryDomains(orgId: string): Promise<number[]> {
+  const domains = await prisma.control.findMany({ where: visibleControlsWhere(orgId), distinct: ['domainNumber'], select: { domainNumber: true }, orderBy: { domainNumber: 'asc' } });
+  return domains.map(d => d.domainNumber);
+}
+
+// GET /organizations/assessment-schedules
+router.get('/assessment-schedules', authenticate, async (req: Request, res: Response) => {
+  try {
+    const schedules = await prisma.assessmentSchedule.findMany({
+      where: { orgId: req.user!.orgId, isDeleted: false },
+      orderBy: [{ domainNumber: { sort: 'asc', nulls: 'first' } }, { nextDueAt: 'asc' }],
+    });
+    res.json({ data: schedules, total: schedules.length });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to get assessment schedules', code: 'INTERNAL_ERROR' });
+  }
+});
+
+// POST /organizations/assessment-schedules — Reassess in full (no domainNumber) or one domain every intervalMonths
+router.post('/assessment-schedules', authenticate, authorize(...DPO_AND_ABOVE), async (req: Request, res: Response) => {
+  try {
+    const orgId = req.user!.orgId;
+    const body = req.body || {};
+    const validationError = validateScheduleInput(body, await libraryDomains(orgId), null);
+    if (validationError) {
+      res.status(400).json({ error: validationError, code: 'VALIDATION_ERROR' });
+      return;
+    }
+
+    const schedule = await prisma.assessmentSchedule.create({
+      data: {
+        orgId,
+        domainNumber: body.domainNumber ?? null,
+        intervalMonths: body.intervalMonths,
+        mode: body.mode || 'STANDARD',
+        carryForward: body.carryForward ?? true,
+        nextDueAt: body.nextDueAt ? new Date(body.nextDueAt) : await firstDueDate(orgId, body.intervalMonths),
+        createdBy: req.user!.userId,
+      },
+    });
+
+    await logAudit({
+      orgId,
+      userId: req.user!.userId,
+      action: 'ASSESSMENT_SCHEDULE_CREATED',
+      entityType: 'assessment_schedule',
+      entityId: schedule.id,
+      newValue: schedule,
+      ipAddress: getClientIp(req),
+      userAgent: req.headers['user-agent'],
+    });
+
+    res.status(201).json(schedule);
+  } catch (error) {
+    console.error('Create assessment schedule error:', error);
+    res.status(500).json({ error: 'Failed to create assessment schedule', code: 'INTERNAL_ERROR' });
+  }
+});
+
+// PUT /organizations/assessment-schedules/:id
+router.put('/assessment-schedules/:id', authenticate, authorize(...DPO_AND_ABOVE), async (req: Request, res: Response) => {
+  try {
+    const orgId = req.user!.orgId;
+    const existing = await prisma.assessmentSchedule.findFirst({ where: { id: String(req.params.id), orgId, isDeleted: false } });
+    if (!existing) {
+      res.status(404).json({ error: 'Assessment schedule not found', code: 'NOT_FOUND' });
+      return;
+    }
+    const validationError = validateScheduleInput(req.body || {}, await libraryDomains(orgId), existing);
+    if (validationError) {
+      res.status(400).json({ error: validationError, code: 'VALIDATION_ERROR' });
+      return;
+    }
+
+    const updateData: any = {};
+    for (const field of SCHEDULE_FIELDS) {
+      if (req.body[field] !== undefined) {
+        updateData[field] = field === 'nextDueAt' ? new Date(req.body.nextDueAt) : req.body[field];
+      }
+    }
+    const schedule = await prisma.assessmentSchedule.update({ where: { id: existing.id }, data: updateData });
+
+    await logAudit({
+      orgId,
+      userId: req.user!.userId,
+      action: 'ASSESSMENT_SCHEDULE_UPDATED',
+      entityType: 'assessment_schedule',
+      entityId: schedule.id,
+      oldValue: existing,
+      newValue: schedule,
+      ipAddress: getClientIp(req),
+      userAgent: req.headers['user-agent'],
+    });
+
+    res.json(schedule);
+  } catch (error) {
+    console.error('Update assessment schedule error:', error);
+    res.status(500).json({ error: 'Failed to update assessment schedule', code: 'INTERNAL_ERROR' });
+  }
+});
+
+// DELETE /organizations/assessment-schedules/:id — Soft delete; assessments it opened are kept
+router.delete('/assessment-schedules/:id', authenticate, authorize(...DPO_AND_ABOVE), async (req: Request, res: Response) => {
+  try {
+    const orgId = req.user!.orgId;
+    const existing = await prisma.assessmentSchedule.findFirst({ where: { id: String(req.params.id), orgId, isDeleted: false } });
+    if (!existing) {
+      res.status(404).json({ error: 'Assessment schedule not found', code: 'NOT_FOUND' });
+      return;
+    }
+    await prisma.assessmentSchedule.update({ where: { id: existing.id }, data: { isDeleted: true, isActive: false } });
+
+    await logAudit({
+      orgId,
+      userId: req.user!.userId,
+      action: 'ASSESSMENT_SCHEDULE_DELETED',
+      entityType: 'assessment_schedule',
+      entityId: existing.id,
+      oldValue: existing,
+      ipAddress: getClientIp(req),
+      userAgent: req.headers['user-agent'],
+    });
+
+    res.json({ message: 'Assessment schedule deleted' });
+  } catch (error) {
+    console.error('Delete assessment schedule error:', error);
+    res.status(500).json({ error: 'Failed to delete assessment schedule', code: 'INTERNAL_ERROR' });
+  }
+});
+
 export default router;
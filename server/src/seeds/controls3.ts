@@ -1,55 +0,0 @@
-export const controls3 = [
-  // DOMAIN 10: MoH Health Sector Controls (22 - HS-PDPL-018 already in controls2)
-  { id:'HS-PDPL-001',source:'MOH',domainNumber:10,domainName:'MoH Health Sector Controls',ref:'HS-001',objectiveEn:'Obtain explicit consent for health data. Guardian consent for minors/incapacitated. Consent Repository.',regArticles:'Reg. Art. 11(2)(a), 13',mohPolicyRef:'MoH Policy - Consent',riskLevel:'CRITICAL',pointsYes:10,pointsPartial:5,evidenceGuidanceEn:'Health data consent forms, guardian consent mechanism, consent repository',responsibleRoles:['dpo','compliance_officer'],mandatoryForTypes:['government_hospital','private_hospital','clinic_small','clinic_large','insurer','pharma','health_tech'],trainingModuleIds:['TRN-002'],weightMultiplier:1.2 },
-  { id:'HS-PDPL-002',source:'MOH',domainNumber:10,domainName:'MoH Health Sector Controls',ref:'HS-002',objectiveEn:'Withdrawal mechanism — halt processing within 24 hours. Notify all recipients.',regArticles:'Reg. Art. 12',mohPolicyRef:'MoH Policy - Consent',riskLevel:'CRITICAL',pointsYes:10,pointsPartial:5,evidenceGuidanceEn:'Withdrawal procedure with 24-hour SLA, notification mechanism',responsibleRoles:['dpo'],mandatoryForTypes:['government_hospital','private_hospital','clinic_small','clinic_large','insurer','pharma','health_tech'],trainingModuleIds:['TRN-002'],weightMultiplier:1.2 },
-  { id:'HS-PDPL-003',source:'MOH',domainNumber:10,domainName:'MoH Health Sector Controls',ref:'HS-003',objectiveEn:'Consent NOT a condition for health services (except essential processing).',regArticles:'Reg. Art. 11',mohPolicyRef:'MoH Policy - Consent',riskLevel:'CRITICAL',pointsYes:10,pointsPartial:5,evidenceGuidanceEn:'Service delivery policy showing consent not a precondition',responsibleRoles:['dpo','compliance_officer'],mandatoryForTypes:['government_hospital','private_hospital','clinic_small','clinic_large','insurer','pharma','health_tech'],trainingModuleIds:['TRN-002'],weightMultiplier:1.2 },
-  { id:'HS-PDPL-004',source:'MOH',domainNumber:10,domainName:'MoH Health Sector Controls',ref:'HS-004',objectiveEn:'Patient access to health data via Patient Portal. Support HL7 FHIR R4 export.',regArticles:'Reg. Art. 5',mohPolicyRef:'MoH Policy - DSR',riskLevel:'HIGH',pointsYes:7,pointsPartial:4,evidenceGuidanceEn:'Patient portal access evidence, FHIR R4 export capability',responsibleRoles:['data_custodian','data_steward'],mandatoryForTypes:['government_hospital','private_hospital','clinic_small','clinic_large'],trainingModuleIds:['TRN-006'],weightMultiplier:1.2 },
-  { id:'HS-PDPL-005',source:'MOH',domainNumber:10,domainName:'MoH Health Sector Controls',ref:'HS-005',objectiveEn:'Correct patient data on request. Notify all prior recipients.',regArticles:'Reg. Art. 7, 22',mohPolicyRef:'MoH Policy - DSR',riskLevel:'HIGH',pointsYes:7,pointsPartial:4,evidenceGuidanceEn:'Patient data correction procedure, recipient notification log',responsibleRoles:['data_steward'],mandatoryForTypes:['government_hospital','private_hospital','clinic_small','clinic_large'],trainingModuleIds:['TRN-006'],weightMultiplier:1.2 },
-  { id:'HS-PDPL-006',source:'MOH',domainNumber:10,domainName:'MoH Health Sector Controls',ref:'HS-006',objectiveEn:'Erasure requests with legal review. Cryptographic erasure for non-exempt data.',regArticles:'Reg. Art. 8',mohPolicyRef:'MoH Policy - DSR',riskLevel:'HIGH',pointsYes:7,pointsPartial:4,evidenceGuidanceEn:'Erasure procedure with legal review, cryptographic erasure implementation',responsibleRoles:['dpo','data_custodian'],mandatoryForTypes:['government_hospital','private_hospital','clinic_small','clinic_large'],trainingModuleIds:['TRN-006'],weightMultiplier:1.2 },
-  { id:'HS-PDPL-007',source:'MOH',domainNumber:10,domainName:'MoH Health Sector Controls',ref:'HS-007',objectiveEn:'Data portability in HL7 FHIR R4. Direct transmission to another healthcare controller.',regArticles:'Reg. Art. 6',mohPolicyRef:'MoH Policy - DSR',riskLevel:'HIGH',pointsYes:7,pointsPartial:4,evidenceGuidanceEn:'FHIR R4 export, direct transmission API/mechanism',responsibleRoles:['data_custodian'],mandatoryForTypes:['government_hospital','private_hospital','clinic_small','clinic_large'],trainingModuleIds:['TRN-006'],weightMultiplier:1.2 },
-  { id:'HS-PDPL-008',source:'MOH',domainNumber:10,domainName:'MoH Health Sector Controls',ref:'HS-008',objectiveEn:'Classify all health data as Confidential by default. Apply MoH classification matrix.',regArticles:'Reg. Art. 23(1)',mohPolicyRef:'MoH Policy - Classification',riskLevel:'HIGH',pointsYes:7,pointsPartial:4,evidenceGuidanceEn:'Classification policy with health data default Confidential',responsibleRoles:['data_steward','data_custodian'],mandatoryForTypes:['government_hospital','private_hospital','clinic_small','clinic_large','insurer','pharma','health_tech'],trainingModuleIds:['TRN-003'],weightMultiplier:1.2 },
-  { id:'HS-PDPL-009',source:'MOH',domainNumber:10,domainName:'MoH Health Sector Controls',ref:'HS-009',objectiveEn:'Establish and monitor KPIs for data classification program.',mohPolicyRef:'MoH Policy - Classification',riskLevel:'HIGH',pointsYes:7,pointsPartial:4,evidenceGuidanceEn:'Classification KPI dashboard, monitoring reports',responsibleRoles:['cdo','data_steward'],trainingModuleIds:['TRN-003'],weightMultiplier:1.2 },
-  { id:'HS-PDPL-010',source:'MOH',domainNumber:10,domainName:'MoH Health Sector Controls',ref:'HS-010',objectiveEn:'Retention: Adults 10 years, Pediatric until age 25. Cool-off before deletion.',regArticles:'Reg. Art. 33(5)(e)',mohPolicyRef:'MoH Policy - Retention',riskLevel:'HIGH',pointsYes:7,pointsPartial:4,evidenceGuidanceEn:'Retention schedule with adult/pediatric periods, cool-off policy',responsibleRoles:['data_steward','dpo'],mandatoryForTypes:['government_hospital','private_hospital','clinic_small','clinic_large'],trainingModuleIds:['TRN-001'],weightMultiplier:1.2 },
-  { id:'HS-PDPL-011',source:'MOH',domainNumber:10,domainName:'MoH Health Sector Controls',ref:'HS-011',objectiveEn:'Cool-off period (6-12 months) between archival and final destruction.',mohPolicyRef:'MoH Policy - Retention',riskLevel:'HIGH',pointsYes:7,pointsPartial:4,evidenceGuidanceEn:'Cool-off period policy, archival-to-destruction workflow',responsibleRoles:['data_steward'],trainingModuleIds:['TRN-001'],weightMultiplier:1.2 },
-  { id:'HS-PDPL-012',source:'MOH',domainNumber:10,domainName:'MoH Health Sector Controls',ref:'HS-012',objectiveEn:'Share health data only for legitimate purposes with RBAC and Data Sharing Agreements.',regArticles:'Reg. Art. 20',mohPolicyRef:'MoH Policy - Data Sharing',riskLevel:'HIGH',pointsYes:7,pointsPartial:4,evidenceGuidanceEn:'Data Sharing Agreements, RBAC matrix for sharing',responsibleRoles:['dpo','data_steward'],mandatoryForTypes:['government_hospital','private_hospital','clinic_small','clinic_large','insurer','pharma','health_tech'],trainingModuleIds:['TRN-007'],weightMultiplier:1.2 },
-  { id:'HS-PDPL-013',source:'MOH',domainNumber:10,domainName:'MoH Health Sector Controls',ref:'HS-013',objectiveEn:'Store health data within KSA. NDMO/NCA approval for cross-border transfers.',pdplArticles:'Art. 29',transferRegArticles:'Transfer Reg. Art. 2',mohPolicyRef:'MoH Policy - Data Sharing',riskLevel:'CRITICAL',pointsYes:10,pointsPartial:5,evidenceGuidanceEn:'KSA data residency evidence, NDMO/NCA approval letters',responsibleRoles:['ciso','dpo'],conditionalOn:{crossBorderTransfers:true},mandatoryForTypes:['government_hospital','private_hospital','clinic_small','clinic_large','insurer','pharma','health_tech'],trainingModuleIds:['TRN-008'],weightMultiplier:1.2 },
-  { id:'HS-PDPL-014',source:'MOH',domainNumber:10,domainName:'MoH Health Sector Controls',ref:'HS-014',objectiveEn:'Notify SDAIA within 72h of health data breach — MoH template, 5 mandatory fields.',regArticles:'Reg. Art. 24(1)',mohPolicyRef:'MoH Policy - Breach',riskLevel:'CRITICAL',pointsYes:10,pointsPartial:5,evidenceGuidanceEn:'MoH breach notification template, 72-hour response procedure',responsibleRoles:['dpo','ciso'],mandatoryForTypes:['government_hospital','private_hospital','clinic_small','clinic_large','insurer','pharma','health_tech'],trainingModuleIds:['TRN-005'],weightMultiplier:1.2 },
-  { id:'HS-PDPL-015',source:'MOH',domainNumber:10,domainName:'MoH Health Sector Controls',ref:'HS-015',objectiveEn:'Notify patients of high-risk breaches in simple Arabic. Include recommendations/advice.',regArticles:'Reg. Art. 24(5)',mohPolicyRef:'MoH Policy - Breach',riskLevel:'CRITICAL',pointsYes:10,pointsPartial:5,evidenceGuidanceEn:'Patient notification template with 4 fields including recommendations',responsibleRoles:['dpo'],mandatoryForTypes:['government_hospital','private_hospital','clinic_small','clinic_large','insurer','pharma','health_tech'],trainingModuleIds:['TRN-005'],weightMultiplier:1.2 },
-  { id:'HS-PDPL-016',source:'MOH',domainNumber:10,domainName:'MoH Health Sector Controls',ref:'HS-016',objectiveEn:'DPA with all processors using MoH Supplier DPA template — 9 mandatory clauses.',regArticles:'Reg. Art. 17',mohPolicyRef:'MoH Policy - Vendor',riskLevel:'HIGH',pointsYes:7,pointsPartial:4,evidenceGuidanceEn:'Signed DPAs using MoH template, 9-clause verification',responsibleRoles:['dpo','compliance_officer'],mandatoryForTypes:['government_hospital','private_hospital','clinic_small','clinic_large','insurer','pharma','health_tech'],trainingModuleIds:['TRN-007'],weightMultiplier:1.2 },
-  { id:'HS-PDPL-017',source:'MOH',domainNumber:10,domainName:'MoH Health Sector Controls',ref:'HS-017',objectiveEn:'Monitor processor compliance annually. Sub-processor notification clause in DPAs.',regArticles:'Reg. Art. 17(3)',mohPolicyRef:'MoH Policy - Vendor',riskLevel:'HIGH',pointsYes:7,pointsPartial:4,evidenceGuidanceEn:'Annual processor audit reports, sub-processor notification clauses',responsibleRoles:['dpo','compliance_officer'],trainingModuleIds:['TRN-007'],weightMultiplier:1.2 },
-  { id:'HS-PDPL-019',source:'MOH',domainNumber:10,domainName:'MoH Health Sector Controls',ref:'HS-019',objectiveEn:'MoH ROPA format. Quarterly review. SDAIA-accessible.',regArticles:'Reg. Art. 33',mohPolicyRef:'MoH Policy - ROPA',riskLevel:'HIGH',pointsYes:7,pointsPartial:4,evidenceGuidanceEn:'MoH ROPA format register, quarterly review evidence',responsibleRoles:['dpo','data_steward'],mandatoryForTypes:['government_hospital','private_hospital','clinic_small','clinic_large','insurer','pharma','health_tech'],trainingModuleIds:['TRN-001'],weightMultiplier:1.2 },
-  { id:'HS-PDPL-020',source:'MOH',domainNumber:10,domainName:'MoH Health Sector Controls',ref:'HS-020',objectiveEn:'DPIA for all high-risk health processing. MoH DPIA template. All 7 triggers.',regArticles:'Reg. Art. 25(1)',mohPolicyRef:'MoH Policy - PbD',riskLevel:'CRITICAL',pointsYes:10,pointsPartial:5,evidenceGuidanceEn:'DPIA using MoH template, 7 trigger analysis, DPO sign-off',responsibleRoles:['dpo'],mandatoryForTypes:['government_hospital','private_hospital','clinic_small','clinic_large','insurer','pharma','health_tech'],trainingModuleIds:['TRN-009'],weightMultiplier:1.2 },
-  { id:'HS-PDPL-021a',source:'MOH',domainNumber:10,domainName:'MoH Health Sector Controls',ref:'HS-021a',objectiveEn:'Encryption, access controls, audit logging, task segregation by design. RBAC matrix required.',regArticles:'Reg. Art. 26(3)',mohPolicyRef:'MoH Policy - PbD',riskLevel:'CRITICAL',pointsYes:10,pointsPartial:5,evidenceGuidanceEn:'RBAC policy, access matrix, encryption impl, audit logging, task segregation',responsibleRoles:['ciso','data_custodian'],mandatoryForTypes:['government_hospital','private_hospital','clinic_small','clinic_large','insurer','pharma','health_tech'],trainingModuleIds:['TRN-004'],weightMultiplier:1.2 },
-  { id:'HS-PDPL-021b',source:'MOH',domainNumber:10,domainName:'MoH Health Sector Controls',ref:'HS-021b',objectiveEn:'Document ALL stages of health data processing. Named responsible person per stage. Process flow diagrams.',regArticles:'Reg. Art. 26(4)',mohPolicyRef:'MoH Policy - PbD',riskLevel:'HIGH',pointsYes:7,pointsPartial:4,evidenceGuidanceEn:'Process flow diagrams, named responsible persons per stage',responsibleRoles:['data_steward','dpo'],mandatoryForTypes:['government_hospital','private_hospital','clinic_small','clinic_large','insurer','pharma','health_tech'],trainingModuleIds:['TRN-004'],weightMultiplier:1.2 },
-
-  // NCA ECC Controls (29) - Domain 4
-  { id:'NCA-D1.R1',source:'NCA_ECC',domainNumber:4,domainName:'Data Security & Cybersecurity (NCA ECC)',ref:'D1.R1',objectiveEn:'Integrate DPIA into risk management methodology.',ncaRef:'1-5.1',regArticles:'Reg. Art. 25(1)',riskLevel:'HIGH',pointsYes:7,pointsPartial:4,evidenceGuidanceEn:'Risk management framework including DPIA',responsibleRoles:['ciso','dpo'],trainingModuleIds:['TRN-009'],weightMultiplier:1.0 },
-  { id:'NCA-D1.R2',source:'NCA_ECC',domainNumber:4,domainName:'Data Security & Cybersecurity (NCA ECC)',ref:'D1.R2',objectiveEn:'Execute DPIA for high-risk processing in project lifecycle.',ncaRef:'1-5.2',regArticles:'Reg. Art. 25',riskLevel:'HIGH',pointsYes:7,pointsPartial:4,evidenceGuidanceEn:'DPIA in project lifecycle, completed DPIAs',responsibleRoles:['dpo'],trainingModuleIds:['TRN-009'],weightMultiplier:1.0 },
-  { id:'NCA-D1.R3',source:'NCA_ECC',domainNumber:4,domainName:'Data Security & Cybersecurity (NCA ECC)',ref:'D1.R3',objectiveEn:'Cybersecurity policies as organizational measures.',ncaRef:'1-3.1',regArticles:'Reg. Art. 23(1)',riskLevel:'HIGH',pointsYes:7,pointsPartial:4,evidenceGuidanceEn:'Cybersecurity policy suite, approval records',responsibleRoles:['ciso'],trainingModuleIds:['TRN-004'],weightMultiplier:1.0 },
-  { id:'NCA-D1.R4',source:'NCA_ECC',domainNumber:4,domainName:'Data Security & Cybersecurity (NCA ECC)',ref:'D1.R4',objectiveEn:'Independent cybersecurity audits.',ncaRef:'1-8.2',riskLevel:'MEDIUM',pointsYes:4,pointsPartial:2,evidenceGuidanceEn:'Independent audit reports, remediation tracker',responsibleRoles:['ciso','auditor'],trainingModuleIds:['TRN-004'],weightMultiplier:1.0 },
-  { id:'NCA-D1.R5',source:'NCA_ECC',domainNumber:4,domainName:'Data Security & Cybersecurity (NCA ECC)',ref:'D1.R5',objectiveEn:'Cybersecurity training and awareness programs.',ncaRef:'1-9.4, 1-10.1',pdplArticles:'Art. 41',regArticles:'Reg. Art. 23',riskLevel:'MEDIUM',pointsYes:4,pointsPartial:2,evidenceGuidanceEn:'Training program, attendance records',responsibleRoles:['ciso','dpo'],trainingModuleIds:['TRN-004'],weightMultiplier:1.0 },
-  { id:'NCA-D1.R6',source:'NCA_ECC',domainNumber:4,domainName:'Data Security & Cybersecurity (NCA ECC)',ref:'D1.R6',objectiveEn:'Dedicated cybersecurity function.',ncaRef:'1-2.1',regArticles:'Reg. Art. 23',riskLevel:'MEDIUM',pointsYes:4,pointsPartial:2,evidenceGuidanceEn:'Cybersecurity team structure, roles and responsibilities',responsibleRoles:['ciso'],trainingModuleIds:['TRN-004'],weightMultiplier:1.0 },
-  { id:'NCA-D1.R7',source:'NCA_ECC',domainNumber:4,domainName:'Data Security & Cybersecurity (NCA ECC)',ref:'D1.R7',objectiveEn:'Compliance with cross-border legal frameworks.',ncaRef:'1-7.1',pdplArticles:'Art. 29',riskLevel:'MEDIUM',pointsYes:4,pointsPartial:2,evidenceGuidanceEn:'Cross-border compliance assessment',responsibleRoles:['dpo','ciso'],trainingModuleIds:['TRN-008'],weightMultiplier:1.0 },
-  { id:'NCA-D1.R8',source:'NCA_ECC',domainNumber:4,domainName:'Data Security & Cybersecurity (NCA ECC)',ref:'D1.R8',objectiveEn:'NDAs and contractual confidentiality for personnel.',ncaRef:'1-9.1',pdplArticles:'Art. 41',riskLevel:'LOW',pointsYes:1,pointsPartial:1,evidenceGuidanceEn:'Signed NDAs, contractor agreements',responsibleRoles:['org_admin'],trainingModuleIds:['TRN-012'],weightMultiplier:1.0 },
-  { id:'NCA-D2.R1',source:'NCA_ECC',domainNumber:4,domainName:'Data Security & Cybersecurity (NCA ECC)',ref:'D2.R1',objectiveEn:'SIEM/logging prerequisite for 72-hour breach notification.',ncaRef:'2-12.1, 2-12.2',regArticles:'Reg. Art. 24',riskLevel:'HIGH',pointsYes:7,pointsPartial:4,evidenceGuidanceEn:'SIEM deployment, log retention policy (min 12 months)',responsibleRoles:['ciso','data_custodian'],trainingModuleIds:['TRN-004'],weightMultiplier:1.0 },
-  { id:'NCA-D2.R2',source:'NCA_ECC',domainNumber:4,domainName:'Data Security & Cybersecurity (NCA ECC)',ref:'D2.R2',objectiveEn:'IRP with PDPL breach procedures and SDAIA templates.',ncaRef:'2-13.1, 2-13.2',regArticles:'Reg. Art. 24',riskLevel:'HIGH',pointsYes:7,pointsPartial:4,evidenceGuidanceEn:'IRP with PDPL procedures, SDAIA templates',responsibleRoles:['ciso','dpo'],trainingModuleIds:['TRN-005'],weightMultiplier:1.0 },
-  { id:'NCA-D2.R3',source:'NCA_ECC',domainNumber:4,domainName:'Data Security & Cybersecurity (NCA ECC)',ref:'D2.R3',objectiveEn:'IAM/MFA/least privilege for health data + task segregation.',ncaRef:'2-2.1, 2-2.2, 2-2.3',regArticles:'Reg. Art. 26(3)',riskLevel:'HIGH',pointsYes:7,pointsPartial:4,evidenceGuidanceEn:'IAM config, MFA enforcement, access reviews, task segregation matrix',responsibleRoles:['ciso','data_custodian'],trainingModuleIds:['TRN-004'],weightMultiplier:1.0 },
-  { id:'NCA-D2.R4',source:'NCA_ECC',domainNumber:4,domainName:'Data Security & Cybersecurity (NCA ECC)',ref:'D2.R4',objectiveEn:'Data classification and labeling with Health Data tag.',ncaRef:'2-1.5',pdplArticles:'Art. 11',regArticles:'Reg. Art. 23',riskLevel:'HIGH',pointsYes:7,pointsPartial:4,evidenceGuidanceEn:'Classification scheme, Health Data tag implementation',responsibleRoles:['data_steward','data_custodian'],trainingModuleIds:['TRN-003'],weightMultiplier:1.0 },
-  { id:'NCA-D2.R5',source:'NCA_ECC',domainNumber:4,domainName:'Data Security & Cybersecurity (NCA ECC)',ref:'D2.R5',objectiveEn:'DLP and encryption controls by classification level.',ncaRef:'2-7.1, 2-7.2',regArticles:'Reg. Art. 23',riskLevel:'HIGH',pointsYes:7,pointsPartial:4,evidenceGuidanceEn:'DLP policy, encryption per classification',responsibleRoles:['ciso'],trainingModuleIds:['TRN-004'],weightMultiplier:1.0 },
-  { id:'NCA-D2.R6',source:'NCA_ECC',domainNumber:4,domainName:'Data Security & Cybersecurity (NCA ECC)',ref:'D2.R6',objectiveEn:'Encryption per NCA-approved standards.',ncaRef:'2-8.1, 2-8.2',regArticles:'Reg. Art. 23',riskLevel:'HIGH',pointsYes:7,pointsPartial:4,evidenceGuidanceEn:'AES-256 at rest, TLS 1.3 in transit, key management',responsibleRoles:['ciso','data_custodian'],trainingModuleIds:['TRN-004'],weightMultiplier:1.0 },
-  { id:'NCA-D2.R7',source:'NCA_ECC',domainNumber:4,domainName:'Data Security & Cybersecurity (NCA ECC)',ref:'D2.R7',objectiveEn:'Patch critical vulnerabilities within 72 hours.',ncaRef:'2-10.2',regArticles:'Reg. Art. 23',riskLevel:'HIGH',pointsYes:7,pointsPartial:4,evidenceGuidanceEn:'Patch management policy, 72-hour SLA, vulnerability scans',responsibleRoles:['ciso','data_custodian'],trainingModuleIds:['TRN-004'],weightMultiplier:1.0 },
-  { id:'NCA-D2.R8',source:'NCA_ECC',domainNumber:4,domainName:'Data Security & Cybersecurity (NCA ECC)',ref:'D2.R8',objectiveEn:'Physical security and secure media destruction.',ncaRef:'2-14.2, 2-14.3',regArticles:'Reg. Art. 23',riskLevel:'MEDIUM',pointsYes:4,pointsPartial:2,evidenceGuidanceEn:'Physical security policy, media destruction certificates',responsibleRoles:['ciso'],trainingModuleIds:['TRN-004'],weightMultiplier:1.0 },
-  { id:'NCA-D2.R9',source:'NCA_ECC',domainNumber:4,domainName:'Data Security & Cybersecurity (NCA ECC)',ref:'D2.R9',objectiveEn:'Endpoint security on personal data systems.',ncaRef:'2-3.2, 2-3.3',regArticles:'Reg. Art. 23',riskLevel:'MEDIUM',pointsYes:4,pointsPartial:2,evidenceGuidanceEn:'Endpoint protection deployment, monitoring dashboard',responsibleRoles:['ciso','data_custodian'],trainingModuleIds:['TRN-004'],weightMultiplier:1.0 },
-  { id:'NCA-D2.R10',source:'NCA_ECC',domainNumber:4,domainName:'Data Security & Cybersecurity (NCA ECC)',ref:'D2.R10',objectiveEn:'Email protection preventing unauthorized disclosure.',ncaRef:'2-4.2, 2-4.3',pdplArticles:'Art. 15',regArticles:'Reg. Art. 23',riskLevel:'MEDIUM',pointsYes:4,pointsPartial:2,evidenceGuidanceEn:'Email security configuration, DLP rules for email',responsibleRoles:['ciso'],trainingModuleIds:['TRN-004'],weightMultiplier:1.0 },
-  { id:'NCA-D2.R11',source:'NCA_ECC',domainNumber:4,domainName:'Data Security & Cybersecurity (NCA ECC)',ref:'D2.R11',objectiveEn:'Network segmentation isolating health data systems.',ncaRef:'2-5.1, 2-5.2',regArticles:'Reg. Art. 23',riskLevel:'MEDIUM',pointsYes:4,pointsPartial:2,evidenceGuidanceEn:'Network architecture, segmentation rules, firewall config',responsibleRoles:['ciso','data_custodian'],trainingModuleIds:['TRN-004'],weightMultiplier:1.0 },
-  { id:'NCA-D2.R12',source:'NCA_ECC',domainNumber:4,domainName:'Data Security & Cybersecurity (NCA ECC)',ref:'D2.R12',objectiveEn:'MDM for mobile devices accessing health data.',ncaRef:'2-6.2, 2-6.3',regArticles:'Reg. Art. 23',riskLevel:'MEDIUM',pointsYes:4,pointsPartial:2,evidenceGuidanceEn:'MDM policy, device encryption, remote wipe capability',responsibleRoles:['ciso','data_custodian'],trainingModuleIds:['TRN-004'],weightMultiplier:1.0 },
-  { id:'NCA-D2.R13',source:'NCA_ECC',domainNumber:4,domainName:'Data Security & Cybersecurity (NCA ECC)',ref:'D2.R13',objectiveEn:'Backup encryption and access restriction.',ncaRef:'2-9.2',regArticles:'Reg. Art. 23',riskLevel:'LOW',pointsYes:1,pointsPartial:1,evidenceGuidanceEn:'Backup encryption config, access control for backups',responsibleRoles:['data_custodian'],trainingModuleIds:['TRN-004'],weightMultiplier:1.0 },
-  { id:'NCA-D2.R14',source:'NCA_ECC',domainNumber:4,domainName:'Data Security & Cybersecurity (NCA ECC)',ref:'D2.R14',objectiveEn:'Annual penetration testing of personal data systems.',ncaRef:'2-11.2',regArticles:'Reg. Art. 23',riskLevel:'MEDIUM',pointsYes:4,pointsPartial:2,evidenceGuidanceEn:'Pen test reports, remediation evidence',responsibleRoles:['ciso'],trainingModuleIds:['TRN-004'],weightMultiplier:1.0 },
-  { id:'NCA-D2.R15',source:'NCA_ECC',domainNumber:4,domainName:'Data Security & Cybersecurity (NCA ECC)',ref:'D2.R15',objectiveEn:'Web application security for patient portals.',ncaRef:'2-15.1, 2-15.2',regArticles:'Reg. Art. 23',riskLevel:'MEDIUM',pointsYes:4,pointsPartial:2,evidenceGuidanceEn:'Web app security assessment, OWASP compliance, WAF config',responsibleRoles:['ciso','data_custodian'],trainingModuleIds:['TRN-004'],weightMultiplier:1.0 },
-  { id:'NCA-D3.R1',source:'NCA_ECC',domainNumber:4,domainName:'Data Security & Cybersecurity (NCA ECC)',ref:'D3.R1',objectiveEn:'BCM/DR preserving availability of health data.',ncaRef:'3-1.1 to 3-1.3',regArticles:'Reg. Art. 23',riskLevel:'MEDIUM',pointsYes:4,pointsPartial:2,evidenceGuidanceEn:'BCM/DR plan, RTO/RPO for health data systems',responsibleRoles:['ciso'],trainingModuleIds:['TRN-004'],weightMultiplier:1.0 },
-  { id:'NCA-D3.R2',source:'NCA_ECC',domainNumber:4,domainName:'Data Security & Cybersecurity (NCA ECC)',ref:'D3.R2',objectiveEn:'Periodic BCM/DR review and testing.',ncaRef:'3-1.4',regArticles:'Reg. Art. 23',riskLevel:'LOW',pointsYes:1,pointsPartial:1,evidenceGuidanceEn:'BCM/DR test results, improvement actions',responsibleRoles:['ciso'],trainingModuleIds:['TRN-004'],weightMultiplier:1.0 },
-  { id:'NCA-D4.R1',source:'NCA_ECC',domainNumber:4,domainName:'Data Security & Cybersecurity (NCA ECC)',ref:'D4.R1',objectiveEn:'PDPL 9-clause mandates in all processor contracts.',ncaRef:'4-1.1, 4-1.2',regArticles:'Reg. Art. 17',riskLevel:'HIGH',pointsYes:7,pointsPartial:4,evidenceGuidanceEn:'Contract templates with 9 PDPL clauses, signed contracts',responsibleRoles:['dpo','compliance_officer'],trainingModuleIds:['TRN-007'],weightMultiplier:1.0 },
-  { id:'NCA-D4.R2',source:'NCA_ECC',domainNumber:4,domainName:'Data Security & Cybersecurity (NCA ECC)',ref:'D4.R2',objectiveEn:'Cloud security: data location and jurisdiction controls.',ncaRef:'4-2.1 to 4-2.3',regArticles:'Reg. Art. 17',transferRegArticles:'Transfer Reg. Art. 5',riskLevel:'HIGH',pointsYes:7,pointsPartial:4,evidenceGuidanceEn:'Cloud security assessment, data residency controls',responsibleRoles:['ciso'],trainingModuleIds:['TRN-007'],weightMultiplier:1.0 },
-  { id:'NCA-D4.R3',source:'NCA_ECC',domainNumber:4,domainName:'Data Security & Cybersecurity (NCA ECC)',ref:'D4.R3',objectiveEn:'Third-party risk assessment before engagement.',ncaRef:'4-1.3',regArticles:'Reg. Art. 17(3)',riskLevel:'MEDIUM',pointsYes:4,pointsPartial:2,evidenceGuidanceEn:'Third-party risk assessment template, completed assessments',responsibleRoles:['ciso','dpo'],trainingModuleIds:['TRN-007'],weightMultiplier:1.0 },
-  { id:'NCA-D4.R4',source:'NCA_ECC',domainNumber:4,domainName:'Data Security & Cybersecurity (NCA ECC)',ref:'D4.R4',objectiveEn:'Periodic review of third-party and cloud compliance.',ncaRef:'4-1.4, 4-2.4',regArticles:'Reg. Art. 17(3)',riskLevel:'LOW',pointsYes:1,pointsPartial:1,evidenceGuidanceEn:'Annual review schedule, compliance review reports',responsibleRoles:['ciso','compliance_officer'],trainingModuleIds:['TRN-007'],weightMultiplier:1.0 },
-];
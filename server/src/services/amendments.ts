@@ -0,0 +1,114 @@
+import { AmendmentRequest, Assessment } from '@prisma/client';
+import { prisma } from '../index';
+import { evaluateOrgBranching } from './branchingRules';
+import { frozenControl } from './controlSnapshot';
+import { loadLibraryPin } from './libraryPin';
+import { submitResponse, ANSWERS } from './responseSubmission';
+
+export const MIN_AMENDMENT_REASON_LENGTH = 20;
+
+export interface ProposedChange {
+  controlId: string;
+  answer?: string;
+  maturityLevel?: number;
+  naJustification?: string;
+  notes?: string;
+}
+
+interface AmendmentFailure {
+  controlId: string;
+  code: string;
+  error: string;
+}
+
+/**
+ * Checks the proposedChanges payload of an amendment request: a non-empty
+ * list with one entry per control, each giving an answer or a maturity level.
+ * The submission rules themselves run when the amendment is applied.
+ */
+export function parseProposedChanges(value: unknown): ProposedChange[] | { error: string } {
+  if (!Array.isArray(value) || value.length === 0) {
+    return { error: 'changes must be a non-empty array' };
+  }
+  const seen = new Set<string>();
+  const changes: ProposedChange[] = [];
+  for (const raw of value) {
+    const c = (raw ?? {}) as Record<string, unknown>;
+    if (typeof c.controlId !== 'string' || !c.controlId) {
+      return { error: 'Each change needs a controlId' };
+    }
+    if (seen.has(c.controlId)) {
+      return { error: `${c.controlId} appears more than once` };
+    }
+    const hasAnswer = typeof c.answer === 'string' && (ANSWERS as readonly string[]).includes(c.answer);
+    if (!hasAnswer && typeof c.maturityLevel !== 'number') {
+      return { error: `${c.controlId}: give an answer (YES, PARTIAL, NO, NA) or a maturityLevel` };
+    }
+    seen.add(c.controlId);
+    changes.push({
+      controlId: c.controlId,
+      answer: hasAnswer ? c.answer as string : undefined,
+      maturityLevel: typeof c.maturityLevel === 'number' ? c.maturityLevel : undefined,
+      naJustification: typeof c.naJustification === 'string' ? c.naJustification : undefined,
+      notes: typeof c.notes === 'string' ? c.notes : undefined,
+    });
+  }
+  return changes;
+}
+
+/** The amendment currently pending a decision or in progress on the assessment, if any. */
+export function findOpenAmendment(assessmentId: string) {
+  return prisma.amendmentRequest.findFirst({
+    where: { assessmentId, status: { in: ['PENDING', 'APPROVED'] } },
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+/** Controls an in-progress amendment opened for editing. */
+export function amendedControlIds(amendment: AmendmentRequest): string[] {
+  return (amendment.proposedChanges as unknown as ProposedChange[]).map(c => c.controlId);
+}
+
+/**
+ * Writes an approved amendment's proposed answers through the normal
+ * submission rules, scoring them against the control definitions the
+ * assessment was finalized with. Changes the rules reject are reported and
+ * can be corrected while the assessment is AMENDING.
+ */
+export async function applyAmendment(
+  amendment: AmendmentRequest,
+  assessment: Assessment,
+  actor: { userId: string; role: string },
+): Promise<{ applied: string[]; failed: AmendmentFailure[] }> {
+  const org = await prisma.organization.findUnique({ where: { id: assessment.orgId } });
+  const pin = await loadLibraryPin(org!);
+  const branchingResult = await evaluateOrgBranching(org!, pin);
+  const applied: string[] = [];
+  const failed: AmendmentFailure[] = [];
+
+  for (const change of amendment.proposedChanges as unknown as ProposedChange[]) {
+    const liveControl = await prisma.control.findUnique({ where: { id: change.controlId } });
+    if (!liveControl) {
+      failed.push({ controlId: change.controlId, code: 'NOT_FOUND', error: 'Control not found' });
+      continue;
+    }
+    const result = await submitResponse({
+      orgId: assessment.orgId,
+      userId: actor.userId,
+      role: actor.role,
+      assessmentId: assessment.id,
+      assessmentMode: assessment.mode,
+      branchingResult,
+      pin,
+      controlSnapshot: assessment.controlSnapshot,
+      amendedControlIds: amendedControlIds(amendment),
+      changeSource: 'AMENDMENT',
+    }, frozenControl(liveControl, liveControl.id, assessment.controlSnapshot), change);
+    if (result.ok) {
+      applied.push(change.controlId);
+    } else {
+      failed.push({ controlId: change.controlId, code: result.rejection.code, error: result.rejection.error });
+    }
+  }
+  return { applied, failed };
+}
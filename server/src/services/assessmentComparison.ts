@@ -0,0 +1,170 @@
+import { prisma } from '../index';
+import { calculateScores, toControlScores, DomainScore, ANSWER_RANK } from './scoring';
+import { withControlSnapshot } from './controlSnapshot';
+
+type ChangeType = 'IMPROVED' | 'REGRESSED' | 'UNCHANGED' | 'CHANGED' | 'ADDED' | 'REMOVED';
+
+interface ResolvingTask {
+  id: string;
+  title: string;
+  riskLevel: string;
+  closedAt: Date | null;
+  assessmentId: string;
+}
+
+interface ControlChange {
+  controlId: string;
+  domainNumber: number;
+  domainName: string;
+  riskLevel: string;
+  objectiveEn: string;
+  baseAnswer: string | null;
+  targetAnswer: string | null;
+  change: ChangeType;
+  resolvingTasks: ResolvingTask[];
+}
+
+interface DomainDelta {
+  domainNumber: number;
+  domainName: string;
+  basePercentage: number | null;
+  targetPercentage: number | null;
+  delta: number | null;
+}
+
+interface RiskGapDelta {
+  riskLevel: string;
+  opened: string[];
+  closed: string[];
+}
+
+const RISK_LEVELS = ['CRITICAL', 'HIGH', 'MEDIUM', 'LOW'];
+
+function classifyChange(base: string | null, target: string | null): ChangeType {
+  if (base === null) return 'ADDED';
+  if (target === null) return 'REMOVED';
+  if (base === target) return 'UNCHANGED';
+  const baseRank = ANSWER_RANK[base];
+  const targetRank = ANSWER_RANK[target];
+  if (baseRank === undefined || targetRank === undefined) return 'CHANGED';
+  return targetRank > baseRank ? 'IMPROVED' : 'REGRESSED';
+}
+
+async function loadAssessment(id: string, orgId: string) {
+  const assessment = await prisma.assessment.findFirst({
+    where: { id, orgId, isDeleted: false },
+    include: { responses: { include: { control: true } } },
+  });
+  // Each side is read against the control definitions it was finalized with
+  return assessment && { ...assessment, responses: withControlSnapshot(assessment.responses, assessment.controlSnapshot) };
+}
+
+type LoadedAssessment = NonNullable<Awaited<ReturnType<typeof loadAssessment>>>;
+
+function domainScoresOf(assessment: LoadedAssessment): DomainScore[] {
+  // Finalized assessments keep the scores they were signed off with
+  if (Array.isArray(assessment.domainScores)) {
+    return assessment.domainScores as unknown as DomainScore[];
+  }
+  return calculateScores(toControlScores(assessment.responses)).domainScores;
+}
+
+function overallScoreOf(assessment: LoadedAssessment): number {
+  if (assessment.overallScore !== null) return Number(assessment.overallScore);
+  return calculateScores(toControlScores(assessment.responses)).overallScore;
+}
+
+/**
+ * Diffs two assessments of the same organization. `base` is the earlier
+ * version; improvements are attributed to remediation tasks for the same
+ * control that were closed between the two assessments.
+ */
+export async function compareAssessments(baseId: string, targetId: string, orgId: string) {
+  const [base, target] = await Promise.all([loadAssessment(baseId, orgId), loadAssessment(targetId, orgId)]);
+  if (!base || !target) return null;
+
+  const baseResponses = new Map(base.responses.map(r => [r.controlId, r]));
+  const targetResponses = new Map(target.responses.map(r => [r.controlId, r]));
+  const controlIds = Array.from(new Set([...baseResponses.keys(), ...targetResponses.keys()]));
+
+  const windowStart = base.finalizedAt || base.createdAt;
+  const windowEnd = target.finalizedAt || new Date();
+  const closedTasks = await prisma.remediationTask.findMany({
+    where: {
+      orgId,
+      isDeleted: false,
+      status: 'CLOSED',
+      controlId: { in: controlIds },
+      closedAt: { gte: windowStart, lte: windowEnd },
+    },
+    select: { id: true, title: true, riskLevel: true, closedAt: true, assessmentId: true, controlId: true },
+  });
+
+  const controlChanges: ControlChange[] = controlIds.map(controlId => {
+    const b = baseResponses.get(controlId);
+    const t = targetResponses.get(controlId);
+    const control = (t || b)!.control;
+    const change = classifyChange(b?.answer ?? null, t?.answer ?? null);
+    return {
+      controlId,
+      domainNumber: control.domainNumber,
+      domainName: control.domainName,
+      riskLevel: control.riskLevel,
+      objectiveEn: control.objectiveEn,
+      baseAnswer: b?.answer ?? null,
+      targetAnswer: t?.answer ?? null,
+      change,
+      resolvingTasks: change === 'IMPROVED'
+        ? closedTasks
+          .filter(task => task.controlId === controlId)
+          .map(task => ({ id: task.id, title: task.title, riskLevel: task.riskLevel, closedAt: task.closedAt, assessmentId: task.assessmentId }))
+        : [],
+    };
+  }).sort((a, b) => a.domainNumber - b.domainNumber || a.controlId.localeCompare(b.controlId));
+
+  const baseDomains = new Map(domainScoresOf(base).map(d => [d.domainNumber, d]));
+  const targetDomains = new Map(domainScoresOf(target).map(d => [d.domainNumber, d]));
+  const domainNumbers = Array.from(new Set([...baseDomains.keys(), ...targetDomains.keys()])).sort((a, b) => a - b);
+  const domainDeltas: DomainDelta[] = domainNumbers.map(num => {
+    const b = baseDomains.get(num);
+    const t = targetDomains.get(num);
+    return {
+      domainNumber: num,
+      domainName: (t || b)!.domainName,
+      basePercentage: b ? b.percentage : null,
+      targetPercentage: t ? t.percentage : null,
+      delta: b && t ? Math.round((t.percentage - b.percentage) * 100) / 100 : null,
+    };
+  });
+
+  const gapDeltas: RiskGapDelta[] = RISK_LEVELS.map(riskLevel => ({
+    riskLevel,
+    opened: controlChanges
+      .filter(c => c.riskLevel === riskLevel && c.targetAnswer === 'NO' && c.baseAnswer !== 'NO')
+      .map(c => c.controlId),
+    closed: controlChanges
+      .filter(c => c.riskLevel === riskLevel && c.baseAnswer === 'NO' && c.targetAnswer !== 'NO')
+      .map(c => c.controlId),
+  }));
+
+  const baseScore = overallScoreOf(base);
+  const targetScore = overallScoreOf(target);
+  const count = (type: ChangeType) => controlChanges.filter(c => c.change === type).length;
+
+  return {
+    base: { id: base.id, assessmentVersion: base.assessmentVersion, status: base.status, finalizedAt: base.finalizedAt, overallScore: baseScore },
+    target: { id: target.id, assessmentVersion: target.assessmentVersion, status: target.status, finalizedAt: target.finalizedAt, overallScore: targetScore },
+    overallDelta: Math.round((targetScore - baseScore) * 100) / 100,
+    summary: {
+      improved: count('IMPROVED'),
+      regressed: count('REGRESSED'),
+      unchanged: count('UNCHANGED'),
+      changed: count('CHANGED'),
+      added: count('ADDED'),
+      removed: count('REMOVED'),
+    },
+    controlChanges,
+    domainDeltas,
+    gapDeltas,
+  };
+}
@@ -0,0 +1,243 @@
+import { AssessmentSchedule } from '@prisma/client';
+import { prisma } from '../index';
+import { ROLES } from '../middleware/auth';
+import { logAudit } from '../utils/auditLogger';
+import { ORG_SCOPE } from './assessmentScope';
+import { ASSESSMENT_MODES, findLastFinalized, findLatestVersion, openAssessmentVersion } from './assessmentVersions';
+import { notifyUsers } from './notifications';
+
+export const MAX_INTERVAL_MONTHS = 36;
+export const SCHEDULE_FIELDS = ['domainNumber', 'intervalMonths', 'mode', 'carryForward', 'nextDueAt', 'isActive'];
+
+const OPEN_STATUSES = ['DRAFT', 'IN_REVIEW', 'AMENDING'];
+const DEFAULT_CHECK_MINUTES = 60;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Same day of month `months` later, clamped to the last day of shorter months. */
+export function addMonths(date: Date, months: number): Date {
+  const result = new Date(date);
+  const day = result.getUTCDate();
+  result.setUTCDate(1);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  const lastDay = new Date(Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)).getUTCDate();
+  result.setUTCDate(Math.min(day, lastDay));
+  return result;
+}
+
+const isWholeNumber = (value: unknown, min: number, max: number) =>
+  typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+
+/**
+ * Validates schedule fields present in the body (all required fields when
+ * creating). `domains` are the domain numbers of the control library.
+ */
+export function validateScheduleInput(
+  body: Record<string, unknown>,
+  domains: number[],
+  existing: Pick<AssessmentSchedule, 'domainNumber' | 'carryForward'> | null,
+): string | null {
+  if (!existing && body.intervalMonths === undefined) {
+    return 'intervalMonths is required';
+  }
+  if (body.intervalMonths !== undefined && !isWholeNumber(body.intervalMonths, 1, MAX_INTERVAL_MONTHS)) {
+    return `intervalMonths must be a whole number from 1 to ${MAX_INTERVAL_MONTHS}`;
+  }
+  if (body.domainNumber != null && !domains.includes(body.domainNumber as number)) {
+    return `domainNumber must be one of: ${domains.join(', ')} (omit for a full reassessment)`;
+  }
+  if (body.mode !== undefined && !ASSESSMENT_MODES.includes(body.mode as string)) {
+    return `Invalid mode. Must be one of: ${ASSESSMENT_MODES.join(', ')}`;
+  }
+  for (const field of ['carryForward', 'isActive']) {
+    if (body[field] !== undefined && typeof body[field] !== 'boolean') {
+      return `${field} must be true or false`;
+    }
+  }
+  if (body.nextDueAt !== undefined && (typeof body.nextDueAt !== 'string' || isNaN(Date.parse(body.nextDueAt)))) {
+    return 'nextDueAt must be an ISO date';
+  }
+  // A domain reassessment only makes sense on top of the other domains' carried answers
+  const domainNumber = body.domainNumber !== undefined ? body.domainNumber : existing?.domainNumber;
+  const carryForward = body.carryForward !== undefined ? body.carryForward : existing?.carryForward ?? true;
+  if (domainNumber != null && !carryForward) {
+    return 'Domain schedules must carry answers forward';
+  }
+  return null;
+}
+
+/** First due date of a new schedule: one interval after the last org-wide finalization, or after today. */
+export async function firstDueDate(orgId: string, intervalMonths: number): Promise<Date> {
+  const lastFinalized = await findLastFinalized(orgId, ORG_SCOPE);
+  return addMonths(lastFinalized?.finalizedAt || new Date(), intervalMonths);
+}
+
+function scheduleLabel(schedule: Pick<AssessmentSchedule, 'domainNumber'>): string {
+  return schedule.domainNumber == null ? 'Full reassessment' : `Domain ${schedule.domainNumber} reassessment`;
+}
+
+/**
+ * Runs one due schedule: opens a DRAFT of the org-wide assessment (carrying
+ * answers forward when possible) and notifies the DPOs. If the current
+ * version is still being worked on it is left alone and the DPOs are only
+ * reminded. nextDueAt is claimed first so a schedule never fires twice.
+ */
+export async function runSchedule(schedule: AssessmentSchedule, now = new Date()): Promise<string | null> {
+  let nextDueAt = schedule.nextDueAt;
+  while (nextDueAt <= now) nextDueAt = addMonths(nextDueAt, schedule.intervalMonths);
+  const claimed = await prisma.assessmentSchedule.updateMany({
+    where: { id: schedule.id, nextDueAt: schedule.nextDueAt },
+    data: { nextDueAt, lastRunAt: now },
+  });
+  if (claimed.count === 0) return null;
+
+  const org = await prisma.organization.findUnique({ where: { id: schedule.orgId } });
+  if (!org || org.isDeleted || !org.onboardingCompleted) return null;
+
+  const dpos = await prisma.user.findMany({
+    where: { orgId: org.id, role: ROLES.DPO, isActive: true, isDeleted: false },
+    select: { id: true },
+  });
+  const dpoIds = dpos.map(u => u.id);
+  const label = scheduleLabel(schedule);
+
+  const latest = await findLatestVersion(org.id, ORG_SCOPE);
+  if (latest && OPEN_STATUSES.includes(latest.status)) {
+    await notifyUsers(org.id, dpoIds, {
+      type: 'ASSESSMENT_DUE',
+      title: `${label} due — Assessment v${latest.assessmentVersion} is still open`,
+      body: `Finalize the open version; the next scheduled run is ${nextDueAt.toISOString().slice(0, 10)}.`,
+      link: `/assessments/${latest.id}`,
+    });
+    return null;
+  }
+
+  const carryForward = schedule.carryForward && !!(await findLastFinalized(org.id, ORG_SCOPE));
+  const opened = await openAssessmentVersion({
+    orgId: org.id,
+    scope: ORG_SCOPE,
+    mode: schedule.mode,
+    userId: schedule.createdBy,
+    carryForward,
+    reconfirmDomain: schedule.domainNumber ?? undefined,
+  });
+  if ('error' in opened) {
+    await notifyUsers(org.id, dpoIds, {
+      type: 'ASSESSMENT_DUE',
+      title: `${label} due — the new draft could not be opened`,
+      body: opened.error,
+    });
+    return null;
+  }
+  const { assessment, carriedForward } = opened;
+  await prisma.assessmentSchedule.update({ where: { id: schedule.id }, data: { lastAssessmentId: assessment.id } });
+
+  await logAudit({
+    orgId: org.id,
+    userId: schedule.createdBy,
+    action: 'ASSESSMENT_CREATED',
+    entityType: 'assessment',
+    entityId: assessment.id,
+    newValue: { version: assessment.assessmentVersion, mode: schedule.mode, ...ORG_SCOPE, carriedForward, scheduleId: schedule.id },
+    ipAddress: 'scheduler',
+  });
+
+  await notifyUsers(org.id, dpoIds, {
+    type: 'ASSESSMENT_SCHEDULED',
+    title: `${label} due: Assessment v${assessment.assessmentVersion} opened`,
+    body: !carriedForward
+      ? 'A new draft has been opened.'
+      : schedule.domainNumber == null
+        ? `${carriedForward.responsesCarried} answers carried forward for reconfirmation.`
+        : `Answers carried forward; reconfirm Domain ${schedule.domainNumber} before finalizing.`,
+    link: `/assessments/${assessment.id}`,
+  });
+  return assessment.id;
+}
+
+/** Runs every active schedule whose nextDueAt has passed; full reassessments go before domain ones. */
+export async function runDueSchedules(now = new Date()): Promise<number> {
+  const due = await prisma.assessmentSchedule.findMany({
+    where: { isActive: true, isDeleted: false, nextDueAt: { lte: now } },
+    orderBy: [{ domainNumber: { sort: 'asc', nulls: 'first' } }, { nextDueAt: 'asc' }],
+  });
+  let opened = 0;
+  for (const schedule of due) {
+    try {
+      if (await runSchedule(schedule, now)) opened++;
+    } catch (error) {
+      console.error(`Assessment schedule ${schedule.id} failed:`, error);
+    }
+  }
+  return opened;
+}
+
+/**
+ * Checks for due schedules every ASSESSMENT_SCHEDULER_INTERVAL_MINUTES
+ * (default 60; 0 disables the scheduler on this instance).
+ */
+export function startAssessmentScheduler(): NodeJS.Timeout | null {
+  const minutes = Number(process.env.ASSESSMENT_SCHEDULER_INTERVAL_MINUTES ?? DEFAULT_CHECK_MINUTES);
+  if (!minutes) return null;
+  const tick = () => {
+    runDueSchedules()
+      .then(opened => { if (opened) console.log(`Assessment scheduler opened ${opened} assessment(s)`); })
+      .catch(error => console.error('Assessment scheduler error:', error));
+  };
+  tick();
+  return setInterval(tick, minutes * 60 * 1000);
+}
+
+/**
+ * Cadence status of an organization: when the next scheduled assessment is
+ * due and whether the last org-wide finalization is older than the
+ * reassessment policy allows.
+ */
+export async function getAssessmentCadence(orgId: string, now = new Date()) {
+  const [org, schedules, lastFinalized] = await Promise.all([
+    prisma.organization.findUnique({ where: { id: orgId }, select: { reassessmentPolicyMonths: true } }),
+    prisma.assessmentSchedule.findMany({
+      where: { orgId, isActive: true, isDeleted: false },
+      orderBy: { nextDueAt: 'asc' },
+    }),
+    findLastFinalized(orgId, ORG_SCOPE),
+  ]);
+  const policyMonths = org?.reassessmentPolicyMonths ?? null;
+  const lastFinalizedAt = lastFinalized?.finalizedAt ?? null;
+  const policyDueAt = policyMonths && lastFinalizedAt ? addMonths(lastFinalizedAt, policyMonths) : null;
+  // Without any finalization the org is overdue as soon as a policy exists
+  const overdue = policyMonths != null && (!policyDueAt || policyDueAt < now);
+
+  return {
+    policyMonths,
+    lastFinalizedAt,
+    policyDueAt,
+    overdue,
+    daysOverdue: overdue && policyDueAt ? Math.floor((now.getTime() - policyDueAt.getTime()) / DAY_MS) : null,
+    nextDueAt: schedules[0]?.nextDueAt ?? null,
+    schedules: schedules.map(s => ({
+      id: s.id,
+      label: scheduleLabel(s),
+      domainNumber: s.domainNumber,
+      intervalMonths: s.intervalMonths,
+      nextDueAt: s.nextDueAt,
+    })),
+  };
+}
+
+/** Organizations, across the platform, whose last org-wide finalization is older than their policy. */
+export async function listOverdueOrganizations(now = new Date()) {
+  const orgs = await prisma.organization.findMany({
+    where: { isDeleted: false, reassessmentPolicyMonths: { not: null } },
+    select: { id: true, name: true },
+    orderBy: { name: 'asc' },
+  });
+  const cadences = await Promise.all(orgs.map(async org => ({
+    orgId: org.id,
+    name: org.name,
+    ...await getAssessmentCadence(org.id, now),
+  })));
+  return cadences
+    .filter(c => c.overdue)
+    .map(({ orgId, name, policyMonths, lastFinalizedAt, policyDueAt, daysOverdue, nextDueAt }) =>
+      ({ orgId, name, policyMonths, lastFinalizedAt, policyDueAt, daysOverdue, nextDueAt }));
+}
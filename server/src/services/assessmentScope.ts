@@ -0,0 +1,69 @@
+import { Organization } from '@prisma/client';
+import { prisma } from '../index';
+
+export const SCOPE_TYPES = ['ORG', 'REGION', 'FACILITY', 'DEPARTMENT'] as const;
+export type ScopeType = typeof SCOPE_TYPES[number];
+
+export interface AssessmentScope {
+  scopeType: ScopeType;
+  scopeValue: string | null;
+  facilityId: string | null;
+}
+
+export const ORG_SCOPE: AssessmentScope = { scopeType: 'ORG', scopeValue: null, facilityId: null };
+
+/**
+ * Validates a requested assessment scope against the organization: regions
+ * must be in regionsOfOperation, facilities must belong to the org, and
+ * department scopes need a department name. Returns an error message instead
+ * of a scope when the request is invalid.
+ */
+export async function resolveScope(
+  org: Organization,
+  input: { scopeType?: unknown; scopeValue?: unknown; facilityId?: unknown },
+): Promise<AssessmentScope | { error: string }> {
+  const scopeType = (input.scopeType || 'ORG') as ScopeType;
+  if (!SCOPE_TYPES.includes(scopeType)) {
+    return { error: `Invalid scopeType. Must be one of: ${SCOPE_TYPES.join(', ')}` };
+  }
+  const value = typeof input.scopeValue === 'string' ? input.scopeValue.trim() : '';
+
+  switch (scopeType) {
+    case 'ORG':
+      return ORG_SCOPE;
+    case 'REGION':
+      if (!org.regionsOfOperation.includes(value)) {
+        return { error: `Region must be one of the organization's regions of operation: ${org.regionsOfOperation.join(', ') || 'none configured'}` };
+      }
+      return { scopeType, scopeValue: value, facilityId: null };
+    case 'FACILITY': {
+      const facility = typeof input.facilityId === 'string'
+        ? await prisma.facility.findFirst({ where: { id: input.facilityId, orgId: org.id, isDeleted: false } })
+        : null;
+      if (!facility) {
+        return { error: 'facilityId must reference one of the organization\'s facilities' };
+      }
+      return { scopeType, scopeValue: null, facilityId: facility.id };
+    }
+    case 'DEPARTMENT':
+      if (!value) {
+        return { error: 'scopeValue (department name) is required for department assessments' };
+      }
+      return { scopeType, scopeValue: value, facilityId: null };
+  }
+}
+
+/** Prisma filter matching assessments with exactly the given scope. */
+export function sameScope(scope: { scopeType: string; scopeValue: string | null; facilityId: string | null }) {
+  return { scopeType: scope.scopeType, scopeValue: scope.scopeValue, facilityId: scope.facilityId };
+}
+
+/** Human-readable scope, e.g. "Facility: King Fahd Hospital" or "Organization-wide". */
+export function scopeLabel(assessment: { scopeType: string; scopeValue: string | null; facility?: { name: string } | null }): string {
+  switch (assessment.scopeType) {
+    case 'REGION': return `Region: ${assessment.scopeValue}`;
+    case 'FACILITY': return `Facility: ${assessment.facility?.name ?? 'unknown'}`;
+    case 'DEPARTMENT': return `Department: ${assessment.scopeValue}`;
+    default: return 'Organization-wide';
+  }
+}
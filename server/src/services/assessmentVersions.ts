@@ -0,0 +1,87 @@
+import { Assessment } from '@prisma/client';
+import { prisma } from '../index';
+import { AssessmentScope, sameScope } from './assessmentScope';
+import { carryForwardResponses } from './carryForward';
+import { pendingReleases } from './controlLibrary';
+
+export const ASSESSMENT_MODES = ['STANDARD', 'MATURITY'];
+
+interface OpenVersionInput {
+  orgId: string;
+  scope: AssessmentScope;
+  mode: string;
+  userId: string;
+  /** Carry answers forward from the last finalized assessment of the scope. */
+  carryForward: boolean;
+  /** Only this domain's carried answers need reconfirmation. */
+  reconfirmDomain?: number;
+}
+
+/** Last assessment of the scope that went through finalization — the carry-forward source. */
+export function findLastFinalized(orgId: string, scope: AssessmentScope) {
+  return prisma.assessment.findFirst({
+    where: { orgId, isDeleted: false, finalizedAt: { not: null }, ...sameScope(scope) },
+    orderBy: { assessmentVersion: 'desc' },
+  });
+}
+
+/** Latest assessment of the scope, whatever its status. */
+export function findLatestVersion(orgId: string, scope: AssessmentScope) {
+  return prisma.assessment.findFirst({
+    where: { orgId, isDeleted: false, ...sameScope(scope) },
+    orderBy: { assessmentVersion: 'desc' },
+  });
+}
+
+/**
+ * Opens the next DRAFT version within a scope, archiving the previous one and
+ * optionally carrying its finalized answers forward. Refuses while an
+ * amendment is being applied to the latest version or a published control
+ * library release is waiting for the DPO's acceptance.
+ */
+export async function openAssessmentVersion(
+  input: OpenVersionInput,
+): Promise<{ assessment: Assessment; carriedForward: Awaited<ReturnType<typeof carryForwardResponses>> | null } | { error: string; code: string }> {
+  const { orgId, scope, mode, userId } = input;
+  const org = await prisma.organization.findUnique({ where: { id: orgId } });
+  const [pendingRelease] = org ? await pendingReleases(org) : [];
+  if (pendingRelease) {
+    return { error: `The DPO must accept control library ${pendingRelease.version} before a new assessment can start`, code: 'LIBRARY_UPGRADE_PENDING' };
+  }
+  const lastFinalized = input.carryForward ? await findLastFinalized(orgId, scope) : null;
+  if (input.carryForward && !lastFinalized) {
+    return { error: 'No finalized assessment to carry answers forward from', code: 'NO_FINALIZED_ASSESSMENT' };
+  }
+
+  const latestAssessment = await findLatestVersion(orgId, scope);
+  if (latestAssessment?.status === 'AMENDING') {
+    return { error: 'Re-finalize the amendment in progress before starting a new version', code: 'AMENDMENT_IN_PROGRESS' };
+  }
+
+  const newVersion = latestAssessment ? latestAssessment.assessmentVersion + 1 : 1;
+
+  // Archive previous if exists
+  if (latestAssessment && latestAssessment.status !== 'ARCHIVED') {
+    await prisma.assessment.update({
+      where: { id: latestAssessment.id },
+      data: { status: 'ARCHIVED' },
+    });
+  }
+
+  const assessment = await prisma.assessment.create({
+    data: {
+      orgId,
+      assessmentVersion: newVersion,
+      status: 'DRAFT',
+      mode,
+      ...scope,
+      createdBy: userId,
+    },
+  });
+
+  const carriedForward = lastFinalized
+    ? await carryForwardResponses(lastFinalized.id, assessment.id, userId, input.reconfirmDomain)
+    : null;
+
+  return { assessment, carriedForward };
+}
@@ -0,0 +1,153 @@
+import { AssessmentAssignment, Control } from '@prisma/client';
+import { prisma } from '../index';
+import { DPO_AND_ABOVE } from '../middleware/auth';
+import { getApplicableControls } from './branchingRules';
+
+type AssignmentWithUser = AssessmentAssignment & {
+  assigneeUser: { id: string; firstName: string; lastName: string; email: string } | null;
+};
+
+interface Actor {
+  userId: string;
+  role: string;
+}
+
+export async function loadAssignments(assessmentId: string): Promise<AssignmentWithUser[]> {
+  return prisma.assessmentAssignment.findMany({
+    where: { assessmentId },
+    include: { assigneeUser: { select: { id: true, firstName: true, lastName: true, email: true } } },
+    orderBy: [{ scope: 'asc' }, { domainNumber: 'asc' }, { controlId: 'asc' }],
+  });
+}
+
+/**
+ * Effective assignment for a control: a CONTROL assignment wins over the
+ * DOMAIN assignment covering it. Null when the control is not delegated.
+ */
+export function assignmentFor<T extends AssessmentAssignment>(
+  assignments: T[],
+  control: Pick<Control, 'id' | 'domainNumber'>,
+): T | null {
+  return assignments.find(a => a.scope === 'CONTROL' && a.controlId === control.id)
+    || assignments.find(a => a.scope === 'DOMAIN' && a.domainNumber === control.domainNumber)
+    || null;
+}
+
+export function isAssignee(assignment: AssessmentAssignment, actor: Actor): boolean {
+  return assignment.assigneeUserId === actor.userId || (!!assignment.assigneeRole && assignment.assigneeRole === actor.role);
+}
+
+/**
+ * Delegated controls may only be answered by their assignee or a DPO-level
+ * user; controls without an assignment stay open to everyone.
+ */
+export async function canAnswerControl(actor: Actor, assessmentId: string, control: Pick<Control, 'id' | 'domainNumber'>) {
+  if ((DPO_AND_ABOVE as string[]).includes(actor.role)) return { allowed: true, assignment: null };
+  const assignment = assignmentFor(await loadAssignments(assessmentId), control);
+  return { allowed: !assignment || isAssignee(assignment, actor), assignment };
+}
+
+function assigneeKey(a: AssignmentWithUser | null): string {
+  if (!a) return 'unassigned';
+  return a.assigneeUserId ? `user:${a.assigneeUserId}` : `role:${a.assigneeRole}`;
+}
+
+export function assigneeLabel(a: AssignmentWithUser | null): string {
+  if (!a) return 'Unassigned';
+  if (a.assigneeUser) return `${a.assigneeUser.firstName} ${a.assigneeUser.lastName}`;
+  return `Role: ${a.assigneeRole}`;
+}
+
+/**
+ * Answered/total counts over applicable controls, grouped by effective
+ * assignee and by domain. Overdue counts unanswered controls past due date.
+ */
+export async function getAssignmentProgress(assessmentId: string, orgId: string) {
+  const [org, assignments, responses] = await Promise.all([
+    prisma.organization.findUnique({ where: { id: orgId } }),
+    loadAssignments(assessmentId),
+    prisma.response.findMany({ where: { assessmentId }, select: { controlId: true } }),
+  ]);
+  const { controls } = await getApplicableControls(org!);
+  const answered = new Set(responses.map(r => r.controlId));
+  const now = new Date();
+
+  const byAssignee = new Map<string, { key: string; label: string; total: number; answered: number; overdue: number; nextDueDate: Date | null }>();
+  const byDomain = new Map<number, { domainNumber: number; domainName: string; total: number; answered: number; assignee: string }>();
+
+  for (const control of controls) {
+    const assignment = assignmentFor(assignments, control);
+    const key = assigneeKey(assignment);
+    const isAnswered = answered.has(control.id);
+
+    const a = byAssignee.get(key) || { key, label: assigneeLabel(assignment), total: 0, answered: 0, overdue: 0, nextDueDate: null };
+    a.total++;
+    if (isAnswered) a.answered++;
+    if (!isAnswered && assignment?.dueDate) {
+      if (assignment.dueDate < now) a.overdue++;
+      if (!a.nextDueDate || assignment.dueDate < a.nextDueDate) a.nextDueDate = assignment.dueDate;
+    }
+    byAssignee.set(key, a);
+
+    const domainAssignment = assignments.find(x => x.scope === 'DOMAIN' && x.domainNumber === control.domainNumber) || null;
+    const d = byDomain.get(control.domainNumber) || {
+      domainNumber: control.domainNumber, domainName: control.domainName, total: 0, answered: 0, assignee: assigneeLabel(domainAssignment),
+    };
+    d.total++;
+    if (isAnswered) d.answered++;
+    byDomain.set(control.domainNumber, d);
+  }
+
+  const withPct = <T extends { total: number; answered: number }>(x: T) => ({
+    ...x, percentage: x.total > 0 ? Math.round((x.answered / x.total) * 100) : 0,
+  });
+  return {
+    byAssignee: Array.from(byAssignee.values()).map(withPct),
+    byDomain: Array.from(byDomain.values()).sort((a, b) => a.domainNumber - b.domainNumber).map(withPct),
+  };
+}
+
+/**
+ * Controls delegated to the actor (directly or through their role) on the
+ * organization's open assessments, soonest due first.
+ */
+export async function getMyQuestions(actor: Actor, orgId: string) {
+  const [org, assessments] = await Promise.all([
+    prisma.organization.findUnique({ where: { id: orgId } }),
+    prisma.assessment.findMany({
+      where: { orgId, isDeleted: false, status: { in: ['DRAFT', 'IN_REVIEW'] } },
+      include: { responses: { select: { controlId: true, answer: true } } },
+    }),
+  ]);
+  const { controls } = await getApplicableControls(org!);
+
+  const questions = [];
+  for (const assessment of assessments) {
+    const assignments = await loadAssignments(assessment.id);
+    if (assignments.length === 0) continue;
+    const answers = new Map(assessment.responses.map(r => [r.controlId, r.answer]));
+    for (const control of controls) {
+      const assignment = assignmentFor(assignments, control);
+      if (!assignment || !isAssignee(assignment, actor)) continue;
+      questions.push({
+        assessmentId: assessment.id,
+        assessmentVersion: assessment.assessmentVersion,
+        assessmentStatus: assessment.status,
+        controlId: control.id,
+        ref: control.ref,
+        domainNumber: control.domainNumber,
+        domainName: control.domainName,
+        objectiveEn: control.objectiveEn,
+        riskLevel: control.riskLevel,
+        answer: answers.get(control.id) || null,
+        dueDate: assignment.dueDate,
+        assignmentScope: assignment.scope,
+      });
+    }
+  }
+
+  return questions.sort((a, b) => {
+    if (!!a.answer !== !!b.answer) return a.answer ? 1 : -1;
+    return (a.dueDate?.getTime() ?? Infinity) - (b.dueDate?.getTime() ?? Infinity);
+  });
+}
@@ -0,0 +1,233 @@
+import archiver from 'archiver';
+import PDFDocument from 'pdfkit';
+import crypto from 'crypto';
+import path from 'path';
+import fs from 'fs';
+import { prisma } from '../index';
+import { withControlSnapshot } from './controlSnapshot';
+
+const KEYS_DIR = path.join(process.cwd(), 'uploads', 'keys');
+const LOCAL_KEY_PATH = path.join(KEYS_DIR, 'audit-signing-key.pem');
+
+interface ManifestEntry {
+  path: string;
+  sha256: string;
+  sizeBytes: number;
+}
+
+interface PackageFile {
+  path: string;
+  content: Buffer;
+}
+
+let cachedPrivateKey: crypto.KeyObject | null = null;
+
+/**
+ * Ed25519 key used to sign audit package manifests. Production deployments
+ * supply AUDIT_SIGNING_PRIVATE_KEY (PKCS#8 PEM); otherwise a key is generated
+ * once and kept under uploads/keys so signatures stay verifiable across restarts.
+ */
+function getSigningKey(): crypto.KeyObject {
+  if (cachedPrivateKey) return cachedPrivateKey;
+
+  if (process.env.AUDIT_SIGNING_PRIVATE_KEY) {
+    cachedPrivateKey = crypto.createPrivateKey(process.env.AUDIT_SIGNING_PRIVATE_KEY.replace(/\\n/g, '\n'));
+  } else if (fs.existsSync(LOCAL_KEY_PATH)) {
+    cachedPrivateKey = crypto.createPrivateKey(fs.readFileSync(LOCAL_KEY_PATH));
+  } else {
+    const { privateKey } = crypto.generateKeyPairSync('ed25519');
+    fs.mkdirSync(KEYS_DIR, { recursive: true });
+    fs.writeFileSync(LOCAL_KEY_PATH, privateKey.export({ type: 'pkcs8', format: 'pem' }), { mode: 0o600 });
+    cachedPrivateKey = privateKey;
+  }
+  return cachedPrivateKey;
+}
+
+export function getSigningPublicKeyPem(): string {
+  return crypto.createPublicKey(getSigningKey()).export({ type: 'spki', format: 'pem' }).toString();
+}
+
+function sha256(buffer: Buffer): string {
+  return crypto.createHash('sha256').update(buffer).digest('hex');
+}
+
+function renderAttestation(details: {
+  orgName: string;
+  dpoName: string | null;
+  dpoEmail: string | null;
+  version: number;
+  overallScore: number;
+  finalizedAt: Date | null;
+  finalizedBy: string;
+  evidenceCount: number;
+}): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'A4', margin: 60 });
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    doc.fontSize(18).text('DPO Attestation', { align: 'center' });
+    doc.moveDown(2).fontSize(11);
+    doc.text(`Organization: ${details.orgName}`);
+    doc.text(`Assessment version: v${details.version}`);
+    doc.text(`Overall compliance score: ${details.overallScore.toFixed(2)}%`);
+    doc.text(`Finalized: ${details.finalizedAt ? details.finalizedAt.toISOString() : '—'} by ${details.finalizedBy}`);
+    doc.text(`Evidence files included: ${details.evidenceCount}`);
+    doc.moveDown(1.5);
+    doc.text(
+      'I attest that this assessment was conducted in accordance with the Personal Data Protection Law (PDPL), '
+      + 'its Implementing Regulation, the NCA Essential Cybersecurity Controls and the MoH Data Governance Policy as '
+      + 'applicable to this organization, that the responses reflect the state of implementation at the time of '
+      + 'finalization, and that the evidence files enclosed in this package are unaltered copies of the records held '
+      + 'in the evidence vault, as verified by the SHA-256 hashes listed in manifest.json.',
+      { align: 'justify' },
+    );
+    doc.moveDown(3);
+    doc.text(`Data Protection Officer: ${details.dpoName || '______________________________'}`);
+    if (details.dpoEmail) doc.text(`Contact: ${details.dpoEmail}`);
+    doc.moveDown(2);
+    doc.text('Signature: ______________________________        Date: ________________');
+    doc.end();
+  });
+}
+
+/**
+ * Builds the Audit-Ready Package for a finalized assessment and writes it to
+ * filePath as a ZIP. The archive carries manifest.json (SHA-256 of every other
+ * entry) and manifest.sig, a detached Ed25519 signature over the manifest bytes.
+ */
+export async function writeAuditPackage(assessmentId: string, filePath: string): Promise<void> {
+  const assessment = await prisma.assessment.findUnique({
+    where: { id: assessmentId },
+    include: {
+      organization: true,
+      finalizedByUser: { select: { firstName: true, lastName: true, email: true } },
+      responses: {
+        include: {
+          control: {
+            select: {
+              domainNumber: true, riskLevel: true, objectiveEn: true, pdplArticles: true,
+              regArticles: true, transferRegArticles: true, ncaRef: true, mohPolicyRef: true,
+            },
+          },
+        },
+      },
+      remediationTasks: { where: { isDeleted: false } },
+    },
+  });
+  if (!assessment) {
+    throw new Error(`Assessment ${assessmentId} not found`);
+  }
+
+  const evidence = await prisma.evidenceFile.findMany({
+    where: { assessmentId, orgId: assessment.orgId, isDeleted: false },
+    include: { uploadedByUser: { select: { firstName: true, lastName: true, email: true } } },
+    orderBy: { uploadedAt: 'asc' },
+  });
+
+  const relatedIds = [
+    assessment.id,
+    ...assessment.responses.map(r => r.id),
+    ...assessment.remediationTasks.map(t => t.id),
+    ...evidence.map(e => e.id),
+  ];
+  const auditLogs = await prisma.auditLog.findMany({
+    where: { orgId: assessment.orgId, entityId: { in: relatedIds } },
+    include: { user: { select: { firstName: true, lastName: true, email: true } } },
+    orderBy: { timestamp: 'asc' },
+  });
+
+  const files: PackageFile[] = [];
+  const json = (value: unknown) => Buffer.from(JSON.stringify(value, (_k, v) => (typeof v === 'bigint' ? v.toString() : v), 2));
+
+  const { organization, responses: liveResponses, remediationTasks, ...assessmentRecord } = assessment;
+  const responses = withControlSnapshot(liveResponses, assessment.controlSnapshot);
+  files.push({
+    path: 'assessment.json',
+    content: json({ organization: { id: organization.id, name: organization.name, orgType: organization.orgType }, assessment: assessmentRecord, responses, remediationTasks }),
+  });
+  files.push({ path: 'audit-log.json', content: json(auditLogs) });
+
+  const revisions = await prisma.responseRevision.findMany({
+    where: { assessmentId },
+    include: { changedByUser: { select: { firstName: true, lastName: true, email: true } } },
+    orderBy: [{ controlId: 'asc' }, { revision: 'asc' }],
+  });
+  files.push({ path: 'response-history.json', content: json(revisions) });
+
+  const evidenceEntries = [];
+  for (const e of evidence) {
+    const entry = {
+      evidenceId: e.id,
+      controlId: e.controlId,
+      filename: e.filename,
+      description: e.description,
+      uploadedBy: e.uploadedByUser,
+      uploadedAt: e.uploadedAt,
+      recordedSha256: e.sha256Hash,
+      packagePath: null as string | null,
+      integrityVerified: false,
+    };
+    if (fs.existsSync(e.storagePath)) {
+      const content = await fs.promises.readFile(e.storagePath);
+      entry.packagePath = `evidence/${e.id}-${path.basename(e.filename)}`;
+      entry.integrityVerified = sha256(content) === e.sha256Hash;
+      files.push({ path: entry.packagePath, content });
+    }
+    evidenceEntries.push(entry);
+  }
+  files.push({ path: 'evidence-index.json', content: json(evidenceEntries) });
+
+  files.push({
+    path: 'dpo-attestation.pdf',
+    content: await renderAttestation({
+      orgName: organization.name,
+      dpoName: organization.dpoName,
+      dpoEmail: organization.dpoEmail,
+      version: assessment.assessmentVersion,
+      overallScore: Number(assessment.overallScore ?? 0),
+      finalizedAt: assessment.finalizedAt,
+      finalizedBy: assessment.finalizedByUser ? `${assessment.finalizedByUser.firstName} ${assessment.finalizedByUser.lastName}` : '—',
+      evidenceCount: evidence.length,
+    }),
+  });
+
+  const manifestEntries: ManifestEntry[] = files.map(f => ({ path: f.path, sha256: sha256(f.content), sizeBytes: f.content.length }));
+  const manifest = Buffer.from(JSON.stringify({
+    packageType: 'PDPL_AUDIT_PACKAGE',
+    assessmentId: assessment.id,
+    assessmentVersion: assessment.assessmentVersion,
+    orgId: assessment.orgId,
+    generatedAt: new Date().toISOString(),
+    signatureAlgorithm: 'Ed25519',
+    files: manifestEntries,
+  }, null, 2));
+  const signature = crypto.sign(null, manifest, getSigningKey());
+
+  const output = fs.createWriteStream(filePath);
+  const archive = archiver('zip', { zlib: { level: 9 } });
+  const done = new Promise<void>((resolve, reject) => {
+    output.on('close', () => resolve());
+    output.on('error', reject);
+    archive.on('error', reject);
+  });
+  archive.pipe(output);
+  for (const f of files) {
+    archive.append(f.content, { name: f.path });
+  }
+  archive.append(manifest, { name: 'manifest.json' });
+  archive.append(signature.toString('base64'), { name: 'manifest.sig' });
+  archive.append(getSigningPublicKeyPem(), { name: 'signing-public-key.pem' });
+  archive.append(
+    'Verify this package:\n'
+    + '  1. Obtain the public key from GET /api/v1/assessments/audit-signing-key (do not rely solely on the copy enclosed here).\n'
+    + '  2. base64 -d manifest.sig > manifest.sig.bin\n'
+    + '  3. openssl pkeyutl -verify -pubin -inkey signing-public-key.pem -rawin -in manifest.json -sigfile manifest.sig.bin\n'
+    + '  4. Check the sha256 of every file against manifest.json (sha256sum).\n',
+    { name: 'VERIFY.txt' },
+  );
+  await archive.finalize();
+  await done;
+}
@@ -1,81 +1,245 @@
-interface OrgProfile {
-  orgType: string;
-  processesMinors: boolean;
-  crossBorderTransfers: boolean;
-  usesCloud: string;
-  conductsResearch: boolean;
-  usesAiOrAutomatedDecisions: boolean;
-  continuousMonitoring: boolean;
-}
+import { Prisma, BranchingRule } from '@prisma/client';
+import { prisma } from '../index';
+import { getTypeMandatoryControls, TypeMandatoryControl } from './mandatoryControls';
+import { LIBRARY_CONTROLS_WHERE } from './customControls';
+import { LibraryPin, loadLibraryPin, pinnedControl, pinnedControlsWhere } from './libraryPin';
+
+// Any Organization profile field can be referenced by a rule condition
+export type OrgProfile = Record<string, unknown>;
 
-interface BranchingResult {
+export interface BranchingResult {
   activatedControls: string[];
   naControls: string[];
+  mandatoryControls: string[];
+  appliedRules: string[];
 }
 
-const HEALTH_ORG_TYPES = [
-  'government_hospital', 'private_hospital', 'clinic_small',
-  'clinic_large', 'insurer', 'pharma', 'health_tech'
-];
+export const CONDITION_OPERATORS = ['eq', 'neq', 'in', 'notIn', 'contains', 'gt', 'gte', 'lt', 'lte', 'exists'] as const;
+export const RULE_ACTIONS = ['ACTIVATE', 'MARK_NA', 'MAKE_MANDATORY'] as const;
 
-export function evaluateBranchingRules(profile: OrgProfile): BranchingResult {
-  const activated: Set<string> = new Set();
-  const naControls: Set<string> = new Set();
+export interface Condition {
+  field: string;
+  op: typeof CONDITION_OPERATORS[number];
+  value?: unknown;
+}
 
-  // Rule 1: processes_minors = TRUE
-  if (profile.processesMinors) {
-    ['PDPL-G.10', 'PDPL-R.10'].forEach(c => activated.add(c));
-  }
+export interface ConditionGroup {
+  operator: 'AND' | 'OR';
+  conditions: Array<Condition | ConditionGroup>;
+}
 
-  // Rule 2: cross_border_transfers = TRUE
-  if (profile.crossBorderTransfers) {
-    ['PDPL-T.5', 'PDPL-T.6', 'PDPL-T.7', 'PDPL-T.8', 'PDPL-T.9', 'HS-PDPL-013', 'NCA-D4.R2'].forEach(c => activated.add(c));
-  }
+export interface RuleAction {
+  type: typeof RULE_ACTIONS[number];
+  controlIds: string[];
+}
 
-  // Rule 3: cross_border_transfers = FALSE → transfer controls N/A
-  if (!profile.crossBorderTransfers) {
-    ['PDPL-T.5', 'PDPL-T.6', 'PDPL-T.7', 'PDPL-T.8', 'PDPL-T.9', 'HS-PDPL-013'].forEach(c => naControls.add(c));
-  }
+export const PROFILE_FIELDS: string[] = Object.values(Prisma.OrganizationScalarFieldEnum);
+
+function isGroup(node: Condition | ConditionGroup): node is ConditionGroup {
+  return (node as ConditionGroup).operator !== undefined && Array.isArray((node as ConditionGroup).conditions);
+}
 
-  // Rule 4: All health orgs → mandatory controls
-  if (HEALTH_ORG_TYPES.includes(profile.orgType)) {
-    ['PDPL-C.1', 'HS-PDPL-001', 'HS-PDPL-002', 'HS-PDPL-003', 'PDPL-G.1'].forEach(c => activated.add(c));
+function evaluateCondition(condition: Condition, profile: OrgProfile): boolean {
+  const actual = profile[condition.field];
+  const expected = condition.value;
+  switch (condition.op) {
+    case 'eq': return actual === expected;
+    case 'neq': return actual !== expected;
+    case 'in': return Array.isArray(expected) && expected.includes(actual);
+    case 'notIn': return Array.isArray(expected) && !expected.includes(actual);
+    case 'contains': return Array.isArray(actual) && actual.includes(expected);
+    case 'gt': return typeof actual === 'number' && typeof expected === 'number' && actual > expected;
+    case 'gte': return typeof actual === 'number' && typeof expected === 'number' && actual >= expected;
+    case 'lt': return typeof actual === 'number' && typeof expected === 'number' && actual < expected;
+    case 'lte': return typeof actual === 'number' && typeof expected === 'number' && actual <= expected;
+    case 'exists': return actual !== null && actual !== undefined && actual !== '';
+    default: return false;
   }
+}
+
+export function evaluateConditions(node: Condition | ConditionGroup, profile: OrgProfile): boolean {
+  if (!isGroup(node)) return evaluateCondition(node, profile);
+  if (node.operator === 'OR') return node.conditions.some(c => evaluateConditions(c, profile));
+  return node.conditions.every(c => evaluateConditions(c, profile));
+}
+
+/**
+ * Validates a rule's condition tree and actions. Returns an error message,
+ * or null when the definition is well-formed.
+ */
+export function validateRuleDefinition(conditions: unknown, actions: unknown): string | null {
+  const checkNode = (node: unknown, path: string): string | null => {
+    if (!node || typeof node !== 'object') return `${path} must be an object`;
+    const n = node as Record<string, unknown>;
+    if ('operator' in n) {
+      if (n.operator !== 'AND' && n.operator !== 'OR') return `${path}.operator must be AND or OR`;
+      if (!Array.isArray(n.conditions) || n.conditions.length === 0) return `${path}.conditions must be a non-empty array`;
+      for (let i = 0; i < n.conditions.length; i++) {
+        const err = checkNode(n.conditions[i], `${path}.conditions[${i}]`);
+        if (err) return err;
+      }
+      return null;
+    }
+    if (typeof n.field !== 'string' || !PROFILE_FIELDS.includes(n.field)) return `${path}.field must be an organization profile field`;
+    if (!CONDITION_OPERATORS.includes(n.op as Condition['op'])) return `${path}.op must be one of ${CONDITION_OPERATORS.join(', ')}`;
+    if ((n.op === 'in' || n.op === 'notIn') && !Array.isArray(n.value)) return `${path}.value must be an array for ${n.op}`;
+    return null;
+  };
+
+  const conditionError = checkNode(conditions, 'conditions');
+  if (conditionError) return conditionError;
 
-  // Rule 5: uses_cloud = YES or PARTIALLY
-  if (profile.usesCloud === 'yes' || profile.usesCloud === 'partial') {
-    ['PDPL-T.2', 'NCA-D4.R2'].forEach(c => activated.add(c));
+  if (!Array.isArray(actions) || actions.length === 0) return 'actions must be a non-empty array';
+  for (let i = 0; i < actions.length; i++) {
+    const a = actions[i] as Record<string, unknown>;
+    if (!RULE_ACTIONS.includes(a?.type as RuleAction['type'])) return `actions[${i}].type must be one of ${RULE_ACTIONS.join(', ')}`;
+    if (!Array.isArray(a.controlIds) || a.controlIds.length === 0 || !a.controlIds.every(id => typeof id === 'string')) {
+      return `actions[${i}].controlIds must be a non-empty array of control IDs`;
+    }
   }
+  return null;
+}
+
+/**
+ * The active rule set, or for an organization held on an earlier library
+ * release the rule versions it had before the releases it has not accepted.
+ */
+export async function loadActiveBranchingRules(pin: LibraryPin | null = null): Promise<BranchingRule[]> {
+  const rules = await prisma.branchingRule.findMany({
+    where: { isActive: true },
+    orderBy: [{ priority: 'asc' }, { ruleKey: 'asc' }],
+  });
+  if (!pin || pin.branchingRules.size === 0) return rules;
+  const previousVersions = [...pin.branchingRules]
+    .filter((entry): entry is [string, number] => entry[1] !== null)
+    .map(([ruleKey, version]) => ({ ruleKey, version }));
+  const previous = previousVersions.length > 0
+    ? await prisma.branchingRule.findMany({ where: { OR: previousVersions } })
+    : [];
+  return [...rules.filter(r => !pin.branchingRules.has(r.ruleKey)), ...previous]
+    .sort((a, b) => a.priority - b.priority || a.ruleKey.localeCompare(b.ruleKey));
+}
 
-  // Rule 6: uses_ai_or_automated_decisions = TRUE
-  if (profile.usesAiOrAutomatedDecisions) {
-    ['PDPL-G.3', 'HS-PDPL-020'].forEach(c => activated.add(c));
+/**
+ * typeMandatoryControls are the controls whose mandatoryForTypes covers the
+ * organization type; rules can add more through MAKE_MANDATORY. A type
+ * mandatory control only binds where it applies: its conditionalOn and
+ * MARK_NA rules win, so mandatory means "cannot be N/A when applicable".
+ * MAKE_MANDATORY still overrides both.
+ */
+export function evaluateBranchingRules(
+  profile: OrgProfile,
+  rules: BranchingRule[],
+  typeMandatoryControls: TypeMandatoryControl[] = []
+): BranchingResult {
+  const activated: Set<string> = new Set();
+  const naControls: Set<string> = new Set();
+  const ruleMandatory: Set<string> = new Set();
+  const appliedRules: string[] = [];
+
+  for (const rule of rules) {
+    if (!evaluateConditions(rule.conditions as unknown as ConditionGroup, profile)) continue;
+    appliedRules.push(rule.ruleKey);
+
+    for (const action of rule.actions as unknown as RuleAction[]) {
+      switch (action.type) {
+        case 'ACTIVATE': action.controlIds.forEach(c => activated.add(c)); break;
+        case 'MARK_NA': action.controlIds.forEach(c => naControls.add(c)); break;
+        case 'MAKE_MANDATORY': action.controlIds.forEach(c => { ruleMandatory.add(c); activated.add(c); }); break;
+      }
+    }
   }
 
-  // Rule 7 is evaluated during assessment (G.3 answered NO → cascade gaps)
+  // Rule 7 is evaluated during assessment by the dependency engine (G.3 answered NO → cascade gaps)
+
+  const mandatory = new Set(ruleMandatory);
+  for (const control of typeMandatoryControls) {
+    if (naControls.has(control.id) || !matchesConditionalOn(control.conditionalOn, profile)) continue;
+    mandatory.add(control.id);
+    activated.add(control.id);
+  }
 
   return {
     activatedControls: Array.from(activated),
-    naControls: Array.from(naControls),
+    naControls: Array.from(naControls).filter(c => !ruleMandatory.has(c)),
+    mandatoryControls: Array.from(mandatory),
+    appliedRules,
+  };
+}
+
+const isOrgRecord = (profile: OrgProfile): profile is OrgProfile & { id: string; createdAt: Date } =>
+  typeof profile.id === 'string' && profile.createdAt instanceof Date;
+
+/**
+ * Loads the rule set and evaluates it against an organization record,
+ * including the controls mandatory for its orgType, both as of its library
+ * release.
+ * Callers that already loaded the organization's pin pass it along.
+ */
+export async function evaluateOrgBranching(profile: OrgProfile, pin?: LibraryPin | null): Promise<BranchingResult> {
+  const libraryPin = pin !== undefined ? pin : isOrgRecord(profile) ? await loadLibraryPin(profile) : null;
+  const [rules, typeMandatory] = await Promise.all([
+    loadActiveBranchingRules(libraryPin),
+    getTypeMandatoryControls(String(profile.orgType), libraryPin),
+  ]);
+  return evaluateBranchingRules(profile, rules, typeMandatory);
+}
+
+/**
+ * The controls applicable to an organization under the active rule set,
+ * in library order, together with the branching result used to select them.
+ * An organization record also brings in its own custom controls, and sees
+ * library controls as defined by the release it is on (returned as `pin`).
+ */
+export async function getApplicableControls(profile: OrgProfile) {
+  const pin = isOrgRecord(profile) ? await loadLibraryPin(profile) : null;
+  const [branchingResult, controls] = await Promise.all([
+    evaluateOrgBranching(profile, pin),
+    prisma.control.findMany({
+      where: typeof profile.id === 'string' ? pinnedControlsWhere(profile.id, pin) : LIBRARY_CONTROLS_WHERE,
+      orderBy: [{ domainNumber: 'asc' }, { id: 'asc' }],
+    }),
+  ]);
+  return {
+    branchingResult,
+    pin,
+    controls: controls
+      .map(c => pinnedControl(c, c.id, pin))
+      .filter(c => isControlApplicable(c.id, c.conditionalOn, profile, branchingResult)),
   };
 }
 
 export function isControlApplicable(
   controlId: string,
-  conditionalOn: any,
+  conditionalOn: unknown,
   profile: OrgProfile,
   branchingResult: BranchingResult
 ): boolean {
+  // Mandatory controls only reach this list where they apply, so they are applicable
+  if (branchingResult.mandatoryControls.includes(controlId)) {
+    return true;
+  }
+
   // If control is in N/A list, it's not applicable
   if (branchingResult.naControls.includes(controlId)) {
     return false;
   }
 
-  // If control has conditional requirements, check them
+  return matchesConditionalOn(conditionalOn, profile);
+}
+
+/**
+ * Whether the profile satisfies a control's conditionalOn. Controls without
+ * one apply everywhere.
+ */
+function matchesConditionalOn(conditionalOn: unknown, profile: OrgProfile): boolean {
   if (conditionalOn && typeof conditionalOn === 'object') {
+    if (isGroup(conditionalOn as ConditionGroup)) {
+      return evaluateConditions(conditionalOn as ConditionGroup, profile);
+    }
+    // Legacy shape: { field: expectedValue, ... } — all must match
     for (const [key, value] of Object.entries(conditionalOn)) {
-      const profileValue = (profile as any)[key];
-      if (profileValue !== value) {
+      if (profile[key] !== value) {
         return false;
       }
     }
@@ -83,7 +247,3 @@ export function isControlApplicable(
 
   return true;
 }
-
-export function isHealthOrg(orgType: string): boolean {
-  return HEALTH_ORG_TYPES.includes(orgType);
-}
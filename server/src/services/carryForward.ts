@@ -0,0 +1,119 @@
+import { prisma } from '../index';
+import { getApplicableControls } from './branchingRules';
+import { getPointsForResponse, maturityForAnswer } from './scoring';
+import { ensureRemediationTask } from './remediationTasks';
+import { recordInitialRevisions } from './responseHistory';
+
+interface CarryForwardResult {
+  sourceAssessmentId: string;
+  responsesCarried: number;
+  evidenceLinked: number;
+  controlsUpdated: string[];
+  controlsDropped: string[];
+  tasksOpened: number;
+}
+
+/**
+ * Seeds a new DRAFT from a finalized assessment. Every carried response is
+ * marked needsReconfirmation until an assessor saves it again — or, when
+ * reconfirmDomain is given, only that domain's responses and those whose
+ * control definition changed after the source was finalized.
+ * Only answers on controls that still apply to the organization on its
+ * library release are carried; points are recomputed against those
+ * definitions and the new assessment's mode. Carried NO and PARTIAL answers
+ * get a remediation task on the new assessment, as when answered there.
+ */
+export async function carryForwardResponses(
+  sourceAssessmentId: string,
+  targetAssessmentId: string,
+  userId: string,
+  reconfirmDomain?: number,
+): Promise<CarryForwardResult> {
+  const [source, target] = await Promise.all([
+    prisma.assessment.findUnique({
+      where: { id: sourceAssessmentId },
+      include: { responses: true, organization: true },
+    }),
+    prisma.assessment.findUnique({ where: { id: targetAssessmentId }, select: { mode: true } }),
+  ]);
+  if (!source || !target) {
+    throw new Error(`Assessment ${!source ? sourceAssessmentId : targetAssessmentId} not found`);
+  }
+
+  // Retired controls and controls the organization's profile no longer activates are left behind
+  const { controls } = await getApplicableControls(source.organization);
+  const controlMap = new Map(controls.map(c => [c.id, c]));
+  const carried = source.responses.filter(r => controlMap.has(r.controlId));
+  const controlsDropped = source.responses.filter(r => !controlMap.has(r.controlId)).map(r => r.controlId);
+
+  const cutoff = source.finalizedAt || source.updatedAt;
+  const controlsUpdated: string[] = [];
+
+  const responses = carried.map(r => {
+    const control = controlMap.get(r.controlId)!;
+    const controlUpdated = control.updatedAt > cutoff;
+    if (controlUpdated) controlsUpdated.push(r.controlId);
+    // Standard answers map onto the maturity level that earns the same points
+    const maturityLevel = target.mode === 'MATURITY' ? r.maturityLevel ?? maturityForAnswer(r.answer) : null;
+    return {
+      assessmentId: targetAssessmentId,
+      controlId: r.controlId,
+      answer: r.answer,
+      maturityLevel,
+      naJustification: r.naJustification,
+      pointsEarned: getPointsForResponse({ answer: r.answer, maturityLevel }, control),
+      notes: r.notes,
+      answeredBy: userId,
+      needsReconfirmation: reconfirmDomain == null || control.domainNumber === reconfirmDomain || controlUpdated,
+      carriedForwardFrom: r.id,
+      controlUpdatedSinceSource: controlUpdated,
+    };
+  });
+  await prisma.response.createMany({ data: responses });
+  await recordInitialRevisions(targetAssessmentId, userId, 'CARRY_FORWARD');
+
+  // Carried gaps are tracked like new ones; in maturity mode only below the control's target level
+  let tasksOpened = 0;
+  for (const r of responses) {
+    const control = controlMap.get(r.controlId)!;
+    const belowTarget = r.maturityLevel == null || r.maturityLevel < control.targetMaturity;
+    if ((r.answer === 'NO' || r.answer === 'PARTIAL') && belowTarget) {
+      await ensureRemediationTask({
+        orgId: source.orgId,
+        assessmentId: targetAssessmentId,
+        control,
+        gapType: r.answer === 'NO' ? 'GAP' : 'PARTIAL',
+      });
+      tasksOpened++;
+    }
+  }
+
+  // Re-associate evidence: new rows point at the same stored file and hash
+  const evidence = await prisma.evidenceFile.findMany({
+    where: { assessmentId: sourceAssessmentId, orgId: source.orgId, isDeleted: false },
+  });
+  await prisma.evidenceFile.createMany({
+    data: evidence.map(e => ({
+      orgId: e.orgId,
+      controlId: e.controlId,
+      assessmentId: targetAssessmentId,
+      filename: e.filename,
+      storagePath: e.storagePath,
+      fileSizeBytes: e.fileSizeBytes,
+      sha256Hash: e.sha256Hash,
+      description: e.description,
+      uploadedBy: e.uploadedBy,
+      uploadedAt: e.uploadedAt,
+      isReused: true,
+    })),
+  });
+
+  return {
+    sourceAssessmentId,
+    responsesCarried: responses.length,
+    evidenceLinked: evidence.length,
+    controlsUpdated,
+    controlsDropped,
+    tasksOpened,
+  };
+}
@@ -0,0 +1,393 @@
+import fs from 'fs';
+import path from 'path';
+import { Prisma } from '@prisma/client';
+import { parseReleaseControls, ReleaseControl } from './controlDefinitions';
+import { normalizeRequirementId } from './crosswalkReferences';
+
+// Content packs: the control library and the content that goes with it as one
+// JSON document, described by content/content-pack.schema.json. Kept free of
+// the server's database client so the seed can install the baseline pack.
+
+const CONTENT_DIR = path.join(__dirname, '..', '..', 'content');
+export const BASELINE_PACK_PATH = path.join(CONTENT_DIR, 'packs', 'baseline.json');
+const SCHEMA_PATH = path.join(CONTENT_DIR, 'content-pack.schema.json');
+
+const MAX_REPORTED_ERRORS = 50;
+
+export interface PackTrainingModule {
+  id: string;
+  title: string;
+  titleAr?: string;
+  description: string;
+  descriptionAr?: string;
+  targetRoles: string[];
+  controlsAddressed: string[];
+  durationMinutes: number;
+  passScore?: number;
+  maxAttempts?: number;
+  content?: Prisma.JsonObject;
+  questions: { question: string; options: string[]; correctAnswer: number }[];
+}
+
+export interface PackDependency {
+  parentControlId: string;
+  dependentControlId: string;
+  triggerAnswers: string[];
+  action: string;
+  forcedAnswer?: string;
+  reason: string;
+}
+
+export interface PackBranchingRule {
+  ruleKey: string;
+  name: string;
+  description?: string;
+  priority?: number;
+  conditions: Prisma.JsonObject;
+  actions: { type: string; controlIds: string[] }[];
+}
+
+export interface PackMapping {
+  controlId: string;
+  framework: string;
+  requirementId: string;
+  requirementTitle?: string;
+  coverage?: string;
+}
+
+/** Everything in a pack besides the control definitions; kept on the release and installed on publish. */
+export interface PackContent {
+  trainingModules: PackTrainingModule[];
+  dependencies: PackDependency[];
+  branchingRules: PackBranchingRule[];
+  mappings: PackMapping[];
+}
+
+export type DependencyKey = Pick<PackDependency, 'parentControlId' | 'dependentControlId' | 'action'>;
+
+export interface DependencySettings {
+  triggerAnswers: string[];
+  forcedAnswer: string | null;
+  reason: string;
+}
+
+/**
+ * What installing a pack replaced: for each rule it changed the version that
+ * was active before (null for a new rule), and for each dependency it changed
+ * the settings it had before (null for a new one). Kept on the release so
+ * organizations that have not accepted it keep the previous rules and
+ * dependencies.
+ */
+export interface SupersededContent {
+  branchingRules: { ruleKey: string; previousVersion: number | null }[];
+  dependencies: (DependencyKey & { previous: DependencySettings | null })[];
+}
+
+export interface ContentPack {
+  version: string;
+  title: string;
+  notes: string | null;
+  controls: ReleaseControl[];
+  content: PackContent;
+}
+
+// A pack that passed the schema, before its controls are normalized
+interface SchemaValidPack extends Partial<PackContent> {
+  version: string;
+  title: string;
+  notes?: string;
+  controls: { id: string; source: string; ref: string; pointsYes: number; pointsPartial: number; trainingModuleIds?: string[] }[];
+}
+
+// The subset of JSON Schema (draft-07) the pack schema is written in
+interface JsonSchema {
+  $ref?: string;
+  anyOf?: JsonSchema[];
+  type?: string;
+  enum?: unknown[];
+  required?: string[];
+  properties?: Record<string, JsonSchema>;
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  minItems?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  definitions?: Record<string, JsonSchema>;
+}
+
+const TYPE_NAMES: Record<string, string> = {
+  object: 'an object', array: 'an array', string: 'text', integer: 'a whole number', number: 'a number', boolean: 'true or false',
+};
+
+let cachedSchema: JsonSchema | null = null;
+
+function packSchema(): JsonSchema {
+  if (!cachedSchema) cachedSchema = JSON.parse(fs.readFileSync(SCHEMA_PATH, 'utf8')) as JsonSchema;
+  return cachedSchema;
+}
+
+const typeOf = (value: unknown) =>
+  (Array.isArray(value) ? 'array' : value === null ? 'null' : Number.isInteger(value) ? 'integer' : typeof value);
+
+const child = (at: string, key: string) => (at ? `${at}.${key}` : key);
+
+/** Collects every place the value breaks the schema, with its path ("controls[3].riskLevel"). */
+function checkSchema(value: unknown, schema: JsonSchema, at: string, errors: string[], root: JsonSchema): void {
+  if (schema.$ref) {
+    checkSchema(value, root.definitions![schema.$ref.replace('#/definitions/', '')], at, errors, root);
+    return;
+  }
+  if (schema.anyOf) {
+    const matches = schema.anyOf.some(option => {
+      const optionErrors: string[] = [];
+      checkSchema(value, option, at, optionErrors, root);
+      return optionErrors.length === 0;
+    });
+    if (!matches) errors.push(`${at} is neither a condition nor a group of conditions`);
+    return;
+  }
+  const actual = typeOf(value);
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push(`${at} must be one of ${schema.enum.join(', ')}`);
+    return;
+  }
+  if (schema.type && actual !== schema.type && !(schema.type === 'number' && actual === 'integer')) {
+    errors.push(`${at || 'The pack'} must be ${TYPE_NAMES[schema.type] || schema.type}`);
+    return;
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) errors.push(`${at} must not be empty`);
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) errors.push(`${at} must be at most ${schema.maxLength} characters`);
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) errors.push(`${at} "${value}" is not allowed (${schema.pattern})`);
+  }
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${at} must be at least ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${at} must be at most ${schema.maximum}`);
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) errors.push(`${at} must be greater than ${schema.exclusiveMinimum}`);
+    if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) errors.push(`${at} must be less than ${schema.exclusiveMaximum}`);
+  }
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) errors.push(`${at} must have at least ${schema.minItems} item(s)`);
+    if (schema.items) value.forEach((item, i) => checkSchema(item, schema.items!, `${at}[${i}]`, errors, root));
+  }
+  if (actual === 'object') {
+    const fields = value as Record<string, unknown>;
+    for (const key of schema.required || []) {
+      if (fields[key] === undefined) errors.push(`${child(at, key)} is required`);
+    }
+    for (const [key, fieldValue] of Object.entries(fields)) {
+      const fieldSchema = schema.properties?.[key];
+      if (fieldSchema) {
+        checkSchema(fieldValue, fieldSchema, child(at, key), errors, root);
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${child(at, key)} is not a recognized field`);
+      }
+    }
+  }
+}
+
+const PROFILE_FIELDS: string[] = Object.values(Prisma.OrganizationScalarFieldEnum);
+
+// Condition leaves must name an organization profile field, as for rules edited through the API
+function checkConditionFields(node: Record<string, unknown>, at: string, errors: string[]): void {
+  if (Array.isArray(node.conditions)) {
+    node.conditions.forEach((c, i) => checkConditionFields(c as Record<string, unknown>, `${at}.conditions[${i}]`, errors));
+    return;
+  }
+  if (!PROFILE_FIELDS.includes(node.field as string)) errors.push(`${at}.field "${node.field}" is not an organization profile field`);
+  if ((node.op === 'in' || node.op === 'notIn') && !Array.isArray(node.value)) errors.push(`${at}.value must be an array for ${node.op}`);
+}
+
+/**
+ * Cross-references within a schema-valid pack: every control, training
+ * module and rule it mentions must be defined in the pack itself, refs are
+ * unique per source and a partial answer never earns more than a full one.
+ */
+function checkReferences(pack: SchemaValidPack, errors: string[]): void {
+  const controlIds = new Set<string>();
+  const refs = new Map<string, string>();
+  const moduleIds = new Set((pack.trainingModules || []).map(m => m.id));
+
+  for (const c of pack.controls) {
+    if (controlIds.has(c.id)) errors.push(`${c.id} is defined more than once`);
+    controlIds.add(c.id);
+    const refKey = `${c.source}|${c.ref}`;
+    if (refs.has(refKey)) errors.push(`${c.id}: ref ${c.ref} is already used by ${refs.get(refKey)} in ${c.source}`);
+    else refs.set(refKey, c.id);
+    if (c.pointsPartial > c.pointsYes) errors.push(`${c.id}: pointsPartial (${c.pointsPartial}) is greater than pointsYes (${c.pointsYes})`);
+    for (const moduleId of c.trainingModuleIds || []) {
+      if (!moduleIds.has(moduleId)) errors.push(`${c.id}: trainingModuleIds references unknown training module ${moduleId}`);
+    }
+  }
+
+  const seenModules = new Set<string>();
+  for (const m of pack.trainingModules || []) {
+    if (seenModules.has(m.id)) errors.push(`Training module ${m.id} is defined more than once`);
+    seenModules.add(m.id);
+    for (const controlId of m.controlsAddressed) {
+      if (!controlIds.has(controlId)) errors.push(`${m.id}: controlsAddressed references unknown control ${controlId}`);
+    }
+    m.questions.forEach((q, i) => {
+      if (q.correctAnswer >= q.options.length) errors.push(`${m.id}: question ${i + 1} has no option ${q.correctAnswer}`);
+    });
+  }
+
+  const seenDependencies = new Set<string>();
+  for (const d of pack.dependencies || []) {
+    const label = `Dependency ${d.parentControlId} → ${d.dependentControlId}`;
+    for (const controlId of [d.parentControlId, d.dependentControlId]) {
+      if (!controlIds.has(controlId)) errors.push(`${label}: unknown control ${controlId}`);
+    }
+    if (d.parentControlId === d.dependentControlId) errors.push(`${label}: a control cannot depend on itself`);
+    if (d.action === 'FORCE_ANSWER' && !d.forcedAnswer) errors.push(`${label}: forcedAnswer is required for FORCE_ANSWER`);
+    const key = `${d.parentControlId}|${d.dependentControlId}|${d.action}`;
+    if (seenDependencies.has(key)) errors.push(`${label} (${d.action}) is defined more than once`);
+    seenDependencies.add(key);
+  }
+
+  const seenRules = new Set<string>();
+  for (const r of pack.branchingRules || []) {
+    if (seenRules.has(r.ruleKey)) errors.push(`Rule ${r.ruleKey} is defined more than once`);
+    seenRules.add(r.ruleKey);
+    checkConditionFields(r.conditions, `Rule ${r.ruleKey}: conditions`, errors);
+    for (const action of r.actions) {
+      for (const controlId of action.controlIds) {
+        if (!controlIds.has(controlId)) errors.push(`Rule ${r.ruleKey}: ${action.type} references unknown control ${controlId}`);
+      }
+    }
+  }
+
+  const seenMappings = new Set<string>();
+  for (const m of pack.mappings || []) {
+    const requirementId = normalizeRequirementId(m.framework, m.requirementId);
+    if (!controlIds.has(m.controlId)) errors.push(`Mapping to ${m.framework} ${requirementId}: unknown control ${m.controlId}`);
+    const key = `${m.controlId}|${m.framework}|${requirementId}`;
+    if (seenMappings.has(key)) errors.push(`Mapping of ${m.controlId} to ${m.framework} ${requirementId} is defined more than once`);
+    seenMappings.add(key);
+  }
+}
+
+/**
+ * Validates a content pack against the schema and its internal references.
+ * Returns the pack with control defaults filled in and requirement IDs in
+ * canonical form, or every problem found (up to a limit).
+ */
+export function parseContentPack(value: unknown): { pack: ContentPack } | { errors: string[] } {
+  const schema = packSchema();
+  const errors: string[] = [];
+  checkSchema(value, schema, '', errors, schema);
+  if (errors.length === 0) checkReferences(value as SchemaValidPack, errors);
+  if (errors.length > 0) return { errors: errors.slice(0, MAX_REPORTED_ERRORS) };
+
+  const raw = value as SchemaValidPack;
+  const controls = parseReleaseControls(raw.controls);
+  if ('error' in controls) return { errors: [controls.error] };
+  return {
+    pack: {
+      version: raw.version.trim(),
+      title: raw.title.trim(),
+      notes: raw.notes ?? null,
+      controls,
+      content: {
+        trainingModules: raw.trainingModules || [],
+        dependencies: raw.dependencies || [],
+        branchingRules: raw.branchingRules || [],
+        mappings: (raw.mappings || []).map(m => ({ ...m, requirementId: normalizeRequirementId(m.framework, m.requirementId) })),
+      },
+    },
+  };
+}
+
+// JSON with object keys sorted, so definitions read back from jsonb compare equal
+const canonicalJson = (value: unknown) => JSON.stringify(value, (_key, v) => (
+  v && typeof v === 'object' && !Array.isArray(v) ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => a.localeCompare(b))) : v
+));
+
+/**
+ * Installs the non-control content of a pack once its controls are live.
+ * Training modules, dependencies and mappings are created or updated in
+ * place; a rule whose definition changed gets a new version, as when edited
+ * through the API. Nothing is removed. Takes the client so publishing can
+ * install inside its transaction and the seed with its own client. Returns
+ * the counts installed and what was superseded.
+ */
+export async function installPackContent(db: Prisma.TransactionClient, content: PackContent, userId: string | null) {
+  for (const m of content.trainingModules) {
+    const data = {
+      title: m.title,
+      titleAr: m.titleAr ?? null,
+      description: m.description,
+      descriptionAr: m.descriptionAr ?? null,
+      targetRoles: m.targetRoles,
+      controlsAddressed: m.controlsAddressed,
+      durationMinutes: m.durationMinutes,
+      passScore: m.passScore ?? 80,
+      maxAttempts: m.maxAttempts ?? 3,
+      content: m.content ?? Prisma.DbNull,
+      questions: m.questions as unknown as Prisma.InputJsonValue,
+    };
+    await db.trainingModule.upsert({ where: { id: m.id }, create: { id: m.id, ...data }, update: data });
+  }
+
+  const superseded: SupersededContent = { branchingRules: [], dependencies: [] };
+
+  for (const d of content.dependencies) {
+    const key = { parentControlId: d.parentControlId, dependentControlId: d.dependentControlId, action: d.action };
+    const data: DependencySettings = { triggerAnswers: d.triggerAnswers, forcedAnswer: d.forcedAnswer ?? null, reason: d.reason };
+    const existing = await db.controlDependency.findUnique({ where: { parentControlId_dependentControlId_action: key } });
+    const previous = existing && { triggerAnswers: existing.triggerAnswers, forcedAnswer: existing.forcedAnswer, reason: existing.reason };
+    if (canonicalJson(previous) === canonicalJson(data)) continue;
+    superseded.dependencies.push({ ...key, previous });
+    await db.controlDependency.upsert({
+      where: { parentControlId_dependentControlId_action: key },
+      create: { ...key, ...data },
+      update: data,
+    });
+  }
+
+  let rulesChanged = 0;
+  for (const r of content.branchingRules) {
+    const definition = { name: r.name, description: r.description ?? null, conditions: r.conditions, actions: r.actions, priority: r.priority ?? 100 };
+    const latest = await db.branchingRule.findFirst({ where: { ruleKey: r.ruleKey }, orderBy: { version: 'desc' } });
+    const unchanged = latest?.isActive && canonicalJson({
+      name: latest.name, description: latest.description, conditions: latest.conditions, actions: latest.actions, priority: latest.priority,
+    }) === canonicalJson(definition);
+    if (unchanged) continue;
+    superseded.branchingRules.push({ ruleKey: r.ruleKey, previousVersion: latest?.isActive ? latest.version : null });
+    await db.branchingRule.updateMany({ where: { ruleKey: r.ruleKey, isActive: true }, data: { isActive: false } });
+    await db.branchingRule.create({
+      data: {
+        ...definition,
+        conditions: definition.conditions as Prisma.InputJsonValue,
+        actions: definition.actions as unknown as Prisma.InputJsonValue,
+        ruleKey: r.ruleKey,
+        version: (latest?.version ?? 0) + 1,
+        createdBy: userId,
+      },
+    });
+    rulesChanged++;
+  }
+
+  for (const m of content.mappings) {
+    const data = { requirementTitle: m.requirementTitle ?? null, coverage: m.coverage ?? 'FULL' };
+    await db.controlMapping.upsert({
+      where: { controlId_framework_requirementId: { controlId: m.controlId, framework: m.framework, requirementId: m.requirementId } },
+      create: { controlId: m.controlId, framework: m.framework, requirementId: m.requirementId, ...data, createdBy: userId },
+      update: data,
+    });
+  }
+
+  return {
+    trainingModules: content.trainingModules.length,
+    dependencies: content.dependencies.length,
+    branchingRules: rulesChanged,
+    mappings: content.mappings.length,
+    superseded,
+  };
+}
@@ -0,0 +1,113 @@
+import { Prisma } from '@prisma/client';
+
+// Control definitions as shipped in library releases and content packs. Kept
+// free of database access so the seed can validate packs with its own client.
+
+/** Source of organization-defined controls, alongside PDPL / NCA_ECC / MOH. */
+export const CUSTOM_SOURCE = 'CUSTOM';
+/** Control IDs under this prefix are reserved for custom controls and never shipped in a library release. */
+export const CUSTOM_ID_PREFIX = 'CUSTOM-';
+
+export const RISK_LEVELS = ['CRITICAL', 'HIGH', 'MEDIUM', 'LOW'];
+
+/** A control definition as shipped in a library release or content pack. */
+export interface ReleaseControl {
+  id: string;
+  source: string;
+  domainNumber: number;
+  domainName: string;
+  ref: string;
+  objectiveEn: string;
+  objectiveAr: string | null;
+  pdplArticles: string | null;
+  regArticles: string | null;
+  transferRegArticles: string | null;
+  ncaRef: string | null;
+  mohPolicyRef: string | null;
+  riskLevel: string;
+  pointsYes: number;
+  pointsPartial: number;
+  evidenceGuidanceEn: string | null;
+  mohImplGuidanceEn: string | null;
+  responsibleRoles: string[];
+  mandatoryForTypes: string[];
+  conditionalOn: Prisma.JsonValue;
+  weightMultiplier: number;
+  targetMaturity: number;
+  trainingModuleIds: string[];
+}
+
+const optionalString = (value: unknown) => (typeof value === 'string' && value.trim() ? value : null);
+const stringList = (value: unknown) => (Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : []);
+
+/**
+ * Validates the control definitions of a release and fills optional fields
+ * with the library defaults. Returns the first problem found.
+ */
+export function parseReleaseControls(value: unknown): ReleaseControl[] | { error: string } {
+  if (!Array.isArray(value) || value.length === 0) {
+    return { error: 'controls must be a non-empty array of control definitions' };
+  }
+  const seen = new Set<string>();
+  const controls: ReleaseControl[] = [];
+  for (const [index, raw] of value.entries()) {
+    const c = (raw ?? {}) as Record<string, unknown>;
+    const label = typeof c.id === 'string' && c.id ? c.id : `controls[${index}]`;
+    for (const field of ['id', 'source', 'domainName', 'ref', 'objectiveEn', 'riskLevel']) {
+      if (typeof c[field] !== 'string' || !(c[field] as string).trim()) {
+        return { error: `${label}: ${field} is required` };
+      }
+    }
+    for (const field of ['domainNumber', 'pointsYes', 'pointsPartial']) {
+      if (!Number.isInteger(c[field]) || (c[field] as number) < 0) {
+        return { error: `${label}: ${field} must be a non-negative whole number` };
+      }
+    }
+    if ((c.pointsPartial as number) > (c.pointsYes as number)) {
+      return { error: `${label}: pointsPartial cannot exceed pointsYes` };
+    }
+    if ((c.id as string).startsWith(CUSTOM_ID_PREFIX) || c.source === CUSTOM_SOURCE) {
+      return { error: `${label}: the ${CUSTOM_ID_PREFIX} ID prefix and ${CUSTOM_SOURCE} source are reserved for organization-defined controls` };
+    }
+    if (!RISK_LEVELS.includes(c.riskLevel as string)) {
+      return { error: `${label}: riskLevel must be one of ${RISK_LEVELS.join(', ')}` };
+    }
+    if (c.weightMultiplier !== undefined && (typeof c.weightMultiplier !== 'number' || c.weightMultiplier <= 0 || c.weightMultiplier >= 100)) {
+      return { error: `${label}: weightMultiplier must be a positive number below 100` };
+    }
+    if (c.targetMaturity !== undefined && (!Number.isInteger(c.targetMaturity) || (c.targetMaturity as number) < 0 || (c.targetMaturity as number) > 5)) {
+      return { error: `${label}: targetMaturity must be a whole number from 0 to 5` };
+    }
+    if (seen.has(c.id as string)) {
+      return { error: `${label} appears more than once` };
+    }
+    seen.add(c.id as string);
+    controls.push({
+      id: c.id as string,
+      source: c.source as string,
+      domainNumber: c.domainNumber as number,
+      domainName: c.domainName as string,
+      ref: c.ref as string,
+      objectiveEn: c.objectiveEn as string,
+      objectiveAr: optionalString(c.objectiveAr),
+      pdplArticles: optionalString(c.pdplArticles),
+      regArticles: optionalString(c.regArticles),
+      transferRegArticles: optionalString(c.transferRegArticles),
+      ncaRef: optionalString(c.ncaRef),
+      mohPolicyRef: optionalString(c.mohPolicyRef),
+      riskLevel: c.riskLevel as string,
+      pointsYes: c.pointsYes as number,
+      pointsPartial: c.pointsPartial as number,
+      evidenceGuidanceEn: optionalString(c.evidenceGuidanceEn),
+      mohImplGuidanceEn: optionalString(c.mohImplGuidanceEn),
+      responsibleRoles: stringList(c.responsibleRoles),
+      mandatoryForTypes: stringList(c.mandatoryForTypes),
+      conditionalOn: (c.conditionalOn ?? null) as Prisma.JsonValue,
+      weightMultiplier: (c.weightMultiplier as number | undefined) ?? 1.0,
+      // Same default as the seed: Managed (4) for CRITICAL controls, Defined (3) otherwise
+      targetMaturity: (c.targetMaturity as number | undefined) ?? (c.riskLevel === 'CRITICAL' ? 4 : 3),
+      trainingModuleIds: stringList(c.trainingModuleIds),
+    });
+  }
+  return controls;
+}
@@ -0,0 +1,272 @@
+import { Control, ControlLibraryRelease, Organization, Prisma } from '@prisma/client';
+import { prisma } from '../index';
+import { evaluateOrgBranching, isControlApplicable } from './branchingRules';
+import { installPackContent, PackContent, SupersededContent } from './contentPack';
+import { ReleaseControl } from './controlDefinitions';
+import { syncReferenceMappings } from './crosswalk';
+import { LIBRARY_CONTROLS_WHERE } from './customControls';
+import { currentRelease } from './libraryPin';
+
+type DefinitionField = Exclude<keyof ReleaseControl, 'id'>;
+
+const DEFINITION_FIELDS: DefinitionField[] = [
+  'source', 'domainNumber', 'domainName', 'ref', 'objectiveEn', 'objectiveAr',
+  'pdplArticles', 'regArticles', 'transferRegArticles', 'ncaRef', 'mohPolicyRef',
+  'riskLevel', 'pointsYes', 'pointsPartial', 'evidenceGuidanceEn', 'mohImplGuidanceEn',
+  'responsibleRoles', 'mandatoryForTypes', 'conditionalOn', 'weightMultiplier',
+  'targetMaturity', 'trainingModuleIds',
+];
+
+/** Fields that cite the regulation; changes to them are called out in the changelog. */
+export const ARTICLE_FIELDS: DefinitionField[] = ['pdplArticles', 'regArticles', 'transferRegArticles', 'ncaRef', 'mohPolicyRef'];
+
+export interface FieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface ReleaseChangelog {
+  added: string[];
+  retired: string[];
+  modified: { controlId: string; fields: FieldChange[]; articleReferencesChanged: boolean }[];
+  // Rules and dependencies the release's pack content replaced (see libraryPin)
+  superseded?: SupersededContent;
+}
+
+/** A live control in release shape, for comparison. */
+export function toReleaseControl(control: Control): ReleaseControl {
+  const result = { id: control.id } as Record<string, unknown>;
+  for (const field of DEFINITION_FIELDS) {
+    result[field] = field === 'weightMultiplier' ? Number(control.weightMultiplier) : control[field];
+  }
+  return result as unknown as ReleaseControl;
+}
+
+/** Compares a release against the live (non-retired) library. */
+export async function buildChangelog(controls: ReleaseControl[]): Promise<ReleaseChangelog> {
+  const live = await prisma.control.findMany({ where: LIBRARY_CONTROLS_WHERE, orderBy: { id: 'asc' } });
+  const liveMap = new Map(live.map(c => [c.id, toReleaseControl(c)]));
+  const releaseIds = new Set(controls.map(c => c.id));
+
+  const changelog: ReleaseChangelog = {
+    added: [],
+    retired: live.filter(c => !releaseIds.has(c.id)).map(c => c.id),
+    modified: [],
+  };
+  for (const control of controls) {
+    const current = liveMap.get(control.id);
+    if (!current) {
+      changelog.added.push(control.id);
+      continue;
+    }
+    const fields = DEFINITION_FIELDS
+      .filter(field => JSON.stringify(current[field]) !== JSON.stringify(control[field]))
+      .map(field => ({ field, from: current[field], to: control[field] }));
+    if (fields.length > 0) {
+      changelog.modified.push({
+        controlId: control.id,
+        fields,
+        articleReferencesChanged: fields.some(f => ARTICLE_FIELDS.includes(f.field as DefinitionField)),
+      });
+    }
+  }
+  return changelog;
+}
+
+// A full library release writes every control plus the pack content; the default 5 s is too short
+const PUBLISH_TIMEOUT_MS = 2 * 60 * 1000;
+
+/**
+ * Records the live library as a published release when nothing has been
+ * published yet, dated to the first organization's registration, so
+ * organizations that predate releases stay on it until their DPO accepts
+ * the first one.
+ */
+async function recordBaselineRelease(tx: Prisma.TransactionClient, release: ControlLibraryRelease, userId: string) {
+  if (await tx.controlLibraryRelease.count({ where: { status: 'PUBLISHED' } }) > 0) return;
+  const [live, firstOrg] = await Promise.all([
+    tx.control.findMany({ where: LIBRARY_CONTROLS_WHERE, orderBy: { id: 'asc' } }),
+    tx.organization.findFirst({ orderBy: { createdAt: 'asc' }, select: { createdAt: true } }),
+  ]);
+  if (live.length === 0 || !firstOrg) return;
+  await tx.controlLibraryRelease.create({
+    data: {
+      version: `pre-${release.version}`,
+      title: `Library in force before ${release.version}`,
+      controls: live.map(toReleaseControl) as unknown as Prisma.InputJsonValue,
+      changelog: { added: live.map(c => c.id), modified: [], retired: [] },
+      status: 'PUBLISHED',
+      createdBy: userId,
+      publishedBy: userId,
+      publishedAt: firstOrg.createdAt,
+    },
+  });
+}
+
+/**
+ * Applies a release to the live library: new and modified definitions are
+ * written, controls missing from the release are retired. Organizations
+ * that have not accepted it keep reading their own release's definitions
+ * (see libraryPin). Responses keep pointing at retired controls; finalized
+ * assessments keep scoring against their frozen definitions. A release staged from a content pack then
+ * installs the pack's training modules, dependencies, rules and mappings; the rules and dependencies it
+ * replaces are recorded in the changelog, for organizations that keep them until they accept.
+ */
+export async function publishRelease(release: ControlLibraryRelease, userId: string): Promise<ControlLibraryRelease> {
+  const controls = release.controls as unknown as ReleaseControl[];
+  const changelog = await buildChangelog(controls);
+  const changed = new Set([...changelog.added, ...changelog.modified.map(m => m.controlId)]);
+  const now = new Date();
+
+  // One transaction: a release whose pack content fails to install stays a DRAFT that can be published again
+  return prisma.$transaction(async tx => {
+    await recordBaselineRelease(tx, release, userId);
+    for (const { id, ...definition } of controls.filter(c => changed.has(c.id))) {
+      const data = {
+        ...definition,
+        conditionalOn: definition.conditionalOn ?? Prisma.DbNull,
+        libraryVersion: release.version,
+        retiredAt: null,
+      };
+      // A control retired by an earlier release can come back
+      await tx.control.upsert({ where: { id }, create: { id, ...data }, update: data });
+    }
+    await tx.control.updateMany({
+      where: { id: { in: changelog.retired } },
+      data: { retiredAt: now, libraryVersion: release.version },
+    });
+    await syncReferenceMappings(tx, [...changed]);
+    if (release.content) {
+      const installed = await installPackContent(tx, release.content as unknown as PackContent, userId);
+      changelog.superseded = installed.superseded;
+    }
+    return tx.controlLibraryRelease.update({
+      where: { id: release.id },
+      data: {
+        status: 'PUBLISHED',
+        changelog: changelog as unknown as Prisma.InputJsonValue,
+        publishedBy: userId,
+        publishedAt: now,
+      },
+    });
+  }, { timeout: PUBLISH_TIMEOUT_MS });
+}
+
+/**
+ * Published releases the organization has not accepted yet, oldest first.
+ * Releases published before the organization registered are already in
+ * effect for it.
+ */
+export async function pendingReleases(org: Pick<Organization, 'id' | 'createdAt'>) {
+  return prisma.controlLibraryRelease.findMany({
+    where: {
+      status: 'PUBLISHED',
+      publishedAt: { gt: org.createdAt },
+      acceptances: { none: { orgId: org.id } },
+    },
+    orderBy: { publishedAt: 'asc' },
+  });
+}
+
+/** The library version the organization is on: its latest accepted release, or the one in force when it registered. */
+export async function currentLibraryVersion(org: Pick<Organization, 'id' | 'createdAt'>): Promise<string | null> {
+  const release = await currentRelease(org);
+  return release?.version ?? null;
+}
+
+const OPEN_ASSESSMENT_STATUSES = ['DRAFT', 'IN_REVIEW'];
+
+/**
+ * What a release changes for one organization: answers in its open drafts,
+ * unfinished remediation tasks and evidence attached to modified or retired
+ * controls, plus the added controls that apply to it.
+ */
+export async function analyzeReleaseImpact(release: ControlLibraryRelease, org: Organization) {
+  const changelog = release.status === 'PUBLISHED'
+    ? release.changelog as unknown as ReleaseChangelog
+    : await buildChangelog(release.controls as unknown as ReleaseControl[]);
+  const modifiedIds = changelog.modified.map(m => m.controlId);
+  const affectedIds = [...modifiedIds, ...changelog.retired];
+
+  const [responses, tasks, evidence, branchingResult] = await Promise.all([
+    prisma.response.findMany({
+      where: {
+        controlId: { in: affectedIds },
+        assessment: { orgId: org.id, isDeleted: false, status: { in: OPEN_ASSESSMENT_STATUSES } },
+      },
+      select: { controlId: true, assessmentId: true, answer: true },
+    }),
+    prisma.remediationTask.findMany({
+      where: { orgId: org.id, isDeleted: false, status: { not: 'CLOSED' }, controlId: { in: affectedIds } },
+      select: { id: true, controlId: true, title: true, status: true },
+    }),
+    prisma.evidenceFile.findMany({
+      where: { orgId: org.id, isDeleted: false, controlId: { in: affectedIds } },
+      select: { id: true, controlId: true, filename: true },
+    }),
+    evaluateOrgBranching(org),
+  ]);
+
+  const releaseControls = new Map((release.controls as unknown as ReleaseControl[]).map(c => [c.id, c]));
+  const newControls = changelog.added.filter(id => {
+    const control = releaseControls.get(id);
+    return control && isControlApplicable(id, control.conditionalOn, org, branchingResult);
+  });
+
+  const count = <T extends { controlId: string }>(rows: T[], controlId: string) => rows.filter(r => r.controlId === controlId).length;
+  const controls = [
+    ...changelog.modified.map(m => ({ controlId: m.controlId, change: 'MODIFIED', fields: m.fields.map(f => f.field), articleReferencesChanged: m.articleReferencesChanged })),
+    ...changelog.retired.map(controlId => ({ controlId, change: 'RETIRED', fields: [], articleReferencesChanged: false })),
+  ].map(c => ({
+    ...c,
+    draftResponses: count(responses, c.controlId),
+    openTasks: count(tasks, c.controlId),
+    evidenceFiles: count(evidence, c.controlId),
+  }));
+
+  return {
+    release: { id: release.id, version: release.version, title: release.title, status: release.status },
+    summary: {
+      added: changelog.added.length,
+      applicableAdded: newControls.length,
+      modified: changelog.modified.length,
+      retired: changelog.retired.length,
+      draftResponses: responses.length,
+      openTasks: tasks.length,
+      evidenceFiles: evidence.length,
+    },
+    newControls,
+    controls,
+    openTasks: tasks,
+  };
+}
+
+/**
+ * Records the DPO's acceptance of a release. Draft answers on modified
+ * controls are flagged for reconfirmation; answers on retired controls stop
+ * counting because retired controls are no longer applicable.
+ */
+export async function acceptRelease(release: ControlLibraryRelease, org: Organization, userId: string) {
+  const impact = await analyzeReleaseImpact(release, org);
+  const modifiedIds = impact.controls.filter(c => c.change === 'MODIFIED').map(c => c.controlId);
+
+  const [flagged, acceptance] = await prisma.$transaction([
+    prisma.response.updateMany({
+      where: {
+        controlId: { in: modifiedIds },
+        assessment: { orgId: org.id, isDeleted: false, status: { in: OPEN_ASSESSMENT_STATUSES } },
+      },
+      data: { needsReconfirmation: true, controlUpdatedSinceSource: true },
+    }),
+    prisma.libraryUpgradeAcceptance.create({
+      data: {
+        orgId: org.id,
+        releaseId: release.id,
+        acceptedBy: userId,
+        impact: impact.summary as unknown as Prisma.InputJsonValue,
+      },
+    }),
+  ]);
+  return { acceptance, impact, responsesFlagged: flagged.count };
+}
@@ -0,0 +1,103 @@
+import { Control, Prisma } from '@prisma/client';
+
+/** The parts of a control definition that give a finalized answer its meaning and score. */
+export interface SnapshotControl {
+  source: string;
+  domainNumber: number;
+  domainName: string;
+  ref: string;
+  objectiveEn: string;
+  objectiveAr: string | null;
+  pdplArticles: string | null;
+  regArticles: string | null;
+  transferRegArticles: string | null;
+  ncaRef: string | null;
+  mohPolicyRef: string | null;
+  riskLevel: string;
+  pointsYes: number;
+  pointsPartial: number;
+  weightMultiplier: number;
+  targetMaturity: number;
+  evidenceGuidanceEn: string | null;
+  includeInScore: boolean;
+  updatedAt: string;
+}
+
+export type ControlSnapshot = Record<string, SnapshotControl>;
+
+/**
+ * Freezes the definitions of the answered controls, keyed by control ID, for
+ * storing on the assessment at finalization.
+ */
+export function buildControlSnapshot(controls: Control[]): ControlSnapshot {
+  const snapshot: ControlSnapshot = {};
+  for (const c of controls) {
+    snapshot[c.id] = {
+      source: c.source,
+      domainNumber: c.domainNumber,
+      domainName: c.domainName,
+      ref: c.ref,
+      objectiveEn: c.objectiveEn,
+      objectiveAr: c.objectiveAr,
+      pdplArticles: c.pdplArticles,
+      regArticles: c.regArticles,
+      transferRegArticles: c.transferRegArticles,
+      ncaRef: c.ncaRef,
+      mohPolicyRef: c.mohPolicyRef,
+      riskLevel: c.riskLevel,
+      pointsYes: c.pointsYes,
+      pointsPartial: c.pointsPartial,
+      weightMultiplier: Number(c.weightMultiplier),
+      targetMaturity: c.targetMaturity,
+      evidenceGuidanceEn: c.evidenceGuidanceEn,
+      includeInScore: c.includeInScore,
+      updatedAt: c.updatedAt.toISOString(),
+    };
+  }
+  return snapshot;
+}
+
+function asSnapshot(value: unknown): ControlSnapshot | null {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as ControlSnapshot : null;
+}
+
+/**
+ * Returns the control as it was when the assessment was finalized. Only the
+ * fields already present on `control` are replaced, so partial selects keep
+ * their shape; controls missing from the snapshot are returned unchanged.
+ */
+export function frozenControl<C extends object>(control: C, controlId: string, snapshot: unknown): C {
+  const frozen = asSnapshot(snapshot)?.[controlId];
+  if (!frozen) return control;
+  const result: Record<string, unknown> = { ...(control as Record<string, unknown>) };
+  for (const key of Object.keys(control)) {
+    if (key === 'weightMultiplier') {
+      result[key] = new Prisma.Decimal(frozen.weightMultiplier);
+    } else if (key === 'updatedAt') {
+      result[key] = new Date(frozen.updatedAt);
+    } else if (key in frozen) {
+      result[key] = frozen[key as keyof SnapshotControl];
+    }
+  }
+  return result as C;
+}
+
+/**
+ * Swaps each response's live control for its frozen definition. Assessments
+ * finalized before snapshots existed (or not yet finalized) have no snapshot
+ * and read the live library.
+ */
+export function withControlSnapshot<R extends { controlId: string; control: object }>(responses: R[], snapshot: unknown): R[] {
+  if (!asSnapshot(snapshot)) return responses;
+  return responses.map(r => ({ ...r, control: frozenControl(r.control, r.controlId, snapshot) }));
+}
+
+/**
+ * Whether a response counts towards the score, as at finalization: on an
+ * assessment with a snapshot the controls it froze, otherwise the controls
+ * that are not retired.
+ */
+export function countsTowardsScore(response: { controlId: string; control: { retiredAt: Date | null } }, snapshot: unknown): boolean {
+  const frozen = asSnapshot(snapshot);
+  return frozen ? Object.hasOwn(frozen, response.controlId) : !response.control.retiredAt;
+}
@@ -0,0 +1,222 @@
+import { Organization, Prisma } from '@prisma/client';
+import { prisma } from '../index';
+import { evaluateOrgBranching, isControlApplicable } from './branchingRules';
+import { visibleControlsWhere } from './customControls';
+import { loadLibraryPin, pinnedControlsWhere, withLibraryPin } from './libraryPin';
+import { FRAMEWORKS, isFramework, matchesRequirement, normalizeRequirementId, referenceMappings } from './crosswalkReferences';
+
+export const MAPPING_COVERAGE = ['FULL', 'PARTIAL'];
+
+export type RequirementStatus = 'COMPLIANT' | 'PARTIAL' | 'NON_COMPLIANT' | 'NOT_APPLICABLE' | 'NOT_ASSESSED';
+
+const byRequirementId = (a: { requirementId: string }, b: { requirementId: string }) =>
+  a.requirementId.localeCompare(b.requirementId, undefined, { numeric: true });
+
+/**
+ * Validates a new mapping. Returns an error message, or null when the body
+ * is acceptable.
+ */
+export function validateMappingInput(body: Record<string, unknown>): string | null {
+  if (typeof body.controlId !== 'string' || !body.controlId) {
+    return 'controlId is required';
+  }
+  if (!isFramework(body.framework)) {
+    return `framework must be one of: ${Object.keys(FRAMEWORKS).join(', ')}`;
+  }
+  // The limit applies to the stored form, which may gain an "Art. " prefix
+  if (typeof body.requirementId !== 'string' || !body.requirementId.trim()
+    || normalizeRequirementId(body.framework, body.requirementId).length > 100) {
+    return 'requirementId is required (max 100 characters)';
+  }
+  if (body.requirementTitle != null && (typeof body.requirementTitle !== 'string' || body.requirementTitle.length > 255)) {
+    return 'requirementTitle must be text (max 255 characters)';
+  }
+  if (body.coverage !== undefined && !MAPPING_COVERAGE.includes(body.coverage as string)) {
+    return `coverage must be one of: ${MAPPING_COVERAGE.join(', ')}`;
+  }
+  return null;
+}
+
+/**
+ * Rewrites the mappings derived from the controls' citation fields (PDPL,
+ * regulation and transfer regulation articles, NCA ECC and MoH references).
+ * Curated mappings are left alone. Runs in the caller's transaction, the one
+ * that writes the controls.
+ */
+export async function syncReferenceMappings(tx: Prisma.TransactionClient, controlIds: string[]): Promise<void> {
+  if (controlIds.length === 0) return;
+  const controls = await tx.control.findMany({ where: { id: { in: controlIds } } });
+  await tx.controlMapping.deleteMany({ where: { controlId: { in: controlIds }, origin: 'REFERENCE' } });
+  await tx.controlMapping.createMany({
+    data: controls.flatMap(c => referenceMappings(c).map(ref => ({ controlId: c.id, ...ref, origin: 'REFERENCE' }))),
+    skipDuplicates: true,
+  });
+}
+
+/** Per framework, how many requirements the organization's controls map to. */
+export async function frameworkSummaries(orgId: string) {
+  const mappings = await prisma.controlMapping.findMany({
+    where: { control: visibleControlsWhere(orgId) },
+    select: { framework: true, requirementId: true, controlId: true },
+  });
+  return Object.entries(FRAMEWORKS).map(([framework, name]) => {
+    const rows = mappings.filter(m => m.framework === framework);
+    return {
+      framework,
+      name,
+      requirements: new Set(rows.map(m => m.requirementId)).size,
+      controls: new Set(rows.map(m => m.controlId)).size,
+    };
+  });
+}
+
+/**
+ * Which of the organization's controls satisfy each requirement of a
+ * framework (optionally narrowed to one requirement and its sub-requirements),
+ * whether they apply to the organization and how much evidence is already
+ * attached to them for reuse.
+ */
+export async function frameworkCoverage(org: Organization, framework: string, requirement?: string) {
+  const query = requirement ? normalizeRequirementId(framework, requirement) : null;
+  const pin = await loadLibraryPin(org);
+  const [mappings, branchingResult, evidence] = await Promise.all([
+    prisma.controlMapping.findMany({
+      where: { framework, control: pinnedControlsWhere(org.id, pin) },
+      include: { control: true },
+    }).then(rows => withLibraryPin(rows, pin)),
+    evaluateOrgBranching(org, pin),
+    prisma.evidenceFile.groupBy({
+      by: ['controlId'],
+      where: { orgId: org.id, isDeleted: false },
+      _count: { _all: true },
+    }),
+  ]);
+  const evidenceByControl = new Map(evidence.map(e => [e.controlId, e._count._all]));
+
+  const requirements = new Map<string, {
+    requirementId: string;
+    requirementTitle: string | null;
+    controls: {
+      controlId: string; ref: string; source: string; objectiveEn: string;
+      coverage: string; applicable: boolean; evidenceFiles: number; mappingId: string; origin: string;
+    }[];
+  }>();
+  for (const m of mappings) {
+    if (query && !matchesRequirement(m.requirementId, query)) continue;
+    const entry = requirements.get(m.requirementId) || { requirementId: m.requirementId, requirementTitle: null, controls: [] };
+    entry.requirementTitle = entry.requirementTitle || m.requirementTitle;
+    entry.controls.push({
+      controlId: m.controlId,
+      ref: m.control.ref,
+      source: m.control.source,
+      objectiveEn: m.control.objectiveEn,
+      coverage: m.coverage,
+      applicable: isControlApplicable(m.controlId, m.control.conditionalOn, org, branchingResult),
+      evidenceFiles: evidenceByControl.get(m.controlId) || 0,
+      mappingId: m.id,
+      origin: m.origin,
+    });
+    requirements.set(m.requirementId, entry);
+  }
+
+  const data = [...requirements.values()].sort(byRequirementId).map(r => ({
+    ...r,
+    controls: r.controls.sort((a, b) => a.controlId.localeCompare(b.controlId)),
+    applicableControls: r.controls.filter(c => c.applicable).length,
+  }));
+  return {
+    framework,
+    frameworkName: FRAMEWORKS[framework],
+    requirement: query,
+    data,
+    summary: {
+      requirements: data.length,
+      covered: data.filter(r => r.applicableControls > 0).length,
+      controls: new Set(data.flatMap(r => r.controls.map(c => c.controlId))).size,
+    },
+  };
+}
+
+/**
+ * A requirement is met when one FULL-coverage control is answered YES or
+ * every PARTIAL-coverage control is; any YES or PARTIAL answer short of that
+ * makes it partially met. Requirements whose controls were all answered N/A
+ * do not apply; those with no answered control are not assessed.
+ */
+function requirementStatus(controls: { coverage: string; answer: string | null }[]): RequirementStatus {
+  const answered = controls.filter(c => c.answer);
+  if (answered.length === 0) return 'NOT_ASSESSED';
+  if (answered.every(c => c.answer === 'NA')) return 'NOT_APPLICABLE';
+  if (controls.some(c => c.coverage === 'FULL' && c.answer === 'YES')) return 'COMPLIANT';
+  const partial = controls.filter(c => c.coverage === 'PARTIAL');
+  if (partial.length > 0 && partial.every(c => c.answer === 'YES')) return 'COMPLIANT';
+  if (answered.some(c => c.answer === 'YES' || c.answer === 'PARTIAL')) return 'PARTIAL';
+  return 'NON_COMPLIANT';
+}
+
+/**
+ * Compliance with an external framework derived from an existing assessment's
+ * answers through the crosswalk. The score counts met requirements fully and
+ * partially met ones half; not applicable and not assessed requirements are
+ * reported but not scored.
+ */
+export async function deriveFrameworkCompliance(assessmentId: string, orgId: string, framework: string) {
+  const assessment = await prisma.assessment.findFirst({
+    where: { id: assessmentId, orgId, isDeleted: false },
+    include: { responses: { select: { controlId: true, answer: true } } },
+  });
+  if (!assessment) {
+    throw new Error(`Assessment ${assessmentId} not found`);
+  }
+  // Controls retired since the assessment still count for the answers it recorded
+  const [mappings, evidence] = await Promise.all([
+    prisma.controlMapping.findMany({
+      where: { framework, control: { OR: [{ orgId: null }, { orgId }] } },
+      select: { controlId: true, requirementId: true, requirementTitle: true, coverage: true },
+    }),
+    prisma.evidenceFile.groupBy({
+      by: ['controlId'],
+      where: { orgId, assessmentId, isDeleted: false },
+      _count: { _all: true },
+    }),
+  ]);
+  const answers = new Map(assessment.responses.map(r => [r.controlId, r.answer]));
+  const evidenceByControl = new Map(evidence.map(e => [e.controlId, e._count._all]));
+
+  const grouped = new Map<string, typeof mappings>();
+  for (const m of mappings) {
+    grouped.set(m.requirementId, [...(grouped.get(m.requirementId) || []), m]);
+  }
+  const requirements = [...grouped.entries()].map(([requirementId, rows]) => {
+    const controls = rows.map(m => ({
+      controlId: m.controlId,
+      coverage: m.coverage,
+      answer: answers.get(m.controlId) || null,
+      evidenceFiles: evidenceByControl.get(m.controlId) || 0,
+    }));
+    return {
+      requirementId,
+      requirementTitle: rows.find(m => m.requirementTitle)?.requirementTitle || null,
+      status: requirementStatus(controls),
+      controls,
+    };
+  }).sort(byRequirementId);
+
+  const counts: Record<RequirementStatus, number> = { COMPLIANT: 0, PARTIAL: 0, NON_COMPLIANT: 0, NOT_APPLICABLE: 0, NOT_ASSESSED: 0 };
+  for (const r of requirements) counts[r.status]++;
+  const scored = counts.COMPLIANT + counts.PARTIAL + counts.NON_COMPLIANT;
+
+  return {
+    assessment: {
+      id: assessment.id,
+      assessmentVersion: assessment.assessmentVersion,
+      status: assessment.status,
+      finalizedAt: assessment.finalizedAt,
+    },
+    framework,
+    frameworkName: FRAMEWORKS[framework],
+    score: scored > 0 ? Math.round(((counts.COMPLIANT + counts.PARTIAL / 2) / scored) * 10000) / 100 : null,
+    counts,
+    requirements,
+  };
+}
@@ -0,0 +1,102 @@
+// Framework identifiers and citation parsing for the control crosswalk. Kept free of
+// database access so the seed can derive mappings with its own client.
+
+export const FRAMEWORKS: Record<string, string> = {
+  PDPL: 'PDPL',
+  PDPL_REG: 'PDPL Implementing Regulation',
+  PDPL_TRANSFER_REG: 'PDPL Transfer Regulation',
+  NCA_ECC: 'NCA ECC',
+  MOH: 'MoH Health Data Policies',
+  ISO_27001: 'ISO/IEC 27001:2022 Annex A',
+  ISO_27701: 'ISO/IEC 27701:2019',
+};
+
+/** Whether the value names one of FRAMEWORKS (and not an inherited key such as `constructor`). */
+export function isFramework(value: unknown): value is string {
+  return typeof value === 'string' && Object.hasOwn(FRAMEWORKS, value);
+}
+
+export interface RequirementRef {
+  framework: string;
+  requirementId: string;
+}
+
+/**
+ * Canonical form of a requirement identifier, so "2-2.1" and "2-2-1" name the
+ * same NCA ECC control and "41" and "Art. 41" the same PDPL article.
+ */
+export function normalizeRequirementId(framework: string, requirementId: string): string {
+  const trimmed = requirementId.trim().replace(/\s+/g, ' ');
+  switch (framework) {
+    case 'NCA_ECC':
+      return trimmed.replace(/\./g, '-');
+    case 'PDPL':
+    case 'PDPL_REG':
+    case 'PDPL_TRANSFER_REG':
+      return `Art. ${trimmed.replace(/^(art\.?|article)\s*/i, '')}`;
+    case 'ISO_27001':
+    case 'ISO_27701':
+      return trimmed.toUpperCase();
+    default:
+      return trimmed;
+  }
+}
+
+/** True when the identifier is the query itself or one of its sub-requirements ("2-2" matches "2-2-1"). */
+export function matchesRequirement(requirementId: string, query: string): boolean {
+  return requirementId === query || ['-', '.', '('].some(sep => requirementId.startsWith(query + sep));
+}
+
+// "Art. 35-40" and "Reg. Art. 11(2)(a), 13" style article lists
+function articleIds(text: string, prefix: RegExp): string[] {
+  const ids: string[] = [];
+  for (const part of text.replace(prefix, '').split(',')) {
+    const item = part.trim();
+    const range = item.match(/^(\d+)-(\d+)$/);
+    if (range) {
+      for (let n = Number(range[1]); n <= Number(range[2]); n++) ids.push(`Art. ${n}`);
+    } else if (item) {
+      ids.push(`Art. ${item}`);
+    }
+  }
+  return ids;
+}
+
+// "2-2.1, 2-2.2" and "3-1.1 to 3-1.3" style NCA ECC references
+function ncaIds(text: string): string[] {
+  const ids: string[] = [];
+  for (const part of text.split(',')) {
+    const item = part.trim();
+    const range = item.match(/^(\d+-\d+)\.(\d+)\s+to\s+\1\.(\d+)$/);
+    if (range) {
+      for (let n = Number(range[2]); n <= Number(range[3]); n++) ids.push(`${range[1]}-${n}`);
+    } else if (item) {
+      ids.push(normalizeRequirementId('NCA_ECC', item));
+    }
+  }
+  return ids;
+}
+
+/** The requirements a control cites in its free-text reference fields. */
+export function referenceMappings(control: {
+  pdplArticles?: string | null;
+  regArticles?: string | null;
+  transferRegArticles?: string | null;
+  ncaRef?: string | null;
+  mohPolicyRef?: string | null;
+}): RequirementRef[] {
+  const refs: RequirementRef[] = [];
+  const add = (framework: string, ids: string[]) => ids.forEach(requirementId => refs.push({ framework, requirementId }));
+  if (control.pdplArticles) add('PDPL', articleIds(control.pdplArticles, /^Art\.\s*/));
+  if (control.regArticles) add('PDPL_REG', articleIds(control.regArticles, /^Reg\.\s*Art\.\s*/));
+  if (control.transferRegArticles) add('PDPL_TRANSFER_REG', articleIds(control.transferRegArticles, /^Transfer Reg\.\s*Art\.\s*/));
+  if (control.ncaRef) add('NCA_ECC', ncaIds(control.ncaRef));
+  if (control.mohPolicyRef) add('MOH', [control.mohPolicyRef.replace(/^MoH Policy\s*-\s*/, '').trim()]);
+  const seen = new Set<string>();
+  return refs.filter(r => {
+    const key = `${r.framework}|${r.requirementId}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
@@ -0,0 +1,132 @@
+import crypto from 'crypto';
+import { Control, Prisma } from '@prisma/client';
+import { prisma } from '../index';
+import { CUSTOM_ID_PREFIX, RISK_LEVELS } from './controlDefinitions';
+
+export const CUSTOM_CONTROL_FIELDS = [
+  'domainNumber', 'domainName', 'objectiveEn', 'objectiveAr', 'riskLevel', 'pointsYes', 'pointsPartial',
+  'evidenceGuidanceEn', 'responsibleRoles', 'weightMultiplier', 'targetMaturity', 'includeInScore',
+];
+
+const REF_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]{0,29}$/;
+const MAX_DOMAIN_NUMBER = 99;
+const MAX_POINTS = 100;
+
+/** Controls an organization can see: the live library plus its own custom controls. */
+export function visibleControlsWhere(orgId: string): Prisma.ControlWhereInput {
+  return { retiredAt: null, OR: [{ orgId: null }, { orgId }] };
+}
+
+/** The live shared library, without any organization's custom controls. */
+export const LIBRARY_CONTROLS_WHERE: Prisma.ControlWhereInput = { retiredAt: null, orgId: null };
+
+/**
+ * Looks a control up by ID unless it is another organization's custom
+ * control. Retired controls are still returned.
+ */
+export function findVisibleControl(controlId: string, orgId: string) {
+  return prisma.control.findFirst({ where: { id: controlId, OR: [{ orgId: null }, { orgId }] } });
+}
+
+/**
+ * Generated ID of a new custom control. The organization's own ref is kept
+ * in `ref`, unique among its live custom controls (see findLiveCustomControlByRef).
+ */
+export function newCustomControlId(): string {
+  return `${CUSTOM_ID_PREFIX}${crypto.randomUUID().toUpperCase()}`;
+}
+
+/** The organization's non-retired custom control with this ref; retired ones free their ref for reuse. */
+export function findLiveCustomControlByRef(orgId: string, ref: string) {
+  return prisma.control.findFirst({ where: { orgId, ref, retiredAt: null } });
+}
+
+/** Domain names of the shared library, keyed by domain number. */
+export async function libraryDomainNames(): Promise<Map<number, string>> {
+  const domains = await prisma.control.findMany({
+    where: LIBRARY_CONTROLS_WHERE,
+    distinct: ['domainNumber'],
+    select: { domainNumber: true, domainName: true },
+  });
+  return new Map(domains.map(d => [d.domainNumber, d.domainName]));
+}
+
+const isWholeNumber = (value: unknown, min: number, max: number) =>
+  typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+
+/**
+ * Validates custom control fields present in the body (ref, domain,
+ * objective, risk level and points are required when creating). A custom
+ * control either joins a library domain or defines its own domain number
+ * and name.
+ */
+export function validateCustomControlInput(
+  body: Record<string, unknown>,
+  libraryDomains: Map<number, string>,
+  existing: Control | null,
+): string | null {
+  if (!existing) {
+    if (typeof body.ref !== 'string' || !REF_PATTERN.test(body.ref)) {
+      return 'ref is required: up to 30 letters, digits, dots, dashes or underscores';
+    }
+    for (const field of ['domainNumber', 'objectiveEn', 'riskLevel', 'pointsYes', 'pointsPartial']) {
+      if (body[field] === undefined) return `${field} is required`;
+    }
+  }
+  if (body.domainNumber !== undefined && !isWholeNumber(body.domainNumber, 1, MAX_DOMAIN_NUMBER)) {
+    return `domainNumber must be a whole number from 1 to ${MAX_DOMAIN_NUMBER}`;
+  }
+  const domainNumber = (body.domainNumber ?? existing?.domainNumber) as number;
+  const domainName = body.domainName !== undefined ? body.domainName : existing?.domainName;
+  if (!libraryDomains.has(domainNumber) && (typeof domainName !== 'string' || !domainName.trim())) {
+    return `domainName is required for a domain outside the library (${[...libraryDomains.keys()].sort((a, b) => a - b).join(', ')})`;
+  }
+  if (body.objectiveEn !== undefined && (typeof body.objectiveEn !== 'string' || !body.objectiveEn.trim())) {
+    return 'objectiveEn must not be empty';
+  }
+  for (const field of ['objectiveAr', 'evidenceGuidanceEn']) {
+    if (body[field] != null && typeof body[field] !== 'string') return `${field} must be text`;
+  }
+  if (body.riskLevel !== undefined && !RISK_LEVELS.includes(body.riskLevel as string)) {
+    return `riskLevel must be one of ${RISK_LEVELS.join(', ')}`;
+  }
+  for (const field of ['pointsYes', 'pointsPartial']) {
+    if (body[field] !== undefined && !isWholeNumber(body[field], 0, MAX_POINTS)) {
+      return `${field} must be a whole number from 0 to ${MAX_POINTS}`;
+    }
+  }
+  const pointsYes = (body.pointsYes ?? existing?.pointsYes) as number;
+  const pointsPartial = (body.pointsPartial ?? existing?.pointsPartial) as number;
+  if (pointsPartial > pointsYes) {
+    return 'pointsPartial cannot exceed pointsYes';
+  }
+  if (body.weightMultiplier !== undefined && (typeof body.weightMultiplier !== 'number' || body.weightMultiplier <= 0 || body.weightMultiplier >= 10)) {
+    return 'weightMultiplier must be a positive number below 10';
+  }
+  if (body.targetMaturity !== undefined && !isWholeNumber(body.targetMaturity, 0, 5)) {
+    return 'targetMaturity must be a whole number from 0 to 5';
+  }
+  if (body.responsibleRoles !== undefined && (!Array.isArray(body.responsibleRoles) || body.responsibleRoles.some(r => typeof r !== 'string'))) {
+    return 'responsibleRoles must be a list of roles';
+  }
+  if (body.includeInScore !== undefined && typeof body.includeInScore !== 'boolean') {
+    return 'includeInScore must be true or false';
+  }
+  return null;
+}
+
+/** The validated custom control fields present in the body, ready to write. */
+export function customControlData(body: Record<string, unknown>, libraryDomains: Map<number, string>, existing: Control | null) {
+  const data: Record<string, unknown> = {};
+  for (const field of CUSTOM_CONTROL_FIELDS) {
+    if (body[field] === undefined) continue;
+    const value = body[field];
+    data[field] = typeof value === 'string' ? value.trim() || null : value;
+  }
+  // Custom controls in a library domain share its name so domain scores and reports group them together
+  const domainNumber = (data.domainNumber ?? existing?.domainNumber) as number;
+  if (libraryDomains.has(domainNumber)) {
+    data.domainName = libraryDomains.get(domainNumber);
+  }
+  return data;
+}
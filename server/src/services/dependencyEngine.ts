@@ -0,0 +1,172 @@
+import { prisma } from '../index';
+import { ANSWER_RANK, getPointsForResponse } from './scoring';
+import { ensureRemediationTask } from './remediationTasks';
+import { recordResponseRevision } from './responseHistory';
+import { frozenControl } from './controlSnapshot';
+import { LibraryPin, pinnedControl, withHeldBackDependencies } from './libraryPin';
+
+// Highest maturity level that stays within a forced answer cap
+const MATURITY_CAP: Record<string, number> = { NO: 0, PARTIAL: 4, YES: 5 };
+
+interface CascadeContext {
+  orgId: string;
+  assessmentId: string;
+  parentControlId: string;
+  answer: string;
+  userId: string;
+  assessmentMode: string;
+  pin: LibraryPin | null;
+  controlSnapshot: unknown;
+  // Set while an amendment is applied: the only controls it may change
+  amendedControlIds: string[] | null;
+}
+
+interface CascadeOutcome {
+  dependentControlId: string;
+  action: string;
+  reason: string;
+  forcedAnswer?: string | null;
+  taskId?: string | null;
+}
+
+/**
+ * Applies the dependents declared on a control after it has been answered.
+ * Dependencies whose trigger matches the answer raise a CascadeFlag (and cap
+ * or task the dependent as configured); flags whose trigger no longer matches
+ * are resolved. An organization held on an earlier library release gets the
+ * dependencies of that release. Dependents are scored with the same
+ * definitions as a direct answer (frozen, or the organization's release);
+ * dependents outside an amendment are left alone and reported as skipped.
+ * Safe to call repeatedly for the same answer.
+ */
+export async function applyControlDependencies(ctx: CascadeContext): Promise<{ triggered: CascadeOutcome[]; resolved: string[]; skipped: string[] }> {
+  const dependencies = withHeldBackDependencies(await prisma.controlDependency.findMany({
+    where: { parentControlId: ctx.parentControlId },
+    include: { dependentControl: true },
+  }), ctx.pin);
+
+  const triggered: CascadeOutcome[] = [];
+  const resolved: string[] = [];
+  const skipped: string[] = [];
+
+  for (const dep of dependencies) {
+    const existingFlag = await prisma.cascadeFlag.findUnique({
+      where: { assessmentId_dependencyId: { assessmentId: ctx.assessmentId, dependencyId: dep.id } },
+    });
+
+    if (!dep.triggerAnswers.includes(ctx.answer)) {
+      if (existingFlag && !existingFlag.resolvedAt) {
+        await prisma.cascadeFlag.update({ where: { id: existingFlag.id }, data: { resolvedAt: new Date() } });
+        resolved.push(dep.dependentControlId);
+      }
+      continue;
+    }
+
+    // A finalized assessment under amendment only reopens the amended controls
+    if (ctx.amendedControlIds && !ctx.amendedControlIds.includes(dep.dependentControlId)) {
+      skipped.push(dep.dependentControlId);
+      continue;
+    }
+    const dependentControl = frozenControl(
+      pinnedControl(dep.dependentControl, dep.dependentControlId, ctx.pin),
+      dep.dependentControlId,
+      ctx.controlSnapshot,
+    );
+
+    const outcome: CascadeOutcome = {
+      dependentControlId: dep.dependentControlId,
+      action: dep.action,
+      reason: dep.reason,
+    };
+
+    if (dep.action === 'FORCE_ANSWER' && dep.forcedAnswer) {
+      outcome.forcedAnswer = dep.forcedAnswer;
+      const current = await prisma.response.findUnique({
+        where: { assessmentId_controlId: { assessmentId: ctx.assessmentId, controlId: dep.dependentControlId } },
+      });
+      const maturityLevel = ctx.assessmentMode === 'MATURITY' ? MATURITY_CAP[dep.forcedAnswer] ?? null : null;
+      const pointsEarned = getPointsForResponse({ answer: dep.forcedAnswer, maturityLevel }, dependentControl);
+      if (!current) {
+        const created = await prisma.response.create({
+          data: {
+            assessmentId: ctx.assessmentId,
+            controlId: dep.dependentControlId,
+            answer: dep.forcedAnswer,
+            maturityLevel,
+            pointsEarned,
+            notes: `Set by cascade from ${ctx.parentControlId}: ${dep.reason}`,
+            answeredBy: ctx.userId,
+          },
+        });
+        await recordResponseRevision(created, ctx.userId, 'CASCADE');
+      } else if (exceedsCap(current.answer, dep.forcedAnswer)) {
+        const capped = await prisma.response.update({
+          where: { id: current.id },
+          data: {
+            answer: dep.forcedAnswer,
+            maturityLevel,
+            naJustification: null,
+            pointsEarned,
+            lastModifiedBy: ctx.userId,
+            lastModifiedAt: new Date(),
+          },
+        });
+        await recordResponseRevision(capped, ctx.userId, 'CASCADE');
+      }
+    }
+
+    if (dep.action === 'CREATE_TASK' || (dep.action === 'FORCE_ANSWER' && dep.forcedAnswer && dep.forcedAnswer !== 'YES')) {
+      const task = await ensureRemediationTask({
+        orgId: ctx.orgId,
+        assessmentId: ctx.assessmentId,
+        control: dependentControl,
+        gapType: dep.forcedAnswer === 'PARTIAL' ? 'PARTIAL' : 'GAP',
+        title: `Cascade from ${ctx.parentControlId}: ${dependentControl.objectiveEn.substring(0, 180)}`,
+      });
+      outcome.taskId = task.id;
+    }
+
+    const flagData = {
+      parentAnswer: ctx.answer,
+      action: dep.action,
+      forcedAnswer: outcome.forcedAnswer ?? null,
+      reason: dep.reason,
+      taskId: outcome.taskId ?? null,
+      resolvedAt: null,
+    };
+    if (existingFlag) {
+      await prisma.cascadeFlag.update({ where: { id: existingFlag.id }, data: flagData });
+    } else {
+      await prisma.cascadeFlag.create({
+        data: {
+          ...flagData,
+          assessmentId: ctx.assessmentId,
+          dependencyId: dep.id,
+          parentControlId: ctx.parentControlId,
+          dependentControlId: dep.dependentControlId,
+          createdBy: ctx.userId,
+        },
+      });
+    }
+    triggered.push(outcome);
+  }
+
+  return { triggered, resolved, skipped };
+}
+
+function exceedsCap(answer: string, cap: string): boolean {
+  // N/A would sidestep the cascade entirely, so it always exceeds a cap
+  if (answer === 'NA') return true;
+  return (ANSWER_RANK[answer] ?? 0) > (ANSWER_RANK[cap] ?? 0);
+}
+
+/**
+ * Returns the active FORCE_ANSWER flag that the given answer would violate,
+ * if any, so response submission can reject answers above the cascade cap.
+ */
+export async function findViolatedCascadeCap(assessmentId: string, controlId: string, answer: string) {
+  const flags = await prisma.cascadeFlag.findMany({
+    where: { assessmentId, dependentControlId: controlId, action: 'FORCE_ANSWER', resolvedAt: null },
+  });
+  return flags.find(f => f.forcedAnswer && exceedsCap(answer, f.forcedAnswer)) || null;
+}
@@ -0,0 +1,100 @@
+import { prisma } from '../index';
+import type { DomainScore } from './scoring';
+
+export const ROLLUP_WEIGHTS = ['beds', 'headcount'] as const;
+export type RollupWeight = typeof ROLLUP_WEIGHTS[number];
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+interface FacilityRollupRow {
+  facilityId: string;
+  name: string;
+  region: string | null;
+  weight: number | null;
+  assessmentId: string | null;
+  assessmentVersion: number | null;
+  finalizedAt: Date | null;
+  overallScore: number | null;
+  criticalGaps: number;
+  highGaps: number;
+  mediumGaps: number;
+  lowGaps: number;
+}
+
+/**
+ * Aggregates each facility's latest finalized FACILITY-scoped assessment into
+ * an org-level score, weighted by bed count or headcount. Facilities without
+ * a finalized assessment or without the chosen weight are listed but left out
+ * of the weighted averages; gap counts are summed across every assessed
+ * facility.
+ */
+export async function rollUpFacilityScores(orgId: string, weightBy: RollupWeight) {
+  const facilities = await prisma.facility.findMany({
+    where: { orgId, isDeleted: false },
+    orderBy: { name: 'asc' },
+    include: {
+      assessments: {
+        where: { isDeleted: false, scopeType: 'FACILITY', finalizedAt: { not: null } },
+        orderBy: { finalizedAt: 'desc' },
+        take: 1,
+      },
+    },
+  });
+
+  const rows: FacilityRollupRow[] = [];
+  const domainTotals = new Map<number, { domainName: string; weighted: number; weight: number }>();
+  let weightedScore = 0;
+  let totalWeight = 0;
+
+  for (const facility of facilities) {
+    const assessment = facility.assessments[0] || null;
+    const weight = weightBy === 'beds' ? facility.bedCount : facility.headcount;
+    rows.push({
+      facilityId: facility.id,
+      name: facility.name,
+      region: facility.region,
+      weight,
+      assessmentId: assessment?.id || null,
+      assessmentVersion: assessment?.assessmentVersion ?? null,
+      finalizedAt: assessment?.finalizedAt || null,
+      overallScore: assessment?.overallScore != null ? Number(assessment.overallScore) : null,
+      criticalGaps: assessment?.criticalGaps || 0,
+      highGaps: assessment?.highGaps || 0,
+      mediumGaps: assessment?.mediumGaps || 0,
+      lowGaps: assessment?.lowGaps || 0,
+    });
+    if (!assessment || assessment.overallScore == null || !weight || weight <= 0) continue;
+
+    weightedScore += Number(assessment.overallScore) * weight;
+    totalWeight += weight;
+    for (const d of (assessment.domainScores as unknown as DomainScore[] | null) || []) {
+      const total = domainTotals.get(d.domainNumber) || { domainName: d.domainName, weighted: 0, weight: 0 };
+      total.weighted += d.percentage * weight;
+      total.weight += weight;
+      domainTotals.set(d.domainNumber, total);
+    }
+  }
+
+  const assessed = rows.filter(r => r.assessmentId);
+  return {
+    weightBy,
+    overallScore: totalWeight > 0 ? round2(weightedScore / totalWeight) : null,
+    totalWeight,
+    facilityCount: rows.length,
+    assessedCount: assessed.length,
+    domainScores: [...domainTotals.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([domainNumber, t]) => ({ domainNumber, domainName: t.domainName, percentage: round2(t.weighted / t.weight) })),
+    criticalGaps: assessed.reduce((sum, r) => sum + r.criticalGaps, 0),
+    highGaps: assessed.reduce((sum, r) => sum + r.highGaps, 0),
+    mediumGaps: assessed.reduce((sum, r) => sum + r.mediumGaps, 0),
+    lowGaps: assessed.reduce((sum, r) => sum + r.lowGaps, 0),
+    // Share of the roll-up each facility carries (null when it is left out)
+    facilities: rows.map(r => ({
+      ...r,
+      share: r.assessmentId && r.overallScore != null && r.weight && r.weight > 0 && totalWeight > 0
+        ? round2((r.weight / totalWeight) * 100)
+        : null,
+    })),
+  };
+}
@@ -0,0 +1,153 @@
+import { prisma } from '../index';
+import { evaluateOrgBranching, isControlApplicable } from './branchingRules';
+import { findMandatoryViolations } from './mandatoryControls';
+import { loadLibraryPin, pinnedControl, pinnedControlsWhere } from './libraryPin';
+import { amendedControlIds, findOpenAmendment } from './amendments';
+import { frozenControl } from './controlSnapshot';
+
+export type FinalizationIssueType =
+  | 'UNANSWERED'
+  | 'MISSING_EVIDENCE'
+  | 'MANDATORY_NA'
+  | 'WEAK_JUSTIFICATION'
+  | 'NEEDS_RECONFIRMATION'
+  | 'OPEN_CHANGE_REQUEST';
+
+export interface FinalizationIssue {
+  type: FinalizationIssueType;
+  controlId: string;
+  riskLevel: string;
+  message: string;
+}
+
+export interface FinalizationReport {
+  assessmentId: string;
+  canFinalize: boolean;
+  totalApplicable: number;
+  answeredCount: number;
+  counts: Record<FinalizationIssueType, number>;
+  issues: FinalizationIssue[];
+}
+
+const MIN_JUSTIFICATION_LENGTH = 50;
+// Boilerplate that passes the 20-character submission check but says nothing
+const BOILERPLATE_JUSTIFICATIONS = [
+  /^not applicable\b/i,
+  /^n\/?a\b/i,
+  /^does not apply\b/i,
+  /^not relevant\b/i,
+  /^no (such )?processing\b/i,
+];
+
+function isWeakJustification(text: string | null): boolean {
+  const trimmed = (text || '').trim();
+  return trimmed.length < MIN_JUSTIFICATION_LENGTH || BOILERPLATE_JUSTIFICATIONS.some(re => re.test(trimmed));
+}
+
+/**
+ * Checks an assessment against the finalization gate: every applicable
+ * control answered, CRITICAL/HIGH YES answers backed by evidence, no N/A on
+ * mandatory controls, substantive N/A justifications and no carried-forward
+ * answers awaiting reconfirmation. Any issue blocks finalization unless a DPO
+ * overrides it — except open reviewer change requests, which must be accepted.
+ * An amended assessment is re-checked against the controls it was finalized
+ * with, as frozen in its snapshot, and only for the controls the amendment
+ * reopened.
+ */
+export async function validateForFinalization(assessmentId: string, orgId: string): Promise<FinalizationReport> {
+  const [assessment, org, evidence, changeRequests] = await Promise.all([
+    prisma.assessment.findFirst({
+      where: { id: assessmentId, orgId, isDeleted: false },
+      include: { responses: true },
+    }),
+    prisma.organization.findUnique({ where: { id: orgId } }),
+    prisma.evidenceFile.findMany({
+      where: { assessmentId, orgId, isDeleted: false },
+      select: { controlId: true },
+    }),
+    prisma.reviewComment.findMany({
+      where: { assessmentId, kind: 'CHANGE_REQUEST', status: 'OPEN' },
+      select: { controlId: true, body: true },
+    }),
+  ]);
+  if (!assessment || !org) {
+    throw new Error(`Assessment ${assessmentId} not found`);
+  }
+
+  const amendment = assessment.status === 'AMENDING' ? await findOpenAmendment(assessment.id) : null;
+  const amended = amendment ? new Set(amendedControlIds(amendment)) : null;
+  const inScope = (controlId: string) => !amended || amended.has(controlId);
+
+  const pin = await loadLibraryPin(org);
+  const [branchingResult, liveControls] = await Promise.all([
+    evaluateOrgBranching(org, pin),
+    prisma.control.findMany({
+      where: amended
+        ? { id: { in: [...assessment.responses.map(r => r.controlId), ...amended] }, OR: [{ orgId: null }, { orgId }] }
+        : pinnedControlsWhere(orgId, pin),
+      orderBy: [{ domainNumber: 'asc' }, { id: 'asc' }],
+    }),
+  ]);
+  const controls = liveControls.map(c => frozenControl(pinnedControl(c, c.id, pin), c.id, assessment.controlSnapshot));
+  const applicable = amended
+    ? controls
+    : controls.filter(c => isControlApplicable(c.id, c.conditionalOn, org, branchingResult));
+  const controlMap = new Map(controls.map(c => [c.id, c]));
+  const responseMap = new Map(assessment.responses.map(r => [r.controlId, r]));
+  const evidencedControls = new Set(evidence.map(e => e.controlId));
+  const issues: FinalizationIssue[] = [];
+
+  for (const control of applicable) {
+    if (!responseMap.has(control.id) && inScope(control.id)) {
+      issues.push({ type: 'UNANSWERED', controlId: control.id, riskLevel: control.riskLevel, message: 'Applicable control has not been answered' });
+    }
+  }
+
+  for (const violation of findMandatoryViolations(assessment.responses, branchingResult)) {
+    if (violation.reason !== 'MARKED_NA' || !inScope(violation.controlId)) continue;
+    issues.push({
+      type: 'MANDATORY_NA',
+      controlId: violation.controlId,
+      riskLevel: controlMap.get(violation.controlId)?.riskLevel || 'CRITICAL',
+      message: 'Control is mandatory for your organization type and cannot be N/A',
+    });
+  }
+
+  for (const response of assessment.responses) {
+    const control = controlMap.get(response.controlId);
+    if (!control || !inScope(control.id)) continue;
+
+    if (response.answer === 'YES' && ['CRITICAL', 'HIGH'].includes(control.riskLevel) && !evidencedControls.has(control.id)) {
+      issues.push({ type: 'MISSING_EVIDENCE', controlId: control.id, riskLevel: control.riskLevel, message: `${control.riskLevel} control answered YES without supporting evidence` });
+    }
+    if (response.answer === 'NA' && !branchingResult.mandatoryControls.includes(control.id) && isWeakJustification(response.naJustification)) {
+      issues.push({ type: 'WEAK_JUSTIFICATION', controlId: control.id, riskLevel: control.riskLevel, message: `N/A justification is too short or generic (minimum ${MIN_JUSTIFICATION_LENGTH} characters of specific reasoning)` });
+    }
+    if (response.needsReconfirmation) {
+      issues.push({ type: 'NEEDS_RECONFIRMATION', controlId: control.id, riskLevel: control.riskLevel, message: 'Answer carried forward from the previous assessment has not been reconfirmed' });
+    }
+  }
+
+  for (const request of changeRequests) {
+    issues.push({
+      type: 'OPEN_CHANGE_REQUEST',
+      controlId: request.controlId,
+      riskLevel: controlMap.get(request.controlId)?.riskLevel || 'MEDIUM',
+      message: `Reviewer change request still open: ${request.body}`,
+    });
+  }
+
+  const counts: Record<FinalizationIssueType, number> = {
+    UNANSWERED: 0, MISSING_EVIDENCE: 0, MANDATORY_NA: 0, WEAK_JUSTIFICATION: 0, NEEDS_RECONFIRMATION: 0, OPEN_CHANGE_REQUEST: 0,
+  };
+  issues.forEach(i => counts[i.type]++);
+
+  return {
+    assessmentId,
+    canFinalize: issues.length === 0,
+    totalApplicable: applicable.length,
+    answeredCount: assessment.responses.length,
+    counts,
+    issues,
+  };
+}
@@ -0,0 +1,131 @@
+import { Organization, Prisma } from '@prisma/client';
+import { prisma } from '../index';
+import { DependencyKey, DependencySettings, SupersededContent } from './contentPack';
+import { ReleaseControl } from './controlDefinitions';
+import { visibleControlsWhere } from './customControls';
+
+/**
+ * The library release an organization is held on. Publishing rewrites the
+ * shared Control rows for everyone; an organization whose DPO has not yet
+ * accepted the newer releases keeps reading the definitions of the release
+ * it is on, taken from that release's stored control set, and the branching
+ * rules and dependencies the newer releases replaced, as they were before.
+ */
+export interface LibraryPin {
+  version: string;
+  controls: Map<string, ReleaseControl>;
+  // Rule version to use by rule key; null for a rule the organization does not have yet
+  branchingRules: Map<string, number | null>;
+  // Dependency settings to use by dependencyKey; null for a dependency it does not have yet
+  dependencies: Map<string, DependencySettings | null>;
+}
+
+export const dependencyKey = (d: DependencyKey) => `${d.parentControlId}|${d.dependentControlId}|${d.action}`;
+
+/**
+ * The organization's release: its latest accepted one, or the one in force
+ * when it registered. An organization registered before any release, that
+ * has accepted none, is on the oldest (the baseline recorded by the first
+ * publish).
+ */
+export async function currentRelease(org: Pick<Organization, 'id' | 'createdAt'>) {
+  const release = await prisma.controlLibraryRelease.findFirst({
+    where: {
+      status: 'PUBLISHED',
+      OR: [{ publishedAt: { lte: org.createdAt } }, { acceptances: { some: { orgId: org.id } } }],
+    },
+    orderBy: { publishedAt: 'desc' },
+  });
+  return release ?? prisma.controlLibraryRelease.findFirst({ where: { status: 'PUBLISHED' }, orderBy: { publishedAt: 'asc' } });
+}
+
+/** Null when the organization is on the latest published release, which is what the Control rows hold. */
+export async function loadLibraryPin(org: Pick<Organization, 'id' | 'createdAt'>): Promise<LibraryPin | null> {
+  const [current, latest] = await Promise.all([
+    currentRelease(org),
+    prisma.controlLibraryRelease.findFirst({ where: { status: 'PUBLISHED' }, orderBy: { publishedAt: 'desc' }, select: { id: true } }),
+  ]);
+  if (!current || !latest || current.id === latest.id) return null;
+
+  // Walk the unaccepted releases newest first, so what the oldest replaced wins
+  const later = await prisma.controlLibraryRelease.findMany({
+    where: { status: 'PUBLISHED', publishedAt: { gt: current.publishedAt! } },
+    orderBy: { publishedAt: 'desc' },
+    select: { changelog: true },
+  });
+  const branchingRules = new Map<string, number | null>();
+  const dependencies = new Map<string, DependencySettings | null>();
+  for (const release of later) {
+    const superseded = (release.changelog as { superseded?: SupersededContent }).superseded;
+    for (const r of superseded?.branchingRules ?? []) branchingRules.set(r.ruleKey, r.previousVersion);
+    for (const d of superseded?.dependencies ?? []) dependencies.set(dependencyKey(d), d.previous);
+  }
+
+  const controls = current.controls as unknown as ReleaseControl[];
+  return { version: current.version, controls: new Map(controls.map(c => [c.id, c])), branchingRules, dependencies };
+}
+
+/**
+ * Controls an organization can see on its release: the library controls the
+ * release defines (even if a later release retired them) plus its own custom
+ * controls.
+ */
+export function pinnedControlsWhere(orgId: string, pin: LibraryPin | null): Prisma.ControlWhereInput {
+  if (!pin) return visibleControlsWhere(orgId);
+  return { OR: [{ orgId: null, id: { in: [...pin.controls.keys()] } }, { orgId, retiredAt: null }] };
+}
+
+/**
+ * Whether a library control is on the organization's release. Custom
+ * controls always are.
+ */
+export function isOnPinnedRelease(control: { id: string; orgId: string | null }, pin: LibraryPin | null): boolean {
+  return !pin || control.orgId !== null || pin.controls.has(control.id);
+}
+
+/**
+ * Returns the control with the definition of the organization's release.
+ * Only the fields already present on `control` are replaced, so partial
+ * selects keep their shape; custom controls and controls the release does
+ * not define are returned unchanged.
+ */
+export function pinnedControl<C extends object>(control: C, controlId: string, pin: LibraryPin | null): C {
+  const definition = pin?.controls.get(controlId);
+  if (!definition || (control as { orgId?: string | null }).orgId) return control;
+  const result: Record<string, unknown> = { ...(control as Record<string, unknown>) };
+  for (const key of Object.keys(control)) {
+    if (key === 'weightMultiplier') {
+      result[key] = new Prisma.Decimal(definition.weightMultiplier);
+    } else if (key === 'conditionalOn') {
+      result[key] = definition.conditionalOn ?? null;
+    } else if (key === 'retiredAt') {
+      result[key] = null;
+    } else if (key === 'libraryVersion') {
+      result[key] = pin!.version;
+    } else if (key in definition && key !== 'id') {
+      result[key] = definition[key as keyof ReleaseControl];
+    }
+  }
+  return result as C;
+}
+
+/** Swaps each response's live control for the organization's release definition. */
+export function withLibraryPin<R extends { controlId: string; control: object }>(responses: R[], pin: LibraryPin | null): R[] {
+  if (!pin) return responses;
+  return responses.map(r => ({ ...r, control: pinnedControl(r.control, r.controlId, pin) }));
+}
+
+/**
+ * The dependencies as the organization's release has them: those added by
+ * releases it has not accepted are dropped and those they changed get their
+ * previous settings back.
+ */
+export function withHeldBackDependencies<D extends DependencyKey & DependencySettings>(dependencies: D[], pin: LibraryPin | null): D[] {
+  if (!pin) return dependencies;
+  return dependencies.flatMap(d => {
+    const key = dependencyKey(d);
+    if (!pin.dependencies.has(key)) return [d];
+    const previous = pin.dependencies.get(key);
+    return previous ? [{ ...d, ...previous }] : [];
+  });
+}
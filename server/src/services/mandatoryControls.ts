@@ -0,0 +1,65 @@
+import { prisma } from '../index';
+import type { BranchingResult } from './branchingRules';
+import type { LibraryPin } from './libraryPin';
+
+export interface MandatoryViolation {
+  controlId: string;
+  reason: 'UNANSWERED' | 'MARKED_NA';
+}
+
+export interface TypeMandatoryControl {
+  id: string;
+  conditionalOn: unknown;
+}
+
+/**
+ * Controls whose mandatoryForTypes lists the organization type. Wherever
+ * they apply they can never be answered N/A; whether they apply is still
+ * decided by their conditionalOn and the MARK_NA rules. An organization held
+ * on an earlier library release gets that release's library controls.
+ */
+export async function getTypeMandatoryControls(orgType: string, pin: LibraryPin | null = null): Promise<TypeMandatoryControl[]> {
+  // Only library controls carry mandatoryForTypes; custom controls never set it
+  if (pin) {
+    return [...pin.controls.values()]
+      .filter(c => c.mandatoryForTypes.includes(orgType))
+      .map(c => ({ id: c.id, conditionalOn: c.conditionalOn }));
+  }
+  return prisma.control.findMany({
+    where: { mandatoryForTypes: { has: orgType }, retiredAt: null },
+    select: { id: true, conditionalOn: true },
+  });
+}
+
+export function isMandatoryControl(controlId: string, branchingResult: BranchingResult): boolean {
+  return branchingResult.mandatoryControls.includes(controlId);
+}
+
+/**
+ * Returns an error message when the answer is not allowed for a mandatory
+ * control, or null when it is.
+ */
+export function checkMandatoryAnswer(controlId: string, answer: string, branchingResult: BranchingResult): string | null {
+  if (answer === 'NA' && isMandatoryControl(controlId, branchingResult)) {
+    return 'This control is mandatory for your organization type and cannot be marked as N/A';
+  }
+  return null;
+}
+
+/**
+ * Mandatory controls that are unanswered or answered N/A. An assessment with
+ * violations cannot be finalized.
+ */
+export function findMandatoryViolations(
+  responses: { controlId: string; answer: string }[],
+  branchingResult: BranchingResult,
+): MandatoryViolation[] {
+  const answers = new Map(responses.map(r => [r.controlId, r.answer]));
+  const violations: MandatoryViolation[] = [];
+  for (const controlId of branchingResult.mandatoryControls) {
+    const answer = answers.get(controlId);
+    if (!answer) violations.push({ controlId, reason: 'UNANSWERED' });
+    else if (answer === 'NA') violations.push({ controlId, reason: 'MARKED_NA' });
+  }
+  return violations;
+}
@@ -0,0 +1,95 @@
+import { prisma } from '../index';
+import { getApplicableControls } from './branchingRules';
+import { MATURITY_LEVELS } from './scoring';
+import { frozenControl } from './controlSnapshot';
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+const average = (values: number[]) => (values.length > 0 ? round2(values.reduce((a, b) => a + b, 0) / values.length) : 0);
+
+export interface MaturityGapItem {
+  controlId: string;
+  ref: string;
+  domainNumber: number;
+  domainName: string;
+  riskLevel: string;
+  maturityLevel: number;
+  maturityLabel: string;
+  targetMaturity: number;
+  gap: number;
+}
+
+/**
+ * Gap-to-target report for a MATURITY-mode assessment: every rated control
+ * against its target maturity, largest gaps first, with per-domain averages.
+ * N/A and unrated controls are counted but carry no gap.
+ */
+export async function getMaturityGaps(assessmentId: string, orgId: string) {
+  const [assessment, org] = await Promise.all([
+    prisma.assessment.findFirst({
+      where: { id: assessmentId, orgId, isDeleted: false },
+      include: { responses: true },
+    }),
+    prisma.organization.findUnique({ where: { id: orgId } }),
+  ]);
+  if (!assessment || !org) {
+    throw new Error(`Assessment ${assessmentId} not found`);
+  }
+
+  const { controls } = await getApplicableControls(org);
+  const responseMap = new Map(assessment.responses.map(r => [r.controlId, r]));
+  const items: MaturityGapItem[] = [];
+  let notApplicable = 0;
+  let unrated = 0;
+  for (const liveControl of controls) {
+    const control = frozenControl(liveControl, liveControl.id, assessment.controlSnapshot);
+    const response = responseMap.get(control.id);
+    if (response?.answer === 'NA') {
+      notApplicable++;
+      continue;
+    }
+    if (response?.maturityLevel == null) {
+      unrated++;
+      continue;
+    }
+    items.push({
+      controlId: control.id,
+      ref: control.ref,
+      domainNumber: control.domainNumber,
+      domainName: control.domainName,
+      riskLevel: control.riskLevel,
+      maturityLevel: response.maturityLevel,
+      maturityLabel: MATURITY_LEVELS[response.maturityLevel],
+      targetMaturity: control.targetMaturity,
+      gap: Math.max(0, control.targetMaturity - response.maturityLevel),
+    });
+  }
+  items.sort((a, b) => b.gap - a.gap || a.domainNumber - b.domainNumber || a.controlId.localeCompare(b.controlId));
+
+  const domainNumbers = [...new Set(items.map(i => i.domainNumber))].sort((a, b) => a - b);
+  const byDomain = domainNumbers.map(domainNumber => {
+    const inDomain = items.filter(i => i.domainNumber === domainNumber);
+    return {
+      domainNumber,
+      domainName: inDomain[0].domainName,
+      controlCount: inDomain.length,
+      averageLevel: average(inDomain.map(i => i.maturityLevel)),
+      averageTarget: average(inDomain.map(i => i.targetMaturity)),
+      belowTarget: inDomain.filter(i => i.gap > 0).length,
+    };
+  });
+
+  return {
+    assessmentId,
+    assessmentVersion: assessment.assessmentVersion,
+    summary: {
+      rated: items.length,
+      unrated,
+      notApplicable,
+      belowTarget: items.filter(i => i.gap > 0).length,
+      averageLevel: average(items.map(i => i.maturityLevel)),
+      averageTarget: average(items.map(i => i.targetMaturity)),
+    },
+    byDomain,
+    items,
+  };
+}
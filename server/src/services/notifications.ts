@@ -0,0 +1,27 @@
+import { prisma } from '../index';
+
+interface NotificationInput {
+  type: string;
+  title: string;
+  body?: string;
+  link?: string;
+}
+
+/**
+ * Creates one in-app notification per recipient. Duplicate recipient IDs are
+ * collapsed; the actor is never notified about their own action.
+ */
+export async function notifyUsers(orgId: string, userIds: string[], input: NotificationInput, actorId?: string) {
+  const recipients = Array.from(new Set(userIds)).filter(id => id !== actorId);
+  if (recipients.length === 0) return;
+  await prisma.notification.createMany({
+    data: recipients.map(userId => ({
+      orgId,
+      userId,
+      type: input.type,
+      title: input.title,
+      body: input.body ?? null,
+      link: input.link ?? null,
+    })),
+  });
+}
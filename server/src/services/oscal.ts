@@ -0,0 +1,372 @@
+import crypto from 'crypto';
+import path from 'path';
+import { Control } from '@prisma/client';
+import { prisma } from '../index';
+import { parseReleaseControls, ReleaseControl, RISK_LEVELS } from './controlDefinitions';
+import { toReleaseControl } from './controlLibrary';
+import { withControlSnapshot } from './controlSnapshot';
+import { LIBRARY_CONTROLS_WHERE } from './customControls';
+import { SOURCE_NAMES } from './scoring';
+
+export const OSCAL_VERSION = '1.1.2';
+/** Namespace of the properties and parts that carry our control attributes. */
+export const OSCAL_NS = 'urn:compliancehealth:oscal';
+
+const SOURCE_PATTERN = /^[A-Z][A-Z0-9_]{1,19}$/;
+const MAX_CONTROL_ID_LENGTH = 50;
+
+// Points an imported control earns when the catalog does not say, matching the seeded library
+const RISK_POINTS: Record<string, { pointsYes: number; pointsPartial: number }> = {
+  CRITICAL: { pointsYes: 10, pointsPartial: 5 },
+  HIGH: { pointsYes: 7, pointsPartial: 4 },
+  MEDIUM: { pointsYes: 4, pointsPartial: 2 },
+  LOW: { pointsYes: 1, pointsPartial: 1 },
+};
+
+// Control attributes written as namespaced props; list-valued ones repeat the prop
+const SCALAR_PROPS: [string, keyof ReleaseControl][] = [
+  ['risk-level', 'riskLevel'],
+  ['points-yes', 'pointsYes'],
+  ['points-partial', 'pointsPartial'],
+  ['weight-multiplier', 'weightMultiplier'],
+  ['target-maturity', 'targetMaturity'],
+  ['pdpl-articles', 'pdplArticles'],
+  ['reg-articles', 'regArticles'],
+  ['transfer-reg-articles', 'transferRegArticles'],
+  ['nca-ref', 'ncaRef'],
+  ['moh-policy-ref', 'mohPolicyRef'],
+];
+const LIST_PROPS: [string, keyof ReleaseControl][] = [
+  ['responsible-role', 'responsibleRoles'],
+  ['mandatory-for-type', 'mandatoryForTypes'],
+  ['training-module', 'trainingModuleIds'],
+];
+const NUMERIC_FIELDS = ['pointsYes', 'pointsPartial', 'weightMultiplier', 'targetMaturity'];
+
+interface OscalProp {
+  name: string;
+  value: string;
+  ns?: string;
+  class?: string;
+}
+
+interface OscalPart {
+  id?: string;
+  name: string;
+  ns?: string;
+  title?: string;
+  prose?: string;
+  props?: OscalProp[];
+  parts?: OscalPart[];
+}
+
+interface OscalParam {
+  id: string;
+  label?: string;
+}
+
+interface OscalControl {
+  id: string;
+  title: string;
+  class?: string;
+  params?: OscalParam[];
+  props?: OscalProp[];
+  parts?: OscalPart[];
+  controls?: OscalControl[];
+}
+
+interface OscalGroup {
+  id?: string;
+  title: string;
+  props?: OscalProp[];
+  groups?: OscalGroup[];
+  controls?: OscalControl[];
+}
+
+// OSCAL arrays must not be empty; an absent property is written instead
+const nonEmpty = <T>(items: T[]) => (items.length > 0 ? items : undefined);
+
+const prop = (name: string, value: unknown): OscalProp => ({ name, ns: OSCAL_NS, value: String(value) });
+
+/** One library control as an OSCAL control. */
+function toOscalControl(control: Control): OscalControl {
+  const definition = toReleaseControl(control);
+  const props: OscalProp[] = [{ name: 'label', value: control.ref }];
+  for (const [name, field] of SCALAR_PROPS) {
+    if (definition[field] != null) props.push(prop(name, definition[field]));
+  }
+  for (const [name, field] of LIST_PROPS) {
+    for (const value of definition[field] as string[]) props.push(prop(name, value));
+  }
+  if (control.conditionalOn != null) props.push(prop('conditional-on', JSON.stringify(control.conditionalOn)));
+
+  const parts: OscalPart[] = [{ id: `${control.id}_smt`, name: 'statement', prose: control.objectiveEn }];
+  if (control.objectiveAr) parts.push({ id: `${control.id}_smt_ar`, name: 'statement-ar', ns: OSCAL_NS, prose: control.objectiveAr });
+  if (control.evidenceGuidanceEn) parts.push({ id: `${control.id}_gdn`, name: 'guidance', prose: control.evidenceGuidanceEn });
+  if (control.mohImplGuidanceEn) {
+    parts.push({ id: `${control.id}_moh`, name: 'moh-implementation-guidance', ns: OSCAL_NS, prose: control.mohImplGuidanceEn });
+  }
+  return { id: control.id, class: control.source, title: `${control.ref} — ${control.domainName}`, props, parts };
+}
+
+/**
+ * The live library as an OSCAL catalog: one group per source, holding one
+ * group per domain. Attributes OSCAL has no field for (risk level, points,
+ * citations, applicability) are namespaced props, so the catalog can be
+ * imported back without loss.
+ */
+export async function exportLibraryCatalog() {
+  const [controls, release] = await Promise.all([
+    prisma.control.findMany({ where: LIBRARY_CONTROLS_WHERE, orderBy: [{ domainNumber: 'asc' }, { id: 'asc' }] }),
+    prisma.controlLibraryRelease.findFirst({ where: { status: 'PUBLISHED' }, orderBy: { publishedAt: 'desc' } }),
+  ]);
+
+  const sources = new Map<string, Map<number, Control[]>>();
+  for (const c of controls) {
+    const domains = sources.get(c.source) || new Map<number, Control[]>();
+    domains.set(c.domainNumber, [...(domains.get(c.domainNumber) || []), c]);
+    sources.set(c.source, domains);
+  }
+  const groups = [...sources.entries()].map(([source, domains]) => ({
+    id: source.toLowerCase(),
+    class: 'source',
+    title: SOURCE_NAMES[source] || source,
+    groups: [...domains.entries()].map(([domainNumber, domainControls]) => ({
+      id: `${source.toLowerCase()}-domain-${domainNumber}`,
+      class: 'domain',
+      title: domainControls[0].domainName,
+      props: [prop('domain-number', domainNumber)],
+      controls: domainControls.map(toOscalControl),
+    })),
+  }));
+
+  return {
+    catalog: {
+      uuid: crypto.randomUUID(),
+      metadata: {
+        title: 'ComplianceHealth PDPL Control Library',
+        'last-modified': new Date().toISOString(),
+        version: release?.version || 'unreleased',
+        'oscal-version': OSCAL_VERSION,
+      },
+      groups: nonEmpty(groups),
+    },
+  };
+}
+
+/**
+ * A finalized assessment as OSCAL assessment-results: each response is a
+ * finding on its control (read against the definitions frozen at
+ * finalization), each evidence file an observation whose back-matter
+ * resource carries the recorded SHA-256, and each remediation task a risk.
+ */
+export async function exportAssessmentResults(assessmentId: string) {
+  const assessment = await prisma.assessment.findUnique({
+    where: { id: assessmentId },
+    include: {
+      organization: { select: { id: true, name: true } },
+      responses: {
+        include: { control: { select: { ref: true, objectiveEn: true, riskLevel: true, targetMaturity: true } } },
+        orderBy: { controlId: 'asc' },
+      },
+      remediationTasks: { where: { isDeleted: false }, orderBy: { controlId: 'asc' } },
+    },
+  });
+  if (!assessment) {
+    throw new Error(`Assessment ${assessmentId} not found`);
+  }
+  const evidence = await prisma.evidenceFile.findMany({
+    where: { assessmentId, orgId: assessment.orgId, isDeleted: false },
+    orderBy: { uploadedAt: 'asc' },
+  });
+
+  const resources = evidence.map(e => ({
+    uuid: crypto.randomUUID(),
+    title: e.filename,
+    description: e.description,
+    props: [prop('evidence-id', e.id)],
+    // Same path as in the Audit-Ready Package
+    rlinks: [{ href: `evidence/${e.id}-${path.basename(e.filename)}`, hashes: [{ algorithm: 'SHA-256', value: e.sha256Hash }] }],
+  }));
+  const observations = evidence.map((e, i) => ({
+    uuid: e.id,
+    title: e.filename,
+    description: e.description,
+    props: [prop('control-id', e.controlId)],
+    methods: ['EXAMINE'],
+    collected: e.uploadedAt.toISOString(),
+    'relevant-evidence': [{ href: `#${resources[i].uuid}`, description: `${e.filename} (SHA-256 ${e.sha256Hash})` }],
+  }));
+  const risks = assessment.remediationTasks.map(t => ({
+    uuid: t.id,
+    title: t.title,
+    description: t.legalBasis || t.title,
+    statement: `${t.gapType} answer on ${t.controlId} (${t.riskLevel} risk)`,
+    props: [prop('control-id', t.controlId), prop('risk-level', t.riskLevel)],
+    status: t.status === 'CLOSED' ? 'closed' : 'open',
+    deadline: (t.customDeadline || t.deadline).toISOString(),
+  }));
+
+  const responses = withControlSnapshot(assessment.responses, assessment.controlSnapshot);
+  const findings = responses.map(r => {
+    const props = [prop('answer', r.answer), prop('points-earned', r.pointsEarned), prop('risk-level', r.control.riskLevel)];
+    if (r.maturityLevel != null) props.push(prop('maturity-level', r.maturityLevel), prop('target-maturity', r.control.targetMaturity));
+    const satisfied = r.maturityLevel != null ? r.maturityLevel >= r.control.targetMaturity : r.answer === 'YES' || r.answer === 'NA';
+    return {
+      uuid: r.id,
+      title: `${r.controlId} — ${r.control.ref}`,
+      description: r.control.objectiveEn,
+      props,
+      target: {
+        type: 'objective-id',
+        'target-id': `${r.controlId}_smt`,
+        status: { state: satisfied ? 'satisfied' : 'not-satisfied', reason: r.answer === 'NA' ? 'other' : satisfied ? 'pass' : 'fail' },
+        remarks: r.answer === 'NA' ? `Not applicable: ${r.naJustification || 'no justification recorded'}` : r.notes || undefined,
+      },
+      'related-observations': nonEmpty(observations.filter(o => o.props[0].value === r.controlId).map(o => ({ 'observation-uuid': o.uuid }))),
+      'related-risks': nonEmpty(risks.filter(k => k.props[0].value === r.controlId).map(k => ({ 'risk-uuid': k.uuid }))),
+    };
+  });
+
+  return {
+    'assessment-results': {
+      uuid: crypto.randomUUID(),
+      metadata: {
+        title: `${assessment.organization.name} — compliance assessment v${assessment.assessmentVersion}`,
+        published: assessment.finalizedAt?.toISOString(),
+        'last-modified': new Date().toISOString(),
+        version: `v${assessment.assessmentVersion}`,
+        'oscal-version': OSCAL_VERSION,
+        parties: [{ uuid: assessment.organization.id, type: 'organization', name: assessment.organization.name }],
+      },
+      'import-ap': {
+        href: '/api/v1/controls/oscal/catalog',
+        remarks: 'No separate assessment plan is kept; the controls assessed are those of the library catalog.',
+      },
+      results: [{
+        uuid: assessment.id,
+        title: `Assessment v${assessment.assessmentVersion}`,
+        description: `${assessment.mode === 'MATURITY' ? 'Maturity' : 'Standard'} assessment, overall score ${Number(assessment.overallScore ?? 0).toFixed(2)}%.`,
+        start: assessment.createdAt.toISOString(),
+        end: assessment.finalizedAt?.toISOString(),
+        props: [prop('overall-score', Number(assessment.overallScore ?? 0).toFixed(2)), prop('status', assessment.status)],
+        'reviewed-controls': {
+          'control-selections': [{ 'include-controls': nonEmpty(responses.map(r => ({ 'control-id': r.controlId }))) }],
+        },
+        observations: nonEmpty(observations),
+        risks: nonEmpty(risks),
+        findings: nonEmpty(findings),
+      }],
+      'back-matter': resources.length > 0 ? { resources } : undefined,
+    },
+  };
+}
+
+// Prose of a part and its sub-parts ("a. ...", "b. ..."), with parameters shown NIST-style
+function partProse(part: OscalPart, params: Map<string, string>): string {
+  const label = part.props?.find(p => p.name === 'label')?.value;
+  const own = (part.prose || '').replace(/\{\{\s*insert:\s*param,\s*([^\s}]+)\s*\}\}/g, (_m, id: string) => `[Assignment: ${params.get(id) || 'organization-defined value'}]`);
+  const text = [label, own.trim()].filter(Boolean).join(' ');
+  return [text, ...(part.parts || []).map(p => partProse(p, params))].filter(Boolean).join('\n');
+}
+
+const propValues = (control: OscalControl, name: string) =>
+  (control.props || []).filter(p => p.name === name && (p.ns === OSCAL_NS || name === 'label')).map(p => p.value);
+
+/**
+ * Reads the controls of an OSCAL catalog as library definitions of the given
+ * source. Each innermost group becomes a domain, numbered after the domains
+ * of the rest of the library unless the group carries its number. Control
+ * enhancements become controls of their own; withdrawn controls are skipped.
+ * Our namespaced props are honoured, otherwise risk defaults to MEDIUM with
+ * the library's points for it.
+ */
+function catalogControls(catalog: { controls?: OscalControl[]; groups?: OscalGroup[]; metadata?: { title?: string } }, source: string, firstDomain: number) {
+  const params = new Map<string, string>();
+  const domains = new Map<string, number>();
+  let nextDomain = firstDomain;
+  const definitions: Record<string, unknown>[] = [];
+
+  const addControl = (control: OscalControl, domainName: string, domainNumber: number | undefined) => {
+    for (const p of control.params || []) if (p.label) params.set(p.id, p.label);
+    const withdrawn = (control.props || []).some(p => p.name === 'status' && p.value === 'withdrawn');
+    if (!withdrawn) {
+      const id = control.id.toUpperCase().startsWith(`${source}-`) ? control.id.toUpperCase() : `${source}-${control.id.toUpperCase()}`;
+      if (!domains.has(domainName)) domains.set(domainName, domainNumber ?? nextDomain++);
+      const riskLevel = RISK_LEVELS.includes(propValues(control, 'risk-level')[0]) ? propValues(control, 'risk-level')[0] : 'MEDIUM';
+      const definition: Record<string, unknown> = {
+        id,
+        source,
+        domainNumber: domains.get(domainName),
+        domainName,
+        ref: propValues(control, 'label')[0] || control.id.toUpperCase(),
+        riskLevel,
+        ...RISK_POINTS[riskLevel],
+        _statement: control.parts?.find(p => p.name === 'statement'),
+        _title: control.title,
+      };
+      for (const [name, field] of SCALAR_PROPS) {
+        const value = propValues(control, name)[0];
+        if (value !== undefined && field !== 'riskLevel') definition[field] = NUMERIC_FIELDS.includes(field) ? Number(value) : value;
+      }
+      for (const [name, field] of LIST_PROPS) definition[field] = propValues(control, name);
+      const conditionalOn = propValues(control, 'conditional-on')[0];
+      if (conditionalOn) definition.conditionalOn = JSON.parse(conditionalOn);
+      definition.objectiveAr = control.parts?.find(p => p.name === 'statement-ar')?.prose;
+      definition.evidenceGuidanceEn = control.parts?.find(p => p.name === 'guidance')?.prose;
+      definition.mohImplGuidanceEn = control.parts?.find(p => p.name === 'moh-implementation-guidance')?.prose;
+      definitions.push(definition);
+    }
+    for (const enhancement of control.controls || []) addControl(enhancement, domainName, domainNumber);
+  };
+  const walk = (group: OscalGroup) => {
+    // Our own catalogs keep their domain numbers
+    const numbered = group.props?.find(p => p.name === 'domain-number' && p.ns === OSCAL_NS);
+    const domainNumber = numbered && Number.isInteger(Number(numbered.value)) ? Number(numbered.value) : undefined;
+    for (const control of group.controls || []) addControl(control, group.title, domainNumber);
+    for (const child of group.groups || []) walk(child);
+  };
+  walk({ title: catalog.metadata?.title || source, controls: catalog.controls, groups: catalog.groups });
+
+  // Statements are rendered once every parameter label has been collected
+  return definitions.map(({ _statement, _title, ...definition }) => ({
+    ...definition,
+    objectiveEn: _statement ? partProse(_statement as OscalPart, params) || _title : _title,
+  }));
+}
+
+/**
+ * The control definitions of a library release that installs an OSCAL
+ * catalog as the given source: the live library with that source's controls
+ * replaced by the catalog's. Returns the first problem found.
+ */
+export async function oscalCatalogRelease(document: unknown, source: string): Promise<ReleaseControl[] | { error: string }> {
+  if (!SOURCE_PATTERN.test(source)) {
+    return { error: 'source must be 2–20 upper-case letters, digits or underscores, starting with a letter' };
+  }
+  const catalog = (document as { catalog?: unknown } | null)?.catalog;
+  if (!catalog || typeof catalog !== 'object' || Array.isArray(catalog)) {
+    return { error: 'Not an OSCAL catalog: expected a JSON document with a top-level "catalog" object' };
+  }
+
+  const live = await prisma.control.findMany({ where: LIBRARY_CONTROLS_WHERE, orderBy: { id: 'asc' } });
+  const kept = live.filter(c => c.source !== source).map(toReleaseControl);
+  const firstDomain = Math.max(0, ...kept.map(c => c.domainNumber)) + 1;
+
+  let imported: Record<string, unknown>[];
+  try {
+    imported = catalogControls(catalog as Parameters<typeof catalogControls>[0], source, firstDomain);
+  } catch (err) {
+    return { error: `The catalog could not be read: ${err instanceof Error ? err.message : 'unexpected structure'}` };
+  }
+  if (imported.length === 0) {
+    return { error: 'The catalog has no controls' };
+  }
+  const keptIds = new Set(kept.map(c => c.id));
+  for (const c of imported) {
+    const id = c.id as string;
+    if (id.length > MAX_CONTROL_ID_LENGTH) return { error: `${id}: control IDs are limited to ${MAX_CONTROL_ID_LENGTH} characters` };
+    if (keptIds.has(id)) return { error: `${id} already belongs to another source in the library` };
+  }
+  return parseReleaseControls([...kept, ...imported]);
+}
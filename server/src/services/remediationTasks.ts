@@ -0,0 +1,41 @@
+import { Control } from '@prisma/client';
+import { addDays } from 'date-fns';
+import { prisma } from '../index';
+import { getDefaultDeadlineDays } from './scoring';
+
+/**
+ * Opens a remediation task for a failed control unless the assessment already
+ * has one for it. Returns the existing or newly created task.
+ */
+export async function ensureRemediationTask(params: {
+  orgId: string;
+  assessmentId: string;
+  control: Control;
+  gapType: 'GAP' | 'PARTIAL';
+  title?: string;
+}) {
+  const { orgId, assessmentId, control, gapType } = params;
+
+  const existingTask = await prisma.remediationTask.findFirst({
+    where: { assessmentId, controlId: control.id, orgId, isDeleted: false },
+  });
+  if (existingTask) return existingTask;
+
+  const deadlineDays = getDefaultDeadlineDays(control.riskLevel);
+  return prisma.remediationTask.create({
+    data: {
+      orgId,
+      assessmentId,
+      controlId: control.id,
+      gapType,
+      riskLevel: control.riskLevel,
+      title: params.title || `Implement: ${control.objectiveEn.substring(0, 200)}`,
+      status: 'OPEN',
+      legalBasis: [control.regArticles, control.transferRegArticles, control.ncaRef, control.mohPolicyRef].filter(Boolean).join(' | '),
+      evidenceRequired: control.evidenceGuidanceEn ? [control.evidenceGuidanceEn] : [],
+      responsibleRole: control.responsibleRoles?.[0] || null,
+      deadline: addDays(new Date(), deadlineDays),
+      evidenceRequiredForClosure: control.riskLevel === 'CRITICAL' || control.riskLevel === 'HIGH',
+    },
+  });
+}
@@ -0,0 +1,411 @@
+import PDFDocument from 'pdfkit';
+import ExcelJS from 'exceljs';
+import path from 'path';
+import fs from 'fs';
+import { prisma } from '../index';
+import { writeAuditPackage } from './auditPackage';
+import { scopeLabel } from './assessmentScope';
+import { withControlSnapshot } from './controlSnapshot';
+import { loadLibraryPin, withLibraryPin } from './libraryPin';
+import { calculateScores, toControlScores, SourceScore, MATURITY_LEVELS } from './scoring';
+
+export const REPORTS_DIR = path.join(process.cwd(), 'uploads', 'reports');
+
+export type ReportFormat = 'pdf' | 'xlsx' | 'audit';
+
+const REPORT_EXTENSIONS: Record<ReportFormat, string> = {
+  pdf: '.pdf',
+  xlsx: '.xlsx',
+  audit: '.zip',
+};
+
+const ANSWER_LABELS: Record<string, string> = {
+  YES: 'Yes — Fully Implemented',
+  PARTIAL: 'Partial — In Progress',
+  NO: 'No — Not Implemented',
+  NA: 'N/A — Not Applicable',
+};
+
+interface ReportDomainScore {
+  domainNumber: number;
+  domainName: string;
+  totalPoints: number;
+  earnedPoints: number;
+  percentage: number;
+  controlCount: number;
+  gapCount: number;
+  partialCount: number;
+}
+
+async function loadReportData(assessmentId: string) {
+  const assessment = await prisma.assessment.findUnique({
+    where: { id: assessmentId },
+    include: {
+      organization: true,
+      facility: { select: { name: true } },
+      createdByUser: { select: { firstName: true, lastName: true, email: true } },
+      finalizedByUser: { select: { firstName: true, lastName: true, email: true } },
+      responses: {
+        include: {
+          control: true,
+          answeredByUser: { select: { firstName: true, lastName: true } },
+        },
+      },
+    },
+  });
+  if (!assessment) {
+    throw new Error(`Assessment ${assessmentId} not found`);
+  }
+
+  const evidence = await prisma.evidenceFile.findMany({
+    where: { assessmentId, orgId: assessment.orgId, isDeleted: false },
+    select: { controlId: true, filename: true, sha256Hash: true },
+  });
+  const evidenceByControl = new Map<string, typeof evidence>();
+  for (const e of evidence) {
+    if (!evidenceByControl.has(e.controlId)) evidenceByControl.set(e.controlId, []);
+    evidenceByControl.get(e.controlId)!.push(e);
+  }
+
+  // Finalized assessments report against the control definitions they were scored on, drafts against the org's release
+  const pin = await loadLibraryPin(assessment.organization);
+  const responses = withControlSnapshot(withLibraryPin(assessment.responses, pin), assessment.controlSnapshot).sort((a, b) =>
+    a.control.domainNumber - b.control.domainNumber || a.controlId.localeCompare(b.controlId)
+  );
+
+  return {
+    assessment,
+    responses,
+    evidenceByControl,
+    domainScores: (assessment.domainScores as unknown as ReportDomainScore[] | null) || [],
+    // Assessments finalized before framework scores were stored are scored from their responses
+    sourceScores: Array.isArray(assessment.sourceScores)
+      ? assessment.sourceScores as unknown as SourceScore[]
+      : calculateScores(toControlScores(responses)).sourceScores,
+    maturityGaps: assessment.mode === 'MATURITY'
+      ? responses
+        .filter(r => r.maturityLevel != null && r.maturityLevel < r.control.targetMaturity)
+        .map(r => ({
+          controlId: r.controlId,
+          domainNumber: r.control.domainNumber,
+          riskLevel: r.control.riskLevel,
+          maturityLevel: r.maturityLevel!,
+          targetMaturity: r.control.targetMaturity,
+          gap: r.control.targetMaturity - r.maturityLevel!,
+        }))
+        .sort((a, b) => b.gap - a.gap || a.domainNumber - b.domainNumber)
+      : [],
+  };
+}
+
+function maturityLabel(level: number | null): string {
+  return level == null ? '' : `L${level} ${MATURITY_LEVELS[level]}`;
+}
+
+type ReportData = Awaited<ReturnType<typeof loadReportData>>;
+
+export function formatLegalCitations(control: {
+  pdplArticles: string | null;
+  regArticles: string | null;
+  transferRegArticles: string | null;
+  ncaRef: string | null;
+  mohPolicyRef: string | null;
+}): string {
+  return [
+    control.pdplArticles ? `PDPL ${control.pdplArticles}` : null,
+    control.regArticles,
+    control.transferRegArticles,
+    control.ncaRef ? `NCA ECC ${control.ncaRef}` : null,
+    control.mohPolicyRef,
+  ].filter(Boolean).join(' | ');
+}
+
+function personName(user: { firstName: string; lastName: string } | null): string {
+  return user ? `${user.firstName} ${user.lastName}` : '—';
+}
+
+function writePdf(data: ReportData, filePath: string): Promise<void> {
+  const { assessment, responses, evidenceByControl, domainScores, sourceScores, maturityGaps } = data;
+  const maturityMode = assessment.mode === 'MATURITY';
+
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'A4', margin: 50, info: { Title: `PDPL Compliance Report v${assessment.assessmentVersion}` } });
+    const stream = fs.createWriteStream(filePath);
+    stream.on('finish', () => resolve());
+    stream.on('error', reject);
+    doc.on('error', reject);
+    doc.pipe(stream);
+
+    // Cover / summary
+    doc.fontSize(20).text('Full Compliance Report', { align: 'center' });
+    doc.moveDown(0.5);
+    doc.fontSize(12).text(assessment.organization.name, { align: 'center' });
+    doc.fontSize(10).fillColor('#555555')
+      .text(`Assessment v${assessment.assessmentVersion} — PDPL / NCA ECC / MoH`, { align: 'center' })
+      .text(scopeLabel(assessment), { align: 'center' });
+    doc.fillColor('#000000').moveDown(1.5);
+
+    doc.fontSize(10);
+    doc.text(`Finalized: ${assessment.finalizedAt ? assessment.finalizedAt.toISOString() : '—'}`);
+    doc.text(`Finalized by: ${personName(assessment.finalizedByUser)}`);
+    doc.text(`Created by: ${personName(assessment.createdByUser)}`);
+    doc.moveDown();
+
+    doc.fontSize(14).text(`Overall Score: ${Number(assessment.overallScore ?? 0).toFixed(2)}%`);
+    doc.fontSize(10).text(`Controls assessed: ${assessment.totalControlsAssessed ?? 0}`);
+    doc.text(`Gaps — Critical: ${assessment.criticalGaps ?? 0}   High: ${assessment.highGaps ?? 0}   Medium: ${assessment.mediumGaps ?? 0}   Low: ${assessment.lowGaps ?? 0}`);
+    doc.moveDown();
+
+    // Framework scores
+    doc.fontSize(14).text('Framework Scores');
+    doc.moveDown(0.5).fontSize(10);
+    for (const f of sourceScores) {
+      doc.text(`${f.sourceName}: ${f.percentage}%  (${f.controlCount} controls, ${f.gapCount} gaps — Critical: ${f.criticalGaps}, High: ${f.highGaps}, Medium: ${f.mediumGaps}, Low: ${f.lowGaps})`);
+    }
+    doc.moveDown();
+
+    // Domain scores
+    doc.fontSize(14).text('Domain Scores');
+    doc.moveDown(0.5).fontSize(10);
+    for (const d of domainScores) {
+      doc.text(`D${d.domainNumber}. ${d.domainName}: ${d.percentage}%  (${d.controlCount} controls, ${d.gapCount} gaps, ${d.partialCount} partial)`);
+    }
+
+    // Maturity gap-to-target (maturity-mode assessments only)
+    if (maturityMode) {
+      doc.moveDown();
+      doc.fontSize(14).text('Maturity Gaps to Target');
+      doc.moveDown(0.5).fontSize(10);
+      if (maturityGaps.length === 0) doc.text('All rated controls meet their target maturity.');
+      for (const g of maturityGaps) {
+        doc.text(`${g.controlId} (${g.riskLevel}): ${maturityLabel(g.maturityLevel)} → target ${maturityLabel(g.targetMaturity)}  (gap ${g.gap})`);
+      }
+    }
+
+    // Control-by-control results
+    doc.addPage();
+    doc.fontSize(14).text('Control Results');
+    doc.moveDown(0.5);
+
+    let currentDomain = -1;
+    for (const r of responses) {
+      if (r.control.domainNumber !== currentDomain) {
+        currentDomain = r.control.domainNumber;
+        doc.moveDown(0.5).fontSize(12).fillColor('#1d4ed8')
+          .text(`Domain ${currentDomain}: ${r.control.domainName}`).fillColor('#000000');
+        doc.moveDown(0.3);
+      }
+
+      const files = evidenceByControl.get(r.controlId) || [];
+      const result = maturityMode && r.maturityLevel != null
+        ? `${maturityLabel(r.maturityLevel)} (target L${r.control.targetMaturity})`
+        : ANSWER_LABELS[r.answer] || r.answer;
+      doc.fontSize(10).font('Helvetica-Bold').text(`${r.controlId} (${r.control.riskLevel}) — ${result}`);
+      doc.font('Helvetica').fontSize(9).text(r.control.objectiveEn);
+      const citations = formatLegalCitations(r.control);
+      if (citations) doc.fillColor('#555555').text(`Legal basis: ${citations}`).fillColor('#000000');
+      doc.text(`Points: ${r.pointsEarned} / ${r.control.pointsYes}   Evidence files: ${files.length}   Answered by: ${personName(r.answeredByUser)}`);
+      if (r.naJustification) doc.text(`N/A justification: ${r.naJustification}`);
+      if (r.notes) doc.text(`Notes: ${r.notes}`);
+      doc.moveDown(0.5);
+    }
+
+    doc.end();
+  });
+}
+
+async function writeXlsx(data: ReportData, filePath: string): Promise<void> {
+  const { assessment, responses, evidenceByControl, domainScores, sourceScores, maturityGaps } = data;
+  const maturityMode = assessment.mode === 'MATURITY';
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = 'PDPL Compliance Health';
+  workbook.created = assessment.finalizedAt || new Date();
+
+  const summary = workbook.addWorksheet('Summary');
+  summary.columns = [{ width: 28 }, { width: 60 }];
+  summary.addRows([
+    ['Organization', assessment.organization.name],
+    ['Assessment Version', assessment.assessmentVersion],
+    ['Scope', scopeLabel(assessment)],
+    ['Mode', maturityMode ? 'Maturity (0–5)' : 'Standard'],
+    ['Finalized At', assessment.finalizedAt ? assessment.finalizedAt.toISOString() : ''],
+    ['Finalized By', personName(assessment.finalizedByUser)],
+    ['Overall Score (%)', Number(assessment.overallScore ?? 0)],
+    ['Controls Assessed', assessment.totalControlsAssessed ?? 0],
+    ['Critical Gaps', assessment.criticalGaps ?? 0],
+    ['High Gaps', assessment.highGaps ?? 0],
+    ['Medium Gaps', assessment.mediumGaps ?? 0],
+    ['Low Gaps', assessment.lowGaps ?? 0],
+  ]);
+  summary.getColumn(1).font = { bold: true };
+
+  const domains = workbook.addWorksheet('Domain Scores');
+  domains.columns = [
+    { header: 'Domain', key: 'domainNumber', width: 10 },
+    { header: 'Name', key: 'domainName', width: 45 },
+    { header: 'Score (%)', key: 'percentage', width: 12 },
+    { header: 'Earned Points', key: 'earnedPoints', width: 15 },
+    { header: 'Total Points', key: 'totalPoints', width: 15 },
+    { header: 'Controls', key: 'controlCount', width: 10 },
+    { header: 'Gaps', key: 'gapCount', width: 10 },
+    { header: 'Partial', key: 'partialCount', width: 10 },
+  ];
+  domainScores.forEach(d => domains.addRow(d));
+  domains.getRow(1).font = { bold: true };
+
+  const frameworks = workbook.addWorksheet('Framework Scores');
+  frameworks.columns = [
+    { header: 'Framework', key: 'sourceName', width: 14 },
+    { header: 'Score (%)', key: 'percentage', width: 12 },
+    { header: 'Earned Points', key: 'earnedPoints', width: 15 },
+    { header: 'Total Points', key: 'totalPoints', width: 15 },
+    { header: 'Controls', key: 'controlCount', width: 10 },
+    { header: 'Gaps', key: 'gapCount', width: 10 },
+    { header: 'Partial', key: 'partialCount', width: 10 },
+    { header: 'Critical Gaps', key: 'criticalGaps', width: 14 },
+    { header: 'High Gaps', key: 'highGaps', width: 12 },
+    { header: 'Medium Gaps', key: 'mediumGaps', width: 14 },
+    { header: 'Low Gaps', key: 'lowGaps', width: 12 },
+  ];
+  sourceScores.forEach(f => frameworks.addRow(f));
+  frameworks.getRow(1).font = { bold: true };
+
+  if (maturityMode) {
+    const gaps = workbook.addWorksheet('Maturity Gaps');
+    gaps.columns = [
+      { header: 'Control ID', key: 'controlId', width: 16 },
+      { header: 'Domain', key: 'domainNumber', width: 8 },
+      { header: 'Risk Level', key: 'riskLevel', width: 12 },
+      { header: 'Maturity Level', key: 'maturityLevel', width: 15 },
+      { header: 'Target Maturity', key: 'targetMaturity', width: 16 },
+      { header: 'Gap', key: 'gap', width: 8 },
+    ];
+    maturityGaps.forEach(g => gaps.addRow(g));
+    gaps.getRow(1).font = { bold: true };
+  }
+
+  const results = workbook.addWorksheet('Control Results');
+  results.columns = [
+    { header: 'Control ID', key: 'controlId', width: 16 },
+    { header: 'Source', key: 'source', width: 10 },
+    { header: 'Domain', key: 'domain', width: 8 },
+    { header: 'Objective', key: 'objective', width: 70 },
+    { header: 'Risk Level', key: 'riskLevel', width: 12 },
+    { header: 'Answer', key: 'answer', width: 10 },
+    ...(maturityMode ? [
+      { header: 'Maturity Level', key: 'maturityLevel', width: 15 },
+      { header: 'Target Maturity', key: 'targetMaturity', width: 16 },
+    ] : []),
+    { header: 'Points Earned', key: 'pointsEarned', width: 14 },
+    { header: 'Points Available', key: 'pointsYes', width: 16 },
+    { header: 'Legal Basis', key: 'legalBasis', width: 60 },
+    { header: 'Evidence Files', key: 'evidenceCount', width: 14 },
+    { header: 'Evidence SHA-256', key: 'evidenceHashes', width: 70 },
+    { header: 'N/A Justification', key: 'naJustification', width: 40 },
+    { header: 'Notes', key: 'notes', width: 40 },
+    { header: 'Answered By', key: 'answeredBy', width: 22 },
+    { header: 'Answered At', key: 'answeredAt', width: 22 },
+  ];
+  for (const r of responses) {
+    const files = evidenceByControl.get(r.controlId) || [];
+    results.addRow({
+      controlId: r.controlId,
+      source: r.control.source,
+      domain: r.control.domainNumber,
+      objective: r.control.objectiveEn,
+      riskLevel: r.control.riskLevel,
+      answer: r.answer,
+      maturityLevel: r.maturityLevel ?? '',
+      targetMaturity: r.control.targetMaturity,
+      pointsEarned: Number(r.pointsEarned),
+      pointsYes: r.control.pointsYes,
+      legalBasis: formatLegalCitations(r.control),
+      evidenceCount: files.length,
+      evidenceHashes: files.map(f => `${f.filename}: ${f.sha256Hash}`).join('\n'),
+      naJustification: r.naJustification || '',
+      notes: r.notes || '',
+      answeredBy: personName(r.answeredByUser),
+      answeredAt: (r.lastModifiedAt || r.answeredAt).toISOString(),
+    });
+  }
+  results.getRow(1).font = { bold: true };
+  results.views = [{ state: 'frozen', ySplit: 1 }];
+
+  await workbook.xlsx.writeFile(filePath);
+}
+
+const REPORT_URL_FIELDS = {
+  pdf: 'reportPdfUrl',
+  xlsx: 'reportXlsxUrl',
+  audit: 'reportAuditUrl',
+} as const;
+
+/**
+ * Returns the stored report file for an assessment, generating it on first
+ * request. Reports are written once and then served as-is so that every
+ * download of a finalized assessment yields a byte-identical file.
+ */
+export async function getOrCreateReport(assessmentId: string, format: ReportFormat): Promise<{ filePath: string; filename: string }> {
+  const assessment = await prisma.assessment.findUnique({ where: { id: assessmentId } });
+  if (!assessment) {
+    throw new Error(`Assessment ${assessmentId} not found`);
+  }
+
+  const field = REPORT_URL_FIELDS[format];
+  const filename = `PDPL-Compliance-Report-v${assessment.assessmentVersion}${REPORT_EXTENSIONS[format]}`;
+  const storedPath = assessment[field];
+  if (storedPath && path.extname(storedPath) === REPORT_EXTENSIONS[format]) {
+    const absolute = path.join(REPORTS_DIR, path.basename(storedPath));
+    if (fs.existsSync(absolute)) {
+      return { filePath: absolute, filename };
+    }
+  }
+
+  if (!fs.existsSync(REPORTS_DIR)) {
+    fs.mkdirSync(REPORTS_DIR, { recursive: true });
+  }
+
+  const storedName = `${assessment.id}-v${assessment.assessmentVersion}${REPORT_EXTENSIONS[format]}`;
+  const filePath = path.join(REPORTS_DIR, storedName);
+
+  switch (format) {
+    case 'pdf': await writePdf(await loadReportData(assessmentId), filePath); break;
+    case 'xlsx': await writeXlsx(await loadReportData(assessmentId), filePath); break;
+    case 'audit': await writeAuditPackage(assessmentId, filePath); break;
+  }
+
+  await prisma.assessment.update({
+    where: { id: assessment.id },
+    data: { [field]: `reports/${storedName}` },
+  });
+
+  return { filePath, filename };
+}
+
+/**
+ * Replaces every report already generated for an assessment, e.g. after an
+ * amendment changed its answers and score. Formats never downloaded stay
+ * ungenerated. Returns the formats that were rebuilt.
+ */
+export async function regenerateReports(assessmentId: string): Promise<ReportFormat[]> {
+  const assessment = await prisma.assessment.findUnique({ where: { id: assessmentId } });
+  if (!assessment) {
+    throw new Error(`Assessment ${assessmentId} not found`);
+  }
+
+  const formats = (Object.keys(REPORT_URL_FIELDS) as ReportFormat[]).filter(f => assessment[REPORT_URL_FIELDS[f]]);
+  for (const format of formats) {
+    const absolute = path.join(REPORTS_DIR, path.basename(assessment[REPORT_URL_FIELDS[format]]!));
+    if (fs.existsSync(absolute)) fs.unlinkSync(absolute);
+  }
+  if (formats.length > 0) {
+    await prisma.assessment.update({
+      where: { id: assessmentId },
+      data: Object.fromEntries(formats.map(f => [REPORT_URL_FIELDS[f], null])),
+    });
+  }
+  for (const format of formats) {
+    await getOrCreateReport(assessmentId, format);
+  }
+  return formats;
+}
@@ -0,0 +1,54 @@
+import { Response } from '@prisma/client';
+import { prisma } from '../index';
+
+export type RevisionSource = 'MANUAL' | 'CASCADE' | 'CARRY_FORWARD' | 'IMPORT' | 'AMENDMENT';
+
+function toRevision(response: Response, revision: number, changedBy: string, changeSource: RevisionSource) {
+  return {
+    responseId: response.id,
+    assessmentId: response.assessmentId,
+    controlId: response.controlId,
+    revision,
+    answer: response.answer,
+    maturityLevel: response.maturityLevel,
+    naJustification: response.naJustification,
+    notes: response.notes,
+    pointsEarned: response.pointsEarned,
+    changeSource,
+    changedBy,
+  };
+}
+
+/**
+ * Appends the current state of a response to its revision history. Call after
+ * every create or update of a Response row; revisions are never modified.
+ */
+export async function recordResponseRevision(response: Response, changedBy: string, changeSource: RevisionSource) {
+  const latest = await prisma.responseRevision.findFirst({
+    where: { responseId: response.id },
+    orderBy: { revision: 'desc' },
+    select: { revision: true },
+  });
+  return prisma.responseRevision.create({
+    data: toRevision(response, (latest?.revision ?? 0) + 1, changedBy, changeSource),
+  });
+}
+
+/**
+ * Records the first revision for responses created in bulk (createMany does
+ * not return rows, so they are re-read by assessment).
+ */
+export async function recordInitialRevisions(assessmentId: string, changedBy: string, changeSource: RevisionSource) {
+  const responses = await prisma.response.findMany({ where: { assessmentId } });
+  await prisma.responseRevision.createMany({
+    data: responses.map(r => toRevision(r, 1, changedBy, changeSource)),
+  });
+}
+
+export async function getResponseHistory(assessmentId: string, controlId: string) {
+  return prisma.responseRevision.findMany({
+    where: { assessmentId, controlId },
+    orderBy: { revision: 'asc' },
+    include: { changedByUser: { select: { firstName: true, lastName: true, email: true } } },
+  });
+}
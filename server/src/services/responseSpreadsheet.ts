@@ -0,0 +1,167 @@
+import ExcelJS from 'exceljs';
+import { Readable } from 'stream';
+import { Control, Response } from '@prisma/client';
+
+export type SheetFormat = 'xlsx' | 'csv';
+
+export interface SheetRow {
+  row: number;
+  controlId: string;
+  answer: string;
+  maturityLevel: number | null;
+  naJustification: string;
+  notes: string;
+}
+
+const SHEET_NAME = 'Responses';
+
+// Column order is the import contract; headers are matched case-insensitively
+const COLUMNS = [
+  { header: 'Control ID', key: 'controlId', width: 16 },
+  { header: 'Domain', key: 'domain', width: 30 },
+  { header: 'Reference', key: 'ref', width: 10 },
+  { header: 'Risk Level', key: 'riskLevel', width: 12 },
+  { header: 'Mandatory', key: 'mandatory', width: 11 },
+  { header: 'Objective', key: 'objective', width: 70 },
+  { header: 'Evidence Guidance', key: 'evidenceGuidance', width: 50 },
+  { header: 'Answer', key: 'answer', width: 10 },
+  { header: 'Maturity Level', key: 'maturityLevel', width: 15 },
+  { header: 'Target Maturity', key: 'targetMaturity', width: 16 },
+  { header: 'N/A Justification', key: 'naJustification', width: 40 },
+  { header: 'Notes', key: 'notes', width: 40 },
+];
+
+const ANSWER_ALIASES: Record<string, string> = {
+  YES: 'YES', Y: 'YES',
+  PARTIAL: 'PARTIAL', P: 'PARTIAL',
+  NO: 'NO', N: 'NO',
+  NA: 'NA', 'N/A': 'NA', 'NOT APPLICABLE': 'NA',
+};
+
+const MATURITY_COLUMNS = ['maturityLevel', 'targetMaturity'];
+
+// Text a spreadsheet would run as a formula; exported with a leading apostrophe
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+function escapeFormula(text: string): string {
+  return FORMULA_START.test(text) ? `'${text}` : text;
+}
+
+function unescapeFormula(text: string): string {
+  return text.startsWith("'") && FORMULA_START.test(text.slice(1)) ? text.slice(1) : text;
+}
+
+/**
+ * Builds the offline answer sheet for an assessment: one row per applicable
+ * control with its current answer, so department heads can fill it in and
+ * hand it back for import. Maturity-mode sheets add the level and target
+ * columns; the answer column is then only used for NA. Free text that would
+ * run as a formula is prefixed with an apostrophe.
+ */
+export async function buildResponseSheet(
+  controls: Control[],
+  responses: Response[],
+  mandatoryControls: string[],
+  format: SheetFormat,
+  mode: string,
+): Promise<Buffer> {
+  const responseMap = new Map(responses.map(r => [r.controlId, r]));
+  const columns = mode === 'MATURITY' ? COLUMNS : COLUMNS.filter(c => !MATURITY_COLUMNS.includes(c.key));
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = 'PDPL Compliance Health';
+  const sheet = workbook.addWorksheet(SHEET_NAME);
+  sheet.columns = columns;
+
+  for (const control of controls) {
+    const response = responseMap.get(control.id);
+    sheet.addRow({
+      controlId: control.id,
+      domain: escapeFormula(`D${control.domainNumber}. ${control.domainName}`),
+      ref: control.ref,
+      riskLevel: control.riskLevel,
+      mandatory: mandatoryControls.includes(control.id) ? 'YES' : '',
+      objective: escapeFormula(control.objectiveEn),
+      evidenceGuidance: escapeFormula(control.evidenceGuidanceEn || ''),
+      answer: mode === 'MATURITY' && response?.answer !== 'NA' ? '' : response?.answer || '',
+      maturityLevel: response?.maturityLevel ?? '',
+      targetMaturity: control.targetMaturity,
+      naJustification: escapeFormula(response?.naJustification || ''),
+      notes: escapeFormula(response?.notes || ''),
+    });
+  }
+
+  if (format === 'csv') {
+    return Buffer.from(await workbook.csv.writeBuffer());
+  }
+
+  sheet.getRow(1).font = { bold: true };
+  sheet.views = [{ state: 'frozen', ySplit: 1 }];
+  const answerColumn = columns.findIndex(c => c.key === 'answer') + 1;
+  const maturityColumn = columns.findIndex(c => c.key === 'maturityLevel') + 1;
+  for (let i = 2; i <= controls.length + 1; i++) {
+    sheet.getCell(i, answerColumn).dataValidation = {
+      type: 'list',
+      allowBlank: true,
+      formulae: [mode === 'MATURITY' ? '"NA"' : '"YES,PARTIAL,NO,NA"'],
+    };
+    if (maturityColumn > 0) {
+      sheet.getCell(i, maturityColumn).dataValidation = {
+        type: 'whole',
+        operator: 'between',
+        allowBlank: true,
+        formulae: [0, 5],
+      };
+    }
+  }
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+function cellText(value: ExcelJS.CellValue): string {
+  if (value == null) return '';
+  if (typeof value === 'object') {
+    if ('richText' in value) return value.richText.map(t => t.text).join('').trim();
+    if ('text' in value) return String(value.text).trim();
+    if ('result' in value) return String(value.result ?? '').trim();
+  }
+  return String(value).trim();
+}
+
+/**
+ * Reads an answer sheet back into rows. Rows without a control ID or any
+ * answer/maturity level are dropped; answer spellings such as "n/a" or "y"
+ * are normalized, anything else is passed through for the submission rules
+ * to reject. The export's formula-escaping apostrophe is removed again.
+ */
+export async function parseResponseSheet(buffer: Buffer, format: SheetFormat): Promise<SheetRow[]> {
+  const workbook = new ExcelJS.Workbook();
+  const sheet = format === 'csv'
+    ? await workbook.csv.read(Readable.from(buffer))
+    : await workbook.xlsx.load(buffer as unknown as ArrayBuffer).then(wb => wb.getWorksheet(SHEET_NAME) || wb.worksheets[0]);
+  if (!sheet) return [];
+
+  const headerIndex = new Map<string, number>();
+  sheet.getRow(1).eachCell((cell, col) => headerIndex.set(cellText(cell.value).toLowerCase(), col));
+  const column = (header: string) => headerIndex.get(header.toLowerCase());
+  const [idCol, answerCol, maturityCol, naCol, notesCol] = ['Control ID', 'Answer', 'Maturity Level', 'N/A Justification', 'Notes'].map(column);
+  if (!idCol || (!answerCol && !maturityCol)) {
+    throw new Error('Sheet must have a "Control ID" column and an "Answer" or "Maturity Level" column');
+  }
+
+  const rows: SheetRow[] = [];
+  sheet.eachRow((row, rowNumber) => {
+    if (rowNumber === 1) return;
+    const controlId = cellText(row.getCell(idCol).value);
+    const rawAnswer = answerCol ? cellText(row.getCell(answerCol).value).toUpperCase() : '';
+    const rawMaturity = maturityCol ? cellText(row.getCell(maturityCol).value) : '';
+    if (!controlId || (!rawAnswer && !rawMaturity)) return;
+    rows.push({
+      row: rowNumber,
+      controlId,
+      answer: ANSWER_ALIASES[rawAnswer] || rawAnswer,
+      maturityLevel: rawMaturity ? Number(rawMaturity) : null,
+      naJustification: naCol ? unescapeFormula(cellText(row.getCell(naCol).value)) : '',
+      notes: notesCol ? unescapeFormula(cellText(row.getCell(notesCol).value)) : '',
+    });
+  });
+  return rows;
+}
@@ -0,0 +1,205 @@
+import { Control, Response } from '@prisma/client';
+import { prisma } from '../index';
+import type { BranchingResult } from './branchingRules';
+import type { LibraryPin } from './libraryPin';
+import { checkMandatoryAnswer } from './mandatoryControls';
+import { answerForMaturity, getPointsForResponse } from './scoring';
+import { ensureRemediationTask } from './remediationTasks';
+import { applyControlDependencies, findViolatedCascadeCap } from './dependencyEngine';
+import { canAnswerControl } from './assignments';
+import { recordResponseRevision, RevisionSource } from './responseHistory';
+
+export const ANSWERS = ['YES', 'PARTIAL', 'NO', 'NA'] as const;
+export const MIN_NA_JUSTIFICATION_LENGTH = 20;
+
+export interface ResponseInput {
+  answer?: string;
+  maturityLevel?: number | null;
+  naJustification?: string | null;
+  notes?: string | null;
+}
+
+export interface SubmissionContext {
+  orgId: string;
+  userId: string;
+  role: string;
+  assessmentId: string;
+  assessmentMode: string;
+  branchingResult: BranchingResult;
+  pin: LibraryPin | null;
+  controlSnapshot: unknown;
+  // Set while an amendment is applied: the only controls it may change
+  amendedControlIds: string[] | null;
+  changeSource: RevisionSource;
+}
+
+export interface SubmissionRejection {
+  status: number;
+  code: string;
+  error: string;
+}
+
+export type SubmissionResult =
+  | { ok: false; rejection: SubmissionRejection }
+  | { ok: true; response: Response; previous: Response | null; pointsEarned: number; cascade: Awaited<ReturnType<typeof applyControlDependencies>> };
+
+interface NormalizedInput {
+  answer: string;
+  maturityLevel: number | null;
+  naJustification?: string | null;
+  notes?: string | null;
+}
+
+/**
+ * Maturity-mode assessments take a 0–5 level (or N/A) and record the answer
+ * it implies; standard assessments take YES/PARTIAL/NO/NA only.
+ */
+function normalizeInput(mode: string, input: ResponseInput): NormalizedInput | SubmissionRejection {
+  const { maturityLevel, naJustification, notes } = input;
+  if (mode === 'MATURITY' && input.answer !== 'NA') {
+    if (typeof maturityLevel !== 'number' || !Number.isInteger(maturityLevel) || maturityLevel < 0 || maturityLevel > 5) {
+      return { status: 400, code: 'VALIDATION_ERROR', error: 'Maturity level must be a whole number from 0 to 5 (or answer NA)' };
+    }
+    return { answer: answerForMaturity(maturityLevel), maturityLevel, naJustification, notes };
+  }
+  if (mode !== 'MATURITY' && maturityLevel != null) {
+    return { status: 400, code: 'VALIDATION_ERROR', error: 'Maturity levels are only accepted on maturity-mode assessments' };
+  }
+  return { answer: input.answer || '', maturityLevel: null, naJustification, notes };
+}
+
+/**
+ * Rules every answer must pass regardless of how it arrives (form or bulk
+ * import): valid answer, assignee permission, mandatory controls never N/A,
+ * N/A justification length and cascade caps from failed parent controls.
+ */
+async function validateResponse(ctx: SubmissionContext, control: Control, input: NormalizedInput): Promise<SubmissionRejection | null> {
+  const { answer, naJustification } = input;
+
+  if (!(ANSWERS as readonly string[]).includes(answer)) {
+    return { status: 400, code: 'VALIDATION_ERROR', error: 'Invalid answer. Must be YES, PARTIAL, NO, or NA' };
+  }
+
+  // Delegated controls can only be answered by their assignee (or a DPO)
+  const permission = await canAnswerControl({ userId: ctx.userId, role: ctx.role }, ctx.assessmentId, control);
+  if (!permission.allowed) {
+    return { status: 403, code: 'NOT_ASSIGNEE', error: 'This control is assigned to another contributor' };
+  }
+
+  // Mandatory controls (mandatoryForTypes or MAKE_MANDATORY rules) cannot be N/A
+  const mandatoryError = checkMandatoryAnswer(control.id, answer, ctx.branchingResult);
+  if (mandatoryError) {
+    return { status: 400, code: 'MANDATORY_CONTROL', error: mandatoryError };
+  }
+
+  if (answer === 'NA' && (!naJustification || naJustification.length < MIN_NA_JUSTIFICATION_LENGTH)) {
+    return { status: 400, code: 'JUSTIFICATION_REQUIRED', error: `N/A justification required (minimum ${MIN_NA_JUSTIFICATION_LENGTH} characters)` };
+  }
+
+  // A failed parent control may cap the best answer this control can take
+  const violatedCap = await findViolatedCascadeCap(ctx.assessmentId, control.id, answer);
+  if (violatedCap) {
+    return {
+      status: 400,
+      code: 'CASCADE_CONSTRAINT',
+      error: `${violatedCap.parentControlId} was answered ${violatedCap.parentAnswer}, so this control cannot be answered better than ${violatedCap.forcedAnswer}. ${violatedCap.reason}`,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Validates and stores one answer, then runs its side effects: revision
+ * history, dependency cascades, remediation tasks for gaps and the T.8
+ * transfer-suspension alert. Audit logging is left to the caller.
+ */
+export async function submitResponse(ctx: SubmissionContext, control: Control, input: ResponseInput): Promise<SubmissionResult> {
+  const normalized = normalizeInput(ctx.assessmentMode, input);
+  if ('error' in normalized) return { ok: false, rejection: normalized };
+  const rejection = await validateResponse(ctx, control, normalized);
+  if (rejection) return { ok: false, rejection };
+
+  const { answer, maturityLevel, naJustification, notes } = normalized;
+  const { assessmentId, orgId, userId } = ctx;
+  const pointsEarned = getPointsForResponse({ answer, maturityLevel }, control);
+
+  const previous = await prisma.response.findUnique({
+    where: { assessmentId_controlId: { assessmentId, controlId: control.id } },
+  });
+
+  let response;
+  if (previous) {
+    response = await prisma.response.update({
+      where: { id: previous.id },
+      data: {
+        answer,
+        maturityLevel,
+        naJustification: answer === 'NA' ? naJustification : null,
+        pointsEarned,
+        notes,
+        lastModifiedBy: userId,
+        lastModifiedAt: new Date(),
+        needsReconfirmation: false,
+      },
+    });
+  } else {
+    response = await prisma.response.create({
+      data: {
+        assessmentId,
+        controlId: control.id,
+        answer,
+        maturityLevel,
+        naJustification: answer === 'NA' ? naJustification : null,
+        pointsEarned,
+        notes,
+        answeredBy: userId,
+      },
+    });
+  }
+  await recordResponseRevision(response, userId, ctx.changeSource);
+
+  // Cross-control dependencies (e.g. Rule 7: G.3 answered NO → G.12 and D.5 cascade gaps)
+  const cascade = await applyControlDependencies({
+    orgId,
+    assessmentId,
+    parentControlId: control.id,
+    answer,
+    userId,
+    assessmentMode: ctx.assessmentMode,
+    pin: ctx.pin,
+    controlSnapshot: ctx.controlSnapshot,
+    amendedControlIds: ctx.amendedControlIds,
+  });
+
+  // Auto-create remediation task for NO or PARTIAL; in maturity mode only below the control's target level
+  const belowTarget = maturityLevel == null || maturityLevel < control.targetMaturity;
+  if ((answer === 'NO' || answer === 'PARTIAL') && belowTarget) {
+    await ensureRemediationTask({
+      orgId,
+      assessmentId,
+      control,
+      gapType: answer === 'NO' ? 'GAP' : 'PARTIAL',
+    });
+  }
+
+  // T.8 auto-alert: if T.8 sub-question answered YES
+  if (control.id.startsWith('PDPL-T.8') && answer === 'YES') {
+    await prisma.remediationTask.create({
+      data: {
+        orgId,
+        assessmentId,
+        controlId: control.id,
+        gapType: 'GAP',
+        riskLevel: 'CRITICAL',
+        title: `URGENT: Transfer suspension required — ${control.id}`,
+        status: 'OPEN',
+        legalBasis: 'Transfer Reg. Art. 7',
+        deadline: new Date(),
+        evidenceRequiredForClosure: true,
+      },
+    });
+  }
+
+  return { ok: true, response, previous, pointsEarned, cascade };
+}
@@ -0,0 +1,98 @@
+import { prisma } from '../index';
+import { notifyUsers } from './notifications';
+
+export const COMMENT_KINDS = ['COMMENT', 'CHANGE_REQUEST', 'ACCEPT'] as const;
+export type CommentKind = typeof COMMENT_KINDS[number];
+
+const MENTION_PATTERN = /@([\w.+-]+@[\w-]+(?:\.[\w-]+)+)/g;
+
+/**
+ * Resolves @email mentions in a comment body to active users of the same
+ * organization. Unknown addresses are ignored.
+ */
+export async function resolveMentions(orgId: string, body: string): Promise<string[]> {
+  const emails = Array.from(body.matchAll(MENTION_PATTERN), m => m[1].toLowerCase());
+  if (emails.length === 0) return [];
+  const users = await prisma.user.findMany({
+    where: { orgId, email: { in: emails, mode: 'insensitive' }, isActive: true, isDeleted: false },
+    select: { id: true },
+  });
+  return users.map(u => u.id);
+}
+
+interface AddCommentInput {
+  orgId: string;
+  assessmentId: string;
+  assessmentVersion: number;
+  controlId: string;
+  authorId: string;
+  kind: CommentKind;
+  body: string;
+  parentId?: string | null;
+}
+
+/**
+ * Adds a comment to a control's review thread. CHANGE_REQUEST opens a review
+ * item; ACCEPT resolves every open change request on the control. Mentioned
+ * users and, for change requests, the response's author are notified.
+ */
+export async function addReviewComment(input: AddCommentInput) {
+  const mentions = await resolveMentions(input.orgId, input.body);
+
+  const comment = await prisma.reviewComment.create({
+    data: {
+      assessmentId: input.assessmentId,
+      controlId: input.controlId,
+      parentId: input.parentId || null,
+      authorId: input.authorId,
+      kind: input.kind,
+      body: input.body,
+      mentions,
+      status: input.kind === 'CHANGE_REQUEST' ? 'OPEN' : null,
+    },
+    include: { author: { select: { firstName: true, lastName: true, email: true } } },
+  });
+
+  let resolvedCount = 0;
+  if (input.kind === 'ACCEPT') {
+    const { count } = await prisma.reviewComment.updateMany({
+      where: { assessmentId: input.assessmentId, controlId: input.controlId, kind: 'CHANGE_REQUEST', status: 'OPEN' },
+      data: { status: 'RESOLVED', resolvedBy: input.authorId, resolvedAt: new Date() },
+    });
+    resolvedCount = count;
+  }
+
+  const link = `/assessments/${input.assessmentId}`;
+  const authorName = `${comment.author.firstName} ${comment.author.lastName}`;
+  await notifyUsers(input.orgId, mentions, {
+    type: 'REVIEW_MENTION',
+    title: `${authorName} mentioned you on ${input.controlId} (Assessment v${input.assessmentVersion})`,
+    body: input.body,
+    link,
+  }, input.authorId);
+
+  if (input.kind === 'CHANGE_REQUEST') {
+    const response = await prisma.response.findUnique({
+      where: { assessmentId_controlId: { assessmentId: input.assessmentId, controlId: input.controlId } },
+      select: { answeredBy: true, lastModifiedBy: true },
+    });
+    if (response) {
+      await notifyUsers(input.orgId, [response.lastModifiedBy || response.answeredBy], {
+        type: 'CHANGE_REQUESTED',
+        title: `${authorName} requested a change to ${input.controlId} (Assessment v${input.assessmentVersion})`,
+        body: input.body,
+        link,
+      }, input.authorId);
+    }
+  }
+
+  return { comment, resolvedCount };
+}
+
+export async function getOpenChangeRequests(assessmentId: string) {
+  return prisma.reviewComment.findMany({
+    where: { assessmentId, kind: 'CHANGE_REQUEST', status: 'OPEN' },
+    include: { author: { select: { firstName: true, lastName: true, email: true } } },
+    orderBy: { createdAt: 'asc' },
+  });
+}
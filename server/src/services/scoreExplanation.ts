@@ -0,0 +1,148 @@
+import { prisma } from '../index';
+import { withControlSnapshot } from './controlSnapshot';
+import { loadLibraryPin, withLibraryPin } from './libraryPin';
+
+const RISK_ORDER = ['CRITICAL', 'HIGH', 'MEDIUM', 'LOW'];
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export interface LostPointsItem {
+  controlId: string;
+  ref: string;
+  objectiveEn: string;
+  source: string;
+  domainNumber: number;
+  domainName: string;
+  riskLevel: string;
+  answer: string;
+  pointsAvailable: number;
+  pointsEarned: number;
+  pointsLost: number;
+  // Percentage points the overall / domain score would rise if this control were fully implemented
+  overallGain: number;
+  domainGain: number;
+  task: { id: string; status: string; deadline: Date; title: string } | null;
+}
+
+interface LostPointsGroup {
+  pointsLost: number;
+  overallGain: number;
+  controlCount: number;
+}
+
+/**
+ * Ranks every answered control by weighted points lost
+ * (pointsYes × weightMultiplier − earned) with the marginal score gain from
+ * fixing it, grouped by domain and risk. N/A answers and custom controls kept
+ * out of the score never lose points. Each item links to the control's open
+ * remediation task.
+ */
+export async function explainScore(assessmentId: string, orgId: string) {
+  const [assessment, org, tasks] = await Promise.all([
+    prisma.assessment.findFirst({
+      where: { id: assessmentId, orgId, isDeleted: false },
+      include: { responses: { include: { control: true } } },
+    }),
+    prisma.organization.findUnique({ where: { id: orgId } }),
+    prisma.remediationTask.findMany({
+      where: { assessmentId, orgId, isDeleted: false, status: { not: 'CLOSED' } },
+      orderBy: { createdAt: 'asc' },
+      select: { id: true, controlId: true, status: true, deadline: true, title: true },
+    }),
+  ]);
+  if (!assessment || !org) {
+    throw new Error(`Assessment ${assessmentId} not found`);
+  }
+
+  const taskByControl = new Map<string, typeof tasks[number]>();
+  for (const t of tasks) {
+    if (!taskByControl.has(t.controlId)) taskByControl.set(t.controlId, t);
+  }
+
+  const pin = await loadLibraryPin(org);
+  const scored = withControlSnapshot(withLibraryPin(assessment.responses, pin), assessment.controlSnapshot)
+    .filter(r => r.answer !== 'NA' && r.control.includeInScore);
+  const domainTotals = new Map<number, number>();
+  let totalAvailable = 0;
+  let totalEarned = 0;
+  for (const r of scored) {
+    const weight = Number(r.control.weightMultiplier);
+    totalAvailable += r.control.pointsYes * weight;
+    totalEarned += Number(r.pointsEarned) * weight;
+    domainTotals.set(r.control.domainNumber, (domainTotals.get(r.control.domainNumber) || 0) + r.control.pointsYes * weight);
+  }
+
+  const items: LostPointsItem[] = [];
+  for (const r of scored) {
+    const weight = Number(r.control.weightMultiplier);
+    const pointsAvailable = r.control.pointsYes * weight;
+    const pointsEarned = Number(r.pointsEarned) * weight;
+    const pointsLost = pointsAvailable - pointsEarned;
+    if (pointsLost <= 0) continue;
+    const domainTotal = domainTotals.get(r.control.domainNumber) || 0;
+    const task = taskByControl.get(r.controlId);
+    items.push({
+      controlId: r.controlId,
+      ref: r.control.ref,
+      objectiveEn: r.control.objectiveEn,
+      source: r.control.source,
+      domainNumber: r.control.domainNumber,
+      domainName: r.control.domainName,
+      riskLevel: r.control.riskLevel,
+      answer: r.answer,
+      pointsAvailable: round2(pointsAvailable),
+      pointsEarned: round2(pointsEarned),
+      pointsLost: round2(pointsLost),
+      overallGain: totalAvailable > 0 ? round2((pointsLost / totalAvailable) * 100) : 0,
+      domainGain: domainTotal > 0 ? round2((pointsLost / domainTotal) * 100) : 0,
+      task: task ? { id: task.id, status: task.status, deadline: task.deadline, title: task.title } : null,
+    });
+  }
+  items.sort((a, b) =>
+    b.pointsLost - a.pointsLost || RISK_ORDER.indexOf(a.riskLevel) - RISK_ORDER.indexOf(b.riskLevel) || a.controlId.localeCompare(b.controlId)
+  );
+
+  const group = <K>(keyOf: (i: LostPointsItem) => K) => {
+    const groups = new Map<K, LostPointsGroup>();
+    for (const item of items) {
+      const g = groups.get(keyOf(item)) || { pointsLost: 0, overallGain: 0, controlCount: 0 };
+      g.pointsLost += item.pointsLost;
+      g.overallGain += item.overallGain;
+      g.controlCount++;
+      groups.set(keyOf(item), g);
+    }
+    return groups;
+  };
+
+  const byDomain = [...group(i => i.domainNumber).entries()]
+    .map(([domainNumber, g]) => ({
+      domainNumber,
+      domainName: items.find(i => i.domainNumber === domainNumber)!.domainName,
+      pointsLost: round2(g.pointsLost),
+      overallGain: round2(g.overallGain),
+      controlCount: g.controlCount,
+    }))
+    .sort((a, b) => b.pointsLost - a.pointsLost);
+
+  const byRisk = [...group(i => i.riskLevel).entries()]
+    .map(([riskLevel, g]) => ({
+      riskLevel,
+      pointsLost: round2(g.pointsLost),
+      overallGain: round2(g.overallGain),
+      controlCount: g.controlCount,
+    }))
+    .sort((a, b) => RISK_ORDER.indexOf(a.riskLevel) - RISK_ORDER.indexOf(b.riskLevel));
+
+  return {
+    assessmentId,
+    assessmentVersion: assessment.assessmentVersion,
+    status: assessment.status,
+    overallScore: totalAvailable > 0 ? round2((totalEarned / totalAvailable) * 100) : 0,
+    totalPointsAvailable: round2(totalAvailable),
+    totalPointsEarned: round2(totalEarned),
+    totalPointsLost: round2(totalAvailable - totalEarned),
+    items,
+    byDomain,
+    byRisk,
+  };
+}
@@ -0,0 +1,122 @@
+import { prisma } from '../index';
+import { getApplicableControls } from './branchingRules';
+import { checkMandatoryAnswer } from './mandatoryControls';
+import { calculateScores, toControlScores, getPointsForResponse, answerForMaturity, ScoreResult } from './scoring';
+import { ANSWERS } from './responseSubmission';
+import { countsTowardsScore, frozenControl, withControlSnapshot } from './controlSnapshot';
+import { withLibraryPin } from './libraryPin';
+
+export interface AnswerChange {
+  controlId: string;
+  answer: string;
+  // Maturity-mode changes may give a 0–5 level instead; the answer is then derived from it
+  maturityLevel?: number | null;
+}
+
+export interface RejectedChange extends AnswerChange {
+  reason: string;
+}
+
+export interface ScorePreview {
+  assessmentId: string;
+  status: string;
+  answeredCount: number;
+  totalApplicable: number;
+  current: ScoreResult;
+  projected: ScoreResult | null;
+  overallDelta: number | null;
+  appliedChanges: AnswerChange[];
+  rejectedChanges: RejectedChange[];
+}
+
+/**
+ * Scores an assessment's responses as they stand, optionally with
+ * hypothetical answer changes layered on top. Nothing is persisted; changes
+ * to non-applicable controls, invalid answers and N/A on mandatory controls
+ * are reported back instead of being applied.
+ */
+export async function previewScores(assessmentId: string, orgId: string, changes: AnswerChange[] = []): Promise<ScorePreview> {
+  const [assessment, org] = await Promise.all([
+    prisma.assessment.findFirst({
+      where: { id: assessmentId, orgId, isDeleted: false },
+      include: { responses: { include: { control: true } } },
+    }),
+    prisma.organization.findUnique({ where: { id: orgId } }),
+  ]);
+  if (!assessment || !org) {
+    throw new Error(`Assessment ${assessmentId} not found`);
+  }
+
+  const { branchingResult, controls, pin } = await getApplicableControls(org);
+  const controlMap = new Map(controls.map(c => [c.id, c]));
+  // Finalized assessments are scored against their frozen control definitions, drafts against the org's release;
+  // answers that finalization would not count are left out so `current` matches the stored score
+  const responses = withControlSnapshot(withLibraryPin(assessment.responses, pin), assessment.controlSnapshot)
+    .filter(r => countsTowardsScore(r, assessment.controlSnapshot));
+  const current = calculateScores(toControlScores(responses));
+
+  const projectedResponses = new Map<string, Parameters<typeof toControlScores>[0][number]>(
+    responses.map(r => [r.controlId, r]),
+  );
+  const appliedChanges: AnswerChange[] = [];
+  const rejectedChanges: RejectedChange[] = [];
+  for (const change of changes) {
+    const liveControl = controlMap.get(change.controlId);
+    if (!liveControl) {
+      rejectedChanges.push({ ...change, reason: 'Control is not applicable to this organization' });
+      continue;
+    }
+    const control = frozenControl(liveControl, liveControl.id, assessment.controlSnapshot);
+    const maturityLevel = change.answer !== 'NA' && typeof change.maturityLevel === 'number' ? change.maturityLevel : null;
+    const answer = maturityLevel != null ? answerForMaturity(maturityLevel) : change.answer;
+    const reason = maturityLevel != null && (!Number.isInteger(maturityLevel) || maturityLevel < 0 || maturityLevel > 5)
+      ? 'Maturity level must be a whole number from 0 to 5'
+      : (ANSWERS as readonly string[]).includes(answer)
+        ? checkMandatoryAnswer(control.id, answer, branchingResult)
+        : 'Answer must be YES, PARTIAL, NO, or NA';
+    if (reason) {
+      rejectedChanges.push({ ...change, reason });
+      continue;
+    }
+    projectedResponses.set(control.id, {
+      controlId: control.id,
+      answer,
+      pointsEarned: getPointsForResponse({ answer, maturityLevel }, control),
+      control,
+    });
+    appliedChanges.push(change);
+  }
+
+  const projected = changes.length > 0 ? calculateScores(toControlScores([...projectedResponses.values()])) : null;
+
+  return {
+    assessmentId,
+    status: assessment.status,
+    answeredCount: responses.length,
+    totalApplicable: controls.length,
+    current,
+    projected,
+    overallDelta: projected ? Math.round((projected.overallScore - current.overallScore) * 100) / 100 : null,
+    appliedChanges,
+    rejectedChanges,
+  };
+}
+
+/**
+ * What-if changes for closing remediation tasks: each task's control is
+ * treated as fully implemented. Defaults to every task on the assessment
+ * that is not yet closed.
+ */
+export async function changesForClosingTasks(assessmentId: string, orgId: string, taskIds?: string[]): Promise<AnswerChange[]> {
+  const tasks = await prisma.remediationTask.findMany({
+    where: {
+      assessmentId,
+      orgId,
+      isDeleted: false,
+      status: { not: 'CLOSED' },
+      ...(taskIds ? { id: { in: taskIds } } : {}),
+    },
+    select: { controlId: true },
+  });
+  return [...new Set(tasks.map(t => t.controlId))].map(controlId => ({ controlId, answer: 'YES' }));
+}
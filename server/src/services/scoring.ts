@@ -1,17 +1,21 @@
 import { Decimal } from '@prisma/client/runtime/library';
 
-interface ControlScore {
+export interface ControlScore {
   controlId: string;
+  source: string;
   domainNumber: number;
+  domainName?: string;
   riskLevel: string;
   answer: string;
   pointsYes: number;
   pointsPartial: number;
   pointsEarned: number;
   weightMultiplier: number;
+  // Custom controls can be kept out of the regulatory score
+  includeInScore?: boolean;
 }
 
-interface DomainScore {
+export interface DomainScore {
   domainNumber: number;
   domainName: string;
   totalPoints: number;
@@ -22,7 +26,22 @@ interface DomainScore {
   partialCount: number;
 }
 
-interface ScoreResult {
+export interface SourceScore {
+  source: string;
+  sourceName: string;
+  totalPoints: number;
+  earnedPoints: number;
+  percentage: number;
+  controlCount: number;
+  gapCount: number;
+  partialCount: number;
+  criticalGaps: number;
+  highGaps: number;
+  mediumGaps: number;
+  lowGaps: number;
+}
+
+export interface ScoreResult {
   overallScore: number;
   totalControlsAssessed: number;
   criticalGaps: number;
@@ -30,6 +49,7 @@ interface ScoreResult {
   mediumGaps: number;
   lowGaps: number;
   domainScores: DomainScore[];
+  sourceScores: SourceScore[];
 }
 
 const DOMAIN_NAMES: Record<number, string> = {
@@ -45,9 +65,19 @@ const DOMAIN_NAMES: Record<number, string> = {
   10: 'MoH Health Sector Controls',
 };
 
+export const SOURCE_NAMES: Record<string, string> = {
+  PDPL: 'PDPL',
+  NCA_ECC: 'NCA ECC',
+  MOH: 'MoH',
+  CUSTOM: 'Internal',
+};
+
+// Ordinal rank of answers from worst to best (N/A is not ranked)
+export const ANSWER_RANK: Record<string, number> = { NO: 0, PARTIAL: 1, YES: 2 };
+
 export function calculateScores(controlScores: ControlScore[]): ScoreResult {
-  // Filter out N/A
-  const assessed = controlScores.filter(c => c.answer !== 'NA');
+  // Filter out N/A and custom controls excluded from the score
+  const assessed = controlScores.filter(c => c.answer !== 'NA' && c.includeInScore !== false);
 
   let totalPointsAvailable = 0;
   let totalPointsEarned = 0;
@@ -63,6 +93,8 @@ export function calculateScores(controlScores: ControlScore[]): ScoreResult {
     gapCount: number;
     partialCount: number;
   }>();
+  const sourceMap = new Map<string, Omit<SourceScore, 'source' | 'sourceName' | 'percentage'>>();
+  const customDomainNames = new Map<number, string>();
 
   for (const cs of assessed) {
     const maxPoints = cs.pointsYes * cs.weightMultiplier;
@@ -87,19 +119,42 @@ export function calculateScores(controlScores: ControlScore[]): ScoreResult {
         totalPoints: 0, earnedPoints: 0, controlCount: 0, gapCount: 0, partialCount: 0,
       });
     }
+    if (cs.domainName && !DOMAIN_NAMES[cs.domainNumber]) customDomainNames.set(cs.domainNumber, cs.domainName);
     const domain = domainMap.get(cs.domainNumber)!;
     domain.totalPoints += maxPoints;
     domain.earnedPoints += earned;
     domain.controlCount++;
     if (cs.answer === 'NO') domain.gapCount++;
     if (cs.answer === 'PARTIAL') domain.partialCount++;
+
+    // Framework (regulatory source) scores
+    if (!sourceMap.has(cs.source)) {
+      sourceMap.set(cs.source, {
+        totalPoints: 0, earnedPoints: 0, controlCount: 0, gapCount: 0, partialCount: 0,
+        criticalGaps: 0, highGaps: 0, mediumGaps: 0, lowGaps: 0,
+      });
+    }
+    const source = sourceMap.get(cs.source)!;
+    source.totalPoints += maxPoints;
+    source.earnedPoints += earned;
+    source.controlCount++;
+    if (cs.answer === 'PARTIAL') source.partialCount++;
+    if (cs.answer === 'NO') {
+      source.gapCount++;
+      switch (cs.riskLevel) {
+        case 'CRITICAL': source.criticalGaps++; break;
+        case 'HIGH': source.highGaps++; break;
+        case 'MEDIUM': source.mediumGaps++; break;
+        case 'LOW': source.lowGaps++; break;
+      }
+    }
   }
 
   const domainScores: DomainScore[] = [];
   for (const [num, data] of domainMap.entries()) {
     domainScores.push({
       domainNumber: num,
-      domainName: DOMAIN_NAMES[num] || `Domain ${num}`,
+      domainName: DOMAIN_NAMES[num] || customDomainNames.get(num) || `Domain ${num}`,
       totalPoints: data.totalPoints,
       earnedPoints: data.earnedPoints,
       percentage: data.totalPoints > 0 ? Math.round((data.earnedPoints / data.totalPoints) * 10000) / 100 : 0,
@@ -111,6 +166,16 @@ export function calculateScores(controlScores: ControlScore[]): ScoreResult {
 
   domainScores.sort((a, b) => a.domainNumber - b.domainNumber);
 
+  const sourceOrder = Object.keys(SOURCE_NAMES);
+  const sourceScores: SourceScore[] = [...sourceMap.entries()]
+    .map(([source, data]) => ({
+      source,
+      sourceName: SOURCE_NAMES[source] || source,
+      ...data,
+      percentage: data.totalPoints > 0 ? Math.round((data.earnedPoints / data.totalPoints) * 10000) / 100 : 0,
+    }))
+    .sort((a, b) => sourceOrder.indexOf(a.source) - sourceOrder.indexOf(b.source));
+
   const overallScore = totalPointsAvailable > 0
     ? Math.round((totalPointsEarned / totalPointsAvailable) * 10000) / 100
     : 0;
@@ -123,9 +188,42 @@ export function calculateScores(controlScores: ControlScore[]): ScoreResult {
     mediumGaps,
     lowGaps,
     domainScores,
+    sourceScores,
+  };
+}
+
+interface ScoredResponse {
+  controlId: string;
+  answer: string;
+  pointsEarned: unknown;
+  control: {
+    source: string;
+    domainNumber: number;
+    domainName?: string;
+    riskLevel: string;
+    pointsYes: number;
+    pointsPartial: number;
+    weightMultiplier: unknown;
+    includeInScore?: boolean;
   };
 }
 
+export function toControlScores(responses: ScoredResponse[]): ControlScore[] {
+  return responses.map(r => ({
+    controlId: r.controlId,
+    source: r.control.source,
+    domainNumber: r.control.domainNumber,
+    domainName: r.control.domainName,
+    riskLevel: r.control.riskLevel,
+    answer: r.answer,
+    pointsYes: r.control.pointsYes,
+    pointsPartial: r.control.pointsPartial,
+    pointsEarned: Number(r.pointsEarned),
+    weightMultiplier: Number(r.control.weightMultiplier),
+    includeInScore: r.control.includeInScore,
+  }));
+}
+
 export function getPointsForAnswer(answer: string, pointsYes: number, pointsPartial: number): number {
   switch (answer) {
     case 'YES': return pointsYes;
@@ -136,6 +234,52 @@ export function getPointsForAnswer(answer: string, pointsYes: number, pointsPart
   }
 }
 
+// CMMI-style maturity scale used by MATURITY-mode assessments
+export const MATURITY_LEVELS: Record<number, string> = {
+  0: 'Non-existent',
+  1: 'Initial',
+  2: 'Repeatable',
+  3: 'Defined',
+  4: 'Managed',
+  5: 'Optimized',
+};
+
+/**
+ * Maturity points: level 1 earns pointsPartial, level 5 earns pointsYes and
+ * levels in between are interpolated linearly; level 0 earns nothing.
+ */
+export function getPointsForMaturity(level: number, pointsYes: number, pointsPartial: number): number {
+  if (level <= 0) return 0;
+  const step = (Math.min(level, 5) - 1) / 4;
+  return Math.round((pointsPartial + (pointsYes - pointsPartial) * step) * 100) / 100;
+}
+
+// Answer recorded alongside a maturity level so gap counts, cascades and remediation keep working
+export function answerForMaturity(level: number): 'YES' | 'PARTIAL' | 'NO' {
+  if (level <= 0) return 'NO';
+  return level >= 5 ? 'YES' : 'PARTIAL';
+}
+
+// Points-preserving level for a YES/PARTIAL/NO answer (used when carrying standard answers into maturity mode)
+export function maturityForAnswer(answer: string): number | null {
+  switch (answer) {
+    case 'YES': return 5;
+    case 'PARTIAL': return 1;
+    case 'NO': return 0;
+    default: return null;
+  }
+}
+
+export function getPointsForResponse(
+  response: { answer: string; maturityLevel?: number | null },
+  control: { pointsYes: number; pointsPartial: number },
+): number {
+  if (response.answer !== 'NA' && response.maturityLevel != null) {
+    return getPointsForMaturity(response.maturityLevel, control.pointsYes, control.pointsPartial);
+  }
+  return getPointsForAnswer(response.answer, control.pointsYes, control.pointsPartial);
+}
+
 export function getDefaultDeadlineDays(riskLevel: string): number {
   switch (riskLevel) {
     case 'CRITICAL': return 30;
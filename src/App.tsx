@@ -10,8 +10,12 @@ import Dashboard from './pages/Dashboard';
 import Organization from './pages/Organization';
 import Assessments from './pages/Assessments';
 import AssessmentDetail from './pages/AssessmentDetail';
+import AssessmentCompare from './pages/AssessmentCompare';
+import ScoreExplanation from './pages/ScoreExplanation';
+import MyQuestions from './pages/MyQuestions';
 import Remediation from './pages/Remediation';
 import Controls from './pages/Controls';
+import Crosswalk from './pages/Crosswalk';
 import Evidence from './pages/Evidence';
 import Training from './pages/Training';
 import Reports from './pages/Reports';
@@ -39,9 +43,13 @@ export default function App() {
           <Route path="dashboard" element={<Dashboard />} />
           <Route path="organization" element={<Organization />} />
           <Route path="assessments" element={<Assessments />} />
+          <Route path="assessments/compare" element={<AssessmentCompare />} />
           <Route path="assessments/:id" element={<AssessmentDetail />} />
+          <Route path="assessments/:id/score" element={<ScoreExplanation />} />
+          <Route path="my-questions" element={<MyQuestions />} />
           <Route path="remediation" element={<Remediation />} />
           <Route path="controls" element={<Controls />} />
+          <Route path="crosswalk" element={<Crosswalk />} />
           <Route path="evidence" element={<Evidence />} />
           <Route path="training" element={<Training />} />
           <Route path="reports" element={<Reports />} />
@@ -0,0 +1,194 @@
+import { useState } from 'react';
+import api from '../lib/api';
+import toast from 'react-hot-toast';
+import { FilePen, Plus, Trash2, Check, X } from 'lucide-react';
+import clsx from 'clsx';
+
+interface ProposedChange {
+  controlId: string;
+  answer?: string;
+  maturityLevel?: number;
+  naJustification?: string;
+  notes?: string;
+}
+
+export interface Amendment {
+  id: string;
+  reason: string;
+  proposedChanges: ProposedChange[];
+  status: 'PENDING' | 'APPROVED' | 'REJECTED' | 'APPLIED';
+  decisionNote: string | null;
+  originalScore: string | null;
+  amendedScore: string | null;
+  createdAt: string;
+  decidedAt: string | null;
+  appliedAt: string | null;
+  requester: { firstName: string; lastName: string };
+  decider: { firstName: string; lastName: string } | null;
+}
+
+interface Props {
+  assessmentId: string;
+  status: string;
+  maturityMode: boolean;
+  controls: { id: string; ref: string }[];
+  amendments: Amendment[];
+  canRequest: boolean;
+  canDecide: boolean;
+  onChange: () => void;
+}
+
+const statusColors: Record<Amendment['status'], string> = {
+  PENDING: 'bg-yellow-100 text-yellow-800',
+  APPROVED: 'bg-blue-100 text-blue-800',
+  REJECTED: 'bg-gray-100 text-gray-700',
+  APPLIED: 'bg-green-100 text-green-800',
+};
+
+const emptyChange = { controlId: '', value: '', naJustification: '' };
+
+export default function AmendmentsPanel({ assessmentId, status, maturityMode, controls, amendments, canRequest, canDecide, onChange }: Props) {
+  const [reason, setReason] = useState('');
+  const [changes, setChanges] = useState([{ ...emptyChange }]);
+  const [submitting, setSubmitting] = useState(false);
+  const hasOpen = amendments.some(a => a.status === 'PENDING' || a.status === 'APPROVED');
+
+  const updateChange = (idx: number, field: keyof typeof emptyChange, value: string) => {
+    setChanges(changes.map((c, i) => (i === idx ? { ...c, [field]: value } : c)));
+  };
+
+  const submit = async () => {
+    setSubmitting(true);
+    try {
+      await api.post(`/assessments/${assessmentId}/amendments`, {
+        reason,
+        changes: changes.filter(c => c.controlId && c.value).map(c => ({
+          controlId: c.controlId,
+          ...(maturityMode && c.value !== 'NA' ? { maturityLevel: Number(c.value) } : { answer: c.value }),
+          naJustification: c.value === 'NA' ? c.naJustification : undefined,
+        })),
+      });
+      setReason('');
+      setChanges([{ ...emptyChange }]);
+      toast.success('Amendment requested — the DPO has been notified');
+      onChange();
+    } catch (err: any) {
+      toast.error(err.response?.data?.error || 'Failed to request amendment');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const decide = async (amendment: Amendment, approve: boolean) => {
+    const note = approve ? '' : prompt('Reason for rejecting this amendment:');
+    if (!approve && !note) return;
+    try {
+      const { data } = await api.post(`/assessments/${assessmentId}/amendments/${amendment.id}/decision`, { approve, note });
+      if (approve) {
+        toast.success(data.failed.length
+          ? `Approved: ${data.applied.length} change(s) applied, ${data.failed.length} need correcting`
+          : 'Approved — assessment reopened for amendment');
+      } else {
+        toast.success('Amendment rejected');
+      }
+      onChange();
+    } catch (err: any) {
+      toast.error(err.response?.data?.error || 'Failed to record decision');
+    }
+  };
+
+  const describe = (c: ProposedChange) => (c.maturityLevel != null ? `L${c.maturityLevel}` : c.answer);
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-5 space-y-4">
+      <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+        <FilePen className="w-5 h-5 text-primary-600" />
+        Amendments
+      </h3>
+
+      {amendments.length === 0 && <p className="text-sm text-gray-500">No amendments have been requested.</p>}
+      {amendments.map(a => (
+        <div key={a.id} className="border border-gray-200 rounded-lg p-3 text-sm">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className={clsx('px-2 py-0.5 rounded-full text-xs font-medium', statusColors[a.status])}>{a.status}</span>
+            <span className="text-gray-600">
+              {a.requester.firstName} {a.requester.lastName} · {new Date(a.createdAt).toLocaleDateString()}
+            </span>
+            {a.originalScore != null && (
+              <span className="text-gray-600">
+                · Score {Math.round(Number(a.originalScore))}%
+                {a.amendedScore != null && <> → <span className="font-semibold text-gray-900">{Math.round(Number(a.amendedScore))}%</span></>}
+              </span>
+            )}
+            {canDecide && a.status === 'PENDING' && (
+              <div className="ml-auto flex gap-2">
+                <button onClick={() => decide(a, true)}
+                  className="flex items-center gap-1 px-2.5 py-1 rounded-lg bg-primary-600 text-white text-xs font-medium hover:bg-primary-700">
+                  <Check className="w-3.5 h-3.5" /> Approve
+                </button>
+                <button onClick={() => decide(a, false)}
+                  className="flex items-center gap-1 px-2.5 py-1 rounded-lg border border-gray-300 text-xs font-medium hover:bg-gray-50">
+                  <X className="w-3.5 h-3.5" /> Reject
+                </button>
+              </div>
+            )}
+          </div>
+          <p className="text-gray-700 mt-1">{a.reason}</p>
+          <p className="text-xs text-gray-500 mt-1">
+            {a.proposedChanges.map(c => `${c.controlId} → ${describe(c)}`).join(' · ')}
+          </p>
+          {a.decisionNote && (
+            <p className="text-xs text-gray-500 mt-1">
+              {a.decider && <>{a.decider.firstName} {a.decider.lastName}: </>}{a.decisionNote}
+            </p>
+          )}
+        </div>
+      ))}
+
+      {canRequest && status === 'FINALIZED' && !hasOpen && (
+        <div className="border-t border-gray-200 pt-4 space-y-3">
+          <h4 className="text-sm font-semibold text-gray-700">Request an amendment</h4>
+          {changes.map((c, idx) => (
+            <div key={idx} className="flex flex-wrap gap-2">
+              <select value={c.controlId} onChange={e => updateChange(idx, 'controlId', e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white w-56">
+                <option value="">Control…</option>
+                {controls.map(ctrl => <option key={ctrl.id} value={ctrl.id}>{ctrl.id} ({ctrl.ref})</option>)}
+              </select>
+              <select value={c.value} onChange={e => updateChange(idx, 'value', e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white">
+                <option value="">New answer…</option>
+                {maturityMode
+                  ? [0, 1, 2, 3, 4, 5].map(level => <option key={level} value={level}>Level {level}</option>)
+                  : ['YES', 'PARTIAL', 'NO'].map(answer => <option key={answer} value={answer}>{answer}</option>)}
+                <option value="NA">N/A</option>
+              </select>
+              {c.value === 'NA' && (
+                <input value={c.naJustification} onChange={e => updateChange(idx, 'naJustification', e.target.value)}
+                  placeholder="N/A justification (min 20 chars)"
+                  className="flex-1 min-w-48 px-3 py-2 border border-gray-300 rounded-lg text-sm" />
+              )}
+              {changes.length > 1 && (
+                <button onClick={() => setChanges(changes.filter((_, i) => i !== idx))}
+                  className="p-2 rounded text-gray-400 hover:text-red-600 hover:bg-red-50" title="Remove change">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          ))}
+          <button onClick={() => setChanges([...changes, { ...emptyChange }])}
+            className="flex items-center gap-1 text-xs text-primary-600 hover:underline">
+            <Plus className="w-3.5 h-3.5" /> Add another control
+          </button>
+          <textarea value={reason} onChange={e => setReason(e.target.value)} rows={2}
+            placeholder="Why does the finalized assessment need correcting? (minimum 20 characters, recorded in the audit log)"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 outline-none" />
+          <button onClick={submit} disabled={submitting || reason.trim().length < 20 || !changes.some(c => c.controlId && c.value)}
+            className="px-4 py-2 bg-primary-600 text-white rounded-lg text-sm font-medium hover:bg-primary-700 disabled:opacity-50">
+            {submitting ? 'Submitting...' : 'Submit for DPO approval'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import api from '../lib/api';
+import { useAuthStore } from '../stores/authStore';
+import { AlertTriangle, CalendarClock } from 'lucide-react';
+
+interface Cadence {
+  policyMonths: number | null;
+  lastFinalizedAt: string | null;
+  policyDueAt: string | null;
+  overdue: boolean;
+  daysOverdue: number | null;
+  nextDueAt: string | null;
+  schedules: { id: string; label: string; nextDueAt: string }[];
+}
+
+interface OverdueOrganization {
+  orgId: string;
+  name: string;
+  policyMonths: number;
+  lastFinalizedAt: string | null;
+  daysOverdue: number | null;
+}
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString();
+
+export default function AssessmentCadence() {
+  const { user } = useAuthStore();
+  const [cadence, setCadence] = useState<Cadence | null>(null);
+  const [overdueOrgs, setOverdueOrgs] = useState<OverdueOrganization[]>([]);
+
+  useEffect(() => {
+    api.get('/dashboard/assessment-cadence').then(r => setCadence(r.data)).catch(() => {});
+    if (user?.role === 'super_admin') {
+      api.get('/dashboard/overdue-organizations').then(r => setOverdueOrgs(r.data.data || [])).catch(() => {});
+    }
+  }, [user?.role]);
+
+  if (!cadence || (!cadence.policyMonths && !cadence.nextDueAt && overdueOrgs.length === 0)) return null;
+  const next = cadence.schedules[0];
+
+  return (
+    <div className="space-y-3">
+      {cadence.overdue && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start gap-3">
+          <AlertTriangle className="w-5 h-5 text-red-500 mt-0.5 shrink-0" />
+          <div>
+            <p className="text-sm font-semibold text-red-800">Reassessment overdue</p>
+            <p className="text-sm text-red-700 mt-1">
+              {cadence.lastFinalizedAt
+                ? <>The last assessment was finalized on {formatDate(cadence.lastFinalizedAt)}; policy requires reassessment every {cadence.policyMonths} months ({cadence.daysOverdue} days overdue).</>
+                : <>No assessment has been finalized yet; policy requires reassessment every {cadence.policyMonths} months.</>}
+            </p>
+          </div>
+        </div>
+      )}
+      {next && (
+        <div className="bg-white rounded-xl border border-gray-200 px-5 py-3 flex flex-wrap items-center gap-x-4 gap-y-1 text-sm">
+          <span className="flex items-center gap-2 font-medium text-gray-900">
+            <CalendarClock className="w-4 h-4 text-primary-600" />
+            Next assessment due {formatDate(next.nextDueAt)}
+          </span>
+          <span className="text-gray-500">{next.label}</span>
+          {!cadence.overdue && cadence.policyDueAt && (
+            <span className="text-gray-500">· Policy deadline {formatDate(cadence.policyDueAt)}</span>
+          )}
+          <Link to="/organization" className="ml-auto text-primary-600 font-medium hover:underline">Manage schedules</Link>
+        </div>
+      )}
+      {overdueOrgs.length > 0 && (
+        <div className="bg-white rounded-xl border border-gray-200 p-5">
+          <h3 className="text-sm font-semibold text-gray-900 mb-2">Organizations past their reassessment policy</h3>
+          <ul className="divide-y divide-gray-100 text-sm">
+            {overdueOrgs.map(o => (
+              <li key={o.orgId} className="py-2 flex justify-between">
+                <span className="font-medium text-gray-900">{o.name}</span>
+                <span className="text-red-600">
+                  {o.lastFinalizedAt ? `${o.daysOverdue} days overdue` : 'Never finalized'}
+                  <span className="text-gray-400"> · every {o.policyMonths} months</span>
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
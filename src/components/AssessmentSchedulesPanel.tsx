@@ -0,0 +1,155 @@
+import { useEffect, useState } from 'react';
+import api from '../lib/api';
+import toast from 'react-hot-toast';
+import { CalendarClock, Plus, Trash2 } from 'lucide-react';
+
+interface Schedule {
+  id: string;
+  domainNumber: number | null;
+  intervalMonths: number;
+  mode: string;
+  carryForward: boolean;
+  nextDueAt: string;
+  lastRunAt: string | null;
+  isActive: boolean;
+}
+
+interface Domain {
+  domainNumber: number;
+  domainName: string;
+}
+
+const emptyForm = { domainNumber: '', intervalMonths: '6', mode: 'STANDARD', carryForward: true };
+
+export default function AssessmentSchedulesPanel() {
+  const [schedules, setSchedules] = useState<Schedule[]>([]);
+  const [domains, setDomains] = useState<Domain[]>([]);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+
+  const load = () => {
+    api.get('/organizations/assessment-schedules').then(r => setSchedules(r.data.data || [])).catch(() => {});
+  };
+
+  useEffect(() => {
+    load();
+    api.get('/controls/applicable').then(r => setDomains(r.data.domains || [])).catch(() => {});
+  }, []);
+
+  const domainLabel = (domainNumber: number | null) => {
+    if (domainNumber == null) return 'Full assessment';
+    const domain = domains.find(d => d.domainNumber === domainNumber);
+    return `Domain ${domainNumber}${domain ? ` — ${domain.domainName}` : ''}`;
+  };
+
+  const addSchedule = async () => {
+    setSaving(true);
+    try {
+      await api.post('/organizations/assessment-schedules', {
+        domainNumber: form.domainNumber ? parseInt(form.domainNumber) : null,
+        intervalMonths: parseInt(form.intervalMonths),
+        mode: form.mode,
+        carryForward: form.domainNumber ? true : form.carryForward,
+      });
+      setForm(emptyForm);
+      load();
+      toast.success('Schedule added');
+    } catch (err: any) {
+      toast.error(err.response?.data?.error || 'Failed to add schedule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleActive = async (schedule: Schedule) => {
+    try {
+      await api.put(`/organizations/assessment-schedules/${schedule.id}`, { isActive: !schedule.isActive });
+      load();
+    } catch (err: any) {
+      toast.error(err.response?.data?.error || 'Failed to update schedule');
+    }
+  };
+
+  const removeSchedule = async (schedule: Schedule) => {
+    if (!confirm(`Remove the ${domainLabel(schedule.domainNumber).toLowerCase()} schedule? Assessments it opened are kept.`)) return;
+    try {
+      await api.delete(`/organizations/assessment-schedules/${schedule.id}`);
+      load();
+    } catch (err: any) {
+      toast.error(err.response?.data?.error || 'Failed to remove schedule');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-1 flex items-center gap-2">
+        <CalendarClock className="w-5 h-5 text-primary-600" />
+        Assessment Schedules
+      </h2>
+      <p className="text-sm text-gray-500 mb-4">
+        When a schedule comes due, a new draft of the organization-wide assessment is opened and the DPO is notified.
+        Domain schedules carry every answer forward and only ask for that domain to be reconfirmed.
+      </p>
+
+      {schedules.length > 0 && (
+        <table className="w-full text-sm mb-4">
+          <thead>
+            <tr className="text-left text-xs text-gray-500 border-b border-gray-200">
+              <th className="py-2 pr-3">Scope</th>
+              <th className="py-2 pr-3">Every</th>
+              <th className="py-2 pr-3">Next due</th>
+              <th className="py-2 pr-3">Active</th>
+              <th className="py-2 w-8" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {schedules.map(s => (
+              <tr key={s.id} className={s.isActive ? '' : 'text-gray-400'}>
+                <td className="py-2 pr-3 font-medium">
+                  {domainLabel(s.domainNumber)}
+                  {s.mode === 'MATURITY' && <span className="ml-2 text-xs text-purple-700">Maturity</span>}
+                  {!s.carryForward && <span className="ml-2 text-xs text-gray-500">Fresh start</span>}
+                </td>
+                <td className="py-2 pr-3">{s.intervalMonths} month{s.intervalMonths === 1 ? '' : 's'}</td>
+                <td className="py-2 pr-3">{new Date(s.nextDueAt).toLocaleDateString()}</td>
+                <td className="py-2 pr-3">
+                  <input type="checkbox" checked={s.isActive} onChange={() => toggleActive(s)} className="rounded" />
+                </td>
+                <td className="py-2">
+                  <button onClick={() => removeSchedule(s)} className="p-1 rounded text-gray-400 hover:text-red-600 hover:bg-red-50" title="Remove schedule">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+        <select value={form.domainNumber} onChange={e => setForm({ ...form, domainNumber: e.target.value })} className="input-field bg-white md:col-span-2">
+          <option value="">Full assessment</option>
+          {domains.map(d => <option key={d.domainNumber} value={d.domainNumber}>{domainLabel(d.domainNumber)}</option>)}
+        </select>
+        <select value={form.intervalMonths} onChange={e => setForm({ ...form, intervalMonths: e.target.value })} className="input-field bg-white">
+          {[1, 3, 6, 12, 24].map(m => <option key={m} value={m}>Every {m} month{m === 1 ? '' : 's'}</option>)}
+        </select>
+        <select value={form.mode} onChange={e => setForm({ ...form, mode: e.target.value })} className="input-field bg-white">
+          <option value="STANDARD">Standard</option>
+          <option value="MATURITY">Maturity 0–5</option>
+        </select>
+      </div>
+      {!form.domainNumber && (
+        <label className="flex items-center gap-2 mt-3 text-sm text-gray-700">
+          <input type="checkbox" checked={form.carryForward} onChange={e => setForm({ ...form, carryForward: e.target.checked })} className="rounded" />
+          Carry answers forward from the last finalized assessment
+        </label>
+      )}
+      <button onClick={addSchedule} disabled={saving}
+        className="mt-3 flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium hover:bg-gray-50 disabled:opacity-50">
+        <Plus className="w-4 h-4" />
+        {saving ? 'Adding...' : 'Add Schedule'}
+      </button>
+    </div>
+  );
+}
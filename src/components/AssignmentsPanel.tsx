@@ -0,0 +1,211 @@
+import { useEffect, useState } from 'react';
+import api from '../lib/api';
+import toast from 'react-hot-toast';
+import { Users, Trash2, Wand2 } from 'lucide-react';
+import clsx from 'clsx';
+
+export interface Assignment {
+  id: string;
+  scope: 'DOMAIN' | 'CONTROL';
+  domainNumber: number | null;
+  controlId: string | null;
+  assigneeUserId: string | null;
+  assigneeRole: string | null;
+  dueDate: string | null;
+  assigneeUser: { id: string; firstName: string; lastName: string; email: string } | null;
+  assigneeLabel: string;
+}
+
+interface ProgressRow {
+  label?: string;
+  domainNumber?: number;
+  domainName?: string;
+  assignee?: string;
+  total: number;
+  answered: number;
+  overdue?: number;
+  percentage: number;
+}
+
+export interface AssignmentProgress {
+  byAssignee: ProgressRow[];
+  byDomain: ProgressRow[];
+}
+
+interface OrgUser {
+  id: string;
+  firstName: string;
+  lastName: string;
+  role: string;
+}
+
+interface Props {
+  assessmentId: string;
+  controls: { id: string; ref: string; domainNumber: number; domainName: string }[];
+  assignments: Assignment[];
+  progress: AssignmentProgress | null;
+  canManage: boolean;
+  onChange: () => void;
+}
+
+const ROLE_OPTIONS = ['org_admin', 'dpo', 'ciso', 'cdo', 'compliance_officer', 'data_steward', 'data_custodian', 'department_manager', 'staff'];
+
+export default function AssignmentsPanel({ assessmentId, controls, assignments, progress, canManage, onChange }: Props) {
+  const [users, setUsers] = useState<OrgUser[]>([]);
+  const [scope, setScope] = useState<'DOMAIN' | 'CONTROL'>('DOMAIN');
+  const [target, setTarget] = useState('');
+  const [assignee, setAssignee] = useState('');
+  const [dueDate, setDueDate] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!canManage) return;
+    api.get('/organizations/users').then(r => setUsers(r.data.data || [])).catch(() => {});
+  }, [canManage]);
+
+  const domains = [...new Map(controls.map(c => [c.domainNumber, c.domainName])).entries()].sort((a, b) => a[0] - b[0]);
+
+  const assign = async () => {
+    if (!target || !assignee) {
+      toast.error('Choose what to assign and to whom');
+      return;
+    }
+    setSaving(true);
+    try {
+      const [kind, value] = assignee.split(':');
+      await api.post(`/assessments/${assessmentId}/assignments`, {
+        scope,
+        domainNumber: scope === 'DOMAIN' ? Number(target) : undefined,
+        controlId: scope === 'CONTROL' ? target : undefined,
+        assigneeUserId: kind === 'user' ? value : undefined,
+        assigneeRole: kind === 'role' ? value : undefined,
+        dueDate: dueDate || undefined,
+      });
+      toast.success('Assignment saved');
+      setTarget('');
+      onChange();
+    } catch (err: any) {
+      toast.error(err.response?.data?.error || 'Failed to save assignment');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const autoAssign = async () => {
+    try {
+      const { data } = await api.post(`/assessments/${assessmentId}/assignments/auto`, { dueDate: dueDate || undefined });
+      toast.success(`${data.created} controls assigned to their responsible roles`);
+      onChange();
+    } catch (err: any) {
+      toast.error(err.response?.data?.error || 'Auto-assign failed');
+    }
+  };
+
+  const remove = async (id: string) => {
+    try {
+      await api.delete(`/assessments/${assessmentId}/assignments/${id}`);
+      onChange();
+    } catch (err: any) {
+      toast.error(err.response?.data?.error || 'Failed to remove assignment');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-5 space-y-5">
+      <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+        <Users className="w-5 h-5 text-primary-600" /> Assignments & Progress
+      </h3>
+
+      {progress && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div>
+            <p className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">By assignee</p>
+            <div className="space-y-2">
+              {progress.byAssignee.map(p => (
+                <div key={p.label} className="text-sm">
+                  <div className="flex justify-between">
+                    <span className="text-gray-700">{p.label}</span>
+                    <span className="text-gray-500">
+                      {p.answered}/{p.total}
+                      {!!p.overdue && <span className="text-red-600 font-medium"> · {p.overdue} overdue</span>}
+                    </span>
+                  </div>
+                  <div className="h-1.5 bg-gray-100 rounded-full mt-1">
+                    <div className={clsx('h-1.5 rounded-full', p.percentage === 100 ? 'bg-green-500' : 'bg-primary-600')} style={{ width: `${p.percentage}%` }} />
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+          <div>
+            <p className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">By domain</p>
+            <div className="space-y-1">
+              {progress.byDomain.map(d => (
+                <div key={d.domainNumber} className="flex justify-between text-sm">
+                  <span className="text-gray-700 truncate">D{d.domainNumber}. {d.domainName}</span>
+                  <span className="text-gray-500 shrink-0 ml-2">{d.assignee} · {d.percentage}%</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {assignments.length > 0 && (
+        <div>
+          <p className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">Delegations</p>
+          <div className="divide-y divide-gray-100">
+            {assignments.map(a => (
+              <div key={a.id} className="flex items-center gap-3 py-2 text-sm">
+                <span className="text-xs bg-gray-100 text-gray-600 px-2 py-0.5 rounded">{a.scope}</span>
+                <span className="font-medium text-gray-900">{a.scope === 'DOMAIN' ? `Domain ${a.domainNumber}` : a.controlId}</span>
+                <span className="text-gray-600">→ {a.assigneeLabel}</span>
+                {a.dueDate && <span className="text-gray-400">due {new Date(a.dueDate).toLocaleDateString()}</span>}
+                {canManage && (
+                  <button onClick={() => remove(a.id)} className="ml-auto p-1 text-gray-400 hover:text-red-600">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {canManage && (
+        <div className="flex flex-wrap items-end gap-2 pt-2 border-t border-gray-100">
+          <select value={scope} onChange={e => { setScope(e.target.value as 'DOMAIN' | 'CONTROL'); setTarget(''); }}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white">
+            <option value="DOMAIN">Domain</option>
+            <option value="CONTROL">Control</option>
+          </select>
+          <select value={target} onChange={e => setTarget(e.target.value)} className="px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white max-w-xs">
+            <option value="">{scope === 'DOMAIN' ? 'Select domain…' : 'Select control…'}</option>
+            {scope === 'DOMAIN'
+              ? domains.map(([num, name]) => <option key={num} value={num}>D{num}. {name}</option>)
+              : controls.map(c => <option key={c.id} value={c.id}>{c.id} — {c.ref}</option>)}
+          </select>
+          <select value={assignee} onChange={e => setAssignee(e.target.value)} className="px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white">
+            <option value="">Assign to…</option>
+            <optgroup label="Users">
+              {users.map(u => <option key={u.id} value={`user:${u.id}`}>{u.firstName} {u.lastName} ({u.role})</option>)}
+            </optgroup>
+            <optgroup label="Roles">
+              {ROLE_OPTIONS.map(r => <option key={r} value={`role:${r}`}>{r.replace('_', ' ')}</option>)}
+            </optgroup>
+          </select>
+          <input type="date" value={dueDate} onChange={e => setDueDate(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm" />
+          <button onClick={assign} disabled={saving}
+            className="px-4 py-2 bg-primary-600 text-white rounded-lg text-sm font-medium hover:bg-primary-700 disabled:opacity-50">
+            Assign
+          </button>
+          <button onClick={autoAssign} title="Assign every undelegated control to its first responsible role"
+            className="flex items-center gap-1 px-3 py-2 border border-gray-300 rounded-lg text-sm font-medium hover:bg-gray-50">
+            <Wand2 className="w-4 h-4" /> Auto-assign by role
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,203 @@
+import { useEffect, useState } from 'react';
+import api from '../lib/api';
+import toast from 'react-hot-toast';
+import { Building2, Pencil, Plus, Trash2 } from 'lucide-react';
+import clsx from 'clsx';
+
+interface CustomControl {
+  id: string;
+  ref: string;
+  domainNumber: number;
+  domainName: string;
+  objectiveEn: string;
+  riskLevel: string;
+  pointsYes: number;
+  pointsPartial: number;
+  evidenceGuidanceEn: string | null;
+  includeInScore: boolean;
+  retiredAt: string | null;
+}
+
+const NEW_DOMAIN = 'new';
+const emptyForm = {
+  ref: '', domain: '', newDomainNumber: '', domainName: '', objectiveEn: '', riskLevel: 'MEDIUM',
+  pointsYes: '4', pointsPartial: '2', evidenceGuidanceEn: '', includeInScore: false,
+};
+
+export default function CustomControlsPanel({ libraryDomains, onChange }: {
+  libraryDomains: [number, string][];
+  onChange: () => void;
+}) {
+  const [controls, setControls] = useState<CustomControl[]>([]);
+  const [form, setForm] = useState(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const load = () => {
+    api.get('/controls/custom').then(r => setControls(r.data.data || [])).catch(() => {});
+  };
+
+  useEffect(load, []);
+
+  const isLibraryDomain = (domainNumber: number) => libraryDomains.some(([num]) => num === domainNumber);
+
+  const startEdit = (c: CustomControl) => {
+    const inLibrary = isLibraryDomain(c.domainNumber);
+    setForm({
+      ref: c.ref,
+      domain: inLibrary ? String(c.domainNumber) : NEW_DOMAIN,
+      newDomainNumber: inLibrary ? '' : String(c.domainNumber),
+      domainName: inLibrary ? '' : c.domainName,
+      objectiveEn: c.objectiveEn,
+      riskLevel: c.riskLevel,
+      pointsYes: String(c.pointsYes),
+      pointsPartial: String(c.pointsPartial),
+      evidenceGuidanceEn: c.evidenceGuidanceEn || '',
+      includeInScore: c.includeInScore,
+    });
+    setEditingId(c.id);
+    setShowForm(true);
+  };
+
+  const closeForm = () => {
+    setForm(emptyForm);
+    setEditingId(null);
+    setShowForm(false);
+  };
+
+  const save = async () => {
+    const newDomain = form.domain === NEW_DOMAIN;
+    const payload = {
+      domainNumber: parseInt(newDomain ? form.newDomainNumber : form.domain),
+      ...(newDomain ? { domainName: form.domainName } : {}),
+      objectiveEn: form.objectiveEn,
+      riskLevel: form.riskLevel,
+      pointsYes: parseInt(form.pointsYes),
+      pointsPartial: parseInt(form.pointsPartial),
+      evidenceGuidanceEn: form.evidenceGuidanceEn,
+      includeInScore: form.includeInScore,
+    };
+    setSaving(true);
+    try {
+      if (editingId) {
+        await api.put(`/controls/custom/${editingId}`, payload);
+        toast.success('Custom control updated');
+      } else {
+        await api.post('/controls/custom', { ref: form.ref, ...payload });
+        toast.success('Custom control added');
+      }
+      closeForm();
+      load();
+      onChange();
+    } catch (err: any) {
+      toast.error(err.response?.data?.error || 'Failed to save custom control');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const retire = async (c: CustomControl) => {
+    if (!confirm(`Retire ${c.ref}? It leaves new assessments; answers, tasks and evidence already recorded are kept.`)) return;
+    try {
+      await api.delete(`/controls/custom/${c.id}`);
+      load();
+      onChange();
+    } catch (err: any) {
+      toast.error(err.response?.data?.error || 'Failed to retire custom control');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-5">
+      <div className="flex items-center justify-between mb-1">
+        <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+          <Building2 className="w-5 h-5 text-primary-600" />
+          Custom Controls
+        </h3>
+        {!showForm && (
+          <button onClick={() => setShowForm(true)} className="flex items-center gap-1.5 text-sm text-primary-600 font-medium hover:underline">
+            <Plus className="w-4 h-4" /> Add control
+          </button>
+        )}
+      </div>
+      <p className="text-sm text-gray-500 mb-3">
+        Internal policy or CBAHI items assessed alongside the library. Only your organization sees them, and they count towards the
+        regulatory score only when you opt in.
+      </p>
+
+      {controls.length > 0 && (
+        <ul className="divide-y divide-gray-100 text-sm mb-3">
+          {controls.map(c => (
+            <li key={c.id} className={clsx('py-2 flex items-center gap-3', c.retiredAt && 'text-gray-400')}>
+              <span className="font-medium w-28 shrink-0 truncate">{c.ref}</span>
+              <span className="flex-1 min-w-0 truncate">{c.objectiveEn}</span>
+              <span className="text-xs text-gray-500 shrink-0">D{c.domainNumber} · {c.riskLevel} · {c.pointsYes}/{c.pointsPartial}</span>
+              <span className={clsx('text-xs shrink-0', c.includeInScore ? 'text-green-700' : 'text-gray-400')}>
+                {c.includeInScore ? 'Scored' : 'Not scored'}
+              </span>
+              {c.retiredAt ? (
+                <span className="text-xs shrink-0 w-14 text-right">Retired</span>
+              ) : (
+                <span className="flex gap-1 shrink-0 w-14 justify-end">
+                  <button onClick={() => startEdit(c)} className="p-1 rounded text-gray-400 hover:text-primary-600 hover:bg-gray-50" title="Edit">
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => retire(c)} className="p-1 rounded text-gray-400 hover:text-red-600 hover:bg-red-50" title="Retire">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {showForm && (
+        <div className="border-t border-gray-200 pt-3 space-y-2">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+            <input value={form.ref} onChange={e => setForm({ ...form, ref: e.target.value })} disabled={!!editingId}
+              placeholder="Ref, e.g. CBAHI-IM.3" className="input-field disabled:bg-gray-50" />
+            <select value={form.domain} onChange={e => setForm({ ...form, domain: e.target.value })} className="input-field bg-white md:col-span-3">
+              <option value="">Select domain…</option>
+              {libraryDomains.map(([num, name]) => <option key={num} value={num}>D{num}. {name}</option>)}
+              <option value={NEW_DOMAIN}>New internal domain…</option>
+            </select>
+          </div>
+          {form.domain === NEW_DOMAIN && (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+              <input type="number" min={1} max={99} value={form.newDomainNumber} onChange={e => setForm({ ...form, newDomainNumber: e.target.value })}
+                placeholder="Domain number" className="input-field" />
+              <input value={form.domainName} onChange={e => setForm({ ...form, domainName: e.target.value })}
+                placeholder="Domain name" className="input-field md:col-span-3" />
+            </div>
+          )}
+          <textarea value={form.objectiveEn} onChange={e => setForm({ ...form, objectiveEn: e.target.value })} rows={2}
+            placeholder="Control objective" className="input-field" />
+          <div className="grid grid-cols-3 gap-2">
+            <select value={form.riskLevel} onChange={e => setForm({ ...form, riskLevel: e.target.value })} className="input-field bg-white">
+              {['CRITICAL', 'HIGH', 'MEDIUM', 'LOW'].map(r => <option key={r} value={r}>{r}</option>)}
+            </select>
+            <input type="number" min={0} value={form.pointsYes} onChange={e => setForm({ ...form, pointsYes: e.target.value })}
+              placeholder="Points (Yes)" className="input-field" title="Points for Yes" />
+            <input type="number" min={0} value={form.pointsPartial} onChange={e => setForm({ ...form, pointsPartial: e.target.value })}
+              placeholder="Points (Partial)" className="input-field" title="Points for Partial" />
+          </div>
+          <input value={form.evidenceGuidanceEn} onChange={e => setForm({ ...form, evidenceGuidanceEn: e.target.value })}
+            placeholder="Evidence guidance (optional)" className="input-field" />
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input type="checkbox" checked={form.includeInScore} onChange={e => setForm({ ...form, includeInScore: e.target.checked })} className="rounded" />
+            Include in the regulatory score
+          </label>
+          <div className="flex gap-2">
+            <button onClick={save} disabled={saving || !form.ref.trim() || !form.domain || !form.objectiveEn.trim()}
+              className="px-4 py-2 rounded-lg bg-primary-600 text-white text-sm font-medium hover:bg-primary-700 disabled:opacity-50">
+              {saving ? 'Saving...' : editingId ? 'Save Changes' : 'Add Control'}
+            </button>
+            <button onClick={closeForm} className="px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium hover:bg-gray-50">Cancel</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+import { useEffect, useState } from 'react';
+import api from '../lib/api';
+import toast from 'react-hot-toast';
+import { Building2, Plus, Trash2 } from 'lucide-react';
+
+export interface Facility {
+  id: string;
+  name: string;
+  region: string | null;
+  bedCount: number | null;
+  headcount: number | null;
+}
+
+const toCount = (value: string) => (value ? parseInt(value) : null);
+
+export default function FacilitiesPanel({ regions }: { regions: string[] }) {
+  const [facilities, setFacilities] = useState<Facility[]>([]);
+  const [form, setForm] = useState({ name: '', region: '', bedCount: '', headcount: '' });
+  const [saving, setSaving] = useState(false);
+
+  const load = () => {
+    api.get('/organizations/facilities').then(r => setFacilities(r.data.data || [])).catch(() => {});
+  };
+
+  useEffect(load, []);
+
+  const addFacility = async () => {
+    setSaving(true);
+    try {
+      await api.post('/organizations/facilities', {
+        name: form.name,
+        region: form.region || null,
+        bedCount: toCount(form.bedCount),
+        headcount: toCount(form.headcount),
+      });
+      setForm({ name: '', region: '', bedCount: '', headcount: '' });
+      load();
+      toast.success('Facility added');
+    } catch (err: any) {
+      toast.error(err.response?.data?.error || 'Failed to add facility');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateCount = async (facility: Facility, field: 'bedCount' | 'headcount', value: string) => {
+    if (toCount(value) === facility[field]) return;
+    try {
+      await api.put(`/organizations/facilities/${facility.id}`, { [field]: toCount(value) });
+      load();
+    } catch (err: any) {
+      toast.error(err.response?.data?.error || 'Failed to update facility');
+    }
+  };
+
+  const removeFacility = async (facility: Facility) => {
+    if (!confirm(`Remove ${facility.name}? Its finalized assessments are kept.`)) return;
+    try {
+      await api.delete(`/organizations/facilities/${facility.id}`);
+      load();
+    } catch (err: any) {
+      toast.error(err.response?.data?.error || 'Failed to remove facility');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-1 flex items-center gap-2">
+        <Building2 className="w-5 h-5 text-primary-600" />
+        Facilities
+      </h2>
+      <p className="text-sm text-gray-500 mb-4">
+        Sites that can be assessed on their own. Bed count and headcount weight each facility in the dashboard roll-up.
+      </p>
+
+      {facilities.length > 0 && (
+        <table className="w-full text-sm mb-4">
+          <thead>
+            <tr className="text-left text-xs text-gray-500 border-b border-gray-200">
+              <th className="py-2 pr-3">Name</th>
+              <th className="py-2 pr-3">Region</th>
+              <th className="py-2 pr-3 w-28">Beds</th>
+              <th className="py-2 pr-3 w-28">Headcount</th>
+              <th className="py-2 w-8" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {facilities.map(f => (
+              <tr key={f.id}>
+                <td className="py-2 pr-3 font-medium text-gray-900">{f.name}</td>
+                <td className="py-2 pr-3 text-gray-500">{f.region || '—'}</td>
+                <td className="py-2 pr-3">
+                  <input type="number" min={0} defaultValue={f.bedCount ?? ''} onBlur={e => updateCount(f, 'bedCount', e.target.value)}
+                    className="input-field py-1" />
+                </td>
+                <td className="py-2 pr-3">
+                  <input type="number" min={0} defaultValue={f.headcount ?? ''} onBlur={e => updateCount(f, 'headcount', e.target.value)}
+                    className="input-field py-1" />
+                </td>
+                <td className="py-2">
+                  <button onClick={() => removeFacility(f)} className="p-1 rounded text-gray-400 hover:text-red-600 hover:bg-red-50" title="Remove facility">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+        <input value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} placeholder="Facility name"
+          className="input-field md:col-span-2" />
+        <select value={form.region} onChange={e => setForm({ ...form, region: e.target.value })} className="input-field bg-white">
+          <option value="">No region</option>
+          {regions.map(r => <option key={r} value={r}>{r}</option>)}
+        </select>
+        <input type="number" min={0} value={form.bedCount} onChange={e => setForm({ ...form, bedCount: e.target.value })} placeholder="Beds"
+          className="input-field" />
+        <input type="number" min={0} value={form.headcount} onChange={e => setForm({ ...form, headcount: e.target.value })} placeholder="Headcount"
+          className="input-field" />
+      </div>
+      <button onClick={addFacility} disabled={saving || !form.name.trim()}
+        className="mt-3 flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium hover:bg-gray-50 disabled:opacity-50">
+        <Plus className="w-4 h-4" />
+        {saving ? 'Adding...' : 'Add Facility'}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import api from '../lib/api';
+import { Building2 } from 'lucide-react';
+import clsx from 'clsx';
+
+interface FacilityRow {
+  facilityId: string;
+  name: string;
+  region: string | null;
+  weight: number | null;
+  assessmentId: string | null;
+  assessmentVersion: number | null;
+  overallScore: number | null;
+  criticalGaps: number;
+  highGaps: number;
+  share: number | null;
+}
+
+interface Rollup {
+  weightBy: 'beds' | 'headcount';
+  overallScore: number | null;
+  facilityCount: number;
+  assessedCount: number;
+  criticalGaps: number;
+  highGaps: number;
+  facilities: FacilityRow[];
+}
+
+const scoreColor = (score: number) => (score >= 80 ? 'text-green-600' : score >= 60 ? 'text-yellow-600' : 'text-red-600');
+
+export default function FacilityRollup() {
+  const [weightBy, setWeightBy] = useState<'beds' | 'headcount'>('beds');
+  const [rollup, setRollup] = useState<Rollup | null>(null);
+
+  useEffect(() => {
+    api.get('/dashboard/facility-rollup', { params: { weightBy } }).then(r => setRollup(r.data)).catch(() => {});
+  }, [weightBy]);
+
+  if (!rollup || rollup.facilityCount === 0) return null;
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+            <Building2 className="w-5 h-5 text-primary-600" />
+            Facility Roll-up
+          </h3>
+          <p className="text-xs text-gray-500 mt-0.5">
+            {rollup.assessedCount} of {rollup.facilityCount} facilities with a finalized assessment
+            {rollup.assessedCount > 0 && <> · {rollup.criticalGaps} critical, {rollup.highGaps} high gaps across sites</>}
+          </p>
+        </div>
+        <div className="flex items-center gap-4">
+          {rollup.overallScore != null && (
+            <span className={clsx('text-2xl font-bold', scoreColor(rollup.overallScore))}>{Math.round(rollup.overallScore)}%</span>
+          )}
+          <div className="flex rounded-lg border border-gray-300 divide-x divide-gray-300 text-xs font-medium">
+            {(['beds', 'headcount'] as const).map(w => (
+              <button key={w} onClick={() => setWeightBy(w)}
+                className={clsx('px-3 py-1.5 first:rounded-l-lg last:rounded-r-lg',
+                  weightBy === w ? 'bg-primary-50 text-primary-700' : 'hover:bg-gray-50 text-gray-600')}>
+                {w === 'beds' ? 'By beds' : 'By headcount'}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-gray-500 border-b border-gray-200">
+            <th className="py-2 pr-3">Facility</th>
+            <th className="py-2 pr-3">Region</th>
+            <th className="py-2 pr-3 text-right">{weightBy === 'beds' ? 'Beds' : 'Headcount'}</th>
+            <th className="py-2 pr-3 text-right">Weight</th>
+            <th className="py-2 text-right">Score</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {rollup.facilities.map(f => (
+            <tr key={f.facilityId}>
+              <td className="py-2 pr-3 font-medium text-gray-900">{f.name}</td>
+              <td className="py-2 pr-3 text-gray-500">{f.region || '—'}</td>
+              <td className="py-2 pr-3 text-right text-gray-600">{f.weight ?? '—'}</td>
+              <td className="py-2 pr-3 text-right text-gray-500">
+                {f.share != null ? `${f.share}%` : <span className="text-amber-600 text-xs">{f.assessmentId ? 'No weight set' : 'Excluded'}</span>}
+              </td>
+              <td className="py-2 text-right">
+                {f.assessmentId && f.overallScore != null ? (
+                  <Link to={`/assessments/${f.assessmentId}`} className={clsx('font-semibold hover:underline', scoreColor(f.overallScore))}>
+                    {Math.round(f.overallScore)}% <span className="text-xs text-gray-400 font-normal">v{f.assessmentVersion}</span>
+                  </Link>
+                ) : (
+                  <span className="text-xs text-gray-400">Not assessed</span>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -1,19 +1,31 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { Outlet, NavLink, useNavigate } from 'react-router-dom';
 import { useAuthStore } from '../stores/authStore';
+import api from '../lib/api';
 import {
   LayoutDashboard, ClipboardCheck, ListTodo, Shield, Upload,
   GraduationCap, FileText, ScrollText, Bot, Settings, LogOut,
-  Menu, X, ChevronDown, Building2
+  Menu, X, ChevronDown, Building2, Bell, Inbox, Network
 } from 'lucide-react';
 import clsx from 'clsx';
 
+interface Notification {
+  id: string;
+  title: string;
+  body: string | null;
+  link: string | null;
+  readAt: string | null;
+  createdAt: string;
+}
+
 const navigation = [
   { name: 'Dashboard', href: '/dashboard', icon: LayoutDashboard },
   { name: 'Organization', href: '/organization', icon: Building2 },
   { name: 'Assessments', href: '/assessments', icon: ClipboardCheck },
+  { name: 'My Questions', href: '/my-questions', icon: Inbox },
   { name: 'Remediation', href: '/remediation', icon: ListTodo },
   { name: 'Controls', href: '/controls', icon: Shield },
+  { name: 'Crosswalk', href: '/crosswalk', icon: Network },
   { name: 'Evidence', href: '/evidence', icon: Upload },
   { name: 'Training', href: '/training', icon: GraduationCap },
   { name: 'Reports', href: '/reports', icon: FileText },
@@ -26,6 +38,36 @@ export default function Layout() {
   const navigate = useNavigate();
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [userMenuOpen, setUserMenuOpen] = useState(false);
+  const [notificationsOpen, setNotificationsOpen] = useState(false);
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  const loadNotifications = () => {
+    api.get('/notifications').then(r => {
+      setNotifications(r.data.data || []);
+      setUnreadCount(r.data.unreadCount || 0);
+    }).catch(() => {});
+  };
+
+  useEffect(() => {
+    loadNotifications();
+    const timer = setInterval(loadNotifications, 60000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const openNotification = async (n: Notification) => {
+    setNotificationsOpen(false);
+    if (!n.readAt) {
+      await api.put(`/notifications/${n.id}/read`).catch(() => {});
+      loadNotifications();
+    }
+    if (n.link) navigate(n.link);
+  };
+
+  const markAllRead = async () => {
+    await api.put('/notifications/read-all').catch(() => {});
+    loadNotifications();
+  };
 
   const handleLogout = () => {
     logout();
@@ -108,6 +150,53 @@ export default function Layout() {
 
           <div className="flex-1" />
 
+          {/* Notifications */}
+          <div className="relative">
+            <button
+              onClick={() => setNotificationsOpen(!notificationsOpen)}
+              className="relative p-2 rounded-lg hover:bg-gray-100 transition-colors"
+            >
+              <Bell className="w-5 h-5 text-gray-600" />
+              {unreadCount > 0 && (
+                <span className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] px-1 rounded-full bg-red-600 text-white text-[10px] font-semibold flex items-center justify-center">
+                  {unreadCount > 99 ? '99+' : unreadCount}
+                </span>
+              )}
+            </button>
+
+            {notificationsOpen && (
+              <>
+                <div
+                  className="fixed inset-0 z-40"
+                  onClick={() => setNotificationsOpen(false)}
+                />
+                <div className="absolute right-0 top-full mt-1 w-80 bg-white rounded-lg shadow-lg border border-gray-200 z-50">
+                  <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100">
+                    <p className="text-sm font-medium text-gray-900">Notifications</p>
+                    {unreadCount > 0 && (
+                      <button onClick={markAllRead} className="text-xs text-primary-600 hover:underline">Mark all read</button>
+                    )}
+                  </div>
+                  <div className="max-h-96 overflow-y-auto">
+                    {notifications.length === 0 ? (
+                      <p className="px-4 py-6 text-sm text-gray-500 text-center">No notifications</p>
+                    ) : notifications.map(n => (
+                      <button
+                        key={n.id}
+                        onClick={() => openNotification(n)}
+                        className={clsx('w-full text-left px-4 py-3 border-b border-gray-50 hover:bg-gray-50', !n.readAt && 'bg-primary-50/50')}
+                      >
+                        <p className={clsx('text-sm', n.readAt ? 'text-gray-600' : 'text-gray-900 font-medium')}>{n.title}</p>
+                        {n.body && <p className="text-xs text-gray-500 mt-0.5 line-clamp-2">{n.body}</p>}
+                        <p className="text-xs text-gray-400 mt-1">{new Date(n.createdAt).toLocaleString()}</p>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              </>
+            )}
+          </div>
+
           {/* User menu */}
           <div className="relative">
             <button
@@ -0,0 +1,305 @@
+import { useEffect, useRef, useState } from 'react';
+import api from '../lib/api';
+import toast from 'react-hot-toast';
+import { useAuthStore } from '../stores/authStore';
+import { GitBranch, FileUp, AlertTriangle } from 'lucide-react';
+import clsx from 'clsx';
+
+interface Changelog {
+  added: string[];
+  retired: string[];
+  modified: { controlId: string; fields: { field: string }[]; articleReferencesChanged: boolean }[];
+}
+
+interface Release {
+  id: string;
+  version: string;
+  title: string;
+  notes: string | null;
+  status: 'DRAFT' | 'PUBLISHED';
+  changelog: Changelog;
+  createdAt: string;
+  publishedAt: string | null;
+}
+
+interface Impact {
+  summary: {
+    applicableAdded: number;
+    draftResponses: number;
+    openTasks: number;
+    evidenceFiles: number;
+  };
+  newControls: string[];
+  controls: {
+    controlId: string;
+    change: 'MODIFIED' | 'RETIRED';
+    fields: string[];
+    articleReferencesChanged: boolean;
+    draftResponses: number;
+    openTasks: number;
+    evidenceFiles: number;
+  }[];
+}
+
+const emptyForm = { version: '', title: '', notes: '', source: '' };
+
+export default function LibraryReleasesPanel({ onLibraryChange }: { onLibraryChange: () => void }) {
+  const { user } = useAuthStore();
+  const [releases, setReleases] = useState<Release[]>([]);
+  const [currentVersion, setCurrentVersion] = useState<string | null>(null);
+  const [pendingIds, setPendingIds] = useState<string[]>([]);
+  const [impact, setImpact] = useState<{ releaseId: string; data: Impact } | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [busy, setBusy] = useState(false);
+  const fileRef = useRef<HTMLInputElement>(null);
+  const oscalRef = useRef<HTMLInputElement>(null);
+  const packRef = useRef<HTMLInputElement>(null);
+  const isSuperAdmin = user?.role === 'super_admin';
+
+  const load = () => {
+    api.get('/controls/releases').then(r => {
+      setReleases(r.data.data || []);
+      setCurrentVersion(r.data.currentVersion);
+      setPendingIds(r.data.pendingReleaseIds || []);
+    }).catch(() => {});
+  };
+
+  useEffect(load, []);
+
+  const showImpact = async (release: Release) => {
+    if (impact?.releaseId === release.id) {
+      setImpact(null);
+      return;
+    }
+    try {
+      const { data } = await api.get(`/controls/releases/${release.id}/impact`);
+      setImpact({ releaseId: release.id, data });
+    } catch (err: any) {
+      toast.error(err.response?.data?.error || 'Failed to analyze impact');
+    }
+  };
+
+  const accept = async (release: Release) => {
+    if (!confirm(`Accept control library ${release.version} for your organization? Affected draft answers will need reconfirmation.`)) return;
+    setBusy(true);
+    try {
+      const { data } = await api.post(`/controls/releases/${release.id}/accept`);
+      toast.success(`Library ${release.version} accepted${data.responsesFlagged ? ` — ${data.responsesFlagged} draft answer(s) to reconfirm` : ''}`);
+      setImpact(null);
+      load();
+    } catch (err: any) {
+      toast.error(err.response?.data?.error || 'Failed to accept release');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const publish = async (release: Release) => {
+    if (!confirm(`Publish ${release.version}? Each organization keeps its current library until its DPO accepts the release.`)) return;
+    setBusy(true);
+    try {
+      await api.post(`/controls/releases/${release.id}/publish`);
+      toast.success(`Library ${release.version} published`);
+      load();
+      onLibraryChange();
+    } catch (err: any) {
+      toast.error(err.response?.data?.error || 'Failed to publish release');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const stageRelease = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setBusy(true);
+    try {
+      const parsed = JSON.parse(await file.text());
+      await api.post('/controls/releases', { ...form, controls: Array.isArray(parsed) ? parsed : parsed.controls });
+      setForm(emptyForm);
+      toast.success('Release staged — review the changelog before publishing');
+      load();
+    } catch (err: any) {
+      toast.error(err.response?.data?.error || (err instanceof SyntaxError ? 'The file is not valid JSON' : 'Failed to stage release'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const importCatalog = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setBusy(true);
+    try {
+      const catalog = JSON.parse(await file.text());
+      await api.post('/controls/releases/oscal', { ...form, catalog });
+      setForm(emptyForm);
+      toast.success(`Catalog staged as ${form.source.toUpperCase()} — review the changelog before publishing`);
+      load();
+    } catch (err: any) {
+      toast.error(err.response?.data?.error || (err instanceof SyntaxError ? 'The file is not valid JSON' : 'Failed to import catalog'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const stagePack = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setBusy(true);
+    try {
+      const pack = JSON.parse(await file.text());
+      const res = await api.post('/controls/releases/pack', pack);
+      toast.success(`Content pack staged as ${res.data.version} — review the changelog before publishing`);
+      load();
+    } catch (err: any) {
+      const errors: string[] = err.response?.data?.errors || [];
+      const more = errors.length > 3 ? ` (+${errors.length - 3} more)` : '';
+      toast.error(errors.length > 1 ? `${errors.slice(0, 3).join('; ')}${more}`
+        : err.response?.data?.error || (err instanceof SyntaxError ? 'The file is not valid JSON' : 'Failed to stage content pack'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const visible = releases.filter(r => r.status === 'DRAFT' || pendingIds.includes(r.id) || r.version === currentVersion);
+  if (visible.length === 0 && !isSuperAdmin) return null;
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-5 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+          <GitBranch className="w-5 h-5 text-primary-600" />
+          Library Releases
+        </h3>
+        {currentVersion && <span className="text-sm text-gray-500">Your organization is on <span className="font-medium text-gray-900">{currentVersion}</span></span>}
+      </div>
+
+      {pendingIds.length > 0 && (
+        <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 flex items-start gap-2 text-sm text-amber-800">
+          <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+          {user?.role === 'dpo'
+            ? 'A library upgrade is waiting for your acceptance. New assessments and finalization are on hold until you accept it.'
+            : 'A library upgrade is waiting for the DPO\'s acceptance. New assessments and finalization are on hold until then.'}
+        </div>
+      )}
+
+      {visible.map(release => {
+        const pending = pendingIds.includes(release.id);
+        return (
+          <div key={release.id} className="border border-gray-200 rounded-lg p-3 text-sm">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="font-semibold text-gray-900">{release.version}</span>
+              <span className="text-gray-700">{release.title}</span>
+              <span className={clsx('px-2 py-0.5 rounded-full text-xs font-medium',
+                release.status === 'DRAFT' ? 'bg-gray-100 text-gray-700' : pending ? 'bg-amber-100 text-amber-800' : 'bg-green-100 text-green-800')}>
+                {release.status === 'DRAFT' ? 'Staged' : pending ? 'Awaiting acceptance' : 'In effect'}
+              </span>
+              <span className="text-gray-500">
+                +{release.changelog.added.length} added · {release.changelog.modified.length} modified · −{release.changelog.retired.length} retired
+              </span>
+              <div className="ml-auto flex gap-2">
+                {(pending || release.status === 'DRAFT') && (
+                  <button onClick={() => showImpact(release)} className="text-primary-600 text-xs font-medium hover:underline">
+                    {impact?.releaseId === release.id ? 'Hide impact' : 'Impact on my organization'}
+                  </button>
+                )}
+                {pending && user?.role === 'dpo' && release.id === pendingIds[0] && (
+                  <button onClick={() => accept(release)} disabled={busy}
+                    className="px-2.5 py-1 rounded-lg bg-primary-600 text-white text-xs font-medium hover:bg-primary-700 disabled:opacity-50">
+                    Accept upgrade
+                  </button>
+                )}
+                {release.status === 'DRAFT' && isSuperAdmin && (
+                  <button onClick={() => publish(release)} disabled={busy}
+                    className="px-2.5 py-1 rounded-lg bg-primary-600 text-white text-xs font-medium hover:bg-primary-700 disabled:opacity-50">
+                    Publish
+                  </button>
+                )}
+              </div>
+            </div>
+            {release.notes && <p className="text-gray-600 mt-1">{release.notes}</p>}
+            {release.changelog.modified.length > 0 && (
+              <p className="text-xs text-gray-500 mt-1">
+                {release.changelog.modified.map(m => `${m.controlId}${m.articleReferencesChanged ? ' (articles)' : ''}`).join(' · ')}
+              </p>
+            )}
+
+            {impact?.releaseId === release.id && (
+              <div className="mt-3 border-t border-gray-100 pt-3">
+                <p className="text-gray-700">
+                  {impact.data.summary.draftResponses} draft answer(s), {impact.data.summary.openTasks} open task(s) and {impact.data.summary.evidenceFiles} evidence file(s) affected
+                  {impact.data.summary.applicableAdded > 0 && <> · {impact.data.summary.applicableAdded} new control(s) apply to you</>}
+                </p>
+                {impact.data.controls.length > 0 && (
+                  <table className="w-full text-xs mt-2">
+                    <thead>
+                      <tr className="text-left text-gray-500 border-b border-gray-200">
+                        <th className="py-1.5 pr-3">Control</th>
+                        <th className="py-1.5 pr-3">Change</th>
+                        <th className="py-1.5 pr-3 text-right">Draft answers</th>
+                        <th className="py-1.5 pr-3 text-right">Open tasks</th>
+                        <th className="py-1.5 text-right">Evidence</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {impact.data.controls.map(c => (
+                        <tr key={c.controlId}>
+                          <td className="py-1.5 pr-3 font-medium text-gray-900">{c.controlId}</td>
+                          <td className={clsx('py-1.5 pr-3', c.change === 'RETIRED' ? 'text-red-600' : 'text-gray-600')}>
+                            {c.change === 'RETIRED' ? 'Retired' : c.fields.join(', ')}
+                          </td>
+                          <td className="py-1.5 pr-3 text-right">{c.draftResponses}</td>
+                          <td className="py-1.5 pr-3 text-right">{c.openTasks}</td>
+                          <td className="py-1.5 text-right">{c.evidenceFiles}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      {isSuperAdmin && (
+        <div className="border-t border-gray-200 pt-4">
+          <h4 className="text-sm font-semibold text-gray-700 mb-2">Stage a release</h4>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+            <input value={form.version} onChange={e => setForm({ ...form, version: e.target.value })} placeholder="Version, e.g. 2026.1" className="input-field" />
+            <input value={form.title} onChange={e => setForm({ ...form, title: e.target.value })} placeholder="Title" className="input-field md:col-span-2" />
+          </div>
+          <textarea value={form.notes} onChange={e => setForm({ ...form, notes: e.target.value })} rows={2}
+            placeholder="What changed in the regulation (optional)" className="input-field mt-2" />
+          <button onClick={() => fileRef.current?.click()} disabled={busy || !form.version.trim() || !form.title.trim()}
+            className="mt-2 flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium hover:bg-gray-50 disabled:opacity-50">
+            <FileUp className="w-4 h-4" /> Upload control definitions (JSON)
+          </button>
+          <input ref={fileRef} type="file" accept=".json" className="hidden" onChange={stageRelease} />
+          <div className="mt-3 flex flex-wrap items-center gap-2">
+            <input value={form.source} onChange={e => setForm({ ...form, source: e.target.value })} placeholder="Framework source, e.g. NIST_800_53"
+              className="input-field md:w-64" />
+            <button onClick={() => oscalRef.current?.click()} disabled={busy || !form.version.trim() || !form.title.trim() || !form.source.trim()}
+              className="flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium hover:bg-gray-50 disabled:opacity-50">
+              <FileUp className="w-4 h-4" /> Import OSCAL catalog
+            </button>
+            <span className="text-xs text-gray-500">Replaces that source's controls; other sources are kept.</span>
+          </div>
+          <input ref={oscalRef} type="file" accept=".json" className="hidden" onChange={importCatalog} />
+          <div className="mt-3 flex flex-wrap items-center gap-2">
+            <button onClick={() => packRef.current?.click()} disabled={busy}
+              className="flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium hover:bg-gray-50 disabled:opacity-50">
+              <FileUp className="w-4 h-4" /> Upload content pack (JSON)
+            </button>
+            <span className="text-xs text-gray-500">Version and title come from the pack; it also installs training, dependencies, rules and mappings.</span>
+          </div>
+          <input ref={packRef} type="file" accept=".json" className="hidden" onChange={stagePack} />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+import { useState } from 'react';
+import api from '../lib/api';
+import toast from 'react-hot-toast';
+import { CheckCircle2, CornerDownRight, MessageSquare, RotateCcw } from 'lucide-react';
+import clsx from 'clsx';
+
+export interface ReviewComment {
+  id: string;
+  controlId: string;
+  parentId: string | null;
+  kind: string;
+  body: string;
+  status: string | null;
+  createdAt: string;
+  author: { firstName: string; lastName: string; email: string };
+}
+
+interface Props {
+  assessmentId: string;
+  controlId: string;
+  comments: ReviewComment[];
+  canComment: boolean;
+  canReview: boolean;
+  onChange: () => void;
+}
+
+const kindStyles: Record<string, string> = {
+  CHANGE_REQUEST: 'border-red-200 bg-red-50',
+  ACCEPT: 'border-green-200 bg-green-50',
+  COMMENT: 'border-gray-200 bg-gray-50',
+};
+
+export default function ReviewThread({ assessmentId, controlId, comments, canComment, canReview, onChange }: Props) {
+  const [body, setBody] = useState('');
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const [posting, setPosting] = useState(false);
+
+  const post = async (kind: 'COMMENT' | 'CHANGE_REQUEST' | 'ACCEPT') => {
+    setPosting(true);
+    try {
+      await api.post(`/assessments/${assessmentId}/responses/${controlId}/comments`, {
+        body: body.trim() || undefined,
+        kind,
+        parentId: kind === 'COMMENT' ? replyTo : undefined,
+      });
+      setBody('');
+      setReplyTo(null);
+      onChange();
+    } catch (err: any) {
+      toast.error(err.response?.data?.error || 'Failed to post comment');
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  const threads = comments.filter(c => !c.parentId);
+  const renderComment = (c: ReviewComment) => (
+    <div className={clsx('rounded-lg border px-3 py-2 text-xs', kindStyles[c.kind])}>
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-semibold text-gray-900">{c.author.firstName} {c.author.lastName}</span>
+        {c.kind === 'CHANGE_REQUEST' && (
+          <span className={clsx('px-1.5 py-0.5 rounded font-semibold', c.status === 'OPEN' ? 'bg-red-100 text-red-700' : 'bg-gray-100 text-gray-500')}>
+            CHANGE REQUESTED{c.status === 'RESOLVED' && ' · RESOLVED'}
+          </span>
+        )}
+        {c.kind === 'ACCEPT' && <span className="px-1.5 py-0.5 rounded font-semibold bg-green-100 text-green-700">ACCEPTED</span>}
+        <span className="text-gray-400">{new Date(c.createdAt).toLocaleString()}</span>
+      </div>
+      <p className="text-gray-700 mt-1 whitespace-pre-wrap">{c.body}</p>
+    </div>
+  );
+
+  return (
+    <div className="mt-2 space-y-2">
+      {threads.length === 0 && <p className="text-xs text-gray-400">No review comments yet.</p>}
+      {threads.map(t => (
+        <div key={t.id} className="space-y-1.5">
+          {renderComment(t)}
+          {comments.filter(r => r.parentId === t.id).map(r => (
+            <div key={r.id} className="flex gap-1.5 pl-4">
+              <CornerDownRight className="w-3.5 h-3.5 text-gray-300 shrink-0 mt-2" />
+              <div className="flex-1">{renderComment(r)}</div>
+            </div>
+          ))}
+          {canComment && (
+            <button onClick={() => setReplyTo(replyTo === t.id ? null : t.id)} className="text-xs text-primary-600 hover:underline pl-4">
+              {replyTo === t.id ? 'Cancel reply' : 'Reply'}
+            </button>
+          )}
+        </div>
+      ))}
+
+      {canComment && (
+        <div className="space-y-2">
+          <textarea value={body} onChange={e => setBody(e.target.value)} rows={2}
+            placeholder={replyTo ? 'Write a reply… mention colleagues with @email' : 'Add a review comment… mention colleagues with @email'}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 outline-none" />
+          <div className="flex flex-wrap gap-2">
+            <button onClick={() => post('COMMENT')} disabled={posting || !body.trim()}
+              className="flex items-center gap-1 px-3 py-1.5 border border-gray-300 rounded-lg text-xs font-medium hover:bg-gray-50 disabled:opacity-50">
+              <MessageSquare className="w-3.5 h-3.5" /> {replyTo ? 'Reply' : 'Comment'}
+            </button>
+            {canReview && !replyTo && (
+              <>
+                <button onClick={() => post('CHANGE_REQUEST')} disabled={posting || !body.trim()}
+                  className="flex items-center gap-1 px-3 py-1.5 border border-red-300 text-red-700 rounded-lg text-xs font-medium hover:bg-red-50 disabled:opacity-50">
+                  <RotateCcw className="w-3.5 h-3.5" /> Request change
+                </button>
+                <button onClick={() => post('ACCEPT')} disabled={posting}
+                  className="flex items-center gap-1 px-3 py-1.5 border border-green-300 text-green-700 rounded-lg text-xs font-medium hover:bg-green-50 disabled:opacity-50">
+                  <CheckCircle2 className="w-3.5 h-3.5" /> Accept
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
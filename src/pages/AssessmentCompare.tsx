@@ -0,0 +1,249 @@
+import { useEffect, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import api from '../lib/api';
+import toast from 'react-hot-toast';
+import { ChevronLeft, GitCompare, TrendingUp, TrendingDown, ArrowRight, CheckCircle2 } from 'lucide-react';
+import clsx from 'clsx';
+
+interface AssessmentSummary {
+  id: string;
+  assessmentVersion: number;
+  status: string;
+  scopeType: string;
+  scopeValue: string | null;
+  facility: { id: string; name: string } | null;
+}
+
+interface ControlChange {
+  controlId: string;
+  domainNumber: number;
+  domainName: string;
+  riskLevel: string;
+  objectiveEn: string;
+  baseAnswer: string | null;
+  targetAnswer: string | null;
+  change: string;
+  resolvingTasks: { id: string; title: string; closedAt: string | null }[];
+}
+
+interface Comparison {
+  base: { id: string; assessmentVersion: number; overallScore: number };
+  target: { id: string; assessmentVersion: number; overallScore: number };
+  overallDelta: number;
+  summary: Record<string, number>;
+  controlChanges: ControlChange[];
+  domainDeltas: { domainNumber: number; domainName: string; basePercentage: number | null; targetPercentage: number | null; delta: number | null }[];
+  gapDeltas: { riskLevel: string; opened: string[]; closed: string[] }[];
+}
+
+const changeColors: Record<string, string> = {
+  IMPROVED: 'bg-green-100 text-green-800',
+  REGRESSED: 'bg-red-100 text-red-800',
+  CHANGED: 'bg-blue-100 text-blue-800',
+  ADDED: 'bg-purple-100 text-purple-800',
+  REMOVED: 'bg-gray-100 text-gray-700',
+  UNCHANGED: 'bg-gray-50 text-gray-500',
+};
+
+// Versions are numbered per scope, so only assessments of the same scope follow one another
+const scopeKey = (a: AssessmentSummary) => `${a.scopeType}|${a.facility?.id ?? a.scopeValue ?? ''}`;
+
+const optionLabel = (a: AssessmentSummary) => {
+  const scope = a.scopeType === 'FACILITY' ? a.facility?.name
+    : a.scopeType === 'REGION' ? `${a.scopeValue} region`
+      : a.scopeType === 'DEPARTMENT' ? `${a.scopeValue} department`
+        : null;
+  return `${scope ? `${scope} ` : ''}v${a.assessmentVersion} (${a.status})`;
+};
+
+const riskColors: Record<string, string> = {
+  CRITICAL: 'text-red-700',
+  HIGH: 'text-orange-700',
+  MEDIUM: 'text-yellow-700',
+  LOW: 'text-blue-700',
+};
+
+export default function AssessmentCompare() {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [assessments, setAssessments] = useState<AssessmentSummary[]>([]);
+  const [comparison, setComparison] = useState<Comparison | null>(null);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  const baseId = searchParams.get('base') || '';
+  const targetId = searchParams.get('target') || '';
+
+  useEffect(() => {
+    api.get('/assessments').then(r => {
+      setAssessments(r.data.data || []);
+      setLoading(false);
+    }).catch(() => setLoading(false));
+  }, []);
+
+  // Without a choice in the URL, compare the newest assessment that has an earlier version in its
+  // scope; the server picks that version as the baseline
+  useEffect(() => {
+    if (targetId) return;
+    const target = assessments.find(a => assessments.some(b => scopeKey(b) === scopeKey(a) && b.assessmentVersion < a.assessmentVersion));
+    if (target) {
+      setSearchParams({ target: target.id }, { replace: true });
+    }
+  }, [assessments, targetId, setSearchParams]);
+
+  useEffect(() => {
+    if (!targetId) return;
+    api.get('/assessments/compare', { params: { base: baseId || undefined, target: targetId } })
+      .then(r => setComparison(r.data))
+      .catch(err => {
+        setComparison(null);
+        toast.error(err.response?.data?.error || 'Comparison failed');
+      });
+  }, [baseId, targetId]);
+
+  const select = (field: 'base' | 'target', value: string) => {
+    setSearchParams({ base: baseId, target: targetId, [field]: value });
+  };
+
+  if (loading) {
+    return <div className="flex items-center justify-center h-64"><div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600" /></div>;
+  }
+
+  const visibleChanges = (comparison?.controlChanges || []).filter(c => showUnchanged || c.change !== 'UNCHANGED');
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-3">
+        <button onClick={() => navigate('/assessments')} className="p-2 rounded-lg hover:bg-gray-100">
+          <ChevronLeft className="w-5 h-5" />
+        </button>
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 flex items-center gap-3">
+            <GitCompare className="w-7 h-7 text-primary-600" /> Compare Assessments
+          </h1>
+          <p className="text-gray-500 mt-1">What changed between two assessment versions: answers, domain scores, gaps and the remediation work behind each improvement.</p>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl border border-gray-200 p-4 flex flex-wrap items-center gap-3">
+        <select value={baseId || comparison?.base.id || ''} onChange={e => select('base', e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm">
+          <option value="">Select baseline…</option>
+          {assessments.map(a => <option key={a.id} value={a.id}>{optionLabel(a)}</option>)}
+        </select>
+        <ArrowRight className="w-4 h-4 text-gray-400" />
+        <select value={targetId} onChange={e => select('target', e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm">
+          <option value="">Select target…</option>
+          {assessments.map(a => <option key={a.id} value={a.id}>{optionLabel(a)}</option>)}
+        </select>
+      </div>
+
+      {comparison && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="bg-white rounded-xl border border-gray-200 p-5">
+              <p className="text-sm text-gray-500">Overall Score</p>
+              <p className="text-2xl font-bold text-gray-900 mt-1">
+                {Math.round(comparison.base.overallScore)}% → {Math.round(comparison.target.overallScore)}%
+              </p>
+              <p className={clsx('text-sm font-semibold mt-1 flex items-center gap-1', comparison.overallDelta >= 0 ? 'text-green-600' : 'text-red-600')}>
+                {comparison.overallDelta >= 0 ? <TrendingUp className="w-4 h-4" /> : <TrendingDown className="w-4 h-4" />}
+                {comparison.overallDelta > 0 ? '+' : ''}{comparison.overallDelta} pts
+              </p>
+            </div>
+            <div className="bg-white rounded-xl border border-gray-200 p-5">
+              <p className="text-sm text-gray-500">Improved</p>
+              <p className="text-2xl font-bold text-green-600 mt-1">{comparison.summary.improved}</p>
+            </div>
+            <div className="bg-white rounded-xl border border-gray-200 p-5">
+              <p className="text-sm text-gray-500">Regressed</p>
+              <p className="text-2xl font-bold text-red-600 mt-1">{comparison.summary.regressed}</p>
+            </div>
+            <div className="bg-white rounded-xl border border-gray-200 p-5">
+              <p className="text-sm text-gray-500">Other changes</p>
+              <p className="text-2xl font-bold text-gray-900 mt-1">{comparison.summary.changed + comparison.summary.added + comparison.summary.removed}</p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="bg-white rounded-xl border border-gray-200 p-5">
+              <h2 className="font-semibold text-gray-900 mb-3">Domain Score Changes</h2>
+              <div className="space-y-2">
+                {comparison.domainDeltas.map(d => (
+                  <div key={d.domainNumber} className="flex items-center justify-between text-sm">
+                    <span className="text-gray-700 truncate">D{d.domainNumber}. {d.domainName}</span>
+                    <span className="flex items-center gap-3 shrink-0">
+                      <span className="text-gray-500">{d.basePercentage ?? '—'}% → {d.targetPercentage ?? '—'}%</span>
+                      {d.delta != null && (
+                        <span className={clsx('font-semibold w-16 text-right', d.delta > 0 ? 'text-green-600' : d.delta < 0 ? 'text-red-600' : 'text-gray-400')}>
+                          {d.delta > 0 ? '+' : ''}{d.delta}
+                        </span>
+                      )}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div className="bg-white rounded-xl border border-gray-200 p-5">
+              <h2 className="font-semibold text-gray-900 mb-3">Gaps Opened / Closed</h2>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="py-1">Risk</th><th className="py-1">Opened</th><th className="py-1">Closed</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {comparison.gapDeltas.map(g => (
+                    <tr key={g.riskLevel} className="border-t border-gray-100">
+                      <td className={clsx('py-2 font-semibold', riskColors[g.riskLevel])}>{g.riskLevel}</td>
+                      <td className="py-2 text-red-600" title={g.opened.join(', ')}>{g.opened.length}</td>
+                      <td className="py-2 text-green-600" title={g.closed.join(', ')}>{g.closed.length}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          <div className="bg-white rounded-xl border border-gray-200 p-5">
+            <div className="flex items-center justify-between mb-3">
+              <h2 className="font-semibold text-gray-900">Control Changes</h2>
+              <label className="flex items-center gap-2 text-sm text-gray-600">
+                <input type="checkbox" checked={showUnchanged} onChange={e => setShowUnchanged(e.target.checked)} />
+                Show unchanged
+              </label>
+            </div>
+            {visibleChanges.length === 0 ? (
+              <p className="text-sm text-gray-500">No answer changes between these versions.</p>
+            ) : (
+              <div className="divide-y divide-gray-100">
+                {visibleChanges.map(c => (
+                  <div key={c.controlId} className="py-3">
+                    <div className="flex items-center gap-3">
+                      <span className={clsx('px-2 py-0.5 rounded text-xs font-semibold', changeColors[c.change])}>{c.change}</span>
+                      <span className="font-medium text-gray-900 text-sm">{c.controlId}</span>
+                      <span className={clsx('text-xs font-semibold', riskColors[c.riskLevel])}>{c.riskLevel}</span>
+                      <span className="text-sm text-gray-500 ml-auto">{c.baseAnswer ?? '—'} → {c.targetAnswer ?? '—'}</span>
+                    </div>
+                    <p className="text-sm text-gray-600 mt-1 truncate">{c.objectiveEn}</p>
+                    {c.resolvingTasks.length > 0 && (
+                      <div className="mt-2 space-y-1">
+                        {c.resolvingTasks.map(t => (
+                          <p key={t.id} className="text-xs text-green-700 flex items-center gap-1">
+                            <CheckCircle2 className="w-3.5 h-3.5" />
+                            {t.title}{t.closedAt && ` — closed ${new Date(t.closedAt).toLocaleDateString()}`}
+                          </p>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,10 +1,46 @@
-import { useEffect, useState } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useEffect, useRef, useState } from 'react';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import api from '../lib/api';
+import { useAuthStore } from '../stores/authStore';
+import ReviewThread, { type ReviewComment } from '../components/ReviewThread';
+import AssignmentsPanel, { type Assignment, type AssignmentProgress } from '../components/AssignmentsPanel';
+import AmendmentsPanel, { type Amendment } from '../components/AmendmentsPanel';
 import toast from 'react-hot-toast';
-import { ChevronLeft, ChevronRight, CheckCircle2, AlertTriangle, MinusCircle, XCircle, Save, Lock } from 'lucide-react';
+import { ChevronLeft, ChevronRight, CheckCircle2, AlertTriangle, MinusCircle, XCircle, Save, Lock, X, History, MessageSquare, Send, Users, Download, FileUp, FilePen } from 'lucide-react';
 import clsx from 'clsx';
 
+interface ScorePreview {
+  answeredCount: number;
+  totalApplicable: number;
+  current: { overallScore: number };
+  projected: { overallScore: number } | null;
+  overallDelta: number | null;
+  appliedChanges: { controlId: string; answer: string }[];
+  rejectedChanges: { controlId: string; answer: string; reason: string }[];
+}
+
+interface MaturityGapSummary {
+  rated: number;
+  belowTarget: number;
+  averageLevel: number;
+  averageTarget: number;
+}
+
+interface DraftResponse {
+  answer: string;
+  maturityLevel: number | null;
+  naJustification: string;
+  notes: string;
+}
+
+interface ImportResult {
+  rows: number;
+  applied: number;
+  unchanged: number;
+  failed: number;
+  errors: { row: number; controlId: string; code: string; error: string }[];
+}
+
 interface Control {
   id: string;
   ref: string;
@@ -21,26 +57,88 @@ interface Control {
   evidenceGuidanceEn: string | null;
   pointsYes: number;
   pointsPartial: number;
-  mandatoryForTypes: string[];
+  targetMaturity: number;
+  isMandatory: boolean;
 }
 
 interface ResponseData {
   controlId: string;
   answer: string;
+  maturityLevel: number | null;
   naJustification?: string;
   notes?: string;
   pointsEarned: number;
+  needsReconfirmation?: boolean;
+  controlUpdatedSinceSource?: boolean;
 }
 
 interface AssessmentData {
   id: string;
   assessmentVersion: number;
   status: string;
+  mode: string;
   overallScore: number | null;
   domainScores: Record<string, any> | null;
   responses: ResponseData[];
+  openReviewItems?: number;
+}
+
+interface CascadeFlag {
+  id: string;
+  parentControlId: string;
+  dependentControlId: string;
+  action: string;
+  parentAnswer: string;
+  forcedAnswer: string | null;
+  reason: string;
+}
+
+interface FinalizationIssue {
+  type: string;
+  controlId: string;
+  riskLevel: string;
+  message: string;
+}
+
+interface FinalizationReport {
+  canFinalize: boolean;
+  totalApplicable: number;
+  answeredCount: number;
+  counts: Record<string, number>;
+  issues: FinalizationIssue[];
 }
 
+interface ResponseRevision {
+  id: string;
+  revision: number;
+  answer: string;
+  maturityLevel: number | null;
+  naJustification: string | null;
+  notes: string | null;
+  pointsEarned: number;
+  changeSource: string;
+  changedAt: string;
+  changedByUser: { firstName: string; lastName: string; email: string };
+}
+
+const issueLabels: Record<string, string> = {
+  UNANSWERED: 'Unanswered applicable controls',
+  MISSING_EVIDENCE: 'CRITICAL/HIGH "Yes" answers without evidence',
+  MANDATORY_NA: 'Mandatory controls marked N/A',
+  WEAK_JUSTIFICATION: 'Weak N/A justifications',
+  NEEDS_RECONFIRMATION: 'Carried-forward answers not reconfirmed',
+  OPEN_CHANGE_REQUEST: 'Open reviewer change requests (must be accepted; cannot be overridden)',
+};
+
+const REVIEWER_ROLES = ['super_admin', 'org_admin', 'dpo'];
+
+const answerRank: Record<string, number> = { NO: 0, PARTIAL: 1, YES: 2 };
+
+// Level names match the server's maturity scale; the answer each level implies mirrors answerForMaturity
+const maturityLevels = ['Non-existent', 'Initial', 'Repeatable', 'Defined', 'Managed', 'Optimized'];
+const answerForLevel = (level: number) => (level === 0 ? 'NO' : level === 5 ? 'YES' : 'PARTIAL');
+const maturityCap: Record<string, number> = { NO: 0, PARTIAL: 4, YES: 5 };
+
 const riskColors: Record<string, string> = {
   CRITICAL: 'bg-red-100 text-red-800 border-red-200',
   HIGH: 'bg-orange-100 text-orange-800 border-orange-200',
@@ -58,28 +156,65 @@ const answerOptions = [
 export default function AssessmentDetail() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
   const [assessment, setAssessment] = useState<AssessmentData | null>(null);
   const [controls, setControls] = useState<Control[]>([]);
-  const [responses, setResponses] = useState<Map<string, { answer: string; naJustification: string; notes: string }>>(new Map());
-  const [activeDomain, setActiveDomain] = useState(1);
+  const [responses, setResponses] = useState<Map<string, DraftResponse>>(new Map());
+  const [carried, setCarried] = useState<Map<string, { needsReconfirmation: boolean; controlUpdated: boolean }>>(new Map());
+  const [dirty, setDirty] = useState<Set<string>>(new Set());
+  const [cascades, setCascades] = useState<CascadeFlag[]>([]);
+  const [activeDomain, setActiveDomain] = useState(Number(searchParams.get('domain')) || 1);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [finalizing, setFinalizing] = useState(false);
+  const [finalizationReport, setFinalizationReport] = useState<FinalizationReport | null>(null);
+  const [overrideReason, setOverrideReason] = useState('');
+  const { user } = useAuthStore();
+  const [historyFor, setHistoryFor] = useState<string | null>(null);
+  const [history, setHistory] = useState<ResponseRevision[]>([]);
+  const [comments, setComments] = useState<ReviewComment[]>([]);
+  const [commentsFor, setCommentsFor] = useState<string | null>(null);
+  const [assignments, setAssignments] = useState<Assignment[]>([]);
+  const [assignmentProgress, setAssignmentProgress] = useState<AssignmentProgress | null>(null);
+  const [showAssignments, setShowAssignments] = useState(false);
+  const [amendments, setAmendments] = useState<Amendment[]>([]);
+  const [showAmendments, setShowAmendments] = useState(false);
+  const [importResult, setImportResult] = useState<ImportResult | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+  const sheetRef = useRef<HTMLInputElement>(null);
+  const [scorePreview, setScorePreview] = useState<ScorePreview | null>(null);
+  const [whatIf, setWhatIf] = useState<{ label: string; result: ScorePreview } | null>(null);
+  const [maturityGaps, setMaturityGaps] = useState<MaturityGapSummary | null>(null);
+  const maturityMode = assessment?.mode === 'MATURITY';
+  const activeAmendment = amendments.find(a => a.status === 'APPROVED');
 
   useEffect(() => {
     const fetchData = async () => {
       try {
-        const [aRes, cRes] = await Promise.all([
+        const [aRes, cRes, fRes, rRes, asRes] = await Promise.all([
           api.get(`/assessments/${id}`),
           api.get('/controls/applicable'),
+          api.get(`/assessments/${id}/cascades`),
+          api.get(`/assessments/${id}/comments`),
+          api.get(`/assessments/${id}/assignments`),
         ]);
+        setAssignments(asRes.data.data || []);
+        setAssignmentProgress(asRes.data.progress || null);
+        setCascades(fRes.data.data || []);
+        setComments(rRes.data.data || []);
         setAssessment(aRes.data);
         setControls(cRes.data.data || cRes.data);
-        const resMap = new Map<string, { answer: string; naJustification: string; notes: string }>();
+        const resMap = new Map<string, DraftResponse>();
+        const carriedMap = new Map<string, { needsReconfirmation: boolean; controlUpdated: boolean }>();
         (aRes.data.responses || []).forEach((r: ResponseData) => {
-          resMap.set(r.controlId, { answer: r.answer, naJustification: r.naJustification || '', notes: r.notes || '' });
+          resMap.set(r.controlId, { answer: r.answer, maturityLevel: r.maturityLevel, naJustification: r.naJustification || '', notes: r.notes || '' });
+          if (r.needsReconfirmation) {
+            carriedMap.set(r.controlId, { needsReconfirmation: true, controlUpdated: !!r.controlUpdatedSinceSource });
+          }
         });
         setResponses(resMap);
+        setCarried(carriedMap);
       } catch (err) {
         toast.error('Failed to load assessment');
       } finally {
@@ -87,38 +222,84 @@ export default function AssessmentDetail() {
       }
     };
     fetchData();
-  }, [id]);
+  }, [id, reloadKey]);
+
+  useEffect(() => {
+    api.get(`/assessments/${id}/score-preview`).then(r => setScorePreview(r.data)).catch(() => {});
+  }, [id, reloadKey]);
+
+  useEffect(() => {
+    api.get(`/assessments/${id}/amendments`).then(r => setAmendments(r.data.data || [])).catch(() => {});
+  }, [id, reloadKey]);
+
+  useEffect(() => {
+    if (!maturityMode) return;
+    api.get(`/assessments/${id}/maturity-gaps`).then(r => setMaturityGaps(r.data.summary)).catch(() => {});
+  }, [id, reloadKey, maturityMode]);
 
   const domains = [...new Map(controls.map(c => [c.domainNumber, { number: c.domainNumber, name: c.domainName }])).values()]
     .sort((a, b) => a.number - b.number);
 
   const domainControls = controls.filter(c => c.domainNumber === activeDomain);
 
-  const setAnswer = (controlId: string, answer: string) => {
-    const existing = responses.get(controlId) || { answer: '', naJustification: '', notes: '' };
+  const setAnswer = (controlId: string, answer: string, maturityLevel: number | null = null) => {
+    const existing = responses.get(controlId) || { answer: '', maturityLevel: null, naJustification: '', notes: '' };
     const updated = new Map(responses);
-    updated.set(controlId, { ...existing, answer });
+    updated.set(controlId, { ...existing, answer, maturityLevel });
     setResponses(updated);
+    setDirty(new Set(dirty).add(controlId));
   };
 
   const setField = (controlId: string, field: 'naJustification' | 'notes', value: string) => {
-    const existing = responses.get(controlId) || { answer: '', naJustification: '', notes: '' };
+    const existing = responses.get(controlId) || { answer: '', maturityLevel: null, naJustification: '', notes: '' };
     const updated = new Map(responses);
     updated.set(controlId, { ...existing, [field]: value });
     setResponses(updated);
+    setDirty(new Set(dirty).add(controlId));
+  };
+
+  const reconfirm = (controlId: string) => {
+    setDirty(new Set(dirty).add(controlId));
   };
 
   const saveResponses = async () => {
     setSaving(true);
     try {
-      const entries = Array.from(responses.entries()).filter(([, v]) => v.answer);
+      // Only send touched controls so carried-forward answers stay unconfirmed until reviewed
+      const entries = Array.from(responses.entries()).filter(([controlId, v]) => v.answer && dirty.has(controlId));
       for (const [controlId, resp] of entries) {
         await api.put(`/assessments/${id}/responses/${controlId}`, {
           answer: resp.answer,
+          maturityLevel: maturityMode && resp.answer !== 'NA' ? resp.maturityLevel : undefined,
           naJustification: resp.answer === 'NA' ? resp.naJustification : undefined,
           notes: resp.notes || undefined,
         });
       }
+      const { data: flags } = await api.get(`/assessments/${id}/cascades`);
+      setHistoryFor(null);
+      setCascades(flags.data || []);
+      // Cascades may have forced answers on dependent controls
+      const forced = (flags.data || []).filter((f: CascadeFlag) => f.forcedAnswer);
+      if (forced.length > 0) {
+        const updated = new Map(responses);
+        forced.forEach((f: CascadeFlag) => {
+          const current = updated.get(f.dependentControlId);
+          if (!current?.answer || current.answer === 'NA' || answerRank[current.answer] > answerRank[f.forcedAnswer!]) {
+            updated.set(f.dependentControlId, {
+              answer: f.forcedAnswer!,
+              maturityLevel: maturityMode ? maturityCap[f.forcedAnswer!] : null,
+              naJustification: '',
+              notes: current?.notes || '',
+            });
+          }
+        });
+        setResponses(updated);
+      }
+      const saved = new Set(entries.map(([controlId]) => controlId));
+      setCarried(new Map(Array.from(carried.entries()).filter(([controlId]) => !saved.has(controlId))));
+      setDirty(new Set());
+      setWhatIf(null);
+      setReloadKey(k => k + 1);
       toast.success('Responses saved');
     } catch (err: any) {
       toast.error(err.response?.data?.error || 'Save failed');
@@ -127,21 +308,163 @@ export default function AssessmentDetail() {
     }
   };
 
+  const openFinalization = async () => {
+    if (dirty.size > 0) {
+      toast.error('Save your changes before finalizing');
+      return;
+    }
+    try {
+      const { data } = await api.get(`/assessments/${id}/finalization-check`);
+      setOverrideReason('');
+      setFinalizationReport(data);
+    } catch (err: any) {
+      toast.error(err.response?.data?.error || 'Failed to validate assessment');
+    }
+  };
+
   const finalizeAssessment = async () => {
-    if (!confirm('Finalize this assessment? This will calculate scores, generate remediation tasks, and lock the assessment.')) return;
     setFinalizing(true);
     try {
-      const { data } = await api.post(`/assessments/${id}/finalize`);
+      const body = finalizationReport?.canFinalize ? {} : { overrideReason };
+      const { data } = await api.post(`/assessments/${id}/finalize`, body);
       setAssessment(data.assessment || data);
+      setFinalizationReport(null);
       toast.success(`Assessment finalized! Score: ${Math.round(Number(data.assessment?.overallScore || data.overallScore))}%`);
+      // Re-finalizing an amendment marks it applied and regenerates the reports
+      if (amending) setReloadKey(k => k + 1);
     } catch (err: any) {
+      if (err.response?.data?.report) setFinalizationReport(err.response.data.report);
       toast.error(err.response?.data?.error || 'Finalization failed');
     } finally {
       setFinalizing(false);
     }
   };
 
+  const exportSheet = async (format: 'xlsx' | 'csv') => {
+    try {
+      const { data, headers } = await api.get(`/assessments/${id}/responses/export`, { params: { format }, responseType: 'blob' });
+      const filename = String(headers['content-disposition'] || '').match(/filename="?([^";]+)"?/)?.[1] || `responses.${format}`;
+      const url = URL.createObjectURL(data);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch {
+      toast.error('Export failed');
+    }
+  };
+
+  const importSheet = async () => {
+    const file = sheetRef.current?.files?.[0];
+    if (!file) return;
+    if (dirty.size > 0 && !confirm('Unsaved answers on this page will be replaced by the import. Continue?')) {
+      sheetRef.current!.value = '';
+      return;
+    }
+    setImporting(true);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      const { data } = await api.post(`/assessments/${id}/responses/import`, formData, { headers: { 'Content-Type': 'multipart/form-data' } });
+      setImportResult(data);
+      setDirty(new Set());
+      setReloadKey(k => k + 1);
+    } catch (err: any) {
+      toast.error(err.response?.data?.error || 'Import failed');
+    } finally {
+      setImporting(false);
+      if (sheetRef.current) sheetRef.current.value = '';
+    }
+  };
+
+  const simulate = async (mode: 'unsaved' | 'tasks') => {
+    try {
+      const body = mode === 'tasks'
+        ? { closeAllOpenTasks: true }
+        : {
+          changes: Array.from(dirty)
+            .map(controlId => ({ controlId, answer: responses.get(controlId)?.answer, maturityLevel: responses.get(controlId)?.maturityLevel }))
+            .filter(c => c.answer),
+        };
+      const { data } = await api.post(`/assessments/${id}/what-if`, body);
+      setWhatIf({ label: mode === 'tasks' ? 'if all open tasks close' : 'with unsaved answers', result: data });
+    } catch (err: any) {
+      toast.error(err.response?.data?.error || 'Simulation failed');
+    }
+  };
+
+  const loadAssignments = async () => {
+    try {
+      const { data } = await api.get(`/assessments/${id}/assignments`);
+      setAssignments(data.data || []);
+      setAssignmentProgress(data.progress || null);
+    } catch {
+      toast.error('Failed to load assignments');
+    }
+  };
+
+  // A control-level assignment overrides its domain's assignment
+  const assignmentFor = (control: Control) =>
+    assignments.find(a => a.scope === 'CONTROL' && a.controlId === control.id)
+    || assignments.find(a => a.scope === 'DOMAIN' && a.domainNumber === control.domainNumber);
+
+  const canAnswer = (control: Control) => {
+    // While amending, only the controls in the approved amendment are open
+    if (assessment?.status === 'AMENDING') return !!activeAmendment?.proposedChanges.some(c => c.controlId === control.id);
+    const assignment = assignmentFor(control);
+    if (!assignment || REVIEWER_ROLES.includes(user?.role || '')) return true;
+    return assignment.assigneeUserId === user?.userId || assignment.assigneeRole === user?.role;
+  };
+
+  const loadComments = async () => {
+    try {
+      const { data } = await api.get(`/assessments/${id}/comments`);
+      const list: ReviewComment[] = data.data || [];
+      setComments(list);
+      const openItems = list.filter(c => c.kind === 'CHANGE_REQUEST' && c.status === 'OPEN').length;
+      setAssessment(prev => prev && { ...prev, openReviewItems: openItems });
+    } catch {
+      toast.error('Failed to load review comments');
+    }
+  };
+
+  const submitForReview = async () => {
+    if (dirty.size > 0) {
+      toast.error('Save your changes before submitting for review');
+      return;
+    }
+    try {
+      const { data } = await api.put(`/assessments/${id}/submit-review`);
+      setAssessment(prev => prev && { ...prev, status: data.status });
+      toast.success('Assessment submitted for DPO review');
+    } catch (err: any) {
+      toast.error(err.response?.data?.error || 'Failed to submit for review');
+    }
+  };
+
+  const toggleHistory = async (controlId: string) => {
+    if (historyFor === controlId) {
+      setHistoryFor(null);
+      return;
+    }
+    try {
+      const { data } = await api.get(`/assessments/${id}/responses/${controlId}/history`);
+      setHistory(data.data || []);
+      setHistoryFor(controlId);
+    } catch {
+      toast.error('Failed to load answer history');
+    }
+  };
+
+  const jumpToControl = (controlId: string) => {
+    const control = controls.find(c => c.id === controlId);
+    if (control) setActiveDomain(control.domainNumber);
+    setFinalizationReport(null);
+  };
+
   const isLocked = assessment?.status === 'FINALIZED' || assessment?.status === 'ARCHIVED';
+  const amending = assessment?.status === 'AMENDING';
   const totalAnswered = Array.from(responses.values()).filter(r => r.answer).length;
   const progressPct = controls.length > 0 ? Math.round((totalAnswered / controls.length) * 100) : 0;
 
@@ -164,11 +487,33 @@ export default function AssessmentDetail() {
             <ChevronLeft className="w-5 h-5" />
           </button>
           <div>
-            <h1 className="text-2xl font-bold text-gray-900">Assessment v{assessment?.assessmentVersion}</h1>
-            <p className="text-sm text-gray-500">{totalAnswered} of {controls.length} controls answered ({progressPct}%)</p>
+            <h1 className="text-2xl font-bold text-gray-900">
+              Assessment v{assessment?.assessmentVersion}
+              {maturityMode && <span className="ml-2 align-middle px-2.5 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-800">Maturity 0–5</span>}
+            </h1>
+            <p className="text-sm text-gray-500">
+              {totalAnswered} of {controls.length} controls answered ({progressPct}%)
+              {carried.size > 0 && <span className="text-amber-600"> · {carried.size} carried forward awaiting reconfirmation</span>}
+              {assessment?.status === 'IN_REVIEW' && <span className="text-blue-600"> · In review</span>}
+              {amending && <span className="text-orange-600"> · Amending {activeAmendment?.proposedChanges.length ?? 0} control(s)</span>}
+              {!!assessment?.openReviewItems && <span className="text-red-600"> · {assessment.openReviewItems} open change request(s)</span>}
+            </p>
           </div>
         </div>
         <div className="flex items-center gap-3">
+          <div className="flex rounded-lg border border-gray-300 divide-x divide-gray-300 text-sm font-medium">
+            <button onClick={() => exportSheet('xlsx')} className="flex items-center gap-2 px-3 py-2 hover:bg-gray-50 rounded-l-lg" title="Download answer sheet">
+              <Download className="w-4 h-4" /> XLSX
+            </button>
+            <button onClick={() => exportSheet('csv')} className={clsx('px-3 py-2 hover:bg-gray-50', (isLocked || amending) && 'rounded-r-lg')}>CSV</button>
+            {!isLocked && !amending && (
+              <button onClick={() => sheetRef.current?.click()} disabled={importing}
+                className="flex items-center gap-2 px-3 py-2 hover:bg-gray-50 rounded-r-lg disabled:opacity-50">
+                <FileUp className="w-4 h-4" /> {importing ? 'Importing...' : 'Import'}
+              </button>
+            )}
+            <input ref={sheetRef} type="file" accept=".xlsx,.csv" className="hidden" onChange={importSheet} />
+          </div>
           {!isLocked && (
             <>
               <button onClick={saveResponses} disabled={saving}
@@ -176,13 +521,34 @@ export default function AssessmentDetail() {
                 <Save className="w-4 h-4" />
                 {saving ? 'Saving...' : 'Save'}
               </button>
-              <button onClick={finalizeAssessment} disabled={finalizing}
+              {!amending && (
+                <button onClick={() => setShowAssignments(!showAssignments)}
+                  className="flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium hover:bg-gray-50">
+                  <Users className="w-4 h-4" />
+                  Assignments
+                </button>
+              )}
+              {assessment?.status === 'DRAFT' && (
+                <button onClick={submitForReview}
+                  className="flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium hover:bg-gray-50">
+                  <Send className="w-4 h-4" />
+                  Submit for Review
+                </button>
+              )}
+              <button onClick={openFinalization} disabled={finalizing}
                 className="flex items-center gap-2 px-4 py-2 bg-primary-600 text-white rounded-lg text-sm font-medium hover:bg-primary-700 disabled:opacity-50">
                 <Lock className="w-4 h-4" />
-                {finalizing ? 'Finalizing...' : 'Finalize'}
+                {finalizing ? 'Finalizing...' : amending ? 'Re-finalize' : 'Finalize'}
               </button>
             </>
           )}
+          {(isLocked || amending) && (
+            <button onClick={() => setShowAmendments(!showAmendments)}
+              className="flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium hover:bg-gray-50">
+              <FilePen className="w-4 h-4" />
+              Amendments{amendments.some(a => a.status === 'PENDING') && <span className="w-2 h-2 rounded-full bg-yellow-500" />}
+            </button>
+          )}
           {isLocked && assessment?.overallScore != null && (
             <div className={clsx('px-4 py-2 rounded-lg font-bold text-lg',
               Number(assessment.overallScore) >= 80 ? 'bg-green-100 text-green-800' :
@@ -191,9 +557,133 @@ export default function AssessmentDetail() {
               {Math.round(Number(assessment.overallScore))}% Score
             </div>
           )}
+          {isLocked && assessment?.overallScore != null && (
+            <button onClick={() => navigate(`/assessments/${id}/score`)} className="text-sm text-primary-600 font-medium hover:underline">
+              Explain score
+            </button>
+          )}
         </div>
       </div>
 
+      {/* Import report */}
+      {importResult && (
+        <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+          <div className="bg-white rounded-xl shadow-xl w-full max-w-2xl max-h-[85vh] flex flex-col">
+            <div className="flex items-center justify-between p-5 border-b border-gray-200">
+              <h2 className="text-lg font-semibold text-gray-900">Import Report</h2>
+              <button onClick={() => setImportResult(null)} className="p-1 rounded hover:bg-gray-100">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <div className="p-5 overflow-y-auto space-y-4">
+              <p className="text-sm text-gray-700">
+                {importResult.rows} answered rows read · <span className="text-green-700 font-medium">{importResult.applied} applied</span>
+                {importResult.unchanged > 0 && <> ({importResult.unchanged} unchanged)</>}
+                {' · '}<span className={clsx('font-medium', importResult.failed ? 'text-red-700' : 'text-gray-500')}>{importResult.failed} rejected</span>
+              </p>
+              {importResult.errors.length > 0 && (
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="text-left text-gray-500 border-b border-gray-200">
+                      <th className="py-2 pr-3">Row</th>
+                      <th className="py-2 pr-3">Control</th>
+                      <th className="py-2">Problem</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {importResult.errors.map(e => (
+                      <tr key={e.row}>
+                        <td className="py-2 pr-3 text-gray-500">{e.row}</td>
+                        <td className="py-2 pr-3 font-medium text-gray-900">{e.controlId}</td>
+                        <td className="py-2 text-red-700">{e.error}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Finalization check */}
+      {finalizationReport && (
+        <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+          <div className="bg-white rounded-xl shadow-xl w-full max-w-2xl max-h-[85vh] flex flex-col">
+            <div className="flex items-center justify-between p-5 border-b border-gray-200">
+              <h2 className="text-lg font-semibold text-gray-900">Finalization Check</h2>
+              <button onClick={() => setFinalizationReport(null)} className="p-1 rounded hover:bg-gray-100">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <div className="p-5 overflow-y-auto space-y-4">
+              <p className="text-sm text-gray-600">
+                {finalizationReport.answeredCount} of {finalizationReport.totalApplicable} applicable controls answered.
+              </p>
+              {finalizationReport.canFinalize ? (
+                <div className="flex items-center gap-2 text-green-700 bg-green-50 rounded-lg p-3 text-sm">
+                  <CheckCircle2 className="w-4 h-4" /> All checks passed. Finalizing will calculate scores and lock the assessment.
+                </div>
+              ) : (
+                Object.entries(issueLabels).filter(([type]) => finalizationReport.counts[type] > 0).map(([type, label]) => (
+                  <div key={type}>
+                    <h3 className="text-sm font-semibold text-red-700 flex items-center gap-2">
+                      <AlertTriangle className="w-4 h-4" /> {label} ({finalizationReport.counts[type]})
+                    </h3>
+                    <div className="flex flex-wrap gap-1.5 mt-2">
+                      {finalizationReport.issues.filter(i => i.type === type).map((i, idx) => (
+                        <button key={`${i.controlId}-${idx}`} onClick={() => jumpToControl(i.controlId)} title={i.message}
+                          className={clsx('px-2 py-0.5 rounded text-xs font-medium border', riskColors[i.riskLevel])}>
+                          {i.controlId}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                ))
+              )}
+              {!finalizationReport.canFinalize && (user?.role === 'dpo' ? (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">DPO override reason</label>
+                  <textarea value={overrideReason} onChange={e => setOverrideReason(e.target.value)} rows={3}
+                    placeholder="Why is it acceptable to finalize with these issues open? (minimum 20 characters, recorded in the audit log)"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 outline-none" />
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500">Resolve these issues, or ask the DPO to finalize with a recorded override.</p>
+              ))}
+            </div>
+            <div className="flex justify-end gap-3 p-5 border-t border-gray-200">
+              <button onClick={() => setFinalizationReport(null)}
+                className="px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium hover:bg-gray-50">
+                Cancel
+              </button>
+              {(finalizationReport.canFinalize || user?.role === 'dpo') && (
+                <button onClick={finalizeAssessment}
+                  disabled={finalizing || finalizationReport.counts.OPEN_CHANGE_REQUEST > 0
+                    || (!finalizationReport.canFinalize && overrideReason.trim().length < 20)}
+                  className={clsx('flex items-center gap-2 px-4 py-2 text-white rounded-lg text-sm font-medium disabled:opacity-50',
+                    finalizationReport.canFinalize ? 'bg-primary-600 hover:bg-primary-700' : 'bg-red-600 hover:bg-red-700')}>
+                  <Lock className="w-4 h-4" />
+                  {finalizing ? 'Finalizing...' : finalizationReport.canFinalize ? 'Finalize' : 'Finalize with Override'}
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {showAssignments && (
+        <AssignmentsPanel assessmentId={id!} controls={controls} assignments={assignments} progress={assignmentProgress}
+          canManage={REVIEWER_ROLES.includes(user?.role || '')} onChange={loadAssignments} />
+      )}
+
+      {(showAmendments || amending) && (
+        <AmendmentsPanel assessmentId={id!} status={assessment?.status || ''} maturityMode={maturityMode}
+          controls={controls.map(c => ({ id: c.id, ref: c.ref }))} amendments={amendments}
+          canRequest={['org_admin', 'dpo', 'compliance_officer'].includes(user?.role || '')} canDecide={user?.role === 'dpo'}
+          onChange={() => setReloadKey(k => k + 1)} />
+      )}
+
       {/* Progress Bar */}
       <div className="bg-white rounded-xl border border-gray-200 p-4">
         <div className="flex items-center justify-between mb-2">
@@ -203,6 +693,42 @@ export default function AssessmentDetail() {
         <div className="h-2.5 bg-gray-100 rounded-full">
           <div className="h-2.5 bg-primary-600 rounded-full transition-all" style={{ width: `${progressPct}%` }} />
         </div>
+        {scorePreview && !isLocked && (
+          <div className="flex flex-wrap items-center gap-3 mt-3 text-sm">
+            <span className="text-gray-600">
+              Draft score <span className="font-semibold text-gray-900">{Math.round(scorePreview.current.overallScore)}%</span>
+              <span className="text-gray-400"> on {scorePreview.answeredCount} answered</span>
+            </span>
+            {whatIf?.result.projected && (
+              <span className="text-gray-600">
+                · Projected {whatIf.label}: <span className="font-semibold text-gray-900">{Math.round(whatIf.result.projected.overallScore)}%</span>
+                <span className={clsx('ml-1', (whatIf.result.overallDelta || 0) >= 0 ? 'text-green-600' : 'text-red-600')}>
+                  ({(whatIf.result.overallDelta || 0) >= 0 ? '+' : ''}{whatIf.result.overallDelta}%)
+                </span>
+                {whatIf.result.rejectedChanges.length > 0 && (
+                  <span className="text-amber-600"> · {whatIf.result.rejectedChanges.length} change(s) ignored</span>
+                )}
+              </span>
+            )}
+            {whatIf && !whatIf.result.projected && <span className="text-gray-400">· Nothing to simulate</span>}
+            {maturityGaps && maturityGaps.rated > 0 && (
+              <span className="text-gray-600">
+                · Avg maturity <span className="font-semibold text-gray-900">L{maturityGaps.averageLevel}</span> vs target L{maturityGaps.averageTarget}
+                {maturityGaps.belowTarget > 0 && <span className="text-amber-600"> · {maturityGaps.belowTarget} below target</span>}
+              </span>
+            )}
+            <div className="ml-auto flex gap-2">
+              <button onClick={() => simulate('unsaved')} disabled={dirty.size === 0}
+                className="px-3 py-1.5 border border-gray-300 rounded-lg text-xs font-medium hover:bg-gray-50 disabled:opacity-50">
+                What if: unsaved answers
+              </button>
+              <button onClick={() => simulate('tasks')}
+                className="px-3 py-1.5 border border-gray-300 rounded-lg text-xs font-medium hover:bg-gray-50">
+                What if: all open tasks close
+              </button>
+            </div>
+          </div>
+        )}
       </div>
 
       <div className="flex gap-6">
@@ -234,7 +760,14 @@ export default function AssessmentDetail() {
           </h2>
           {domainControls.map(control => {
             const resp = responses.get(control.id);
-            const isMandatory = control.mandatoryForTypes && control.mandatoryForTypes.length > 0;
+            const carriedInfo = carried.get(control.id);
+            const incomingCascades = cascades.filter(f => f.dependentControlId === control.id);
+            const outgoingCascades = cascades.filter(f => f.parentControlId === control.id);
+            const answerCap = incomingCascades.map(f => f.forcedAnswer).filter(Boolean)
+              .sort((a, b) => answerRank[a!] - answerRank[b!])[0] || null;
+            const isMandatory = control.isMandatory;
+            const assignment = assignmentFor(control);
+            const answerable = !isLocked && canAnswer(control);
             return (
               <div key={control.id} className="bg-white rounded-xl border border-gray-200 p-5">
                 <div className="flex items-start gap-3 mb-3">
@@ -251,7 +784,35 @@ export default function AssessmentDetail() {
                       {control.mohPolicyRef && <span className="text-xs bg-pink-50 text-pink-700 px-2 py-0.5 rounded">{control.mohPolicyRef}</span>}
                       {control.transferRegArticles && <span className="text-xs bg-orange-50 text-orange-700 px-2 py-0.5 rounded">{control.transferRegArticles}</span>}
                       {isMandatory && <span className="text-xs bg-red-50 text-red-700 px-2 py-0.5 rounded font-semibold">MANDATORY</span>}
+                      {maturityMode && (
+                        <span className={clsx('text-xs px-2 py-0.5 rounded',
+                          resp?.maturityLevel != null && resp.maturityLevel < control.targetMaturity ? 'bg-amber-50 text-amber-700 font-semibold' : 'bg-gray-100 text-gray-600')}>
+                          Target L{control.targetMaturity} {maturityLevels[control.targetMaturity]}
+                        </span>
+                      )}
+                      {assignment && (
+                        <span className={clsx('text-xs px-2 py-0.5 rounded',
+                          assignment.dueDate && new Date(assignment.dueDate) < new Date() && !resp?.answer ? 'bg-red-50 text-red-700' : 'bg-gray-100 text-gray-600')}>
+                          Assigned to {assignment.assigneeLabel}
+                          {assignment.dueDate && <> · due {new Date(assignment.dueDate).toLocaleDateString()}</>}
+                        </span>
+                      )}
                     </div>
+                    {carriedInfo && (
+                      <div className="flex flex-wrap items-center gap-2 mt-2">
+                        <span className="text-xs bg-amber-50 text-amber-700 px-2 py-0.5 rounded font-semibold">
+                          {dirty.has(control.id) ? 'RECONFIRMED — SAVE TO APPLY' : 'NEEDS RECONFIRMATION'}
+                        </span>
+                        {carriedInfo.controlUpdated && (
+                          <span className="text-xs bg-orange-50 text-orange-700 px-2 py-0.5 rounded font-semibold">CONTROL UPDATED SINCE LAST CYCLE</span>
+                        )}
+                        {answerable && !dirty.has(control.id) && (
+                          <button onClick={() => reconfirm(control.id)} className="text-xs text-primary-600 hover:underline">
+                            Confirm answer still applies
+                          </button>
+                        )}
+                      </div>
+                    )}
                     {control.evidenceGuidanceEn && (
                       <p className="text-xs text-gray-500 mt-2">
                         <span className="font-medium">Evidence:</span> {control.evidenceGuidanceEn}
@@ -260,33 +821,79 @@ export default function AssessmentDetail() {
                   </div>
                 </div>
 
+                {incomingCascades.map(f => (
+                  <div key={f.id} className="mt-2 px-3 py-2 rounded-lg bg-red-50 border border-red-200 text-xs text-red-800">
+                    <span className="font-semibold">Cascade from {f.parentControlId}</span> (answered {f.parentAnswer}): {f.reason}
+                    {f.forcedAnswer && <> Answer capped at <span className="font-semibold">{f.forcedAnswer}</span> until {f.parentControlId} is resolved.</>}
+                  </div>
+                ))}
+                {outgoingCascades.length > 0 && (
+                  <div className="mt-2 px-3 py-2 rounded-lg bg-amber-50 border border-amber-200 text-xs text-amber-800">
+                    This answer flagged dependent controls: {outgoingCascades.map(f => f.dependentControlId).join(', ')}
+                  </div>
+                )}
+
                 {/* Answer Options */}
-                <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mt-4">
-                  {answerOptions.map(opt => {
-                    const isNA = opt.value === 'NA';
-                    const disabled = isLocked || (isNA && isMandatory);
-                    const selected = resp?.answer === opt.value;
-                    return (
-                      <button key={opt.value} disabled={disabled}
-                        onClick={() => setAnswer(control.id, opt.value)}
-                        className={clsx(
-                          'flex items-center gap-2 px-3 py-2 rounded-lg border-2 text-sm font-medium transition-all',
-                          selected ? opt.color : 'border-gray-200 text-gray-500 hover:border-gray-300',
-                          disabled && 'opacity-40 cursor-not-allowed'
-                        )}>
-                        <opt.icon className="w-4 h-4 shrink-0" />
-                        <span className="truncate">{opt.label.split('—')[0].trim()}</span>
-                      </button>
-                    );
-                  })}
-                </div>
+                {maturityMode ? (
+                  <div className="grid grid-cols-4 md:grid-cols-7 gap-2 mt-4">
+                    {maturityLevels.map((name, level) => {
+                      const disabled = !answerable || (answerCap != null && level > maturityCap[answerCap]);
+                      const selected = resp?.answer !== 'NA' && resp?.maturityLevel === level;
+                      return (
+                        <button key={level} disabled={disabled} title={name}
+                          onClick={() => setAnswer(control.id, answerForLevel(level), level)}
+                          className={clsx(
+                            'flex flex-col items-center px-2 py-2 rounded-lg border-2 text-sm font-medium transition-all',
+                            selected
+                              ? level >= control.targetMaturity ? 'border-green-500 bg-green-50 text-green-800' : 'border-yellow-500 bg-yellow-50 text-yellow-800'
+                              : 'border-gray-200 text-gray-500 hover:border-gray-300',
+                            disabled && 'opacity-40 cursor-not-allowed'
+                          )}>
+                          <span className="font-bold">L{level}</span>
+                          <span className="text-xs truncate max-w-full">{name}</span>
+                        </button>
+                      );
+                    })}
+                    <button disabled={!answerable || isMandatory || answerCap != null}
+                      onClick={() => setAnswer(control.id, 'NA')}
+                      className={clsx(
+                        'flex flex-col items-center px-2 py-2 rounded-lg border-2 text-sm font-medium transition-all',
+                        resp?.answer === 'NA' ? 'border-gray-400 bg-gray-50 text-gray-700' : 'border-gray-200 text-gray-500 hover:border-gray-300',
+                        (!answerable || isMandatory || answerCap != null) && 'opacity-40 cursor-not-allowed'
+                      )}>
+                      <span className="font-bold">N/A</span>
+                      <span className="text-xs">Not applicable</span>
+                    </button>
+                  </div>
+                ) : (
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mt-4">
+                    {answerOptions.map(opt => {
+                      const isNA = opt.value === 'NA';
+                      const aboveCap = answerCap != null && (isNA || answerRank[opt.value] > answerRank[answerCap]);
+                      const disabled = !answerable || (isNA && isMandatory) || aboveCap;
+                      const selected = resp?.answer === opt.value;
+                      return (
+                        <button key={opt.value} disabled={disabled}
+                          onClick={() => setAnswer(control.id, opt.value)}
+                          className={clsx(
+                            'flex items-center gap-2 px-3 py-2 rounded-lg border-2 text-sm font-medium transition-all',
+                            selected ? opt.color : 'border-gray-200 text-gray-500 hover:border-gray-300',
+                            disabled && 'opacity-40 cursor-not-allowed'
+                          )}>
+                          <opt.icon className="w-4 h-4 shrink-0" />
+                          <span className="truncate">{opt.label.split('—')[0].trim()}</span>
+                        </button>
+                      );
+                    })}
+                  </div>
+                )}
 
                 {/* N/A Justification */}
                 {resp?.answer === 'NA' && (
                   <div className="mt-3">
                     <label className="text-xs font-medium text-gray-600">N/A Justification (min 20 chars)</label>
                     <textarea value={resp.naJustification} onChange={e => setField(control.id, 'naJustification', e.target.value)}
-                      disabled={isLocked} rows={2} minLength={20}
+                      disabled={!answerable} rows={2} minLength={20}
                       className="w-full mt-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 outline-none disabled:bg-gray-50" />
                   </div>
                 )}
@@ -296,10 +903,72 @@ export default function AssessmentDetail() {
                   <div className="mt-3">
                     <label className="text-xs font-medium text-gray-600">Notes (optional)</label>
                     <textarea value={resp.notes || ''} onChange={e => setField(control.id, 'notes', e.target.value)}
-                      disabled={isLocked} rows={2}
+                      disabled={!answerable} rows={2}
                       className="w-full mt-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 outline-none disabled:bg-gray-50" />
                   </div>
                 )}
+
+                {/* Review comments */}
+                {(() => {
+                  const controlComments = comments.filter(c => c.controlId === control.id);
+                  const openRequests = controlComments.filter(c => c.kind === 'CHANGE_REQUEST' && c.status === 'OPEN').length;
+                  if (controlComments.length === 0 && isLocked) return null;
+                  return (
+                    <div className="mt-3">
+                      <button onClick={() => setCommentsFor(commentsFor === control.id ? null : control.id)}
+                        className={clsx('flex items-center gap-1 text-xs hover:text-primary-600', openRequests > 0 ? 'text-red-600 font-semibold' : 'text-gray-500')}>
+                        <MessageSquare className="w-3.5 h-3.5" />
+                        Review comments ({controlComments.length}){openRequests > 0 && ` · ${openRequests} change request(s) open`}
+                      </button>
+                      {commentsFor === control.id && (
+                        <ReviewThread
+                          assessmentId={id!}
+                          controlId={control.id}
+                          comments={controlComments}
+                          canComment={!isLocked}
+                          canReview={assessment?.status === 'IN_REVIEW' && !!resp?.answer && REVIEWER_ROLES.includes(user?.role || '')}
+                          onChange={loadComments}
+                        />
+                      )}
+                    </div>
+                  );
+                })()}
+
+                {/* Answer history */}
+                {resp?.answer && (
+                  <div className="mt-3">
+                    <button onClick={() => toggleHistory(control.id)} className="flex items-center gap-1 text-xs text-gray-500 hover:text-primary-600">
+                      <History className="w-3.5 h-3.5" />
+                      {historyFor === control.id ? 'Hide answer history' : 'Answer history'}
+                    </button>
+                    {historyFor === control.id && (
+                      history.length === 0 ? (
+                        <p className="text-xs text-gray-400 mt-2">No recorded revisions for this answer.</p>
+                      ) : (
+                        <ol className="mt-2 border-l-2 border-gray-200 pl-4 space-y-3">
+                          {history.map(rev => (
+                            <li key={rev.id} className="text-xs">
+                              <div className="flex flex-wrap items-center gap-2">
+                                <span className="font-semibold text-gray-900">
+                                  #{rev.revision} {rev.maturityLevel != null ? `L${rev.maturityLevel} ${maturityLevels[rev.maturityLevel]}` : rev.answer}
+                                </span>
+                                <span className="text-gray-400">{rev.pointsEarned} pts</span>
+                                {rev.changeSource !== 'MANUAL' && (
+                                  <span className="bg-gray-100 text-gray-600 px-1.5 py-0.5 rounded">{rev.changeSource.replace('_', ' ')}</span>
+                                )}
+                                <span className="text-gray-500">
+                                  {rev.changedByUser.firstName} {rev.changedByUser.lastName} · {new Date(rev.changedAt).toLocaleString()}
+                                </span>
+                              </div>
+                              {rev.naJustification && <p className="text-gray-600 mt-0.5">Justification: {rev.naJustification}</p>}
+                              {rev.notes && <p className="text-gray-600 mt-0.5">Notes: {rev.notes}</p>}
+                            </li>
+                          ))}
+                        </ol>
+                      )
+                    )}
+                  </div>
+                )}
               </div>
             );
           })}
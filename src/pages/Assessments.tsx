@@ -1,14 +1,19 @@
 import { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import api from '../lib/api';
+import { type Facility } from '../components/FacilitiesPanel';
 import toast from 'react-hot-toast';
-import { ClipboardCheck, Plus, ChevronRight, CheckCircle2, Clock, FileText, Lock } from 'lucide-react';
+import { ClipboardCheck, Plus, ChevronRight, CheckCircle2, Clock, FileText, Lock, GitCompare } from 'lucide-react';
 import clsx from 'clsx';
 
 interface Assessment {
   id: string;
   assessmentVersion: number;
   status: string;
+  mode: string;
+  scopeType: string;
+  scopeValue: string | null;
+  facility: { id: string; name: string; region: string | null } | null;
   overallScore: number | null;
   totalControlsAssessed: number | null;
   criticalGaps: number | null;
@@ -18,10 +23,19 @@ interface Assessment {
   _count?: { responses: number };
 }
 
+type ScopeType = 'ORG' | 'REGION' | 'FACILITY' | 'DEPARTMENT';
+
+const scopeLabel = (a: Assessment) =>
+  a.scopeType === 'FACILITY' ? a.facility?.name
+    : a.scopeType === 'REGION' ? `${a.scopeValue} region`
+      : a.scopeType === 'DEPARTMENT' ? `${a.scopeValue} department`
+        : null;
+
 const statusColors: Record<string, string> = {
   DRAFT: 'bg-yellow-100 text-yellow-800',
   IN_REVIEW: 'bg-blue-100 text-blue-800',
   FINALIZED: 'bg-green-100 text-green-800',
+  AMENDING: 'bg-orange-100 text-orange-800',
   ARCHIVED: 'bg-gray-100 text-gray-800',
 };
 
@@ -29,6 +43,11 @@ export default function Assessments() {
   const [assessments, setAssessments] = useState<Assessment[]>([]);
   const [loading, setLoading] = useState(true);
   const [creating, setCreating] = useState(false);
+  const [mode, setMode] = useState<'STANDARD' | 'MATURITY'>('STANDARD');
+  const [scopeType, setScopeType] = useState<ScopeType>('ORG');
+  const [scopeValue, setScopeValue] = useState('');
+  const [regions, setRegions] = useState<string[]>([]);
+  const [facilities, setFacilities] = useState<Facility[]>([]);
   const navigate = useNavigate();
 
   useEffect(() => {
@@ -36,13 +55,27 @@ export default function Assessments() {
       setAssessments(r.data.data || []);
       setLoading(false);
     }).catch(() => setLoading(false));
+    api.get('/organizations/profile').then(r => setRegions(r.data.regionsOfOperation || [])).catch(() => {});
+    api.get('/organizations/facilities').then(r => setFacilities(r.data.data || [])).catch(() => {});
   }, []);
 
   const createAssessment = async () => {
+    // Carry-forward and versioning run per scope
+    const hasFinalized = assessments.some(a => a.finalizedAt && a.scopeType === scopeType
+      && (scopeType === 'FACILITY' ? a.facility?.id === scopeValue : scopeType === 'ORG' || a.scopeValue === scopeValue));
+    const carryForward = hasFinalized && confirm('Carry forward answers, notes and evidence from the last finalized assessment? Carried answers must be reconfirmed before finalization.');
     setCreating(true);
     try {
-      const { data } = await api.post('/assessments');
-      toast.success('Assessment created');
+      const { data } = await api.post('/assessments', {
+        carryForward,
+        mode,
+        scopeType,
+        scopeValue: scopeType === 'REGION' || scopeType === 'DEPARTMENT' ? scopeValue : undefined,
+        facilityId: scopeType === 'FACILITY' ? scopeValue : undefined,
+      });
+      toast.success(data.carriedForward
+        ? `Assessment created with ${data.carriedForward.responsesCarried} answers carried forward`
+        : 'Assessment created');
       navigate(`/assessments/${data.id}`);
     } catch (err: any) {
       toast.error(err.response?.data?.error || 'Failed to create assessment');
@@ -62,11 +95,52 @@ export default function Assessments() {
           <h1 className="text-2xl font-bold text-gray-900">Assessments</h1>
           <p className="text-gray-500 mt-1">Manage your PDPL compliance assessments across all 119 controls.</p>
         </div>
-        <button onClick={createAssessment} disabled={creating}
-          className="flex items-center gap-2 px-5 py-2.5 bg-primary-600 text-white rounded-lg font-medium hover:bg-primary-700 disabled:opacity-50 transition-colors">
-          <Plus className="w-4 h-4" />
-          {creating ? 'Creating...' : 'New Assessment'}
-        </button>
+        <div className="flex items-center gap-3">
+          {assessments.length >= 2 && (
+            <button onClick={() => navigate('/assessments/compare')}
+              className="flex items-center gap-2 px-5 py-2.5 border border-gray-300 rounded-lg font-medium hover:bg-gray-50 transition-colors">
+              <GitCompare className="w-4 h-4" />
+              Compare Versions
+            </button>
+          )}
+          <select value={scopeType} onChange={e => { setScopeType(e.target.value as ScopeType); setScopeValue(''); }}
+            title="Assessment scope"
+            className="px-3 py-2.5 border border-gray-300 rounded-lg text-sm bg-white">
+            <option value="ORG">Whole organization</option>
+            <option value="REGION">Region</option>
+            <option value="FACILITY">Facility</option>
+            <option value="DEPARTMENT">Department</option>
+          </select>
+          {scopeType === 'REGION' && (
+            <select value={scopeValue} onChange={e => setScopeValue(e.target.value)}
+              className="px-3 py-2.5 border border-gray-300 rounded-lg text-sm bg-white">
+              <option value="">Select region</option>
+              {regions.map(r => <option key={r} value={r}>{r}</option>)}
+            </select>
+          )}
+          {scopeType === 'FACILITY' && (
+            <select value={scopeValue} onChange={e => setScopeValue(e.target.value)}
+              className="px-3 py-2.5 border border-gray-300 rounded-lg text-sm bg-white">
+              <option value="">{facilities.length ? 'Select facility' : 'No facilities — add them in Organization'}</option>
+              {facilities.map(f => <option key={f.id} value={f.id}>{f.name}</option>)}
+            </select>
+          )}
+          {scopeType === 'DEPARTMENT' && (
+            <input value={scopeValue} onChange={e => setScopeValue(e.target.value)} placeholder="Department name"
+              className="px-3 py-2.5 border border-gray-300 rounded-lg text-sm w-44" />
+          )}
+          <select value={mode} onChange={e => setMode(e.target.value as 'STANDARD' | 'MATURITY')}
+            title="Assessment mode"
+            className="px-3 py-2.5 border border-gray-300 rounded-lg text-sm bg-white">
+            <option value="STANDARD">Standard (Yes / Partial / No)</option>
+            <option value="MATURITY">Maturity (levels 0–5)</option>
+          </select>
+          <button onClick={createAssessment} disabled={creating || (scopeType !== 'ORG' && !scopeValue.trim())}
+            className="flex items-center gap-2 px-5 py-2.5 bg-primary-600 text-white rounded-lg font-medium hover:bg-primary-700 disabled:opacity-50 transition-colors">
+            <Plus className="w-4 h-4" />
+            {creating ? 'Creating...' : 'New Assessment'}
+          </button>
+        </div>
       </div>
 
       {assessments.length === 0 ? (
@@ -99,6 +173,12 @@ export default function Assessments() {
                     <span className={clsx('px-2.5 py-0.5 rounded-full text-xs font-medium', statusColors[a.status])}>
                       {a.status}
                     </span>
+                    {scopeLabel(a) && (
+                      <span className="px-2.5 py-0.5 rounded-full text-xs font-medium bg-teal-100 text-teal-800">{scopeLabel(a)}</span>
+                    )}
+                    {a.mode === 'MATURITY' && (
+                      <span className="px-2.5 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-800">Maturity 0–5</span>
+                    )}
                   </div>
                   <div className="flex items-center gap-4 mt-1 text-sm text-gray-500">
                     <span className="flex items-center gap-1">
@@ -1,13 +1,18 @@
 import { useEffect, useState } from 'react';
 import api from '../lib/api';
-import { Shield, Search, Filter } from 'lucide-react';
+import LibraryReleasesPanel from '../components/LibraryReleasesPanel';
+import CustomControlsPanel from '../components/CustomControlsPanel';
+import { useAuthStore } from '../stores/authStore';
+import { Shield, Search, Filter, Download } from 'lucide-react';
+import toast from 'react-hot-toast';
 import clsx from 'clsx';
 
 interface Control {
   id: string; ref: string; source: string; domainNumber: number; domainName: string;
   objectiveEn: string; riskLevel: string; regArticles: string | null; pdplArticles: string | null;
   transferRegArticles: string | null; ncaRef: string | null; mohPolicyRef: string | null;
-  evidenceGuidanceEn: string | null; pointsYes: number; pointsPartial: number;
+  evidenceGuidanceEn: string | null; pointsYes: number; pointsPartial: number; isMandatory: boolean;
+  includeInScore: boolean;
 }
 
 const riskColors: Record<string, string> = {
@@ -16,9 +21,11 @@ const riskColors: Record<string, string> = {
 };
 const sourceColors: Record<string, string> = {
   PDPL: 'bg-indigo-100 text-indigo-800', NCA_ECC: 'bg-teal-100 text-teal-800', MOH: 'bg-pink-100 text-pink-800',
+  CUSTOM: 'bg-amber-100 text-amber-800',
 };
 
 export default function Controls() {
+  const { user } = useAuthStore();
   const [controls, setControls] = useState<Control[]>([]);
   const [loading, setLoading] = useState(true);
   const [search, setSearch] = useState('');
@@ -26,9 +33,26 @@ export default function Controls() {
   const [filterRisk, setFilterRisk] = useState('');
   const [filterDomain, setFilterDomain] = useState('');
 
-  useEffect(() => {
+  const loadControls = () => {
     api.get('/controls').then(r => { setControls(r.data.data || r.data); setLoading(false); }).catch(() => setLoading(false));
-  }, []);
+  };
+
+  useEffect(loadControls, []);
+
+  const exportCatalog = async () => {
+    try {
+      const { data, headers } = await api.get('/controls/oscal/catalog', { responseType: 'blob' });
+      const filename = String(headers['content-disposition'] || '').match(/filename="?([^";]+)"?/)?.[1] || 'control-library.oscal.json';
+      const url = URL.createObjectURL(data);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch {
+      toast.error('Failed to export the OSCAL catalog');
+    }
+  };
 
   const filtered = controls.filter(c => {
     if (filterSource && c.source !== filterSource) return false;
@@ -42,18 +66,31 @@ export default function Controls() {
   });
 
   const domains = [...new Map(controls.map(c => [c.domainNumber, c.domainName])).entries()].sort((a, b) => a[0] - b[0]);
+  const libraryDomains = [...new Map(controls.filter(c => c.source !== 'CUSTOM').map(c => [c.domainNumber, c.domainName])).entries()]
+    .sort((a, b) => a[0] - b[0]);
+  const importedSources = [...new Set(controls.map(c => c.source))].filter(s => !['PDPL', 'NCA_ECC', 'MOH', 'CUSTOM'].includes(s));
+  const canManageCustom = ['super_admin', 'org_admin', 'dpo'].includes(user?.role || '');
 
   if (loading) return <div className="flex items-center justify-center h-64"><div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600" /></div>;
 
   return (
     <div className="space-y-6">
-      <div>
-        <h1 className="text-2xl font-bold text-gray-900 flex items-center gap-3">
-          <Shield className="w-7 h-7 text-primary-600" /> Control Library
-        </h1>
-        <p className="text-gray-500 mt-1">{controls.length} controls across PDPL, NCA ECC, and MoH frameworks.</p>
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 flex items-center gap-3">
+            <Shield className="w-7 h-7 text-primary-600" /> Control Library
+          </h1>
+          <p className="text-gray-500 mt-1">{controls.length} controls across PDPL, NCA ECC, and MoH frameworks.</p>
+        </div>
+        <button onClick={exportCatalog} title="NIST OSCAL catalog (JSON) of the shared library"
+          className="flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium hover:bg-gray-50">
+          <Download className="w-4 h-4" /> Export OSCAL
+        </button>
       </div>
 
+      <LibraryReleasesPanel onLibraryChange={loadControls} />
+      {canManageCustom && <CustomControlsPanel libraryDomains={libraryDomains} onChange={loadControls} />}
+
       <div className="flex items-center gap-3 flex-wrap">
         <div className="relative flex-1 min-w-[200px]">
           <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
@@ -64,6 +101,8 @@ export default function Controls() {
         <select value={filterSource} onChange={e => setFilterSource(e.target.value)} className="px-3 py-2.5 border border-gray-300 rounded-lg text-sm bg-white">
           <option value="">All Sources</option>
           <option value="PDPL">PDPL</option><option value="NCA_ECC">NCA ECC</option><option value="MOH">MoH</option>
+          {importedSources.map(s => <option key={s} value={s}>{s}</option>)}
+          <option value="CUSTOM">Internal</option>
         </select>
         <select value={filterRisk} onChange={e => setFilterRisk(e.target.value)} className="px-3 py-2.5 border border-gray-300 rounded-lg text-sm bg-white">
           <option value="">All Risk Levels</option>
@@ -83,11 +122,15 @@ export default function Controls() {
             <div className="flex items-start gap-3">
               <div className="flex flex-col gap-1 shrink-0 items-center w-20">
                 <span className={clsx('px-2 py-0.5 rounded text-xs font-semibold', riskColors[c.riskLevel])}>{c.riskLevel}</span>
-                <span className={clsx('px-2 py-0.5 rounded text-xs font-medium', sourceColors[c.source])}>{c.source}</span>
+                <span className={clsx('px-2 py-0.5 rounded text-xs font-medium', sourceColors[c.source] || 'bg-gray-100 text-gray-800')}>{c.source}</span>
                 <span className="text-xs text-gray-400">D{c.domainNumber}</span>
               </div>
               <div className="flex-1 min-w-0">
-                <h4 className="font-semibold text-gray-900 text-sm">{c.id} — {c.ref}</h4>
+                <div className="flex items-center gap-2">
+                  <h4 className="font-semibold text-gray-900 text-sm">{c.source === 'CUSTOM' ? c.ref : `${c.id} — ${c.ref}`}</h4>
+                  {c.isMandatory && <span className="text-xs bg-red-50 text-red-700 px-2 py-0.5 rounded font-semibold">MANDATORY</span>}
+                  {!c.includeInScore && <span className="text-xs bg-gray-100 text-gray-600 px-2 py-0.5 rounded">Not scored</span>}
+                </div>
                 <p className="text-sm text-gray-700 mt-1">{c.objectiveEn}</p>
                 <div className="flex flex-wrap gap-1.5 mt-2">
                   {c.regArticles && <span className="text-xs bg-blue-50 text-blue-700 px-1.5 py-0.5 rounded">{c.regArticles}</span>}
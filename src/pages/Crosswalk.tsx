@@ -0,0 +1,243 @@
+import { useEffect, useState } from 'react';
+import api from '../lib/api';
+import toast from 'react-hot-toast';
+import { useAuthStore } from '../stores/authStore';
+import { Network, Search, Plus, X } from 'lucide-react';
+import clsx from 'clsx';
+
+interface Framework {
+  framework: string;
+  name: string;
+  requirements: number;
+  controls: number;
+}
+
+interface MappedControl {
+  controlId: string;
+  ref: string;
+  source: string;
+  objectiveEn: string;
+  coverage: 'FULL' | 'PARTIAL';
+  applicable: boolean;
+  evidenceFiles: number;
+  mappingId: string;
+  origin: string;
+}
+
+interface Requirement {
+  requirementId: string;
+  requirementTitle: string | null;
+  controls: MappedControl[];
+  applicableControls: number;
+}
+
+interface Coverage {
+  frameworkName: string;
+  data: Requirement[];
+  summary: { requirements: number; covered: number; controls: number };
+}
+
+type RequirementStatus = 'COMPLIANT' | 'PARTIAL' | 'NON_COMPLIANT' | 'NOT_APPLICABLE' | 'NOT_ASSESSED';
+
+interface Compliance {
+  score: number | null;
+  counts: Record<RequirementStatus, number>;
+  requirements: { requirementId: string; status: RequirementStatus }[];
+}
+
+interface AssessmentSummary {
+  id: string;
+  assessmentVersion: number;
+  status: string;
+}
+
+const statusStyles: Record<RequirementStatus, { label: string; className: string }> = {
+  COMPLIANT: { label: 'Met', className: 'bg-green-100 text-green-800' },
+  PARTIAL: { label: 'Partial', className: 'bg-yellow-100 text-yellow-800' },
+  NON_COMPLIANT: { label: 'Not met', className: 'bg-red-100 text-red-800' },
+  NOT_APPLICABLE: { label: 'N/A', className: 'bg-gray-100 text-gray-600' },
+  NOT_ASSESSED: { label: 'Not assessed', className: 'bg-gray-50 text-gray-400' },
+};
+
+const emptyMapping = { controlId: '', requirementId: '', requirementTitle: '', coverage: 'FULL' };
+
+export default function Crosswalk() {
+  const { user } = useAuthStore();
+  const [frameworks, setFrameworks] = useState<Framework[]>([]);
+  const [framework, setFramework] = useState('NCA_ECC');
+  const [query, setQuery] = useState('');
+  const [searched, setSearched] = useState('');
+  const [reloadKey, setReloadKey] = useState(0);
+  const [coverage, setCoverage] = useState<Coverage | null>(null);
+  const [assessments, setAssessments] = useState<AssessmentSummary[]>([]);
+  const [assessmentId, setAssessmentId] = useState('');
+  const [compliance, setCompliance] = useState<Compliance | null>(null);
+  const [mapping, setMapping] = useState(emptyMapping);
+  const canMap = ['super_admin', 'org_admin', 'dpo'].includes(user?.role || '');
+
+  useEffect(() => {
+    api.get('/crosswalk/frameworks').then(r => setFrameworks(r.data.data || [])).catch(() => {});
+    api.get('/assessments').then(r => {
+      const list: AssessmentSummary[] = (r.data.data || []).sort((a: AssessmentSummary, b: AssessmentSummary) => b.assessmentVersion - a.assessmentVersion);
+      setAssessments(list);
+      if (list.length > 0) setAssessmentId(list[0].id);
+    }).catch(() => {});
+  }, []);
+
+  useEffect(() => {
+    api.get('/crosswalk/coverage', { params: { framework, requirement: searched || undefined } })
+      .then(r => setCoverage(r.data))
+      .catch(() => setCoverage(null));
+  }, [framework, searched, reloadKey]);
+
+  useEffect(() => {
+    if (!assessmentId) return;
+    api.get(`/assessments/${assessmentId}/framework-compliance`, { params: { framework } })
+      .then(r => setCompliance(r.data))
+      .catch(() => setCompliance(null));
+  }, [assessmentId, framework, reloadKey]);
+
+  const addMapping = async () => {
+    try {
+      await api.post('/crosswalk/mappings', { ...mapping, framework });
+      toast.success('Mapping added');
+      setMapping(emptyMapping);
+      setReloadKey(k => k + 1);
+    } catch (err: any) {
+      toast.error(err.response?.data?.error || 'Failed to add mapping');
+    }
+  };
+
+  const removeMapping = async (control: MappedControl, requirementId: string) => {
+    if (!confirm(`Remove the mapping of ${control.controlId} to ${requirementId}?`)) return;
+    try {
+      await api.delete(`/crosswalk/mappings/${control.mappingId}`);
+      setReloadKey(k => k + 1);
+    } catch (err: any) {
+      toast.error(err.response?.data?.error || 'Failed to remove mapping');
+    }
+  };
+
+  const statusOf = (requirementId: string) => compliance?.requirements.find(r => r.requirementId === requirementId)?.status;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900 flex items-center gap-3">
+          <Network className="w-7 h-7 text-primary-600" /> Framework Crosswalk
+        </h1>
+        <p className="text-gray-500 mt-1">Which of your controls satisfy each requirement of PDPL, NCA ECC, MoH and ISO/IEC 27001 / 27701.</p>
+      </div>
+
+      <div className="flex items-center gap-3 flex-wrap">
+        <select value={framework} onChange={e => setFramework(e.target.value)} className="px-3 py-2.5 border border-gray-300 rounded-lg text-sm bg-white">
+          {frameworks.map(f => (
+            <option key={f.framework} value={f.framework}>{f.name} ({f.requirements} requirements)</option>
+          ))}
+        </select>
+        <form onSubmit={e => { e.preventDefault(); setSearched(query.trim()); }} className="relative flex-1 min-w-[200px]">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+          <input value={query} onChange={e => setQuery(e.target.value)} placeholder="Requirement, e.g. 2-2-1 or A.5.15 (Enter to search)"
+            className="w-full pl-10 pr-4 py-2.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 outline-none" />
+        </form>
+        {assessments.length > 0 && (
+          <select value={assessmentId} onChange={e => setAssessmentId(e.target.value)} className="px-3 py-2.5 border border-gray-300 rounded-lg text-sm bg-white">
+            {assessments.map(a => <option key={a.id} value={a.id}>Assessment v{a.assessmentVersion} ({a.status.toLowerCase()})</option>)}
+          </select>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="bg-white rounded-xl border border-gray-200 p-4">
+          <p className="text-xs text-gray-500">Derived compliance</p>
+          <p className="text-2xl font-bold text-gray-900">{compliance?.score != null ? `${compliance.score}%` : '—'}</p>
+        </div>
+        <div className="bg-white rounded-xl border border-gray-200 p-4">
+          <p className="text-xs text-gray-500">Requirements mapped</p>
+          <p className="text-2xl font-bold text-gray-900">{coverage?.summary.requirements ?? 0}</p>
+        </div>
+        <div className="bg-white rounded-xl border border-gray-200 p-4">
+          <p className="text-xs text-gray-500">Covered by applicable controls</p>
+          <p className="text-2xl font-bold text-gray-900">{coverage?.summary.covered ?? 0}</p>
+        </div>
+        <div className="bg-white rounded-xl border border-gray-200 p-4">
+          <p className="text-xs text-gray-500">Met / partial / not met</p>
+          <p className="text-2xl font-bold text-gray-900">
+            {compliance ? `${compliance.counts.COMPLIANT} / ${compliance.counts.PARTIAL} / ${compliance.counts.NON_COMPLIANT}` : '—'}
+          </p>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl border border-gray-200 overflow-hidden">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50">
+            <tr className="text-left text-xs text-gray-500">
+              <th className="px-4 py-2.5 w-40">Requirement</th>
+              <th className="px-4 py-2.5">Controls</th>
+              <th className="px-4 py-2.5 w-28">Status</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {coverage?.data.map(r => {
+              const status = statusOf(r.requirementId);
+              return (
+                <tr key={r.requirementId} className="align-top">
+                  <td className="px-4 py-3">
+                    <p className="font-semibold text-gray-900">{r.requirementId}</p>
+                    {r.requirementTitle && <p className="text-xs text-gray-500">{r.requirementTitle}</p>}
+                  </td>
+                  <td className="px-4 py-3">
+                    <div className="flex flex-wrap gap-1.5">
+                      {r.controls.map(c => (
+                        <span key={c.mappingId} title={c.objectiveEn}
+                          className={clsx('inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs border',
+                            c.applicable ? 'border-gray-200 text-gray-800' : 'border-dashed border-gray-200 text-gray-400')}>
+                          {c.controlId}
+                          {c.coverage === 'PARTIAL' && <span className="text-yellow-700">partial</span>}
+                          {c.evidenceFiles > 0 && <span className="text-primary-600">· {c.evidenceFiles} evidence</span>}
+                          {canMap && c.origin === 'CURATED' && (
+                            <button onClick={() => removeMapping(c, r.requirementId)} className="text-gray-400 hover:text-red-600" title="Remove mapping">
+                              <X className="w-3 h-3" />
+                            </button>
+                          )}
+                        </span>
+                      ))}
+                    </div>
+                  </td>
+                  <td className="px-4 py-3">
+                    {status && <span className={clsx('px-2 py-0.5 rounded-full text-xs font-medium', statusStyles[status].className)}>{statusStyles[status].label}</span>}
+                  </td>
+                </tr>
+              );
+            })}
+            {coverage && coverage.data.length === 0 && (
+              <tr><td colSpan={3} className="px-4 py-8 text-center text-gray-400">No controls are mapped to this requirement yet.</td></tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {canMap && (
+        <div className="bg-white rounded-xl border border-gray-200 p-5">
+          <h3 className="text-sm font-semibold text-gray-700 mb-1">Map a control</h3>
+          <p className="text-xs text-gray-500 mb-3">
+            {user?.role === 'super_admin' ? 'Library mappings are shared with every organization.' : 'You can map your organization\'s custom controls; library mappings are maintained by the platform.'}
+          </p>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+            <input value={mapping.controlId} onChange={e => setMapping({ ...mapping, controlId: e.target.value })} placeholder="Control ID" className="input-field" />
+            <input value={mapping.requirementId} onChange={e => setMapping({ ...mapping, requirementId: e.target.value })} placeholder="Requirement ID" className="input-field" />
+            <input value={mapping.requirementTitle} onChange={e => setMapping({ ...mapping, requirementTitle: e.target.value })} placeholder="Title (optional)" className="input-field md:col-span-2" />
+            <select value={mapping.coverage} onChange={e => setMapping({ ...mapping, coverage: e.target.value })} className="input-field bg-white">
+              <option value="FULL">Fully satisfies</option>
+              <option value="PARTIAL">Partially satisfies</option>
+            </select>
+          </div>
+          <button onClick={addMapping} disabled={!mapping.controlId.trim() || !mapping.requirementId.trim()}
+            className="mt-3 flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium hover:bg-gray-50 disabled:opacity-50">
+            <Plus className="w-4 h-4" /> Add Mapping
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,21 +2,37 @@ import { useEffect, useState } from 'react';
 import { Link } from 'react-router-dom';
 import api from '../lib/api';
 import { useAuthStore } from '../stores/authStore';
+import FacilityRollup from '../components/FacilityRollup';
+import AssessmentCadence from '../components/AssessmentCadence';
 import {
   Shield, AlertTriangle, CheckCircle2, Clock, TrendingUp,
   ClipboardCheck, ListTodo, GraduationCap, ArrowRight
 } from 'lucide-react';
 import clsx from 'clsx';
 
+interface SourceScore {
+  source: string;
+  sourceName: string;
+  percentage: number;
+  controlCount: number;
+  gapCount: number;
+  criticalGaps: number;
+  highGaps: number;
+}
+
 interface DashboardData {
+  latestAssessmentId: string | null;
   currentScore: number | null;
   domainScores: Record<string, any> | null;
+  sourceScores: SourceScore[] | null;
   criticalGaps: number;
   highGaps: number;
   mediumGaps: number;
   lowGaps: number;
   trend: { version: number; score: number; date: string }[];
-  draftProgress: { id: string; responsesCount: number } | null;
+  projectedScore: number | null;
+  projectedTasksClosed: number;
+  draftProgress: { id: string; responsesCount: number; totalApplicable: number; score: number } | null;
   tasks: Record<string, number>;
 }
 
@@ -96,12 +112,26 @@ export default function Dashboard() {
         </p>
       </div>
 
+      <AssessmentCadence />
+
       {/* Score + Quick Stats */}
       <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
         {/* Score Card */}
         <div className="lg:col-span-1 bg-white rounded-xl border border-gray-200 p-6 flex flex-col items-center">
           {data?.currentScore != null ? (
-            <ScoreRing score={Math.round(data.currentScore)} />
+            <>
+              <ScoreRing score={Math.round(data.currentScore)} />
+              {data.projectedScore != null && (
+                <p className="text-sm text-gray-600 mt-3 flex items-center gap-1.5" title="Projected score if every open remediation task on the latest assessment closes">
+                  <TrendingUp className="w-4 h-4 text-green-600" />
+                  <span className="font-semibold text-green-700">{Math.round(data.projectedScore)}%</span>
+                  if {data.projectedTasksClosed} open task{data.projectedTasksClosed === 1 ? '' : 's'} close
+                </p>
+              )}
+              <Link to={`/assessments/${data.latestAssessmentId}/score`} className="text-sm text-primary-600 font-medium hover:underline mt-2">
+                Explain my score →
+              </Link>
+            </>
           ) : (
             <div className="text-center py-6">
               <Shield className="w-12 h-12 text-gray-300 mx-auto mb-3" />
@@ -111,6 +141,11 @@ export default function Dashboard() {
               </Link>
             </div>
           )}
+          {data?.draftProgress && (
+            <Link to={`/assessments/${data.draftProgress.id}`} className="mt-3 text-xs text-gray-500 hover:text-primary-600 text-center">
+              Draft in progress: {Math.round(data.draftProgress.score)}% on {data.draftProgress.responsesCount}/{data.draftProgress.totalApplicable} answered
+            </Link>
+          )}
         </div>
 
         {/* Gap Stats */}
@@ -139,6 +174,35 @@ export default function Dashboard() {
           href="/training" color="success" />
       </div>
 
+      {/* Framework Scores */}
+      {data?.sourceScores && data.sourceScores.length > 0 && (
+        <div className="bg-white rounded-xl border border-gray-200 p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Scores by Framework</h3>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            {data.sourceScores.map(f => (
+              <div key={f.source}>
+                <div className="flex items-baseline justify-between">
+                  <span className="text-sm font-medium text-gray-700">{f.sourceName}</span>
+                  <span className={clsx('text-xl font-bold',
+                    f.percentage >= 80 ? 'text-green-600' : f.percentage >= 60 ? 'text-yellow-600' : 'text-red-600'
+                  )}>{Math.round(f.percentage)}%</span>
+                </div>
+                <div className="h-2 bg-gray-100 rounded-full mt-2">
+                  <div className={clsx('h-2 rounded-full',
+                    f.percentage >= 80 ? 'bg-green-500' : f.percentage >= 60 ? 'bg-yellow-500' : 'bg-red-500'
+                  )} style={{ width: `${f.percentage}%` }} />
+                </div>
+                <p className="text-xs text-gray-500 mt-2">
+                  {f.controlCount} controls · {f.gapCount} gaps ({f.criticalGaps} critical, {f.highGaps} high)
+                </p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <FacilityRollup />
+
       {/* Gap Breakdown + Recent Activity */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Gap Breakdown */}
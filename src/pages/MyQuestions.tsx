@@ -0,0 +1,100 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import api from '../lib/api';
+import { Inbox, Clock, CheckCircle2 } from 'lucide-react';
+import clsx from 'clsx';
+
+interface Question {
+  assessmentId: string;
+  assessmentVersion: number;
+  assessmentStatus: string;
+  controlId: string;
+  ref: string;
+  domainNumber: number;
+  domainName: string;
+  objectiveEn: string;
+  riskLevel: string;
+  answer: string | null;
+  dueDate: string | null;
+  assignmentScope: string;
+}
+
+const riskColors: Record<string, string> = {
+  CRITICAL: 'text-red-600', HIGH: 'text-orange-600', MEDIUM: 'text-yellow-600', LOW: 'text-blue-600',
+};
+
+export default function MyQuestions() {
+  const navigate = useNavigate();
+  const [questions, setQuestions] = useState<Question[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showAnswered, setShowAnswered] = useState(false);
+
+  useEffect(() => {
+    api.get('/assessments/my-questions').then(r => {
+      setQuestions(r.data.data || []);
+      setLoading(false);
+    }).catch(() => setLoading(false));
+  }, []);
+
+  if (loading) {
+    return <div className="flex items-center justify-center h-64"><div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600" /></div>;
+  }
+
+  const unanswered = questions.filter(q => !q.answer);
+  const overdue = unanswered.filter(q => q.dueDate && new Date(q.dueDate) < new Date());
+  const visible = showAnswered ? questions : unanswered;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-end justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 flex items-center gap-3">
+            <Inbox className="w-7 h-7 text-primary-600" />
+            My Questions
+          </h1>
+          <p className="text-gray-500 mt-1">
+            {unanswered.length} awaiting your answer · {overdue.length} overdue
+          </p>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          <input type="checkbox" checked={showAnswered} onChange={e => setShowAnswered(e.target.checked)} />
+          Show answered
+        </label>
+      </div>
+
+      {visible.length === 0 ? (
+        <div className="bg-white rounded-xl border border-gray-200 p-12 text-center">
+          <CheckCircle2 className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+          <h3 className="text-lg font-semibold text-gray-900">Nothing waiting on you</h3>
+          <p className="text-gray-500 mt-2">Controls delegated to you or your role will appear here.</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {visible.map(q => {
+            const isOverdue = !q.answer && q.dueDate && new Date(q.dueDate) < new Date();
+            return (
+              <div key={`${q.assessmentId}-${q.controlId}`}
+                onClick={() => navigate(`/assessments/${q.assessmentId}?domain=${q.domainNumber}`)}
+                className="bg-white rounded-xl border border-gray-200 p-5 cursor-pointer hover:bg-gray-50 transition-colors">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <span className={clsx('text-xs font-bold', riskColors[q.riskLevel])}>{q.riskLevel}</span>
+                  <span className="text-xs bg-gray-100 text-gray-600 px-2 py-0.5 rounded">Assessment v{q.assessmentVersion}</span>
+                  <span className="text-xs text-gray-500">D{q.domainNumber}. {q.domainName}</span>
+                  {q.answer && <span className="text-xs bg-green-50 text-green-700 px-2 py-0.5 rounded">Answered {q.answer}</span>}
+                  {isOverdue && <span className="text-xs bg-red-500 text-white px-2 py-0.5 rounded font-semibold">OVERDUE</span>}
+                </div>
+                <h4 className="font-semibold text-gray-900 mt-2">{q.ref} — {q.controlId}</h4>
+                <p className="text-sm text-gray-600 mt-1 line-clamp-2">{q.objectiveEn}</p>
+                {q.dueDate && (
+                  <p className={clsx('text-xs mt-2 flex items-center gap-1', isOverdue ? 'text-red-600' : 'text-gray-400')}>
+                    <Clock className="w-3.5 h-3.5" /> Due {new Date(q.dueDate).toLocaleDateString()}
+                  </p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,7 @@
 import { useEffect, useState } from 'react';
 import api from '../lib/api';
+import FacilitiesPanel from '../components/FacilitiesPanel';
+import AssessmentSchedulesPanel from '../components/AssessmentSchedulesPanel';
 import toast from 'react-hot-toast';
 import { Building2, Save, AlertCircle } from 'lucide-react';
 
@@ -32,7 +34,7 @@ interface OrgProfile {
   regionsOfOperation: string[]; processesMinors: boolean; crossBorderTransfers: boolean;
   usesCloud: string; conductsResearch: boolean; usesAiOrAutomatedDecisions: boolean;
   continuousMonitoring: boolean; dpoAppointed: boolean; dpoName: string; dpoEmail: string;
-  applicableRegulatoryBodies: string[]; onboardingCompleted: boolean;
+  applicableRegulatoryBodies: string[]; onboardingCompleted: boolean; reassessmentPolicyMonths: number | null;
 }
 
 export default function Organization() {
@@ -204,6 +206,20 @@ export default function Organization() {
           ))}
         </div>
       </Section>
+
+      {/* Reassessment policy */}
+      <Section title="Reassessment Policy">
+        <Field label="Maximum age of the last finalized assessment (months)">
+          <input type="number" min={1} max={36} value={profile.reassessmentPolicyMonths || ''}
+            onChange={e => handleChange('reassessmentPolicyMonths', e.target.value ? parseInt(e.target.value) : null)}
+            className="input-field w-40" placeholder="No policy" />
+        </Field>
+        <p className="text-sm text-gray-500 -mt-2">The dashboard flags the organization as overdue once its last organization-wide finalization is older than this.</p>
+      </Section>
+
+      <AssessmentSchedulesPanel />
+
+      <FacilitiesPanel regions={profile.regionsOfOperation} />
     </div>
   );
 }
@@ -1,4 +1,5 @@
 import { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import api from '../lib/api';
 import toast from 'react-hot-toast';
 import { ListTodo, Filter, ChevronDown, Clock, Bot, User } from 'lucide-react';
@@ -38,7 +39,8 @@ export default function Remediation() {
   const [loading, setLoading] = useState(true);
   const [filterStatus, setFilterStatus] = useState('');
   const [filterRisk, setFilterRisk] = useState('');
-  const [expandedTask, setExpandedTask] = useState<string | null>(null);
+  const [searchParams] = useSearchParams();
+  const [expandedTask, setExpandedTask] = useState<string | null>(searchParams.get('task'));
   const [generatingAI, setGeneratingAI] = useState<string | null>(null);
 
   const fetchTasks = () => {
@@ -1,7 +1,7 @@
 import { useEffect, useState } from 'react';
 import api from '../lib/api';
 import toast from 'react-hot-toast';
-import { FileText, Download, Lock, Clock, CheckCircle2 } from 'lucide-react';
+import { FileText, Download, Lock, Clock, CheckCircle2, FileJson } from 'lucide-react';
 import clsx from 'clsx';
 
 interface Assessment {
@@ -23,19 +23,37 @@ export default function Reports() {
 
   const downloadReport = async (assessmentId: string, format: string) => {
     try {
+      const headers: Record<string, string> = {};
       if (format === 'audit') {
         const password = prompt('Enter your password to access the Audit-Ready Package (re-authentication required):');
         if (!password) return;
+        const { data: stepUp } = await api.post('/auth/step-up', { password });
+        headers['X-Step-Up-Token'] = stepUp.stepUpToken;
         toast.success('Audit package access verified');
       }
-      const { data } = await api.get(`/assessments/${assessmentId}/report`, { params: { format } });
-      if (data.url) {
-        window.open(data.url, '_blank');
-      } else {
-        toast.success(`${format.toUpperCase()} report generated. Download will begin shortly.`);
-      }
+      const { data, headers: responseHeaders } = format === 'oscal'
+        ? await api.get(`/assessments/${assessmentId}/oscal-results`, { responseType: 'blob' })
+        : await api.get(`/assessments/${assessmentId}/report`, { params: { format }, headers, responseType: 'blob' });
+      const disposition = String(responseHeaders['content-disposition'] || '');
+      const filename = disposition.match(/filename="?([^";]+)"?/)?.[1] || `compliance-report.${format}`;
+      const url = URL.createObjectURL(data);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+      toast.success(`${format.toUpperCase()} report downloaded`);
     } catch (err: any) {
-      toast.error(err.response?.data?.error || 'Report generation failed');
+      let message = err.response?.data?.error;
+      if (err.response?.data instanceof Blob) {
+        // The error body arrives as a blob too; a proxy error page or an empty body is not JSON
+        try {
+          message = JSON.parse(await err.response.data.text()).error;
+        } catch {
+          message = null;
+        }
+      }
+      toast.error(message || 'Report generation failed');
     }
   };
 
@@ -71,7 +89,7 @@ export default function Reports() {
             <Lock className="w-5 h-5 text-red-600" />
           </div>
           <h3 className="font-semibold text-gray-900 text-sm">Audit-Ready Package</h3>
-          <p className="text-xs text-gray-500 mt-1">Timestamped assessment, SHA-256 evidence hashes, user attribution, DPO attestation. Requires re-authentication.</p>
+          <p className="text-xs text-gray-500 mt-1">Signed ZIP: timestamped assessment, evidence files with SHA-256 hashes, audit log, DPO attestation. Requires re-authentication.</p>
         </div>
       </div>
 
@@ -115,6 +133,10 @@ export default function Reports() {
                   className="flex items-center gap-2 px-4 py-2 border border-red-300 rounded-lg text-sm font-medium text-red-700 hover:bg-red-50 transition-colors">
                   <Lock className="w-4 h-4" /> Audit Package (Re-Auth)
                 </button>
+                <button onClick={() => downloadReport(a.id, 'oscal')}
+                  className="flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium hover:bg-gray-50 transition-colors">
+                  <FileJson className="w-4 h-4 text-gray-600" /> OSCAL Results (JSON)
+                </button>
               </div>
             </div>
           ))}
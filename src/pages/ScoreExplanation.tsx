@@ -0,0 +1,144 @@
+import { useEffect, useState } from 'react';
+import { Link, useParams, useNavigate } from 'react-router-dom';
+import api from '../lib/api';
+import { ChevronLeft, TrendingUp, ArrowRight } from 'lucide-react';
+import clsx from 'clsx';
+
+interface LostPointsItem {
+  controlId: string;
+  ref: string;
+  objectiveEn: string;
+  source: string;
+  domainNumber: number;
+  domainName: string;
+  riskLevel: string;
+  answer: string;
+  pointsAvailable: number;
+  pointsLost: number;
+  overallGain: number;
+  domainGain: number;
+  task: { id: string; status: string; deadline: string; title: string } | null;
+}
+
+interface Explanation {
+  assessmentVersion: number;
+  overallScore: number;
+  totalPointsAvailable: number;
+  totalPointsLost: number;
+  items: LostPointsItem[];
+  byDomain: { domainNumber: number; domainName: string; pointsLost: number; overallGain: number; controlCount: number }[];
+  byRisk: { riskLevel: string; pointsLost: number; overallGain: number; controlCount: number }[];
+}
+
+const riskColors: Record<string, string> = {
+  CRITICAL: 'text-red-600', HIGH: 'text-orange-600', MEDIUM: 'text-yellow-600', LOW: 'text-blue-600',
+};
+
+export default function ScoreExplanation() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const [data, setData] = useState<Explanation | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [domainFilter, setDomainFilter] = useState<number | null>(null);
+  const [riskFilter, setRiskFilter] = useState<string | null>(null);
+
+  useEffect(() => {
+    api.get(`/assessments/${id}/score-explanation`).then(r => {
+      setData(r.data);
+      setLoading(false);
+    }).catch(() => setLoading(false));
+  }, [id]);
+
+  if (loading) {
+    return <div className="flex items-center justify-center h-64"><div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600" /></div>;
+  }
+  if (!data) {
+    return <p className="text-gray-500">Score explanation is not available for this assessment.</p>;
+  }
+
+  const items = data.items.filter(i =>
+    (domainFilter == null || i.domainNumber === domainFilter) && (riskFilter == null || i.riskLevel === riskFilter)
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-3">
+        <button onClick={() => navigate(-1)} className="p-2 rounded-lg hover:bg-gray-100">
+          <ChevronLeft className="w-5 h-5" />
+        </button>
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Where Points Were Lost</h1>
+          <p className="text-sm text-gray-500">
+            Assessment v{data.assessmentVersion} · {Math.round(data.overallScore)}% · {data.totalPointsLost} of {data.totalPointsAvailable} weighted points lost
+          </p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="bg-white rounded-xl border border-gray-200 p-5">
+          <h3 className="font-semibold text-gray-900 mb-3">By domain</h3>
+          <div className="space-y-1">
+            {data.byDomain.map(d => (
+              <button key={d.domainNumber} onClick={() => setDomainFilter(domainFilter === d.domainNumber ? null : d.domainNumber)}
+                className={clsx('w-full flex justify-between px-2 py-1.5 rounded text-sm text-left',
+                  domainFilter === d.domainNumber ? 'bg-primary-50 text-primary-700' : 'hover:bg-gray-50 text-gray-700')}>
+                <span className="truncate">D{d.domainNumber}. {d.domainName}</span>
+                <span className="shrink-0 ml-2 text-gray-500">{d.controlCount} · <span className="font-semibold text-green-700">+{d.overallGain}%</span></span>
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="bg-white rounded-xl border border-gray-200 p-5">
+          <h3 className="font-semibold text-gray-900 mb-3">By risk level</h3>
+          <div className="space-y-1">
+            {data.byRisk.map(r => (
+              <button key={r.riskLevel} onClick={() => setRiskFilter(riskFilter === r.riskLevel ? null : r.riskLevel)}
+                className={clsx('w-full flex justify-between px-2 py-1.5 rounded text-sm text-left',
+                  riskFilter === r.riskLevel ? 'bg-primary-50 text-primary-700' : 'hover:bg-gray-50 text-gray-700')}>
+                <span className={clsx('font-semibold', riskColors[r.riskLevel])}>{r.riskLevel}</span>
+                <span className="text-gray-500">{r.controlCount} controls · {r.pointsLost} pts · <span className="font-semibold text-green-700">+{r.overallGain}%</span></span>
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl border border-gray-200">
+        <div className="flex items-center gap-2 p-5 border-b border-gray-200">
+          <TrendingUp className="w-5 h-5 text-primary-600" />
+          <h3 className="font-semibold text-gray-900">Biggest wins</h3>
+          <span className="text-sm text-gray-400">({items.length})</span>
+        </div>
+        <div className="divide-y divide-gray-100">
+          {items.map((item, idx) => (
+            <div key={item.controlId} className="flex items-start gap-4 p-4">
+              <span className="text-sm font-semibold text-gray-400 w-6 text-right">{idx + 1}</span>
+              <div className="flex-1 min-w-0">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className={clsx('text-xs font-bold', riskColors[item.riskLevel])}>{item.riskLevel}</span>
+                  <span className="font-medium text-gray-900">{item.ref} — {item.controlId}</span>
+                  <span className="text-xs bg-gray-100 text-gray-600 px-2 py-0.5 rounded">{item.answer}</span>
+                  <span className="text-xs text-gray-400">D{item.domainNumber}</span>
+                </div>
+                <p className="text-sm text-gray-600 mt-1 line-clamp-2">{item.objectiveEn}</p>
+                {item.task ? (
+                  <Link to={`/remediation?task=${item.task.id}`} className="inline-flex items-center gap-1 text-xs text-primary-600 hover:underline mt-1">
+                    Remediation task · {item.task.status.replace('_', ' ')} · due {new Date(item.task.deadline).toLocaleDateString()}
+                    <ArrowRight className="w-3 h-3" />
+                  </Link>
+                ) : (
+                  <p className="text-xs text-gray-400 mt-1">No open remediation task</p>
+                )}
+              </div>
+              <div className="text-right shrink-0">
+                <p className="text-lg font-bold text-green-700">+{item.overallGain}%</p>
+                <p className="text-xs text-gray-500">{item.pointsLost} pts · domain +{item.domainGain}%</p>
+              </div>
+            </div>
+          ))}
+          {items.length === 0 && <p className="p-6 text-sm text-gray-500 text-center">No points lost in this selection.</p>}
+        </div>
+      </div>
+    </div>
+  );
+}